@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "MatchmakingQueueEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "deckId" TEXT NOT NULL,
+    "modeCode" TEXT NOT NULL,
+    "queueKey" TEXT NOT NULL,
+    "eventId" TEXT,
+    "pointersJson" JSONB NOT NULL DEFAULT '{}',
+    "rating" INTEGER NOT NULL DEFAULT 1500,
+    "status" TEXT NOT NULL DEFAULT 'WAITING',
+    "gateJson" JSONB NOT NULL DEFAULT '{}',
+    "gameId" TEXT,
+    "seat" INTEGER,
+    "enqueuedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "MatchmakingQueueEntry_status_queueKey_idx" ON "MatchmakingQueueEntry"("status", "queueKey");
+
+-- CreateIndex
+CREATE INDEX "MatchmakingQueueEntry_userId_status_idx" ON "MatchmakingQueueEntry"("userId", "status");
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "CompetitorRating" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ratingKey" TEXT NOT NULL,
+    "competitorId" TEXT NOT NULL,
+    "rating" REAL NOT NULL,
+    "rd" REAL NOT NULL,
+    "matches" INTEGER NOT NULL DEFAULT 0,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "draws" INTEGER NOT NULL DEFAULT 0,
+    "lastMatchId" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "RatingHistoryEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ratingKey" TEXT NOT NULL,
+    "competitorId" TEXT NOT NULL,
+    "opponentId" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "artifactId" TEXT NOT NULL,
+    "score" REAL NOT NULL,
+    "ratingBefore" REAL NOT NULL,
+    "rdBefore" REAL NOT NULL,
+    "ratingAfter" REAL NOT NULL,
+    "rdAfter" REAL NOT NULL,
+    "matchNumber" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "RatingSyncCursor" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lastCreatedAt" DATETIME,
+    "lastArtifactId" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompetitorRating_ratingKey_competitorId_key" ON "CompetitorRating"("ratingKey", "competitorId");
+
+-- CreateIndex
+CREATE INDEX "CompetitorRating_ratingKey_rating_idx" ON "CompetitorRating"("ratingKey", "rating");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatingHistoryEntry_artifactId_competitorId_key" ON "RatingHistoryEntry"("artifactId", "competitorId");
+
+-- CreateIndex
+CREATE INDEX "RatingHistoryEntry_ratingKey_competitorId_matchNumber_idx" ON "RatingHistoryEntry"("ratingKey", "competitorId", "matchNumber");
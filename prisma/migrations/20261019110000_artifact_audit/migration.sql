@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "ArtifactAuditRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "lastCreatedAt" DATETIME,
+    "lastArtifactId" TEXT,
+    "scanned" INTEGER NOT NULL DEFAULT 0,
+    "verified" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "ArtifactAuditRecord" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "artifactId" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "diffsJson" JSONB NOT NULL DEFAULT '[]',
+    "auditRecordJson" JSONB NOT NULL,
+    "auditedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ArtifactAuditRecord_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ArtifactAuditRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ArtifactAuditRun_status_startedAt_idx" ON "ArtifactAuditRun"("status", "startedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArtifactAuditRecord_runId_artifactId_key" ON "ArtifactAuditRecord"("runId", "artifactId");
+
+-- CreateIndex
+CREATE INDEX "ArtifactAuditRecord_runId_status_idx" ON "ArtifactAuditRecord"("runId", "status");
+
+-- CreateIndex
+CREATE INDEX "ArtifactAuditRecord_matchId_idx" ON "ArtifactAuditRecord"("matchId");
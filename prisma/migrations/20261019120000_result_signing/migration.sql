@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "SigningKey" (
+    "keyId" TEXT NOT NULL PRIMARY KEY,
+    "publicKeyPem" TEXT NOT NULL,
+    "privateKeyPem" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retiredAt" DATETIME
+);
+
+-- CreateTable
+CREATE TABLE "SignedRecord" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "kind" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "keyId" TEXT NOT NULL,
+    "signatureJson" JSONB NOT NULL,
+    "payloadHash" TEXT NOT NULL,
+    "signedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "SigningKey_status_createdAt_idx" ON "SigningKey"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SignedRecord_kind_subjectId_key" ON "SignedRecord"("kind", "subjectId");
+
+-- CreateIndex
+CREATE INDEX "SignedRecord_keyId_idx" ON "SignedRecord"("keyId");
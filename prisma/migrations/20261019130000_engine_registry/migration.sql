@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "EngineBindingState" (
+    "bindingId" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL,
+    "note" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "EngineAdapterMatchV1" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "matchId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "bindingId" TEXT NOT NULL,
+    "universeCode" TEXT NOT NULL,
+    "engineCode" TEXT NOT NULL,
+    "engineVersion" TEXT NOT NULL,
+    "modeCode" TEXT NOT NULL,
+    "preflightJson" JSONB NOT NULL,
+    "artifactJson" JSONB NOT NULL,
+    "deterministicHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EngineAdapterMatchV1_matchId_key" ON "EngineAdapterMatchV1"("matchId");
+
+-- CreateIndex
+CREATE INDEX "EngineAdapterMatchV1_universeCode_createdAt_idx" ON "EngineAdapterMatchV1"("universeCode", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EngineAdapterMatchV1_bindingId_idx" ON "EngineAdapterMatchV1"("bindingId");
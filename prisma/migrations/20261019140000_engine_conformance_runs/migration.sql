@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "EngineConformanceRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "kitId" TEXT NOT NULL,
+    "kitVersion" TEXT NOT NULL,
+    "engineCode" TEXT NOT NULL,
+    "engineVersion" TEXT NOT NULL,
+    "manifestPath" TEXT NOT NULL,
+    "manifestHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "resultJson" JSONB NOT NULL,
+    "suiteResultJson" JSONB NOT NULL,
+    "ranAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "EngineConformanceRun_engineCode_engineVersion_ranAt_idx" ON "EngineConformanceRun"("engineCode", "engineVersion", "ranAt");
+
+-- CreateIndex
+CREATE INDEX "EngineConformanceRun_kitId_ranAt_idx" ON "EngineConformanceRun"("kitId", "ranAt");
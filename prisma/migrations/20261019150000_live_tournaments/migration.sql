@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "Tournament" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "structure" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "organizerUserId" TEXT NOT NULL,
+    "modeCode" TEXT NOT NULL,
+    "pointersJson" JSONB NOT NULL DEFAULT '{}',
+    "configJson" JSONB NOT NULL DEFAULT '{}',
+    "scheduleJson" JSONB NOT NULL DEFAULT '[]',
+    "currentRound" INTEGER NOT NULL DEFAULT 0,
+    "roundOpen" BOOLEAN NOT NULL DEFAULT false,
+    "completedEventJson" JSONB,
+    "startedAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "TournamentRegistration" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tournamentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deckId" TEXT NOT NULL,
+    "seed" INTEGER,
+    "registeredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TournamentRegistration_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TournamentGame" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tournamentId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "slotId" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "gameId" TEXT NOT NULL,
+    "participantIdsJson" JSONB NOT NULL,
+    "artifactMatchId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TournamentGame_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Tournament_status_idx" ON "Tournament"("status");
+
+-- CreateIndex
+CREATE INDEX "Tournament_organizerUserId_idx" ON "Tournament"("organizerUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentRegistration_tournamentId_userId_key" ON "TournamentRegistration"("tournamentId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentRegistration_tournamentId_deckId_key" ON "TournamentRegistration"("tournamentId", "deckId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentGame_gameId_key" ON "TournamentGame"("gameId");
+
+-- CreateIndex
+CREATE INDEX "TournamentGame_tournamentId_round_idx" ON "TournamentGame"("tournamentId", "round");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentGame_tournamentId_slotId_key" ON "TournamentGame"("tournamentId", "slotId");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Tournament" ADD COLUMN "decklistsPublishedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "TournamentRegistration" ADD COLUMN "deckSnapshotJson" JSONB;
+ALTER TABLE "TournamentRegistration" ADD COLUMN "deckSnapshotHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "TournamentRegistration_deckId_idx" ON "TournamentRegistration"("deckId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TournamentGame" ADD COLUMN "reportedResultJson" JSONB;
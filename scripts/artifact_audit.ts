@@ -0,0 +1,33 @@
+// scripts/artifact_audit.ts
+// Bulk determinism re-verification: replays every EngineMatchArtifactV1 and persists one AuditRecordV1 per artifact.
+// Resumes the open run by default; failing matches: GET /admin/audit/artifacts/failures.
+//
+// Run:
+//   npx -y tsx scripts/artifact_audit.ts [--restart] [--max=N]
+
+import { PrismaClient } from "@prisma/client";
+import { runArtifactAudit } from "../src/server/artifactAudit.gateway";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const restart = process.argv.includes("--restart");
+  const maxArg = process.argv.find((a) => a.startsWith("--max="));
+  const maxArtifacts = maxArg ? Number(maxArg.slice("--max=".length)) : undefined;
+
+  const out = await runArtifactAudit(prisma, { restart, maxArtifacts });
+  console.log(
+    `Artifact audit ${out.resumed ? "resumed" : "started"} run=${out.runId} status=${out.status} ` +
+      `audited=${out.audited} scanned=${out.scanned} verified=${out.verified} failed=${out.failed}`
+  );
+  if (out.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,38 @@
+// scripts/artifact_replayability.ts
+// Engine-compat report: which stored artifacts can no longer be replayed (no pinned engine, pointer no longer
+// resolves at the artifact's compat) or read (no upgrader chain to the target compat).
+//
+// Run:
+//   npx -y tsx scripts/artifact_replayability.ts [--target=N]
+
+import { PrismaClient } from "@prisma/client";
+import { replayabilityReport } from "../src/server/artifactAudit.gateway";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const targetArg = process.argv.find((a) => a.startsWith("--target="));
+  const targetCompat = targetArg ? Number(targetArg.slice("--target=".length)) : undefined;
+
+  const { summary, problems } = await replayabilityReport(prisma, { targetCompat });
+  console.log(
+    `Replayability (target compat ${summary.targetCompat}): total=${summary.total} ` +
+      `replayable=${summary.replayable} upgradable=${summary.upgradable}`
+  );
+  for (const [compat, b] of Object.entries(summary.byCompat)) {
+    console.log(`  compat ${compat}: total=${b.total} replayable=${b.replayable} upgradable=${b.upgradable}`);
+  }
+  for (const p of problems.slice(0, 50)) console.log(`- ${p.matchId} (${p.artifactId}): ${p.reasons.join("; ")}`);
+  if (problems.length > 50) console.log(`  ... ${problems.length - 50} more`);
+
+  if (problems.length > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,185 @@
+// scripts/canonicalJson_certify.ts
+// Canonical JSON + hash bundle certification (pure): the DeterminismV1 rule sets normalize key order, numbers and
+// unicode as declared, and every adapter artifact verifies through AuditVerifierV1 with the same bundle
+// (inputs + timeline + result) — tampering any part is caught and named.
+// Run: npx -y tsx scripts/canonicalJson_certify.ts
+
+import { verifyMatchArtifactDeterminismV1 } from "../src/contracts/gameplay/v1/AuditVerifierV1";
+import { BoBAEngineAdapterV1 } from "../src/contracts/gameplay/v1/BoBAEngineAdapterV1";
+import {
+  bundleHashAlgoV1,
+  canonicalJsonV1,
+  djb2HexV1,
+  hashArtifactV1,
+} from "../src/contracts/gameplay/v1/CanonicalJsonV1";
+import type { EngineAdapterV1 } from "../src/contracts/gameplay/v1/EngineAdapterV1";
+import { InProcessMockEngineAdapterV1 } from "../src/contracts/gameplay/v1/InProcessMockEngineAdapterV1";
+import type { JSONObject, MatchArtifactV1 } from "../src/contracts/gameplay/v1/MatchArtifactV1";
+
+const CASES = 40;
+
+function throwsCode(fn: () => unknown): string {
+  try {
+    fn();
+    return "";
+  } catch (e: any) {
+    return String(e?.message ?? "").split(":")[0];
+  }
+}
+
+async function produce(adapter: EngineAdapterV1, i: number): Promise<MatchArtifactV1> {
+  const base = { universeCode: "UNIV_CERT", engineCode: "CERT_ENGINE", engineVersion: "0.0.1", modeCode: "ROOKIE" };
+  const participants = [
+    { participantId: `P_B_${i}`, extra: { name: "Zoë" } as JSONObject },
+    { participantId: `P_A_${i}` },
+  ];
+  const matchId = `M_CANON_${i}`;
+  const seed = `seed-canon-${i}`;
+  const inputs = { participants, ruleSet: { coins: 1, label: "Café" } } as unknown as JSONObject;
+
+  const init = await adapter.createMatch({ ...base, matchId, participants, seed, inputs });
+  if (!init.ok || init.state === undefined) throw new Error(`createMatch failed for case ${i}`);
+  const run = await adapter.runMatch({ ...base, matchId, seed, state: init.state, inputs });
+  if (!run.ok || !run.outputs) throw new Error(`runMatch failed for case ${i}`);
+  return adapter.produceArtifact({ ...base, matchId, seed, participants, inputs, outputs: run.outputs });
+}
+
+async function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  // --- Rule sets
+  const sorted = "stable-json:v1+sorted-keys" as const;
+  expect(canonicalJsonV1({ b: 1, a: { d: 2, c: 3 } }, sorted) === `{"a":{"c":3,"d":2},"b":1}`, "keys sorted recursively");
+  expect(canonicalJsonV1({ b: 1, a: 2 }, "stable-json:v1") === `{"b":1,"a":2}`, "stable-json:v1 keeps insertion order");
+  expect(canonicalJsonV1({ B: 1, a: 2, _: 3 }, sorted) === `{"B":1,"_":3,"a":2}`, "keys sorted by UTF-16 code unit");
+  expect(canonicalJsonV1([3, 1, 2], sorted) === "[3,1,2]", "arrays keep order under sorted-keys");
+  expect(
+    canonicalJsonV1([{ k: 2 }, { k: 1 }, "x"], "stable-json:v1+sorted-keys+sorted-arrays") === `["x",{"k":1},{"k":2}]`,
+    "sorted-arrays orders elements by canonical text"
+  );
+  expect(canonicalJsonV1({ z: -0, f: 1.5, e: 1e21, i: 10 }) === `{"e":1e+21,"f":1.5,"i":10,"z":0}`, "number normalization");
+  expect(canonicalJsonV1({ a: undefined, b: [undefined, 1] }) === `{"b":[null,1]}`, "undefined omitted / null in arrays");
+  expect(canonicalJsonV1("e\u0301") === canonicalJsonV1("\u00e9"), "strings NFC-normalized");
+  expect(canonicalJsonV1({ "e\u0301": 1 }) === `{"\u00e9":1}`, "keys NFC-normalized");
+  expect(canonicalJsonV1({ s: "\ud83c\udfc6" }) === `{"s":"\ud83c\udfc6"}`, "surrogate pairs kept");
+  expect(canonicalJsonV1({ at: new Date(0) }) === `{"at":"1970-01-01T00:00:00.000Z"}`, "toJSON honoured");
+
+  expect(throwsCode(() => canonicalJsonV1({ n: NaN })) === "CANONICAL_JSON_NON_FINITE", "NaN rejected");
+  expect(throwsCode(() => canonicalJsonV1([Infinity])) === "CANONICAL_JSON_NON_FINITE", "Infinity rejected");
+  expect(throwsCode(() => canonicalJsonV1("a\ud800b")) === "CANONICAL_JSON_LONE_SURROGATE", "lone surrogate rejected");
+  expect(
+    throwsCode(() => canonicalJsonV1({ "\u00e9": 1, "e\u0301": 2 })) === "CANONICAL_JSON_DUPLICATE_KEY",
+    "keys colliding after NFC rejected"
+  );
+  expect(throwsCode(() => canonicalJsonV1({ n: BigInt(1) })) === "CANONICAL_JSON_UNSUPPORTED", "bigint rejected");
+  expect(throwsCode(() => canonicalJsonV1(undefined)) === "CANONICAL_JSON_UNSUPPORTED", "top-level undefined rejected");
+  const cyclic: any = { a: 1 };
+  cyclic.self = cyclic;
+  expect(throwsCode(() => canonicalJsonV1(cyclic)) === "CANONICAL_JSON_CYCLE", "cycle rejected");
+  const shared = { x: 1 };
+  expect(canonicalJsonV1({ a: shared, b: shared }) === `{"a":{"x":1},"b":{"x":1}}`, "shared (non-cyclic) refs allowed");
+  expect(throwsCode(() => canonicalJsonV1({}, "stable-json:v2" as any)) === "CANONICAL_JSON_UNKNOWN_RULE_SET", "unknown rule set");
+
+  // --- Adapters + verifier share the bundle
+  const adapters: Array<[string, EngineAdapterV1]> = [
+    ["mock", new InProcessMockEngineAdapterV1()],
+    ["boba", new BoBAEngineAdapterV1()],
+  ];
+
+  for (const [name, adapter] of adapters) {
+    for (let i = 1; i <= CASES; i++) {
+      const a = await produce(adapter, i);
+      const again = await produce(adapter, i);
+      const tag = `${name} case ${i}`;
+
+      expect(a.deterministicHash.value === again.deterministicHash.value, `${tag}: hash not reproducible`);
+      expect(!!a.deterministicHash.components, `${tag}: components missing`);
+      expect(verifyMatchArtifactDeterminismV1({ artifact: a }).status === "VERIFIED", `${tag}: not VERIFIED`);
+
+      const reordered = { ...a, participants: a.participants.slice().reverse() };
+      expect(hashArtifactV1(reordered).value === a.deterministicHash.value, `${tag}: participant order leaked into hash`);
+
+      const timelineTamper: MatchArtifactV1 = JSON.parse(JSON.stringify(a));
+      timelineTamper.timeline[timelineTamper.timeline.length - 1].at = "2000-01-01T00:00:00.000Z";
+      const t = verifyMatchArtifactDeterminismV1({ artifact: timelineTamper });
+      expect(
+        t.status === "HASH_MISMATCH" && JSON.stringify((t.comparison?.extra as any)?.mismatchedParts) === `["timeline"]`,
+        `${tag}: timeline tamper not named (${t.status})`
+      );
+
+      const resultTamper: MatchArtifactV1 = JSON.parse(JSON.stringify(a));
+      resultTamper.result.outcomeFlags = ["FORFEIT"];
+      const r = verifyMatchArtifactDeterminismV1({ artifact: resultTamper });
+      expect(
+        r.status === "HASH_MISMATCH" && JSON.stringify((r.comparison?.extra as any)?.mismatchedParts) === `["result"]`,
+        `${tag}: result tamper not named (${r.status})`
+      );
+
+      const headerTamper: MatchArtifactV1 = JSON.parse(JSON.stringify(a));
+      headerTamper.header.matchId = `${a.header.matchId}_X`;
+      expect(verifyMatchArtifactDeterminismV1({ artifact: headerTamper }).status === "HASH_MISMATCH", `${tag}: header tamper`);
+
+      // A different declared rule set is honoured, not assumed.
+      const resorted = { ...a, deterministicHash: hashArtifactV1(a, "stable-json:v1+sorted-keys+sorted-arrays") };
+      expect(resorted.deterministicHash.algo === bundleHashAlgoV1("stable-json:v1+sorted-keys+sorted-arrays"), `${tag}: algo label`);
+      expect(verifyMatchArtifactDeterminismV1({ artifact: resorted }).status === "VERIFIED", `${tag}: alt rule set`);
+    }
+  }
+
+  // Legacy labels: hashed by the pre-bundle adapters (JSON.stringify over sorted keys), still verifiable.
+  const sortedJson = (v: any): string =>
+    JSON.stringify(v, (_k, x) =>
+      x && typeof x === "object" && !Array.isArray(x) ? Object.fromEntries(Object.keys(x).sort().map((k) => [k, x[k]])) : x
+    );
+  const legacyOf = (a: MatchArtifactV1, timeline?: unknown) => ({
+    seed: a.seed,
+    participants: a.participants.map((p) => p.participantId).sort(),
+    inputsDigest: a.inputsDigest.value,
+    result: {
+      winnerParticipantId: a.result.winnerParticipantId,
+      scoresByParticipantId: a.result.scoresByParticipantId,
+      outcomeFlags: a.result.outcomeFlags,
+    },
+    ...(timeline === undefined ? {} : { timeline }),
+  });
+  const legacyCases: Array<[string, (a: MatchArtifactV1) => unknown]> = [
+    ["noncrypto-djb2:bundle:v1", (a) => legacyOf(a)],
+    ["noncrypto-djb2:stable-json-sortedkeys:v1", (a) => legacyOf(a)],
+    ["noncrypto-djb2:inputsDigest+result+timeline:v1", (a) => legacyOf(a, a.timeline)],
+    ["noncrypto-djb2:inputsDigest+result+timeline:v1", (a) => legacyOf(a, null)],
+  ];
+  for (const [algo, bundleOf] of legacyCases) {
+    const legacy = await produce(adapters[0][1], 1);
+    legacy.deterministicHash = { algo, value: djb2HexV1(sortedJson(bundleOf(legacy))) };
+    expect(verifyMatchArtifactDeterminismV1({ artifact: legacy }).status === "VERIFIED", `legacy ${algo} verifies`);
+
+    const tampered: MatchArtifactV1 = JSON.parse(JSON.stringify(legacy));
+    tampered.result.winnerParticipantId = "P_TAMPERED";
+    expect(verifyMatchArtifactDeterminismV1({ artifact: tampered }).status === "HASH_MISMATCH", `legacy ${algo} tamper`);
+  }
+
+  const unknown = await produce(adapters[0][1], 1);
+  unknown.deterministicHash = { algo: "sha256:somewhere-else:v1", value: unknown.deterministicHash.value };
+  const unknownAudit = verifyMatchArtifactDeterminismV1({ artifact: unknown });
+  expect(
+    unknownAudit.status === "ERROR" && String((unknownAudit.comparison?.extra as any)?.message).startsWith("UNSUPPORTED_HASH_ALGO"),
+    "unknown algo label => ERROR"
+  );
+
+  if (failures.length > 0) {
+    console.error(`CANONICAL JSON CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exit(1);
+  }
+
+  console.log(`CANONICAL JSON CERT PASS: rule sets + ${CASES * adapters.length} adapter artifacts verify, tampering named, legacy labels verify`);
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,133 @@
+// scripts/eligibility_certify.ts
+// Ownership eligibility certification (pure, no DB): deck + holdings -> EligibilityPacketV1 -> validateDeck bridge.
+// Lots count up to qtyAvailable, listed copies never count, instances need an approved verification; ownedOnly
+// packets turn INELIGIBLE (bridge throws) on any shortfall, casual packets stay ELIGIBLE and still carry the full deck;
+// packets sign and verify as built.
+// Run: npx -y tsx scripts/eligibility_certify.ts
+
+import { EligibilityDecisionErrorV1, buildValidateDeckBridgeFromEligibilityPacketV1 } from "../src/contracts/gameplay/v1/EligibilityBridgeV1";
+import type { EligibilityPacketV1 } from "../src/contracts/gameplay/v1/EligibilityPacketV1";
+import {
+  buildDeckEligibilityPacketV1,
+  describeEligibilityShortfallV1,
+  type OwnershipHoldingsV1,
+} from "../src/eligibility/ownershipEligibility.v1";
+import { generateSigningKeyV1, signEligibilityPacketV1, verifyEligibilityPacketV1 } from "../src/signing/signing.v1";
+
+const NOW = "2026-10-19T16:00:00.000Z";
+const BINDING = { universeCode: "BOBA", engineCode: "BOBA_GAME_RUNNER", engineVersion: "1", modeCode: "ROOKIE" };
+
+const DECK = [
+  { versionKey: "CARD_A", qty: 3 },
+  { versionKey: "CARD_B", qty: 1 },
+  { versionKey: "CARD_C", qty: 1 },
+];
+
+const FULL: OwnershipHoldingsV1 = {
+  lots: [
+    { lotId: "LOT_A1", versionKey: "CARD_A", qtyAvailable: 2 },
+    { lotId: "LOT_A2", versionKey: "CARD_A", qtyAvailable: 5 },
+    { lotId: "LOT_B1", versionKey: "CARD_B", qtyAvailable: 1 },
+  ],
+  listed: [],
+  instances: [{ instanceId: "INST_C1", versionKey: "CARD_C", approvedVerificationId: "VER_1", listingId: null }],
+};
+
+function packetFor(holdings: OwnershipHoldingsV1, ownedOnly: boolean, ownerUserId: string | null = "U1"): EligibilityPacketV1 {
+  return buildDeckEligibilityPacketV1({
+    eligibilityPacketId: "ELIG_CERT",
+    issuedAtIso: NOW,
+    context: { universeCode: "BOBA", modeCode: "ROOKIE", tournamentId: "T_CERT" },
+    deck: { deckId: "D1", deckName: "Cert deck", ownerUserId, lines: DECK },
+    holdings,
+    ownedOnly,
+  });
+}
+
+function bridgeOf(packet: EligibilityPacketV1, ownedOnly: boolean) {
+  try {
+    return { bridge: buildValidateDeckBridgeFromEligibilityPacketV1({ packet, ...BINDING, options: { allowUnknown: !ownedOnly } }), code: null };
+  } catch (e: any) {
+    if (!(e instanceof EligibilityDecisionErrorV1)) throw e;
+    return { bridge: null, code: e.code };
+  }
+}
+
+async function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+  const keysOf = (p: EligibilityPacketV1) => {
+    const b = bridgeOf(p, false).bridge;
+    return b ? b.cardVersionKeys.slice().sort().join(",") : "";
+  };
+  const fullKeys = "CARD_A,CARD_A,CARD_A,CARD_B,CARD_C";
+
+  // Fully owned: every copy is an OWNERSHIP_RECORD, lots consumed in id order.
+  const owned = packetFor(FULL, true);
+  expect(owned.decision === "ELIGIBLE", "fully owned deck is ELIGIBLE");
+  expect(owned.deck.claims.every((c) => c.claimKind === "OWNERSHIP_RECORD"), "fully owned: only ownership claims");
+  expect(
+    owned.deck.claims.filter((c) => c.cardVersionKey === "CARD_A").map((c) => `${c.refs?.ownershipId}x${c.quantity}`).join(",") === "LOT_A1x2,LOT_A2x1",
+    "lots consumed in id order"
+  );
+  expect(bridgeOf(owned, true).bridge?.eligibilityDecision === "ELIGIBLE" && keysOf(owned) === fullKeys, "bridge carries the full deck");
+
+  // Listed copies do not count: the listing already took them out of qtyAvailable.
+  const listed = packetFor(
+    {
+      ...FULL,
+      lots: [{ lotId: "LOT_A1", versionKey: "CARD_A", qtyAvailable: 1 }, ...FULL.lots.filter((l) => l.versionKey !== "CARD_A")],
+      listed: [{ listingId: "LST_1", versionKey: "CARD_A", qty: 2 }],
+    },
+    true
+  );
+  expect(listed.decision === "INELIGIBLE", "listing-locked copies make an ownedOnly deck INELIGIBLE");
+  expect(listed.reasons?.[0]?.code === "CARD_LISTING_LOCKED", "reason names the listing lock");
+  expect(describeEligibilityShortfallV1(listed) === "CARD_A 1/3 owned (2 listed)", `shortfall summary (${describeEligibilityShortfallV1(listed)})`);
+  expect(bridgeOf(listed, true).code === "ELIGIBILITY_INELIGIBLE", "bridge rejects INELIGIBLE");
+
+  // Instances: listed or unverified instances do not count.
+  const instListed = packetFor({ ...FULL, instances: [{ ...FULL.instances[0], listingId: "LST_2" }] }, true);
+  expect(instListed.decision === "INELIGIBLE" && instListed.reasons?.[0]?.code === "CARD_LISTING_LOCKED", "listed instance excluded");
+  const instUnverified = packetFor({ ...FULL, instances: [{ ...FULL.instances[0], approvedVerificationId: null }] }, true);
+  expect(instUnverified.decision === "INELIGIBLE" && instUnverified.reasons?.[0]?.code === "CARD_UNVERIFIED", "unverified instance excluded");
+  const instClaim = owned.deck.claims.find((c) => c.cardVersionKey === "CARD_C");
+  expect(instClaim?.refs?.ownershipId === "INST_C1" && instClaim?.refs?.adminDecisionId === "VER_1", "instance claim cites its verification");
+
+  // Casual (not ownedOnly): ELIGIBLE, shortfall marked as self-claims, engine still sees the whole deck.
+  const casual = packetFor({ lots: [], listed: [], instances: [] }, false);
+  expect(casual.decision === "ELIGIBLE", "casual deck stays ELIGIBLE");
+  expect(casual.deck.claims.every((c) => c.claimKind === "UNVERIFIED_SELF_CLAIM"), "casual shortfall is self-claimed");
+  expect(keysOf(casual) === fullKeys, "casual bridge carries the full deck");
+  expect(packetFor({ lots: [], listed: [], instances: [] }, true).decision === "INELIGIBLE", "same deck in ownedOnly is INELIGIBLE");
+
+  // No owner: UNKNOWN under ownedOnly (bridge rejects), ELIGIBLE otherwise.
+  const ownerless = packetFor(FULL, true, null);
+  expect(ownerless.decision === "UNKNOWN" && bridgeOf(ownerless, true).code === "ELIGIBILITY_UNKNOWN", "ownerless deck is UNKNOWN");
+  expect(packetFor(FULL, false, null).decision === "ELIGIBLE", "ownerless casual deck passes");
+
+  // Packets sign/verify as built (no undefined fields leak into the canonical payload).
+  const key = generateSigningKeyV1(NOW);
+  for (const [label, p] of [["owned", owned], ["ownerless", ownerless]] as const) {
+    const signed = signEligibilityPacketV1(p, key, NOW);
+    expect(verifyEligibilityPacketV1(signed, [key]).ok, `${label}: signed packet verifies`);
+    const tampered = { ...signed, decision: "ELIGIBLE" as const, reasons: [] };
+    expect(!verifyEligibilityPacketV1(tampered, [key]).ok, `${label}: tampered packet fails`);
+  }
+
+  if (failures.length > 0) {
+    console.error(`\nELIGIBILITY CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 20)) console.error(`- ${f}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log("ELIGIBILITY CERT PASS: ownership, listing lock, verification, ownedOnly and signing checks");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,143 @@
+// scripts/engineCompat_certify.ts
+// Engine-compat migration certification (pure), simulating a bump to compat 2:
+// stored compat-1 matches still replay on the pinned engine, upgraders lift matchResult to the new shape without
+// touching the stored record, and the replayability report flags artifacts that lose their engine, upgrade path
+// or registry entry.
+// Run: npx -y tsx scripts/engineCompat_certify.ts
+
+import {
+  loadAppConfigDefault,
+  loadFormatRegistryDefault,
+  loadGameModeRegistryDefault,
+} from "../src/config/registryLoaders.v1";
+
+import {
+  ENGINE_CODE_COMPAT_VERSION,
+  upgradeMatchResultV1,
+  upgradePathV1,
+  type MatchResultUpgraderV1,
+} from "../src/engine/engineCompat.v1";
+import { replayOnceV1 } from "../src/engine/replayHarness.v1";
+import { buildPostGameBundleV1 } from "../src/postgame/postGameBundle.v1";
+import type { StoredMatchV1 } from "../src/store/matchStore.v1";
+import { replayFromStoredAndCompareV1 } from "../src/store/replayFromStore.v1";
+import { assessReplayabilityV1, summarizeReplayabilityV1 } from "../src/store/replayability.v1";
+
+const CASES = 50;
+
+// Hypothetical compat-2 shape: result.outcome replaces the winner/winReason pair.
+const UPGRADE_1_TO_2: MatchResultUpgraderV1 = {
+  fromCompat: 1,
+  toCompat: 2,
+  description: "result.outcome { winner, reason }",
+  upgrade: (mr) => ({ ...mr, result: { ...mr.result, outcome: { winner: mr.result.winner, reason: mr.result.winReason } } }),
+};
+
+function main() {
+  const appConfig = loadAppConfigDefault();
+  const formatRegistry = loadFormatRegistryDefault();
+  const gameModeRegistry = loadGameModeRegistryDefault();
+
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  const pointer = {
+    format: { formatId: "FMT_ROOKIE", formatVersion: 1 },
+    gameMode: { gameModeId: "GM_SCORED", gameModeVersion: 1 },
+  };
+  const stored: StoredMatchV1[] = [];
+  for (let i = 1; i <= CASES; i++) {
+    const matchResult = replayOnceV1({
+      inputs: { sessionId: `S_COMPAT_CERT_${i}`, matchId: `M_COMPAT_CERT_${i}`, pointer },
+      appConfig,
+      formatRegistry,
+      gameModeRegistry,
+    });
+    stored.push({
+      matchId: matchResult.matchId,
+      sessionId: matchResult.sessionId,
+      pointer,
+      snapshots: {
+        formatSnapshot: { formatId: "FMT_ROOKIE", formatVersion: 1, engineCompatVersion: matchResult.engineCompatVersion },
+        gameModeSnapshot: { gameModeId: "GM_SCORED", gameModeVersion: 1, engineCompatVersion: matchResult.engineCompatVersion },
+      },
+      matchResult,
+      insightRecord: buildPostGameBundleV1({ matchResult }).insightRecord,
+      createdAtIso: "2026-03-01T12:00:00.000Z",
+    });
+  }
+  expect(stored[0].matchResult.engineCompatVersion === ENGINE_CODE_COMPAT_VERSION, "fixtures produced at current compat");
+
+  // --- Bump: app only supports compat 2 from now on.
+  const bumped = { ...appConfig, engineSupportedCompatVersions: [2] };
+
+  let unpinnedThrew = false;
+  try {
+    replayOnceV1({
+      inputs: { sessionId: stored[0].sessionId, matchId: stored[0].matchId, pointer },
+      appConfig: bumped,
+      formatRegistry,
+      gameModeRegistry,
+    });
+  } catch (e: any) {
+    unpinnedThrew = String(e?.message ?? "").startsWith("ENGINE_COMPAT_UNSUPPORTED");
+  }
+  expect(unpinnedThrew, "unpinned replay of compat-1 match fails after the bump");
+
+  for (const s of stored) {
+    const diff = replayFromStoredAndCompareV1({ stored: s, appConfig: bumped, formatRegistry, gameModeRegistry });
+    if (!diff.ok) failures.push(`${s.matchId}: pinned replay drifted: ${diff.diffs.join("; ")}`);
+  }
+
+  // --- Upgraders
+  expect(upgradePathV1(1, 1, [])?.length === 0, "same-compat path is empty");
+  expect(upgradePathV1(1, 2, []) === null, "missing step => no path");
+  const before = JSON.stringify(stored[0].matchResult);
+  const up = upgradeMatchResultV1(stored[0].matchResult, 2, [UPGRADE_1_TO_2]) as any;
+  expect(up.engineCompatVersion === 2, "upgrade stamps target compat");
+  expect(up.result.outcome?.winner === stored[0].matchResult.result.winner, "upgrade transforms result");
+  expect(JSON.stringify(stored[0].matchResult) === before, "upgrade leaves the stored record untouched");
+  let noPath = "";
+  try {
+    upgradeMatchResultV1(stored[0].matchResult, 3, [UPGRADE_1_TO_2]);
+  } catch (e: any) {
+    noPath = String(e?.message ?? "");
+  }
+  expect(noPath.startsWith("ENGINE_COMPAT_NO_UPGRADE_PATH"), `1 -> 3 without a 2 -> 3 step: "${noPath}"`);
+
+  // --- Replayability report
+  const assess = (s: StoredMatchV1, extra: Record<string, any> = {}) =>
+    assessReplayabilityV1({ stored: s, appConfig: bumped, formatRegistry, gameModeRegistry, targetCompat: 2, ...extra });
+
+  const ok = assess(stored[0], { upgraders: [UPGRADE_1_TO_2] });
+  expect(ok.replayable && ok.upgradable && ok.reasons.length === 0, `healthy artifact: ${ok.reasons.join("; ")}`);
+
+  const noUpgrader = assess(stored[0], { upgraders: [] });
+  expect(noUpgrader.replayable && !noUpgrader.upgradable, "missing upgrader => not upgradable");
+
+  const noEngine = assess(stored[0], { engines: [], upgraders: [UPGRADE_1_TO_2] });
+  expect(!noEngine.replayable && noEngine.reasons[0]?.startsWith("NO_PINNED_ENGINE"), "dropped engine => unreplayable");
+
+  const drifted = JSON.parse(JSON.stringify(formatRegistry));
+  drifted.formats.find((f: any) => f.formatId === "FMT_ROOKIE" && f.formatVersion === 1).engineCompatVersion = 2;
+  const drift = assessReplayabilityV1({ stored: stored[0], appConfig: bumped, formatRegistry: drifted, gameModeRegistry });
+  expect(!drift.replayable && drift.reasons.some((r) => r.startsWith("POINTER_UNRESOLVED")), "registry re-pointed => unreplayable");
+
+  const items = stored.map((s, i) => assess(s, { upgraders: i % 2 === 0 ? [UPGRADE_1_TO_2] : [] }));
+  const summary = summarizeReplayabilityV1(items, 2);
+  expect(summary.total === CASES && summary.replayable === CASES, "summary counts replayable");
+  expect(summary.upgradable === CASES / 2 && summary.byCompat["1"]?.upgradable === CASES / 2, "summary counts upgradable");
+
+  if (failures.length > 0) {
+    console.error(`ENGINE COMPAT CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exit(1);
+  }
+
+  console.log(`ENGINE COMPAT CERT PASS: ${CASES}/${CASES} compat-1 matches replay pinned after bump, upgraders + report`);
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,111 @@
+// scripts/engineConformance_certify.ts
+// Engine conformance service certification (pure, no DB): shipped kit manifests (in-process + child-process) PASS;
+// the manifest hash pins the exact file; a kit declaring the wrong engine version FAILs at handshake; malformed or
+// out-of-root manifests are refused; the activation gate only opens on a latest PASS.
+// Run: npx -y tsx scripts/engineConformance_certify.ts
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { activationGateV1, readKitManifestV1, runKitConformanceV1 } from "../src/engine/engineConformance.v1";
+
+const KITS = ["kits/mockEngine.kit.json", "kits/mockEngine.process.kit.json"];
+
+async function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+  const threw = (fn: () => unknown) => {
+    try {
+      fn();
+      return "";
+    } catch (e: any) {
+      return String(e?.message ?? "");
+    }
+  };
+
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "conformance-cert-"));
+  try {
+    // --- Shipped kits
+    for (const p of KITS) {
+      const loaded = readKitManifestV1(p, { root: process.cwd() });
+      expect(/^[0-9a-f]{64}$/.test(loaded.manifestHash), `${p}: sha256 manifest hash`);
+      expect(readKitManifestV1(p).manifestHash === loaded.manifestHash, `${p}: hash stable across reads`);
+
+      const run = await runKitConformanceV1(loaded, { seed: "seed-conformance-cert" });
+      expect(run.result.status === "PASS", `${p}: PASS (${run.result.status}: ${run.result.summary})`);
+      expect(run.suiteResult.ok && run.suiteResult.summary?.failed === 0, `${p}: suite result ok`);
+      expect(run.suiteResult.engineCode === "MOCK_ENGINE" && run.suiteResult.engineVersion === "0.0.1", `${p}: suite engine identity`);
+    }
+
+    // --- Same kit, one byte different => different hash
+    const src = fs.readFileSync("kits/mockEngine.kit.json", "utf8");
+    const copy = path.join(tmp, "copy.kit.json");
+    fs.writeFileSync(copy, src + "\n");
+    expect(readKitManifestV1(copy).manifestHash !== readKitManifestV1("kits/mockEngine.kit.json").manifestHash, "hash pins file bytes");
+
+    // --- Wrong engine version: child process handshake refuses it
+    const processKit = JSON.parse(fs.readFileSync("kits/mockEngine.process.kit.json", "utf8"));
+    processKit.engine.engineVersion = "9.9.9";
+    processKit.exports.engineProcess.cwd = process.cwd();
+    const wrong = path.join(tmp, "wrong-version.kit.json");
+    fs.writeFileSync(wrong, JSON.stringify(processKit));
+    const wrongRun = await runKitConformanceV1(readKitManifestV1(wrong));
+    expect(wrongRun.result.status === "FAIL", `wrong engineVersion => FAIL (${wrongRun.result.status})`);
+    expect(
+      wrongRun.suiteResult.results.some((r) => r.testId === "engine process handshake" && !r.ok),
+      "handshake test recorded as failed"
+    );
+
+    // --- Missing adapter export
+    const inProcessKit = JSON.parse(src);
+    inProcessKit.exports.engineAdapterModule = path.resolve("src/contracts/gameplay/v1/InProcessMockEngineAdapterV1.ts");
+    inProcessKit.exports.engineAdapterExportName = "NoSuchAdapter";
+    const missing = path.join(tmp, "missing-export.kit.json");
+    fs.writeFileSync(missing, JSON.stringify(inProcessKit));
+    const missingRun = await runKitConformanceV1(readKitManifestV1(missing));
+    expect(missingRun.result.status === "FAIL" && !missingRun.suiteResult.ok, "missing export => FAIL");
+
+    // --- Refused manifests
+    const invalid = path.join(tmp, "invalid.kit.json");
+    fs.writeFileSync(invalid, JSON.stringify({ kitVersion: "BoltOnKitV1", kitId: "K" }));
+    expect(threw(() => readKitManifestV1(invalid)).startsWith("KIT_MANIFEST_INVALID"), "shape errors refused");
+    fs.writeFileSync(path.join(tmp, "broken.kit.json"), "{");
+    expect(threw(() => readKitManifestV1(path.join(tmp, "broken.kit.json"))).startsWith("KIT_MANIFEST_INVALID_JSON"), "bad JSON refused");
+    expect(threw(() => readKitManifestV1("kits/none.kit.json")).startsWith("KIT_MANIFEST_NOT_FOUND"), "missing file refused");
+    expect(threw(() => readKitManifestV1(copy, { root: process.cwd() })).startsWith("KIT_MANIFEST_OUTSIDE_ROOT"), "outside root refused");
+    expect(
+      threw(() => readKitManifestV1("../etc/passwd", { root: process.cwd() })).startsWith("KIT_MANIFEST_OUTSIDE_ROOT"),
+      "relative escape refused"
+    );
+
+    // --- Activation gate
+    const engine = { engineCode: "MOCK_ENGINE", engineVersion: "0.0.1" };
+    const g0 = activationGateV1(engine, null);
+    expect(!g0.ok && g0.code === "CONFORMANCE_NOT_RUN", "no run => closed");
+    const g1 = activationGateV1(engine, { id: "R1", status: "FAIL", ranAt: "2026-10-19T00:00:00.000Z" });
+    expect(!g1.ok && g1.code === "CONFORMANCE_NOT_PASSED", "latest FAIL => closed");
+    const g2 = activationGateV1(engine, { id: "R2", status: "ERROR", ranAt: "2026-10-19T00:00:00.000Z" });
+    expect(!g2.ok, "latest ERROR => closed");
+    const g3 = activationGateV1(engine, { id: "R3", status: "PASS", ranAt: "2026-10-19T00:00:00.000Z" });
+    expect(g3.ok && g3.runId === "R3", "latest PASS => open");
+  } finally {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+
+  if (failures.length > 0) {
+    console.error(`ENGINE CONFORMANCE CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`ENGINE CONFORMANCE CERT PASS: ${KITS.length} kits PASS, manifest hash, handshake FAIL, refusals, activation gate`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
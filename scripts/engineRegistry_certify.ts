@@ -0,0 +1,140 @@
+// scripts/engineRegistry_certify.ts
+// Engine registry certification (pure, no DB): the default config loads; universe + mode resolve to the right
+// binding; status overrides switch bindings on/off; preflight blocks before any adapter call; in-process and
+// child-process bindings of the same engine produce the same artifact hash.
+// Run: npx -y tsx scripts/engineRegistry_certify.ts
+
+import { loadEngineRegistryDefault } from "../src/config/registryLoaders.v1";
+import type { EngineAdapterV1 } from "../src/contracts/gameplay/v1/EngineAdapterV1";
+import type { IdString, JSONObject } from "../src/contracts/gameplay/v1/MatchArtifactV1";
+import { createEngineRegistryV1, runBoundMatchV1, type RuntimeEngineBindingV1 } from "../src/engine/engineRegistry.v1";
+
+const BOBA = "BIND_BOBA_BOBA_CORE_0_1_0";
+const MOCK = "BIND_UNIV_TEST_MOCK_ENGINE_0_0_1";
+const MOCK_PROCESS = "BIND_UNIV_TEST_MOCK_ENGINE_PROCESS_0_0_1";
+
+const participants = [
+  { participantId: "P1" as IdString, extra: {} as JSONObject },
+  { participantId: "P2" as IdString, extra: {} as JSONObject },
+];
+const inputs: JSONObject = { participants: [{ participantId: "P1" }, { participantId: "P2" }] };
+
+async function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  const config = loadEngineRegistryDefault();
+  const registry = createEngineRegistryV1(config);
+
+  const run = (binding: RuntimeEngineBindingV1, modeCode: string, deckTags: string[], adapter?: EngineAdapterV1) =>
+    runBoundMatchV1({
+      universes: registry.universes,
+      binding,
+      adapter: adapter ?? registry.adapterFor(binding.bindingId),
+      modeCode,
+      deckTags,
+      decks: [{ deckId: "D1", cardVersionKeys: ["CARD_A"] }],
+      matchId: "M_REGISTRY_CERT_1",
+      seed: "seed-registry-cert",
+      participants,
+      inputs,
+    });
+
+  try {
+    // --- Resolution with config statuses
+    const base = registry.lookup();
+    const boba = await base.resolveForMode("BOBA", null);
+    expect(boba.ok && boba.binding.bindingId === BOBA && boba.modeCode === "ROOKIE", "BOBA resolves to BOBA_CORE, default mode");
+    const bobaScored = await base.resolveForMode("BOBA", "SCORED");
+    expect(bobaScored.ok && bobaScored.modeCode === "SCORED", "explicit mode kept");
+    const testDisabled = await base.resolveForMode("UNIV_TEST", "ROOKIE");
+    expect(!testDisabled.ok && testDisabled.code === "BINDING_NOT_FOUND", "DISABLED bindings are not resolvable");
+    expect((await base.resolveDefaultBinding("NOPE")) === null, "unknown universe has no default binding");
+    expect((await base.listBindingsByUniverse("UNIV_TEST")).bindings.length === 2, "list includes non-active bindings");
+
+    // --- Preflight gates before the adapter is touched
+    if (boba.ok) {
+      let touched = false;
+      const spy = new Proxy(registry.adapterFor(BOBA), {
+        get(target: any, prop) {
+          if (prop === "validateDeck") touched = true;
+          return target[prop];
+        },
+      });
+      const blocked = await run(boba.binding, "ROOKIE", [], spy);
+      expect(!blocked.ok && blocked.stage === "PREFLIGHT" && blocked.preflight.violationCode === "V_DECK_MISSING_REQUIRED_TAG", "missing deck tag blocked");
+      expect(!touched, "adapter not called when preflight fails");
+
+      const badMode = await run(boba.binding, "PLAYMAKER", ["UNIVERSE:BOBA"]);
+      expect(!badMode.ok && badMode.stage === "PREFLIGHT" && badMode.preflight.violationCode === "V_MODE_NOT_ALLOWED", "unknown mode blocked");
+
+      const ok = await run(boba.binding, "ROOKIE", ["UNIVERSE:BOBA"]);
+      expect(ok.ok && ok.artifact.header.engineCode === "BOBA_CORE", "BOBA match runs through BoBAEngineAdapterV1");
+    }
+
+    // --- Overrides: admin toggles
+    const mockOn = registry.lookup({ [MOCK]: "ACTIVE" });
+    const mock = await mockOn.resolveForMode("UNIV_TEST", "ROOKIE");
+    expect(mock.ok && mock.binding.bindingId === MOCK, "override ACTIVE makes the mock binding resolvable");
+    const bobaOff = await registry.lookup({ [BOBA]: "DISABLED" }).resolveForMode("BOBA", "ROOKIE");
+    expect(!bobaOff.ok, "override DISABLED removes BOBA binding");
+    const deprecated = await registry.lookup({ [BOBA]: "DEPRECATED" }).getBindingById(BOBA as IdString);
+    expect(deprecated?.status === "DEPRECATED", "getBindingById reports effective status");
+    expect(registry.bindings.find((b) => b.bindingId === BOBA)?.status === "ACTIVE", "config bindings are not mutated");
+
+    // --- Same engine in-process vs child process
+    const both = registry.lookup({ [MOCK]: "ACTIVE", [MOCK_PROCESS]: "ACTIVE" });
+    const preferred = await both.resolveForMode("UNIV_TEST", "ROOKIE");
+    expect(preferred.ok && preferred.binding.bindingId === MOCK, "lower precedence wins");
+
+    const onlyProcess = await registry.lookup({ [MOCK_PROCESS]: "ACTIVE" }).resolveForMode("UNIV_TEST", "ROOKIE");
+    expect(onlyProcess.ok && onlyProcess.binding.bindingId === MOCK_PROCESS, "child-process binding resolves");
+
+    if (mock.ok && onlyProcess.ok) {
+      const a = await run(mock.binding, "ROOKIE", []);
+      const b = await run(onlyProcess.binding, "ROOKIE", []);
+      expect(a.ok && b.ok, `both mock bindings run (${!b.ok ? JSON.stringify((b as any).errors ?? (b as any).preflight) : "ok"})`);
+      if (a.ok && b.ok) {
+        expect(a.artifact.deterministicHash.value === b.artifact.deterministicHash.value, "in-process and child-process hashes match");
+      }
+      const forbidden = await run(mock.binding, "ROOKIE", ["UNIVERSE:BOBA"]);
+      expect(!forbidden.ok && forbidden.stage === "PREFLIGHT", "BOBA-tagged deck refused in UNIV_TEST");
+    }
+
+    // --- Config errors
+    const bad = (mutate: (c: any) => void) => {
+      const c = JSON.parse(JSON.stringify(config));
+      mutate(c);
+      try {
+        createEngineRegistryV1(c);
+        return "";
+      } catch (e: any) {
+        return String(e?.message ?? "");
+      }
+    };
+    expect(bad((c) => (c.bindings[0].adapter.adapterId = "Nope")).startsWith("CONFIG_UNKNOWN_ENGINE_ADAPTER"), "unknown adapter rejected");
+    expect(bad((c) => c.universeIntegrationIds.push("UNIV_X")).startsWith("CONFIG_UNKNOWN_UNIVERSE_INTEGRATION"), "unknown integration rejected");
+    expect(
+      bad((c) => (c.universeIntegrationIds = ["UNIV_INTEGRATION_BOBA_V1"])).startsWith("CONFIG_BINDING_UNIVERSE_NOT_LOADED"),
+      "binding to unloaded universe rejected"
+    );
+  } finally {
+    registry.close();
+  }
+
+  if (failures.length > 0) {
+    console.error(`ENGINE REGISTRY CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log("ENGINE REGISTRY CERT PASS: resolution, status overrides, preflight gate, in-process/child-process parity");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
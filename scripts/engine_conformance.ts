@@ -0,0 +1,43 @@
+// scripts/engine_conformance.ts
+// Certify a bolt-on engine kit: run the conformance suite against a BoltOnKitV1 manifest and persist the result
+// (EngineConformanceRun) with the kit version + manifest hash. Exit code 1 unless PASS.
+//
+// Run:
+//   npx -y tsx scripts/engine_conformance.ts <manifestPath> [--seed=S]
+
+import { PrismaClient } from "@prisma/client";
+import { runEngineConformance } from "../src/server/engineConformance.gateway";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const manifestPath = process.argv.slice(2).find((a) => !a.startsWith("--"));
+  if (!manifestPath) {
+    console.error("usage: tsx scripts/engine_conformance.ts <manifestPath> [--seed=S]");
+    process.exitCode = 2;
+    return;
+  }
+  const seedArg = process.argv.find((a) => a.startsWith("--seed="));
+  const seed = seedArg ? seedArg.slice("--seed=".length) : undefined;
+
+  const out = await runEngineConformance(prisma, { manifestPath, seed });
+  const s = out.suiteResult.summary;
+  console.log(
+    `Conformance ${out.run.status} run=${out.run.id} kit=${out.run.kitId} ` +
+      `engine=${out.run.engineCode}@${out.run.engineVersion} manifest=sha256:${out.run.manifestHash.slice(0, 16)} ` +
+      `tests=${s?.passed ?? 0}/${s?.total ?? 0}`
+  );
+  for (const r of out.suiteResult.results.filter((t) => !t.ok)) {
+    console.log(`- ${r.testId}: ${r.errors?.[0]?.message ?? "failed"}`);
+  }
+  if (out.run.status !== "PASS") process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,6 +1,9 @@
 // scripts/engine_core_validate.ts
 import { newEngine } from "../src/engine/MatchState";
 import { makeEvent } from "../src/engine/events";
+import { collectTurnTimeouts, TURN_TIMEOUT_EVENT } from "../src/engine/turnTimer";
+import { projectEventsForViewer, projectStateForViewer, seatViewer, SPECTATOR } from "../src/engine/views";
+import { supersededSeqs } from "../src/engine/takeback";
 
 const gameId = "G_TEST";
 const engine = newEngine({ modeCode: "ROOKIE", seats: [1, 2] });
@@ -27,9 +30,195 @@ if (!ok) {
   process.exit(1);
 }
 
+// Views: seat 2's unrevealed zone is hidden from seat 1 and spectators, visible to seat 2; revealed zone 0 is public.
+const hiddenEvents = [
+  ...events,
+  makeEvent({ gameId, seq: 6, action: { type: "ROOKIE_PLACE", payload: { seat: 2, zoneIndex: 1, placement: { versionKey: "HERO_Y" } } }, at: "1970-01-01T00:00:00.000Z" }),
+];
+const hiddenState = engine.replay(hiddenEvents);
+const asSeat1 = projectStateForViewer("ROOKIE", hiddenState, seatViewer(1));
+const asSeat2 = projectStateForViewer("ROOKIE", hiddenState, seatViewer(2));
+const asSpectator = projectStateForViewer("ROOKIE", hiddenState, SPECTATOR);
+const seat1Events = projectEventsForViewer("ROOKIE", hiddenEvents, hiddenState, seatViewer(1));
+
+const viewsOk =
+  (asSeat1.rookie?.placements?.["2"]?.["1"] as any)?.redacted === true &&
+  (asSpectator.rookie?.placements?.["2"]?.["1"] as any)?.redacted === true &&
+  (asSpectator.rookie?.placements?.["1"]?.["0"] as any)?.versionKey === "HERO_X" &&
+  (asSeat2.rookie?.placements?.["2"]?.["1"] as any)?.versionKey === "HERO_Y" &&
+  !JSON.stringify(seat1Events).includes("HERO_Y") &&
+  JSON.stringify(seat1Events).includes("HERO_X") &&
+  (hiddenState.rookie?.placements?.["2"]?.["1"] as any)?.versionKey === "HERO_Y";
+
+if (!viewsOk) {
+  console.error("FAIL", JSON.stringify({ asSeat1, asSpectator, seat1Events }, null, 2));
+  process.exit(1);
+}
+
+// Takeback: seat 1 asks to go back to seq 5; approval supersedes seqs 6-7 without deleting them.
+const tbEvents = [
+  ...hiddenEvents,
+  makeEvent({ gameId, seq: 7, action: { type: "TAKEBACK_REQUEST", payload: { seat: 1, toSeq: 5 } }, at: "1970-01-01T00:00:00.000Z" }),
+];
+const tbPending = engine.replay(tbEvents);
+const tbDeclined = engine.replay([
+  ...tbEvents,
+  makeEvent({ gameId, seq: 8, action: { type: "TAKEBACK_DECLINED", payload: { seat: 2, requestSeq: 7 } }, at: "1970-01-01T00:00:00.000Z" }),
+]);
+const tbApprovedEvents = [
+  ...tbEvents,
+  makeEvent({ gameId, seq: 8, action: { type: "TAKEBACK", payload: { toSeq: 5, requestSeq: 7, requestedBySeat: 1, approvedBySeat: 2 } }, at: "1970-01-01T00:00:00.000Z" }),
+];
+const tbApproved = engine.replay(tbApprovedEvents);
+
+const takebackOk =
+  tbPending.takeback?.pending?.toSeq === 5 &&
+  tbPending.takeback?.pending?.requestSeq === 7 &&
+  tbDeclined.takeback?.pending === null &&
+  (tbDeclined.rookie?.placements?.["2"]?.["1"] as any)?.versionKey === "HERO_Y" &&
+  tbApproved.rookie?.placements?.["2"] === undefined &&
+  (tbApproved.rookie?.placements?.["1"]?.["0"] as any)?.versionKey === "HERO_X" &&
+  !tbApproved.takeback?.pending &&
+  JSON.stringify(tbApproved) === JSON.stringify(state) &&
+  JSON.stringify(supersededSeqs(tbApprovedEvents)) === JSON.stringify([6, 7]);
+
+if (!takebackOk) {
+  console.error("FAIL", JSON.stringify({ tbPending, tbDeclined, tbApproved }, null, 2));
+  process.exit(1);
+}
+
+// ROOKIE lifecycle: scoring (and re-scoring) keeps the match open; ROOKIE_END closes it with the reward claimable.
+const scoreEvents = [
+  ...events,
+  makeEvent({ gameId, seq: 6, action: { type: "ROOKIE_SCORE_MATCH", payload: { winnerSeat: 2 } }, at: "1970-01-01T00:00:00.000Z" }),
+  makeEvent({ gameId, seq: 7, action: { type: "ROOKIE_SCORE_MATCH", payload: { winnerSeat: 1 } }, at: "1970-01-01T00:00:00.000Z" }),
+];
+const scored = engine.replay(scoreEvents);
+const ended = engine.replay([
+  ...scoreEvents,
+  makeEvent({ gameId, seq: 8, action: { type: "ROOKIE_END", payload: { winnerSeat: 1 } }, at: "1970-01-01T00:00:00.000Z" }),
+]);
+
+const rookieEndOk =
+  scored.status === "ACTIVE" &&
+  !scored.matchEnd &&
+  scored.rookie?.phase === "ENDED" &&
+  (scored.rookie?.results as any)?.winnerSeat === 1 &&
+  ended.status === "CLOSED" &&
+  ended.matchEnd?.winnerSeat === 1 &&
+  ended.matchEnd?.reason === "ROOKIE_END" &&
+  ended.rookie?.rewardEligible === true &&
+  ended.rookie?.end?.winnerSeat === 1;
+
+if (!rookieEndOk) {
+  console.error("FAIL", JSON.stringify({ scored, ended }, null, 2));
+  process.exit(1);
+}
+
+// SUBSTITUTION overlay: lineups, one swap, end.
+const subGameId = "G_TEST_SUB";
+const subEngine = newEngine({ modeCode: "SUBSTITUTION", seats: [1, 2] });
+const at = "1970-01-01T00:00:00.000Z";
+
+const subEvents = [
+  makeEvent({ gameId: subGameId, seq: 1, action: { type: "START" }, at }),
+  makeEvent({ gameId: subGameId, seq: 2, action: { type: "SUBSTITUTION_SET_LINEUP", payload: { seat: 1, lineup: { "0": "HERO_A" }, bench: ["HERO_B"] } }, at }),
+  makeEvent({ gameId: subGameId, seq: 3, action: { type: "SUBSTITUTION_SET_LINEUP", payload: { seat: 2, lineup: { "0": "HERO_C" }, bench: [] } }, at }),
+  makeEvent({ gameId: subGameId, seq: 4, action: { type: "SUBSTITUTION_SWAP", payload: { seat: 1, zoneIndex: 0, benchIndex: 0 } }, at }),
+  makeEvent({ gameId: subGameId, seq: 5, action: { type: "SUBSTITUTION_END", payload: { winnerSeat: 1 } }, at }),
+];
+
+const subState = subEngine.replay(subEvents);
+
+const subOk =
+  subState.status === "CLOSED" &&
+  subState.matchEnd?.winnerSeat === 1 &&
+  subState.substitution?.phase === "ENDED" &&
+  subState.substitution?.lineups?.["1"]?.["0"] === "HERO_B" &&
+  subState.substitution?.bench?.["1"]?.[0] === "HERO_A" &&
+  subState.substitution?.subsUsed?.["1"] === 1;
+
+if (!subOk) {
+  console.error("FAIL", subState);
+  process.exit(1);
+}
+
+// PLAYMAKER overlay: two battles, PLAY cards swing the second; replay must be stable.
+const pmGameId = "G_TEST_PM";
+const pmEngine = newEngine({ modeCode: "PLAYMAKER", seats: [1, 2] });
+
+const pmEvents = [
+  makeEvent({ gameId: pmGameId, seq: 1, action: { type: "START" }, at }),
+  makeEvent({ gameId: pmGameId, seq: 2, action: { type: "PLAYMAKER_COMMIT_HERO", payload: { seat: 1, versionKey: "HERO_A", power: 120 } }, at }),
+  makeEvent({ gameId: pmGameId, seq: 3, action: { type: "PLAYMAKER_COMMIT_HERO", payload: { seat: 2, versionKey: "HERO_C", power: 100 } }, at }),
+  makeEvent({ gameId: pmGameId, seq: 4, action: { type: "PLAYMAKER_RESOLVE_BATTLE" }, at }),
+  makeEvent({ gameId: pmGameId, seq: 5, action: { type: "PLAYMAKER_COMMIT_HERO", payload: { seat: 1, versionKey: "HERO_A", power: 120 } }, at }),
+  makeEvent({ gameId: pmGameId, seq: 6, action: { type: "PLAYMAKER_COMMIT_HERO", payload: { seat: 2, versionKey: "HERO_C", power: 100 } }, at }),
+  makeEvent({ gameId: pmGameId, seq: 7, action: { type: "PLAYMAKER_PLAY", payload: { seat: 2, versionKey: "PLAY_BOOST", effect: { kind: "POWER_BOOST", amount: 15 } } }, at }),
+  makeEvent({ gameId: pmGameId, seq: 8, action: { type: "PLAYMAKER_PLAY", payload: { seat: 2, versionKey: "PLAY_DRAIN", effect: { kind: "POWER_DRAIN", amount: 10 } } }, at }),
+  makeEvent({ gameId: pmGameId, seq: 9, action: { type: "PLAYMAKER_RESOLVE_BATTLE" }, at }),
+];
+
+const pmState = pmEngine.replay(pmEvents);
+const pmStateAgain = pmEngine.replay([...pmEvents].reverse());
+
+const pmOk =
+  pmState.playmaker?.phase === "MATCH" &&
+  pmState.playmaker?.battleIndex === 3 &&
+  pmState.playmaker?.chips?.["1"] === 1 &&
+  pmState.playmaker?.chips?.["2"] === 1 &&
+  (pmState.playmaker?.battles?.[1] as any)?.powerFinal?.["2"] === 115 &&
+  (pmState.playmaker?.battles?.[1] as any)?.powerFinal?.["1"] === 110 &&
+  JSON.stringify(pmState) === JSON.stringify(pmStateAgain);
+
+if (!pmOk) {
+  console.error("FAIL", JSON.stringify(pmState, null, 2));
+  process.exit(1);
+}
+
+// Turn timer: missed deadlines become TURN_TIMEOUT events; replaying them reproduces the forfeit without a clock.
+const ttGameId = "G_TEST_TIMER";
+const ttEngine = newEngine({ modeCode: "ROOKIE", seats: [1, 2] });
+const ttStart = [makeEvent({ gameId: ttGameId, seq: 1, action: { type: "START" }, at })];
+const ttLive = ttEngine.replay(ttStart);
+
+const ttEarly = collectTurnTimeouts(ttLive, "1970-01-01T00:01:59.000Z", [1, 2]);
+const ttOne = collectTurnTimeouts(ttLive, "1970-01-01T00:02:00.000Z", [1, 2]);
+const ttAbandoned = collectTurnTimeouts(ttLive, "1970-01-02T00:00:00.000Z", [1, 2]);
+
+const ttEvents = [
+  ...ttStart,
+  ...ttAbandoned.timeouts.map((t, i) =>
+    makeEvent({ gameId: ttGameId, seq: 2 + i, action: { type: TURN_TIMEOUT_EVENT, payload: t }, at })
+  ),
+];
+const ttReplayed = ttEngine.replay(ttEvents);
+
+const ttOk =
+  ttEarly.timeouts.length === 0 &&
+  ttOne.timeouts.length === 1 &&
+  ttOne.timeouts[0].resolution === "END_TURN" &&
+  ttOne.state.activeSeat === 2 &&
+  ttOne.state.timer?.deadlineAt === "1970-01-01T00:04:00.000Z" &&
+  ttAbandoned.timeouts.length === 5 &&
+  ttAbandoned.timeouts[4].resolution === "FORFEIT" &&
+  ttAbandoned.timeouts[4].seat === 1 &&
+  ttReplayed.status === "CLOSED" &&
+  ttReplayed.matchEnd?.winnerSeat === 2 &&
+  ttReplayed.matchEnd?.reason === "TURN_TIMEOUT_FORFEIT" &&
+  JSON.stringify(ttReplayed.timer) === JSON.stringify(ttAbandoned.state.timer);
+
+if (!ttOk) {
+  console.error("FAIL", JSON.stringify({ ttOne, ttAbandoned, ttReplayed }, null, 2));
+  process.exit(1);
+}
+
 console.log("PASS", {
   status: state.status,
   turn: state.turn,
   activeSeat: state.activeSeat,
   rookiePhase: state.rookie?.phase,
+  substitutionPhase: subState.substitution?.phase,
+  playmakerChips: pmState.playmaker?.chips,
+  timerForfeit: ttReplayed.matchEnd,
 });
@@ -0,0 +1,190 @@
+// scripts/gameStream_certify.ts
+// Live game stream certification: GET /games/:id/stream served in-process and read by a plain HTTP client.
+// Covers backlog replay, live pushes, seat vs spectator redaction (placements and GAME_SETUP eligibility packets),
+// resume via ?fromSeq / Last-Event-ID, duplicate suppression and unsubscribe on disconnect. Persistence is an
+// in-memory stand-in for the three Prisma reads the route makes, so no database is needed.
+// Run: npx -y tsx scripts/gameStream_certify.ts
+
+import Fastify from "fastify";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { projectEventsForViewer, SPECTATOR } from "../src/engine/views";
+import { GameStreamHub, registerGameStreamRoutes } from "../src/server/gameStream.routes";
+
+type Frame = { id: number; event: string; data: any };
+
+const GAME_ID = "G_STREAM_1";
+const events: any[] = [];
+const game: any = { id: GAME_ID, modeCode: "ROOKIE", state: {} };
+
+const memoryPrisma: any = {
+  game: {
+    findUnique: async ({ where }: any) => (where.id === GAME_ID ? { ...game, state: JSON.parse(JSON.stringify(game.state)) } : null),
+  },
+  gameEvent: {
+    findMany: async ({ where }: any) => events.filter((e) => e.gameId === where.gameId && e.seq > (where.seq?.gt ?? 0)),
+  },
+  gamePlayer: {
+    findFirst: async ({ where }: any) => {
+      const owner = where.deck?.ownerUserId;
+      if (where.gameId !== GAME_ID) return null;
+      return owner === "U_SEAT_1" ? { seat: 1 } : owner === "U_SEAT_2" ? { seat: 2 } : null;
+    },
+  },
+};
+
+function append(hub: GameStreamHub, type: string, payload: any, mutate?: (state: any) => void) {
+  const seq = events.length + 1;
+  events.push({ gameId: GAME_ID, seq, type, payload });
+  if (mutate) mutate(game.state);
+  hub.publish({ gameId: GAME_ID, modeCode: game.modeCode, state: game.state, events: [...events] });
+}
+
+function openStream(port: number, path: string, headers: Record<string, string> = {}) {
+  const frames: Frame[] = [];
+  let buffer = "";
+  let status = 0;
+
+  const req = http.get({ host: "127.0.0.1", port, path, headers }, (res) => {
+    status = res.statusCode ?? 0;
+    res.setEncoding("utf8");
+    res.on("data", (chunk: string) => {
+      buffer += chunk;
+      let idx: number;
+      while ((idx = buffer.indexOf("\n\n")) >= 0) {
+        const block = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        const f: any = {};
+        for (const line of block.split("\n")) {
+          if (line.startsWith(":")) continue;
+          const sep = line.indexOf(": ");
+          if (sep > 0) f[line.slice(0, sep)] = line.slice(sep + 2);
+        }
+        if (f.data) frames.push({ id: Number(f.id), event: f.event, data: JSON.parse(f.data) });
+      }
+    });
+  });
+  req.on("error", () => {});
+
+  return {
+    frames,
+    status: () => status,
+    close: () => req.destroy(),
+  };
+}
+
+async function waitFor(check: () => boolean, label: string, ms = 2000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > ms) throw new Error(`STREAM_CERT_TIMEOUT: ${label}`);
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+async function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  const hub = new GameStreamHub();
+  const app = Fastify({ logger: false });
+  await registerGameStreamRoutes(app, memoryPrisma, { hub, heartbeatMs: 50 });
+  await app.listen({ port: 0, host: "127.0.0.1" });
+  const port = (app.server.address() as AddressInfo).port;
+
+  // Stored history before anyone subscribes.
+  append(hub, "GAME_CREATED", { players: [] });
+  const packetEntry = (seat: number) => ({
+    seat,
+    deckId: `D${seat}`,
+    eligibilityPacketId: `ELIG_${GAME_ID}_S${seat}`,
+    decision: "ELIGIBLE",
+    signature: null,
+    packet: { eligibilityPacketId: `ELIG_${GAME_ID}_S${seat}`, deck: { claims: [{ refs: { ownershipId: `LOT_${seat}` } }] } },
+  });
+  append(hub, "GAME_SETUP", { eligibility: { ownedOnly: false, packets: [packetEntry(1), packetEntry(2)] } }, (s) => {
+    s.turn = 1;
+    s.activeSeat = 1;
+    s.rookie = { placements: { "1": {}, "2": {} }, revealedZones: {} };
+  });
+  append(hub, "ROOKIE_PLACE", { seat: 1, zoneIndex: 0, placement: { cardId: "C_HIDDEN" } }, (s) => {
+    s.rookie.placements["1"]["0"] = { cardId: "C_HIDDEN" };
+  });
+
+  // 1) Bad requests never open a stream.
+  const bad = await app.inject({ method: "GET", url: `/games/${GAME_ID}/stream?fromSeq=-1` });
+  expect(bad.statusCode === 400, `fromSeq=-1 expected 400, got ${bad.statusCode}`);
+  const missing = await app.inject({ method: "GET", url: "/games/NOPE/stream" });
+  expect(missing.statusCode === 404, `unknown game expected 404, got ${missing.statusCode}`);
+
+  // 2) Backlog: seat 1 from the start, spectator resuming after seq 2.
+  const seat1 = openStream(port, `/games/${GAME_ID}/stream`, { "x-user-id": "U_SEAT_1" });
+  const spectator = openStream(port, `/games/${GAME_ID}/stream?fromSeq=2`);
+  await waitFor(() => seat1.frames.length >= 3 && spectator.frames.length >= 1, "backlog");
+
+  expect(seat1.status() === 200, `stream status ${seat1.status()}`);
+  expect(JSON.stringify(seat1.frames.map((f) => f.id)) === "[1,2,3]", `seat1 backlog ids ${seat1.frames.map((f) => f.id)}`);
+  expect(JSON.stringify(spectator.frames.map((f) => f.id)) === "[3]", `spectator backlog ids ${spectator.frames.map((f) => f.id)}`);
+  expect(seat1.frames[2]?.data.event.payload.placement.cardId === "C_HIDDEN", "seat 1 must see its own placement");
+  const seenPackets = seat1.frames[1]?.data.event.payload.eligibility.packets ?? [];
+  expect(seenPackets[0]?.packet?.deck?.claims?.[0]?.refs?.ownershipId === "LOT_1", "seat 1 must see its own eligibility packet");
+  expect(seenPackets[1] && !("packet" in seenPackets[1]) && seenPackets[1].decision === "ELIGIBLE", "opponent packet reduced to its verdict");
+  const spectatorSetup = projectEventsForViewer(game.modeCode, [events[1]], game.state, SPECTATOR)[0] as any;
+  expect(spectatorSetup.payload.eligibility.packets.every((p: any) => !("packet" in p) && p.eligibilityPacketId), "spectator sees no packets");
+  expect("packet" in events[1].payload.eligibility.packets[1], "stored GAME_SETUP keeps every packet");
+  expect(spectator.frames[0]?.data.event.payload.placement.redacted === true, "spectator event placement must be redacted");
+  expect(spectator.frames[0]?.data.state.rookie.placements["1"]["0"].redacted === true, "spectator state placement must be redacted");
+
+  // 3) Live pushes reach both subscribers with the state the event produced.
+  append(hub, "END_TURN", null, (s) => {
+    s.turn = 2;
+    s.activeSeat = 2;
+  });
+  await waitFor(() => seat1.frames.length >= 4 && spectator.frames.length >= 2, "live push");
+  expect(seat1.frames[3]?.id === 4 && seat1.frames[3]?.data.state.activeSeat === 2, "seat1 live frame 4 / activeSeat 2");
+  expect(spectator.frames[1]?.id === 4, "spectator live frame 4");
+
+  // 4) Disconnect, miss an event, resume from Last-Event-ID.
+  spectator.close();
+  await waitFor(() => hub.subscriberCount(GAME_ID) === 1, "spectator unsubscribe");
+  append(hub, "ROOKIE_REVEAL", { zoneIndex: 0 }, (s) => {
+    s.rookie.revealedZones["0"] = true;
+  });
+
+  const resumed = openStream(port, `/games/${GAME_ID}/stream`, { "last-event-id": String(spectator.frames[1]?.id ?? 0) });
+  await waitFor(() => resumed.frames.length >= 1, "resume backlog");
+  expect(JSON.stringify(resumed.frames.map((f) => f.id)) === "[5]", `resume ids ${resumed.frames.map((f) => f.id)}`);
+  expect(resumed.frames[0]?.data.state.rookie.placements["1"]["0"].cardId === "C_HIDDEN", "revealed zone visible to spectator");
+
+  // 5) Re-published history is not sent twice.
+  append(hub, "END_TURN", null, (s) => {
+    s.turn = 3;
+    s.activeSeat = 1;
+  });
+  hub.publish({ gameId: GAME_ID, modeCode: game.modeCode, state: game.state, events: [...events] });
+  await waitFor(() => resumed.frames.length >= 2 && seat1.frames.length >= 6, "dedupe");
+  await new Promise((r) => setTimeout(r, 100));
+  expect(JSON.stringify(resumed.frames.map((f) => f.id)) === "[5,6]", `resumed ids after republish ${resumed.frames.map((f) => f.id)}`);
+  expect(JSON.stringify(seat1.frames.map((f) => f.id)) === "[1,2,3,4,5,6]", `seat1 ids ${seat1.frames.map((f) => f.id)}`);
+
+  seat1.close();
+  resumed.close();
+  await waitFor(() => hub.subscriberCount(GAME_ID) === 0, "all unsubscribed");
+  await app.close();
+
+  if (failures.length > 0) {
+    console.error(`GAME STREAM CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures) console.error(`- ${f}`);
+    process.exit(1);
+  }
+
+  console.log("GAME STREAM CERT PASS: backlog, live push, redaction, resume, dedupe, unsubscribe");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
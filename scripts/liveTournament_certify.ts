@@ -0,0 +1,248 @@
+// scripts/liveTournament_certify.ts
+// Live tournament certification (pure, no DB): for every live structure, the round loop the gateway runs
+// (pair SWISS -> playable slots become Games -> stored HOME/AWAY results become receipts -> close -> complete?)
+// reaches a completed tournament with a tournament.completed event, never leaves a slot unresolved, and never
+// pairs anyone twice in a round — also when some Games never store a result and the organizer reports one
+// (walkover / timed-out forfeit). Also pins the schedule shapes, the result -> artifact conversions, and the
+// registration deck lock (snapshot normalization, hash binding, change detection).
+// Run: npx -y tsx scripts/liveTournament_certify.ts
+
+import crypto from "node:crypto";
+
+import type { MatchArtifactV1 } from "../src/contracts/gameplay/v1/MatchArtifactV1";
+import { createMatchSetupSnapshotV1 } from "../src/contracts/gameplay/v1/MatchSetupSnapshotV1";
+import { SwissDeriverV1 } from "../src/contracts/gameplay/v1/SwissDeriverV1";
+import { produceTournamentCompletedEventV1 } from "../src/contracts/gameplay/v1/TournamentEventProducerV1";
+import type { TournamentStructureV1, TournamentV1 } from "../src/contracts/gameplay/v1/TournamentV1";
+import {
+  LIVE_TOURNAMENT_STRUCTURES_V1,
+  buildLiveTournamentV1,
+  gameResultToMatchArtifactV1,
+  initialLiveScheduleV1,
+  isDecisiveForStructureV1,
+  isLiveTournamentCompleteV1,
+  lastRoundV1,
+  liveTournamentDeriverV1,
+  reportedResultToMatchArtifactV1,
+  roundRobinScheduleV1,
+  roundSlotsV1,
+  singleEliminationScheduleV1,
+  type LiveTournamentConfigV1,
+} from "../src/tournaments/liveTournament.v1";
+import { deckSnapshotHashV1, deckSnapshotV1, describeDeckSnapshotDiffV1, diffDeckSnapshotsV1 } from "../src/tournaments/deckLock.v1";
+
+const NOW = "2026-10-19T15:00:00.000Z";
+
+/** Deterministic stand-in for the runner: HOME / AWAY / DRAW from the match id. */
+function winnerFor(matchId: string, allowDraw: boolean): "HOME" | "AWAY" | "DRAW" {
+  const b = crypto.createHash("sha256").update(matchId).digest()[0];
+  if (allowDraw && b % 7 === 0) return "DRAW";
+  return b % 2 === 0 ? "HOME" : "AWAY";
+}
+
+/** reportEvery: every Nth Game times out (no engine result) and the organizer reports seat 2 as the winner. */
+function simulate(structure: TournamentStructureV1, players: number, config: LiveTournamentConfigV1, reportEvery = 0) {
+  const id = `T_LIVE_${structure}_${players}`;
+  const registrations = Array.from({ length: players }, (_, i) => ({ userId: `U${i + 1}`, deckId: `D${i + 1}` }));
+  const tournament: TournamentV1 = buildLiveTournamentV1(
+    {
+      id,
+      name: `Live cert ${structure} (${players})`,
+      structure,
+      status: "ACTIVE",
+      modeCode: "ROOKIE",
+      createdAtIso: NOW,
+      updatedAtIso: NOW,
+      schedule: initialLiveScheduleV1({ tournamentId: id, structure, participantIds: registrations.map((r) => r.userId), config }),
+    },
+    registrations
+  );
+  const deriver = liveTournamentDeriverV1(structure, config);
+  const artifacts: MatchArtifactV1[] = [];
+  const problems: string[] = [];
+  let games = 0;
+  let round = 0;
+
+  while (round < lastRoundV1(tournament, config)) {
+    round += 1;
+    if (structure === "SWISS") {
+      tournament.schedule = [...(tournament.schedule ?? []), ...(deriver as SwissDeriverV1).pairNextRound({ tournament, artifacts })];
+    }
+    const { playable, unresolved } = roundSlotsV1({ tournament, artifacts, deriver, round });
+    if (unresolved.length > 0) problems.push(`round ${round}: unresolved ${unresolved.join(",")}`);
+
+    const seen = playable.flatMap((s) => s.participantIds);
+    if (new Set(seen).size !== seen.length) problems.push(`round ${round}: a player has two games`);
+
+    const elimination = structure === "SINGLE_ELIMINATION" || structure === "DOUBLE_ELIMINATION";
+    for (const slot of playable) {
+      games += 1;
+      const artifact =
+        reportEvery > 0 && games % reportEvery === 0
+          ? reportedResultToMatchArtifactV1({
+              tournament,
+              slot,
+              gameId: `G_${slot.matchId}`,
+              reported: { winnerParticipantId: slot.participantIds[1], reason: "TURN_TIMEOUT_FORFEIT", reportedBy: "ORG", reportedAtIso: NOW },
+            })
+          : gameResultToMatchArtifactV1({
+              tournament,
+              slot,
+              gameId: `G_${slot.matchId}`,
+              stored: {
+                matchId: `M_GAME_${slot.matchId}`,
+                sessionId: `S_GAME_${slot.matchId}`,
+                createdAtIso: NOW,
+                matchResultJson: { result: { winner: winnerFor(slot.matchId, !elimination) }, engineCompatVersion: 1 },
+              },
+            });
+      if (!isDecisiveForStructureV1(structure, artifact)) problems.push(`${slot.slotId}: undecided`);
+      artifacts.push(artifact);
+    }
+
+    if (isLiveTournamentCompleteV1(tournament, artifacts, deriver)) break;
+  }
+
+  const completed = isLiveTournamentCompleteV1(tournament, artifacts, deriver);
+  const event = completed ? produceTournamentCompletedEventV1({ tournament, artifacts, deriver, correlation: { requestId: "REQ_LIVE_CERT" } }) : null;
+  const standings = deriver.deriveStandings({ tournament, artifacts });
+  return { completed, event, standings, problems, games, rounds: round };
+}
+
+async function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  // Schedules.
+  const rr = roundRobinScheduleV1("T", ["A", "B", "C", "D", "E"]);
+  const pairs = new Set(rr.map((s) => [...s.participantIds].sort().join("-")));
+  expect(rr.length === 10 && pairs.size === 10, "round robin (5): every pair exactly once");
+  expect(Math.max(...rr.map((s) => s.round)) === 5, "round robin (5): 5 rounds with one bye each");
+
+  const se = singleEliminationScheduleV1("T", ["S1", "S2", "S3", "S4", "S5", "S6"]);
+  const r1 = se.filter((s) => s.round === 1);
+  expect(r1.filter((s) => s.extra?.bye).map((s) => s.participantIds[0]).sort().join(",") === "S1,S2", "single elim (6): byes to seeds 1,2");
+  expect(se.find((s) => s.slotId === "R3_A")?.participantIds.join(" vs ") === "TBD_R2_A_WIN vs TBD_R2_B_WIN", "single elim (6): final feeds from R2");
+  expect(r1.every((s) => (s.extra?.bye ? !s.matchId : Boolean(s.matchId))), "single elim: byes carry no matchId");
+
+  let threw = "";
+  try {
+    initialLiveScheduleV1({ tournamentId: "T", structure: "ROUND_ROBIN", participantIds: ["A"], config: {} });
+  } catch (e: any) {
+    threw = String(e?.message ?? "");
+  }
+  expect(threw.startsWith("TOURNAMENT_NOT_ENOUGH_PLAYERS"), "one player cannot start");
+
+  // Result -> artifact: HOME = seat 1, AWAY = seat 2, anything else is a draw.
+  const t = buildLiveTournamentV1(
+    { id: "T_CONV", name: "conv", structure: "SINGLE_ELIMINATION", status: "ACTIVE", modeCode: "ROOKIE", createdAtIso: NOW, updatedAtIso: NOW, schedule: [] },
+    [{ userId: "U1", deckId: "D1" }, { userId: "U2", deckId: "D2" }]
+  );
+  const conv = (winner: string) =>
+    gameResultToMatchArtifactV1({
+      tournament: t,
+      slot: { matchId: "T_CONV_R1_A", participantIds: ["U1", "U2"] },
+      gameId: "G1",
+      stored: { matchId: "M1", sessionId: "S1", createdAtIso: NOW, matchResultJson: { result: { winner }, engineCompatVersion: 1 } },
+    });
+  expect(conv("HOME").result.winnerParticipantId === "U1", "HOME -> seat 1 wins");
+  expect(conv("AWAY").result.winnerParticipantId === "U2", "AWAY -> seat 2 wins");
+  expect(!conv("DRAW").result.winnerParticipantId && conv("DRAW").result.outcomeFlags?.includes("DRAW") === true, "DRAW -> shared first");
+  expect(conv("HOME").deterministicHash.value === conv("HOME").deterministicHash.value, "conversion is deterministic");
+  expect(!isDecisiveForStructureV1("SINGLE_ELIMINATION", conv("DRAW")) && isDecisiveForStructureV1("SWISS", conv("DRAW")), "draws only block elimination");
+
+  // Reported result (no engine artifact): same receipt shape, flagged REPORTED, winner must be in the slot.
+  const report = (winnerParticipantId: string | null) =>
+    reportedResultToMatchArtifactV1({
+      tournament: t,
+      slot: { matchId: "T_CONV_R1_A", participantIds: ["U1", "U2"] },
+      gameId: "G1",
+      reported: { winnerParticipantId, reason: "WALKOVER", reportedBy: "ORG", reportedAtIso: NOW },
+    });
+  expect(report("U2").result.winnerParticipantId === "U2" && report("U2").result.outcomeFlags?.includes("REPORTED") === true, "reported walkover -> U2 wins");
+  expect(report("U2").header.matchId === conv("HOME").header.matchId, "reported receipt sits under the slot matchId");
+  expect(report("U2").deterministicHash.value === report("U2").deterministicHash.value, "reported conversion is deterministic");
+  expect(!isDecisiveForStructureV1("SINGLE_ELIMINATION", report(null)) && isDecisiveForStructureV1("ROUND_ROBIN", report(null)), "reported draw only blocks elimination");
+  let rejected = "";
+  try {
+    report("U9");
+  } catch (e: any) {
+    rejected = String(e?.message ?? "");
+  }
+  expect(rejected.startsWith("TOURNAMENT_RESULT_INVALID"), "reported winner must play in the slot");
+
+  // Deck lock: order/duplicates do not matter, contents and deck identity do.
+  const locked = deckSnapshotV1("D1", [
+    { versionKey: "CARD_B", qty: 2 },
+    { versionKey: "CARD_A", qty: 1 },
+    { versionKey: "CARD_A", qty: 2 },
+  ]);
+  const reordered = deckSnapshotV1("D1", [
+    { versionKey: "CARD_A", qty: 3 },
+    { versionKey: "CARD_B", qty: 2 },
+    { versionKey: "CARD_Z", qty: 0 },
+  ]);
+  expect(locked.cards.map((c) => `${c.versionKey}x${c.qty}`).join(",") === "CARD_Ax3,CARD_Bx2", "snapshot merges and sorts lines");
+  expect(deckSnapshotHashV1(locked) === deckSnapshotHashV1(reordered) && diffDeckSnapshotsV1(locked, reordered).ok, "same contents, same hash");
+  expect(deckSnapshotHashV1(locked) !== deckSnapshotHashV1(deckSnapshotV1("D2", locked.cards)), "hash binds the deckId");
+  expect(/^sha256:[0-9a-f]{64}$/.test(deckSnapshotHashV1(locked)), "hash is sha256");
+
+  const edited = deckSnapshotV1("D1", [
+    { versionKey: "CARD_A", qty: 1 },
+    { versionKey: "CARD_C", qty: 2 },
+  ]);
+  const diff = diffDeckSnapshotsV1(locked, edited);
+  expect(!diff.ok && deckSnapshotHashV1(edited) !== deckSnapshotHashV1(locked), "edit breaks the lock");
+  expect(describeDeckSnapshotDiffV1(diff) === "+CARD_C x2, -CARD_B, CARD_A 3->1", `diff summary (${describeDeckSnapshotDiffV1(diff)})`);
+
+  const setup = createMatchSetupSnapshotV1({
+    snapshotId: "SETUP_G1",
+    matchId: "T_CONV_R1_A",
+    universeCode: "BOBA",
+    universeIntegrationId: "UNIV_INTEGRATION_BOBA_V1",
+    engineCode: "BOBA_GAME_RUNNER",
+    engineVersion: "1",
+    modeCode: "ROOKIE",
+    deckSnapshots: [{ seat: 1, deckId: "D1", snapshotHash: deckSnapshotHashV1(locked) }],
+    tournamentId: "T_CONV",
+  });
+  expect(setup.deckSnapshots?.[0]?.snapshotHash === deckSnapshotHashV1(locked), "setup snapshot carries deck hashes");
+
+  // Lifecycles.
+  const cases: Array<{ structure: TournamentStructureV1; players: number; config: LiveTournamentConfigV1; reportEvery?: number }> = [];
+  for (const structure of LIVE_TOURNAMENT_STRUCTURES_V1) {
+    for (const players of [2, 5, 8]) cases.push({ structure, players, config: {} });
+  }
+  cases.push({ structure: "DOUBLE_ELIMINATION", players: 6, config: { grandFinalReset: false } });
+  cases.push({ structure: "SWISS", players: 7, config: { swissRounds: 4 } });
+  // Timed-out / no-show Games: every third one closes on an organizer-reported result instead of an engine artifact.
+  for (const structure of LIVE_TOURNAMENT_STRUCTURES_V1) cases.push({ structure, players: 6, config: {}, reportEvery: 3 });
+
+  let games = 0;
+  for (const c of cases) {
+    const label = `${c.structure}/${c.players}${c.config.swissRounds ? `/swiss${c.config.swissRounds}` : ""}${c.reportEvery ? "/reported" : ""}`;
+    const out = simulate(c.structure, c.players, c.config, c.reportEvery);
+    games += out.games;
+    for (const p of out.problems) failures.push(`${label}: ${p}`);
+    expect(out.completed, `${label}: completes`);
+    expect(Boolean(out.event), `${label}: tournament.completed emitted`);
+    expect(out.standings.rows.length === c.players, `${label}: every player in standings`);
+    if (c.structure === "SWISS") expect(out.rounds === (c.config.swissRounds ?? Math.ceil(Math.log2(c.players))), `${label}: plays all Swiss rounds`);
+  }
+
+  if (failures.length > 0) {
+    console.error(`\nLIVE TOURNAMENT CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 20)) console.error(`- ${f}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`LIVE TOURNAMENT CERT PASS: ${cases.length} lifecycles, ${games} games`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,99 @@
+// scripts/matchmaking_certify.ts
+// Matchmaking queue certification (pure): event gating against the EVT_QUEUE_* fixtures, rating-band pairing
+// that widens with wait time, and queue timeouts.
+// Run: npx -y tsx scripts/matchmaking_certify.ts
+
+import { getEventById_V1, type EventV1 } from "../src/config/events.v1";
+import {
+  DEFAULT_QUEUE_POLICY_V1,
+  decideQueueGateV1,
+  expiredQueueEntriesV1,
+  pairQueueEntriesV1,
+  queueKeyV1,
+  ratingBandV1,
+  type QueueEntryV1,
+} from "../src/matchmaking/queue.v1";
+
+const T0 = "2026-03-01T12:00:00.000Z";
+
+function at(seconds: number): string {
+  return new Date(new Date(T0).getTime() + seconds * 1000).toISOString();
+}
+
+const ROOKIE_POINTERS = { modeCode: "rookie", gameModeId: "GM_SCORED", gameModeVersion: 1, formatId: "FMT_ROOKIE", formatVersion: 1 };
+const KEY = queueKeyV1(ROOKIE_POINTERS, "EVT_QUEUE_STRICT_TEST");
+const CASUAL_KEY = queueKeyV1(ROOKIE_POINTERS, null);
+
+function entry(id: string, userId: string, rating: number, enqueuedAt: string, queueKey = KEY): QueueEntryV1 {
+  return { id, userId, deckId: `D_${id}`, queueKey, rating, enqueuedAt };
+}
+
+function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  // --- Event gating
+  const strict = getEventById_V1("EVT_QUEUE_STRICT_TEST");
+  const advisory = getEventById_V1("EVT_QUEUE_ADVISORY_TEST");
+  const notLive = getEventById_V1("EVT_STRICT_TEST");
+  const killed: EventV1 = { ...(getEventById_V1("EVT_STRICT_KILL_TEST") as EventV1), status: "LIVE" };
+  const bad = { ok: false, messages: ["Deck must contain exactly 40 cards"] };
+  const good = { ok: true, messages: [] };
+
+  const gate = (eventId: string | null, event: EventV1 | null, validation: typeof bad | null) =>
+    decideQueueGateV1({ eventId, event, validation });
+
+  expect(gate(null, null, bad).allowed && gate(null, null, bad).warnings.length === 1, "casual queue admits with warnings");
+  expect(!gate("EVT_NOPE", null, good).allowed, "unknown event rejected");
+  expect(gate("EVT_STRICT_TEST", notLive, good).reasons[0] === "EVENT_NOT_LIVE:OPEN", "non-LIVE event rejected");
+  expect(gate("EVT_QUEUE_STRICT_TEST", strict, good).allowed, "STRICT admits valid deck");
+  expect(gate("EVT_QUEUE_STRICT_TEST", strict, bad).reasons[0] === "DECK_INVALID", "STRICT rejects invalid deck");
+  expect(gate("EVT_QUEUE_STRICT_TEST", strict, null).reasons[0] === "VALIDATOR_UNAVAILABLE", "STRICT fails closed");
+  const adv = gate("EVT_QUEUE_ADVISORY_TEST", advisory, bad);
+  expect(adv.allowed && adv.enforcement === "ADVISORY" && adv.warnings.length === 1, "ADVISORY admits invalid deck with warning");
+  const ks = gate("EVT_STRICT_KILL_TEST", killed, bad);
+  expect(ks.allowed && ks.killSwitchApplied, "kill switch downgrades STRICT to advisory");
+
+  // --- Rating bands
+  const base = DEFAULT_QUEUE_POLICY_V1.ratingBandBase;
+  expect(ratingBandV1(entry("A", "U1", 1500, T0), T0) === base, "band starts at base");
+  expect(ratingBandV1(entry("A", "U1", 1500, T0), at(10)) === base + 50, "band widens with wait");
+  expect(ratingBandV1(entry("A", "U1", 1500, T0), at(10_000)) === DEFAULT_QUEUE_POLICY_V1.ratingBandMax, "band capped");
+
+  // --- Pairing
+  const a = entry("A", "U1", 1500, T0);
+  const b = entry("B", "U2", 1700, at(1));
+  const c = entry("C", "U3", 1560, at(2));
+  const now1 = pairQueueEntriesV1([a, b, c], at(2));
+  expect(now1.length === 1 && now1[0].home.id === "A" && now1[0].away.id === "C", "closest in-band rating pairs first");
+
+  const far = pairQueueEntriesV1([a, b], at(2));
+  expect(far.length === 0, "200 gap waits while bands are narrow");
+  const later = pairQueueEntriesV1([a, b], at(25));
+  expect(later.length === 1 && later[0].home.id === "A" && later[0].ratingGap === 200, "gap pairs once both bands widen");
+
+  expect(pairQueueEntriesV1([a, entry("A2", "U1", 1500, at(1))], at(5)).length === 0, "never pairs a user with themself");
+  expect(pairQueueEntriesV1([a, entry("X", "U9", 1500, at(1), CASUAL_KEY)], at(5)).length === 0, "different queueKeys never pair");
+
+  const reversed = pairQueueEntriesV1([c, b, a], at(2));
+  expect(JSON.stringify(reversed) === JSON.stringify(now1), "pairing independent of input order");
+
+  // --- Timeouts
+  const limit = DEFAULT_QUEUE_POLICY_V1.maxWaitSeconds;
+  const expired = expiredQueueEntriesV1([a, b, c], at(limit + 1.5));
+  expect(JSON.stringify(expired.map((e) => e.id)) === '["A","B"]', `expired ids ${expired.map((e) => e.id)}`);
+  expect(pairQueueEntriesV1([a, b, c], at(limit + 1.5)).length === 0, "expired entries are not paired");
+
+  if (failures.length > 0) {
+    console.error(`MATCHMAKING CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures) console.error(`- ${f}`);
+    process.exit(1);
+  }
+
+  console.log("MATCHMAKING CERT PASS: event gating, rating bands, pairing, timeouts");
+  process.exit(0);
+}
+
+main();
@@ -1,5 +1,6 @@
 // scripts/milestoneA_certify.ts
 // Milestone A: A12 certification — 100 deterministic replays must match.
+// Deck-driven cases: RESOLVE events must reference the supplied decks' versionKeys.
 // Run: npx -y tsx scripts/milestoneA_certify.ts
 
 import {
@@ -7,7 +8,23 @@ import {
   loadFormatRegistryDefault,
   loadGameModeRegistryDefault,
 } from "../src/config/registryLoaders.v1";
-import { assertDeterministicReplayV1 } from "../src/engine/replayHarness.v1";
+import { assertDeterministicReplayV1, replayOnceV1 } from "../src/engine/replayHarness.v1";
+import type { RunnerDecksV1 } from "../src/engine/decks.v1";
+
+function certDecks(i: number): RunnerDecksV1 {
+  // Small HERO pools with overlapping powers so regulation ties (and sudden death) occur.
+  const heroes = (side: string, base: number) =>
+    Array.from({ length: 5 }, (_, k) => ({
+      versionKey: `CERT:HERO:${side}_${k}:v1`,
+      qty: 2,
+      conceptType: "HERO",
+      power: base + ((k * 7 + i) % 5) * 10,
+    }));
+  return {
+    LS: [...heroes("LS", 50), { versionKey: "CERT:PLAY:ls:v1", qty: 3, conceptType: "PLAY" }],
+    OP: [...heroes("OP", 50), { versionKey: "CERT:PLAY:op:v1", qty: 3, conceptType: "PLAY" }],
+  };
+}
 
 function main() {
   const app = loadAppConfigDefault();
@@ -36,15 +53,43 @@ function main() {
     if (!out.ok) failures.push({ i, diffs: out.diffs });
   }
 
+  for (let i = 1; i <= 100; i++) {
+    const decks = certDecks(i);
+    const inputs = {
+      sessionId: `S_CERT_DECK_${i}`,
+      matchId: `M_CERT_DECK_${i}`,
+      pointer: {
+        format: { formatId: "FMT_ROOKIE", formatVersion: 1 },
+        gameMode: { gameModeId: "GM_SCORED", gameModeVersion: 1 },
+      },
+      decks,
+    };
+
+    const out = assertDeterministicReplayV1({ inputs, appConfig: app, formatRegistry: fr, gameModeRegistry: gr });
+    const diffs = [...out.diffs];
+
+    const known = new Set([...decks.LS, ...decks.OP].map((c) => c.versionKey));
+    const rec = replayOnceV1({ inputs, appConfig: app, formatRegistry: fr, gameModeRegistry: gr });
+    for (const e of rec.timeline) {
+      const extra: any = e.extra ?? {};
+      if (extra.eventType !== "RESOLVE") continue;
+      for (const k of [extra.payload?.LS_versionKey, extra.payload?.OP_versionKey]) {
+        if (!known.has(k)) diffs.push(`RESOLVE battle ${extra.battleIndex}: unknown versionKey ${k}`);
+      }
+    }
+
+    if (diffs.length > 0) failures.push({ i: 100 + i, diffs });
+  }
+
   if (failures.length > 0) {
-    console.error(`Milestone A CERT FAIL: ${failures.length}/100 failed`);
+    console.error(`Milestone A CERT FAIL: ${failures.length}/200 failed`);
     for (const f of failures.slice(0, 10)) {
       console.error(`- Case ${f.i}: ${f.diffs.join("; ")}`);
     }
     process.exit(1);
   }
 
-  console.log("Milestone A CERT PASS: 100/100 deterministic replays matched");
+  console.log("Milestone A CERT PASS: 200/200 deterministic replays matched (100 seed-only, 100 deck-driven)");
   process.exit(0);
 }
 
@@ -0,0 +1,144 @@
+// scripts/milestoneA_formatKnobs_certify.ts
+// Milestone A: format knob certification — every declared format knob must change play, deterministically.
+// Variants are registered next to FMT_ROOKIE in an in-memory copy of the default format registry.
+// Run: npx -y tsx scripts/milestoneA_formatKnobs_certify.ts
+
+import {
+  loadAppConfigDefault,
+  loadFormatRegistryDefault,
+  loadGameModeRegistryDefault,
+  type FormatRegistry,
+} from "../src/config/registryLoaders.v1";
+import { assertDeterministicReplayV1, replayOnceV1, type ReplayInputsV1 } from "../src/engine/replayHarness.v1";
+import type { MatchResultRecordV1 } from "../src/engine/matchResult.v1";
+import type { RunnerDecksV1 } from "../src/engine/decks.v1";
+
+type FormatEntry = FormatRegistry["formats"][number];
+
+const CASES = 25;
+
+const VARIANTS: Record<string, Partial<FormatEntry>> = {
+  FMT_KNOB_COINS_2: { coins: { coinsPerBattle: 2, persistBetweenBattles: true } },
+  FMT_KNOB_NO_PERSIST: { coins: { coinsPerBattle: 1, persistBetweenBattles: false } },
+  FMT_KNOB_TARGET_2: { coins: { coinsPerBattle: 1, persistBetweenBattles: true, winConditionCoinTarget: 2 } },
+  FMT_KNOB_NO_SD: { suddenDeath: { enabled: false, trigger: "TIE" } },
+  FMT_KNOB_DRAW_3_NONE: { setup: { initialDrawSize: 3, deckOrderAtStart: "AS_BUILT" }, reshuffle: { mode: "NONE" } },
+  FMT_KNOB_DRAW_3_EXHAUST: { setup: { initialDrawSize: 3, deckOrderAtStart: "AS_BUILT" }, reshuffle: { mode: "ON_EXHAUST" } },
+  FMT_KNOB_PHASE_BOUNDARY: { reshuffle: { mode: "PHASE_BOUNDARY" } },
+  FMT_KNOB_SHUFFLE: { setup: { initialDrawSize: 0, deckOrderAtStart: "DETERMINISTIC_SHUFFLE" } },
+};
+
+function withVariants(base: FormatRegistry): FormatRegistry {
+  const rookie = base.formats.find((f) => f.formatId === "FMT_ROOKIE" && f.formatVersion === 1);
+  if (!rookie) throw new Error("CERT_SETUP: FMT_ROOKIE@1 missing from default registry");
+
+  const extra = Object.entries(VARIANTS).map(([formatId, patch]) => ({ ...rookie, ...patch, formatId, formatVersion: 1 }));
+  return { ...base, formats: [...base.formats, ...extra] };
+}
+
+function certDecks(i: number): RunnerDecksV1 {
+  // Thin HERO pools (4 copies per side) so lanes past initialDrawSize exhaust the pile.
+  const heroes = (side: string) =>
+    Array.from({ length: 2 }, (_, k) => ({
+      versionKey: `CERT:HERO:${side}_${k}:v1`,
+      qty: 2,
+      conceptType: "HERO",
+      power: 50 + ((k * 3 + i + (side === "OP" ? 1 : 0)) % 4) * 10,
+    }));
+  return { LS: heroes("LS"), OP: heroes("OP") };
+}
+
+function inputsFor(formatId: string, i: number): ReplayInputsV1 {
+  return {
+    sessionId: `S_KNOB_${i}`,
+    matchId: `M_KNOB_${i}`,
+    pointer: {
+      format: { formatId, formatVersion: 1 },
+      gameMode: { gameModeId: "GM_SCORED", gameModeVersion: 1 },
+    },
+    decks: certDecks(i),
+  };
+}
+
+function timelineKey(r: MatchResultRecordV1): string {
+  return JSON.stringify(r.timeline.map((e) => [e.code, e.extra?.payload ?? null]));
+}
+
+function main() {
+  const app = loadAppConfigDefault();
+  const fr = withVariants(loadFormatRegistryDefault());
+  const gr = loadGameModeRegistryDefault();
+
+  const failures: string[] = [];
+  const runs: Record<string, MatchResultRecordV1[]> = {};
+
+  for (const formatId of ["FMT_ROOKIE", ...Object.keys(VARIANTS)]) {
+    runs[formatId] = [];
+    for (let i = 1; i <= CASES; i++) {
+      const inputs = inputsFor(formatId, i);
+      const out = assertDeterministicReplayV1({ inputs, appConfig: app, formatRegistry: fr, gameModeRegistry: gr });
+      if (!out.ok) failures.push(`${formatId} case ${i}: ${out.diffs.join("; ")}`);
+      runs[formatId].push(replayOnceV1({ inputs, appConfig: app, formatRegistry: fr, gameModeRegistry: gr }));
+    }
+  }
+
+  const each = (formatId: string, check: (r: MatchResultRecordV1) => string | null) => {
+    runs[formatId].forEach((r, idx) => {
+      const msg = check(r);
+      if (msg) failures.push(`${formatId} case ${idx + 1}: ${msg}`);
+    });
+  };
+  const coins = (r: MatchResultRecordV1) => r.result.finalCoinCount ?? { home: 0, away: 0 };
+
+  each("FMT_KNOB_COINS_2", (r) => (coins(r).home % 2 || coins(r).away % 2 ? `odd coin count ${JSON.stringify(coins(r))}` : null));
+  each("FMT_KNOB_NO_PERSIST", (r) => (coins(r).home > 1 || coins(r).away > 1 ? `coins persisted ${JSON.stringify(coins(r))}` : null));
+  // No persistence: the pool only holds the last battle, the regulation winner is whoever won more battles.
+  const regulation = (r: MatchResultRecordV1) => {
+    const won = { LS: 0, OP: 0 };
+    let last: unknown = null;
+    for (const e of r.timeline) {
+      if (e.code !== "BATTLE_END") continue;
+      last = (e.extra as any)?.payload?.outcome ?? null;
+      if (last === "LS" || last === "OP") won[last] += 1;
+    }
+    const end = r.timeline.find((e) => e.code === "REGULATION_END");
+    return { won, last, end: (end?.extra as any)?.payload ?? {} };
+  };
+  each("FMT_KNOB_NO_PERSIST", (r) => {
+    const { won, end } = regulation(r);
+    if (end.endReason !== "REGULATION_BATTLES") return null;
+    const expected = won.LS > won.OP ? "LS" : "OP";
+    return end.outcome === expected ? null : `regulation went to ${end.outcome} with battles won ${JSON.stringify(won)}`;
+  });
+  if (
+    !runs.FMT_KNOB_NO_PERSIST.some((r) => {
+      const { last, end } = regulation(r);
+      return end.endReason === "REGULATION_BATTLES" && (last === "LS" || last === "OP") && last !== end.outcome;
+    })
+  ) {
+    failures.push("FMT_KNOB_NO_PERSIST: no case where the last-battle winner lost the match");
+  }
+  each("FMT_KNOB_TARGET_2", (r) => (coins(r).home > 2 || coins(r).away > 2 ? `played past target ${JSON.stringify(coins(r))}` : null));
+  each("FMT_KNOB_NO_SD", (r) =>
+    r.timeline.some((e) => e.code === "SUDDEN_DEATH_START") ? "sudden death ran while disabled" : null
+  );
+
+  // Two formats with different snapshots must actually play differently.
+  const differs = (a: string, b: string) => runs[a].some((r, idx) => timelineKey(r) !== timelineKey(runs[b][idx]));
+  for (const formatId of Object.keys(VARIANTS)) {
+    if (!differs("FMT_ROOKIE", formatId)) failures.push(`${formatId}: played identically to FMT_ROOKIE`);
+  }
+  if (!differs("FMT_KNOB_DRAW_3_NONE", "FMT_KNOB_DRAW_3_EXHAUST")) failures.push("reshuffle.mode ON_EXHAUST had no effect");
+
+  if (failures.length > 0) {
+    console.error(`Milestone A KNOBS CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exit(1);
+  }
+
+  const variants = Object.keys(VARIANTS).length;
+  console.log(`Milestone A KNOBS CERT PASS: ${variants} format variants x ${CASES} deterministic replays`);
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,113 @@
+// scripts/milestoneC_cert.v1.ts
+// Milestone C — shared MatchStoreV1 certification (memory + DB scripts run this same path).
+// Per case:
+//  1) run + build bundle, save through the store
+//  2) second save of the same matchId must throw STORE_DUPLICATE_MATCH_ID
+//  3) record from get() must be frozen (mutation throws in strict mode)
+//  4) replay-from-store must match the stored outcome
+
+import type { AppConfig, FormatRegistry, GameModeRegistry } from "../src/config/registryLoaders.v1";
+import { replayOnceV1 } from "../src/engine/replayHarness.v1";
+import { buildPostGameBundleV1 } from "../src/postgame/postGameBundle.v1";
+import type { MatchStoreV1, StoredMatchV1 } from "../src/store/matchStore.v1";
+import { replayFromStoreAndCompareV1 } from "../src/store/replayFromStore.v1";
+
+export const MILESTONE_C_CASES = 100;
+
+export type MatchStoreCertFailureV1 = { i: number; diffs: string[] };
+
+async function expectRejects(fn: () => Promise<unknown>, mustInclude: string): Promise<string | null> {
+  try {
+    await fn();
+    return `expected ${mustInclude}, got success`;
+  } catch (e: any) {
+    const m = String(e?.message ?? "");
+    return m.includes(mustInclude) ? null : `expected ${mustInclude}, got "${m}"`;
+  }
+}
+
+function isFrozenRecord(stored: StoredMatchV1): boolean {
+  try {
+    (stored.matchResult as any).matchId = "MUTATED";
+  } catch {
+    // strict-mode assignment to a frozen object throws
+  }
+  return (
+    Object.isFrozen(stored) &&
+    Object.isFrozen(stored.matchResult) &&
+    Object.isFrozen(stored.snapshots.formatSnapshot) &&
+    stored.matchResult.matchId === stored.matchId
+  );
+}
+
+export async function certifyMatchStoreV1(args: {
+  store: MatchStoreV1;
+  idPrefix: string;
+  appConfig: AppConfig;
+  formatRegistry: FormatRegistry;
+  gameModeRegistry: GameModeRegistry;
+}): Promise<MatchStoreCertFailureV1[]> {
+  const { store, appConfig, formatRegistry, gameModeRegistry } = args;
+  const failures: MatchStoreCertFailureV1[] = [];
+
+  for (let i = 1; i <= MILESTONE_C_CASES; i++) {
+    const inputs = {
+      sessionId: `S_${args.idPrefix}_${i}`,
+      matchId: `M_${args.idPrefix}_${i}`,
+      pointer: {
+        format: { formatId: "FMT_ROOKIE", formatVersion: 1 },
+        gameMode: { gameModeId: "GM_SCORED", gameModeVersion: 1 },
+      },
+    };
+
+    const matchResult = replayOnceV1({ inputs, appConfig, formatRegistry, gameModeRegistry });
+    const bundle = buildPostGameBundleV1({ matchResult });
+
+    const record: StoredMatchV1 = {
+      matchId: matchResult.matchId,
+      sessionId: matchResult.sessionId,
+      pointer: inputs.pointer,
+      snapshots: {
+        formatSnapshot: {
+          formatId: matchResult.formatId,
+          formatVersion: matchResult.formatVersion,
+          engineCompatVersion: matchResult.engineCompatVersion,
+        },
+        gameModeSnapshot: {
+          gameModeId: matchResult.gameModeId,
+          gameModeVersion: matchResult.gameModeVersion,
+          engineCompatVersion: matchResult.engineCompatVersion,
+        },
+      },
+      matchResult,
+      insightRecord: bundle.insightRecord,
+      createdAtIso: new Date().toISOString(),
+    };
+
+    const diffs: string[] = [];
+
+    await store.save(record);
+
+    const dup = await expectRejects(() => store.save(record), "STORE_DUPLICATE_MATCH_ID");
+    if (dup) diffs.push(`duplicate save: ${dup}`);
+
+    const stored = await store.get(matchResult.matchId);
+    if (!isFrozenRecord(stored)) diffs.push("stored record is mutable");
+
+    const diff = await replayFromStoreAndCompareV1({
+      store,
+      matchId: matchResult.matchId,
+      appConfig,
+      formatRegistry,
+      gameModeRegistry,
+    });
+    diffs.push(...diff.diffs);
+
+    if (diffs.length > 0) failures.push({ i, diffs });
+  }
+
+  const missing = await expectRejects(() => store.get(`M_${args.idPrefix}_MISSING`), "STORE_MATCH_NOT_FOUND");
+  if (missing) failures.push({ i: 0, diffs: [`unknown matchId: ${missing}`] });
+
+  return failures;
+}
@@ -10,6 +10,7 @@ import {
   loadGameModeRegistryDefault,
 } from "../src/config/registryLoaders.v1";
 
+import { storedMatchFromArtifactRowV1 } from "../src/store/matchStore.prisma.v1";
 import { replayFromStoredAndCompareV1 } from "../src/store/replayFromStore.v1";
 import { deriveStandingsV1, type TournamentV1 } from "../src/tournaments/tournament.v1";
 
@@ -56,15 +57,7 @@ async function main() {
   const failures: Array<{ matchId: string; diffs: string[] }> = [];
 
   for (const row of rows) {
-    const stored = {
-      matchId: row.matchId,
-      sessionId: row.sessionId,
-      pointer: row.pointerJson as any,
-      snapshots: row.snapshotsJson as any,
-      matchResult: row.matchResultJson as any,
-      insightRecord: row.insightRecordJson as any,
-      createdAtIso: row.createdAt.toISOString(),
-    };
+    const stored = storedMatchFromArtifactRowV1(row);
 
     const diff = replayFromStoredAndCompareV1({
       stored,
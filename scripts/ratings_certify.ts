@@ -0,0 +1,131 @@
+// scripts/ratings_certify.ts
+// Skill ratings certification (pure): Glicko-1 update behaviour, per-mode/format scoping, skip rules, and
+// determinism — full recompute equals incremental application and ignores input order.
+// Run: npx -y tsx scripts/ratings_certify.ts
+
+import {
+  applyOutcomeV1,
+  compareArtifactsV1,
+  computeRatingsV1,
+  freshRatingV1,
+  glickoUpdateV1,
+  ratedOutcomeV1,
+  RATING_INITIAL,
+  RD_INITIAL,
+  RD_MIN,
+  type CompetitorRatingV1,
+  type RatedArtifactV1,
+} from "../src/ratings/rating.v1";
+
+const CASES = 300;
+const COMPETITORS = ["D_ALPHA", "D_BRAVO", "D_CHARLIE", "D_DELTA", "D_ECHO"];
+
+function artifact(i: number, home: string, away: string, winner: string, extra: Record<string, any> = {}): RatedArtifactV1 {
+  return {
+    id: `A_${String(i).padStart(5, "0")}`,
+    matchId: `M_${i}`,
+    formatId: extra.formatId ?? "FMT_ROOKIE",
+    formatVersion: 1,
+    gameModeId: "GM_SCORED",
+    gameModeVersion: 1,
+    // Artifacts are stored in pairs sharing a timestamp, so the id tiebreak is exercised.
+    createdAt: new Date(Date.UTC(2026, 2, 1) + Math.floor(i / 2) * 1000).toISOString(),
+    matchResultJson: { matchId: `M_${i}`, result: { winner }, homeCompetitorId: home, awayCompetitorId: away, ...extra.meta },
+  };
+}
+
+function corpus(): RatedArtifactV1[] {
+  const out: RatedArtifactV1[] = [];
+  for (let i = 0; i < CASES; i++) {
+    const home = COMPETITORS[i % COMPETITORS.length];
+    const away = COMPETITORS[(i + 1 + (i % 4)) % COMPETITORS.length];
+    // ALPHA is strongest, ECHO weakest; ties sprinkled in.
+    const hs = COMPETITORS.indexOf(home);
+    const as = COMPETITORS.indexOf(away);
+    const winner = i % 11 === 0 ? "DRAW" : hs < as ? "HOME" : "AWAY";
+    out.push(artifact(i, home, away, winner, i % 5 === 0 ? { formatId: "FMT_PLAYMAKER" } : {}));
+  }
+  return out;
+}
+
+function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  // --- Single update behaviour
+  const fresh = { rating: RATING_INITIAL, rd: RD_INITIAL };
+  const win = glickoUpdateV1(fresh, fresh, 1);
+  const loss = glickoUpdateV1(fresh, fresh, 0);
+  const draw = glickoUpdateV1(fresh, fresh, 0.5);
+  expect(win.rating > RATING_INITIAL && loss.rating < RATING_INITIAL, "winner gains, loser drops");
+  expect(Math.abs(win.rating - RATING_INITIAL - (RATING_INITIAL - loss.rating)) < 1e-9, "equal players move symmetrically");
+  expect(draw.rating === RATING_INITIAL, "draw between equals is neutral");
+  expect(win.rd < RD_INITIAL, "RD shrinks with play");
+  const upset = glickoUpdateV1({ rating: 1300, rd: 80 }, { rating: 1700, rd: 80 }, 1);
+  const expected = glickoUpdateV1({ rating: 1700, rd: 80 }, { rating: 1300, rd: 80 }, 1);
+  expect(upset.rating - 1300 > expected.rating - 1700, "upset moves more than an expected win");
+
+  // --- Outcome extraction
+  expect(ratedOutcomeV1(artifact(1, "X", "Y", "HOME"))?.homeScore === 1, "HOME win scores 1");
+  expect(ratedOutcomeV1(artifact(1, "X", "X", "HOME")) === null, "self-play skipped");
+  expect(ratedOutcomeV1({ ...artifact(1, "X", "Y", "HOME"), matchResultJson: { result: { winner: "HOME" } } }) === null, "no identity skipped");
+  expect(ratedOutcomeV1(artifact(1, "X", "Y", "HOME", { meta: { matchType: "TRAINING" } })) === null, "TRAINING skipped");
+  expect(ratedOutcomeV1(artifact(1, "X", "Y", "HOME", { meta: { matchType: "RANKED" } })) !== null, "RANKED rated");
+
+  // --- Full recompute
+  const all = corpus();
+  const full = computeRatingsV1(all);
+  expect(full.rated === CASES, `rated ${full.rated}/${CASES}`);
+  expect(new Set(full.ratings.map((r) => r.ratingKey)).size === 2, "ratings scoped per format");
+  expect(full.ratings.every((r) => r.rd >= RD_MIN), "RD floor respected");
+
+  const rookie = full.ratings.filter((r) => r.ratingKey === "GM_SCORED@1|FMT_ROOKIE@1");
+  const byId = new Map(rookie.map((r) => [r.competitorId, r]));
+  expect((byId.get("D_ALPHA")?.rating ?? 0) > (byId.get("D_ECHO")?.rating ?? Infinity), "strongest deck rated above weakest");
+
+  // Order independence.
+  const shuffled = [...all].reverse();
+  expect(JSON.stringify(computeRatingsV1(shuffled)) === JSON.stringify(full), "recompute ignores input order");
+
+  // Incremental application (one artifact at a time, canonical order) equals recompute.
+  const current = new Map<string, CompetitorRatingV1>();
+  for (const a of [...all].sort(compareArtifactsV1)) {
+    const o = ratedOutcomeV1(a);
+    if (!o) continue;
+    const key = (id: string) => `${o.ratingKey}::${id}`;
+    const out = applyOutcomeV1({
+      artifact: a,
+      outcome: o,
+      home: current.get(key(o.homeId)) ?? freshRatingV1(o.ratingKey, o.homeId),
+      away: current.get(key(o.awayId)) ?? freshRatingV1(o.ratingKey, o.awayId),
+    });
+    current.set(key(o.homeId), out.home);
+    current.set(key(o.awayId), out.away);
+  }
+  for (const r of full.ratings) {
+    const inc = current.get(`${r.ratingKey}::${r.competitorId}`);
+    if (JSON.stringify(inc) !== JSON.stringify(r)) failures.push(`incremental != recompute for ${r.ratingKey} ${r.competitorId}`);
+  }
+
+  // History chains: each entry starts where the previous one ended.
+  const lastAfter = new Map<string, number>();
+  for (const h of full.history) {
+    const k = `${h.ratingKey}::${h.competitorId}`;
+    const prev = lastAfter.get(k) ?? RATING_INITIAL;
+    if (h.ratingBefore !== prev) failures.push(`history gap for ${k} at match ${h.matchNumber}`);
+    lastAfter.set(k, h.ratingAfter);
+  }
+
+  if (failures.length > 0) {
+    console.error(`RATINGS CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exit(1);
+  }
+
+  console.log(`RATINGS CERT PASS: ${CASES} artifacts, ${full.ratings.length} ratings, recompute == incremental`);
+  process.exit(0);
+}
+
+main();
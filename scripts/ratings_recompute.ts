@@ -0,0 +1,33 @@
+// scripts/ratings_recompute.ts
+// Rebuilds all skill ratings from scratch: drops CompetitorRating / RatingHistoryEntry / RatingSyncCursor and
+// replays every EngineMatchArtifactV1 in (createdAt, id) order. Deterministic: rerunning yields identical ratings.
+//
+// Run:
+//   npx -y tsx scripts/ratings_recompute.ts
+//
+// Catch up only (no wipe):
+//   npx -y tsx scripts/ratings_recompute.ts --sync
+
+import { PrismaClient } from "@prisma/client";
+import { recomputeRatings, syncRatings } from "../src/server/ratings.gateway";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const syncOnly = process.argv.includes("--sync");
+  const out = syncOnly ? await syncRatings(prisma) : await recomputeRatings(prisma);
+  const competitors = await (prisma as any).competitorRating.count();
+
+  console.log(
+    `Ratings ${syncOnly ? "sync" : "recompute"}: artifactsScanned=${out.scanned} rated=${out.rated} competitorRatings=${competitors}`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
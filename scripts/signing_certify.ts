@@ -0,0 +1,162 @@
+// scripts/signing_certify.ts
+// Result signing certification (pure): ed25519 signatures over canonical payloads verify for match artifacts,
+// tournament completion events and eligibility packets; any edit, kind swap or unknown key is caught; rotation
+// keeps old signatures verifiable while only the new key signs.
+// Run: npx -y tsx scripts/signing_certify.ts
+
+import type { EligibilityPacketV1 } from "../src/contracts/gameplay/v1/EligibilityPacketV1";
+import type { TournamentCompletedEventV1 } from "../src/contracts/gameplay/v1/PlatformGameplayEventsV1";
+import {
+  loadAppConfigDefault,
+  loadFormatRegistryDefault,
+  loadGameModeRegistryDefault,
+} from "../src/config/registryLoaders.v1";
+import { replayOnceV1 } from "../src/engine/replayHarness.v1";
+import {
+  generateSigningKeyV1,
+  keyIdForPublicKeyV1,
+  publicSigningKeyV1,
+  signEligibilityPacketV1,
+  signPayloadV1,
+  verifyEligibilityPacketV1,
+  verifyPayloadV1,
+  type SigningKeyV1,
+} from "../src/signing/signing.v1";
+
+const CASES = 25;
+
+function packet(i: number): EligibilityPacketV1 {
+  return {
+    packetVersion: "EligibilityPacketV1",
+    eligibilityPacketId: `EP_CERT_${i}`,
+    issuedAt: "2026-03-01T12:00:00.000Z",
+    context: { universeCode: "BOBA", modeCode: "GM_SCORED@1", matchId: `M_SIGN_CERT_${i}` },
+    deck: {
+      deckId: `D_${i}`,
+      participantId: `P_${i}`,
+      claims: [{ cardVersionKey: `CERT:HERO:${i}:v1`, quantity: 2, claimKind: "OWNERSHIP_RECORD" }],
+    },
+    decision: "ELIGIBLE",
+  };
+}
+
+function main() {
+  const appConfig = loadAppConfigDefault();
+  const formatRegistry = loadFormatRegistryDefault();
+  const gameModeRegistry = loadGameModeRegistryDefault();
+
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  const k1 = generateSigningKeyV1("2026-03-01T00:00:00.000Z");
+  expect(k1.keyId === keyIdForPublicKeyV1(k1.publicKeyPem), "keyId derives from public key");
+  expect(publicSigningKeyV1(k1).privateKeyPem === undefined, "published key has no private half");
+
+  let keys: SigningKeyV1[] = [publicSigningKeyV1(k1)];
+  const pointer = {
+    format: { formatId: "FMT_ROOKIE", formatVersion: 1 },
+    gameMode: { gameModeId: "GM_SCORED", gameModeVersion: 1 },
+  };
+
+  const signedBefore: Array<{ payload: any; signature: any }> = [];
+
+  for (let i = 1; i <= CASES; i++) {
+    const matchResult = replayOnceV1({
+      inputs: { sessionId: `S_SIGN_CERT_${i}`, matchId: `M_SIGN_CERT_${i}`, pointer },
+      appConfig,
+      formatRegistry,
+      gameModeRegistry,
+    });
+    const payload = { matchId: matchResult.matchId, sessionId: matchResult.sessionId, pointer, matchResult };
+    const sig = signPayloadV1({ kind: "MATCH_ARTIFACT", payload, key: k1, signedAtIso: "2026-03-01T12:00:00.000Z" });
+    signedBefore.push({ payload, signature: sig });
+
+    const check = (p: unknown, s: any = sig, kind: any = "MATCH_ARTIFACT") =>
+      verifyPayloadV1({ kind, payload: p, signature: s, keys });
+
+    expect(check(payload).status === "VALID", `case ${i}: valid signature`);
+    expect(check(JSON.parse(JSON.stringify(payload))).status === "VALID", `case ${i}: survives JSON round trip`);
+
+    const reordered = { matchResult: payload.matchResult, pointer, sessionId: payload.sessionId, matchId: payload.matchId };
+    expect(check(reordered).status === "VALID", `case ${i}: key order irrelevant`);
+
+    const edited = JSON.parse(JSON.stringify(payload));
+    edited.matchResult.result.winner = edited.matchResult.result.winner === "HOME" ? "AWAY" : "HOME";
+    expect(check(edited).status === "CONTENT_CHANGED", `case ${i}: edited winner => CONTENT_CHANGED`);
+
+    const forged = { ...sig, signature: Buffer.alloc(64, 7).toString("base64") };
+    expect(check(payload, forged).status === "BAD_SIGNATURE", `case ${i}: forged signature => BAD_SIGNATURE`);
+
+    const backdated = { ...sig, signedAt: "2026-01-01T00:00:00.000Z" };
+    expect(!check(payload, backdated).ok, `case ${i}: signedAt is bound`);
+
+    expect(check(payload, sig, "TOURNAMENT_COMPLETED").status === "MALFORMED", `case ${i}: kind swap rejected`);
+  }
+
+  // --- Tournament completion event
+  const event: TournamentCompletedEventV1 = {
+    eventsVersion: "PlatformGameplayEventsV1",
+    eventId: "EVT_TOURNAMENT_COMPLETED_T_SIGN_CERT_k",
+    name: "tournament.completed",
+    occurredAt: "2026-03-01T13:00:00.000Z",
+    correlation: { tournamentId: "T_SIGN_CERT", universeCode: "BOBA" },
+    payload: { tournamentId: "T_SIGN_CERT", snapshot: { standings: { rows: [{ participantId: "P_1", rank: 1 }] } } },
+  };
+  const eventSig = signPayloadV1({ kind: "TOURNAMENT_COMPLETED", payload: event, key: k1, signedAtIso: "2026-03-01T13:00:00.000Z" });
+  expect(verifyPayloadV1({ kind: "TOURNAMENT_COMPLETED", payload: event, signature: eventSig, keys }).ok, "tournament event verifies");
+
+  const snapshot = { tournamentId: "T_SIGN_CERT", standings: { rows: [{ entityId: "P_1", points: 3 }] } };
+  const snapSig = signPayloadV1({ kind: "TOURNAMENT_COMPLETED", payload: snapshot, key: k1, signedAtIso: "2026-03-01T13:00:00.000Z" });
+  const bumped = { ...snapshot, standings: { rows: [{ entityId: "P_1", points: 4 }] } };
+  expect(verifyPayloadV1({ kind: "TOURNAMENT_COMPLETED", payload: snapshot, signature: snapSig, keys }).ok, "snapshot verifies");
+  expect(
+    verifyPayloadV1({ kind: "TOURNAMENT_COMPLETED", payload: bumped, signature: snapSig, keys }).status === "CONTENT_CHANGED",
+    "edited standings => CONTENT_CHANGED"
+  );
+
+  // --- Eligibility packets carry their own envelope
+  const signedPacket = signEligibilityPacketV1(packet(1), k1, "2026-03-01T12:00:00.000Z");
+  expect(signedPacket.signature?.scheme === "ed25519", "packet envelope scheme");
+  expect(verifyEligibilityPacketV1(signedPacket, keys).ok, "packet verifies with its embedded signature");
+  const upgraded = { ...signedPacket, deck: { ...signedPacket.deck, claims: [{ ...signedPacket.deck.claims[0], quantity: 3 }] } };
+  expect(!verifyEligibilityPacketV1(upgraded, keys).ok, "edited packet quantity rejected");
+  expect(verifyEligibilityPacketV1(packet(2), keys).status === "MALFORMED", "unsigned packet => MALFORMED");
+
+  // --- Rotation
+  const k2 = generateSigningKeyV1("2026-04-01T00:00:00.000Z");
+  const retired: SigningKeyV1 = { ...k1, status: "RETIRED", retiredAtIso: "2026-04-01T00:00:00.000Z" };
+  keys = [publicSigningKeyV1(retired), publicSigningKeyV1(k2)];
+
+  for (const { payload, signature } of signedBefore) {
+    const c = verifyPayloadV1({ kind: "MATCH_ARTIFACT", payload, signature, keys });
+    expect(c.ok && c.keyStatus === "RETIRED", `${payload.matchId}: old signature verifies after rotation`);
+  }
+  let retiredThrew = "";
+  try {
+    signPayloadV1({ kind: "MATCH_ARTIFACT", payload: {}, key: retired, signedAtIso: "2026-04-02T00:00:00.000Z" });
+  } catch (e: any) {
+    retiredThrew = String(e?.message ?? "");
+  }
+  expect(retiredThrew.startsWith("SIGNING_KEY_RETIRED"), "retired key cannot sign");
+
+  const fresh = signPayloadV1({ kind: "MATCH_ARTIFACT", payload: { a: 1 }, key: k2, signedAtIso: "2026-04-02T00:00:00.000Z" });
+  expect(fresh.signerId === k2.keyId, "new signatures use the new key id");
+  expect(
+    verifyPayloadV1({ kind: "MATCH_ARTIFACT", payload: { a: 1 }, signature: fresh, keys: [publicSigningKeyV1(retired)] }).status ===
+      "UNKNOWN_KEY",
+    "unpublished key => UNKNOWN_KEY"
+  );
+
+  if (failures.length > 0) {
+    console.error(`SIGNING CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exit(1);
+  }
+
+  console.log(`SIGNING CERT PASS: ${CASES} artifacts + tournament + eligibility packets signed/verified, tamper + rotation`);
+  process.exit(0);
+}
+
+main();
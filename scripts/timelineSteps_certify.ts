@@ -0,0 +1,108 @@
+// scripts/timelineSteps_certify.ts
+// Step-through replay certification (pure): the state folded from a stored timeline must land exactly on the
+// engine's own result — final chips, battles played, sudden-death rounds, winner — for seed-only and deck matches,
+// with and without coins.persistBetweenBattles. Also checks per-step invariants (contiguous idx, phase order).
+// Run: npx -y tsx scripts/timelineSteps_certify.ts
+
+import {
+  loadAppConfigDefault,
+  loadFormatRegistryDefault,
+  loadGameModeRegistryDefault,
+  type FormatRegistry,
+} from "../src/config/registryLoaders.v1";
+import type { RunnerDecksV1 } from "../src/engine/decks.v1";
+import type { MatchResultRecordV1 } from "../src/engine/matchResult.v1";
+import { replayOnceV1 } from "../src/engine/replayHarness.v1";
+import { timelineStepsV1 } from "../src/engine/timelineSteps.v1";
+
+const CASES = 60;
+const PHASE_ORDER = ["CREATED", "SETUP", "REGULATION", "SUDDEN_DEATH", "COMPLETE"];
+
+function withNoPersist(base: FormatRegistry): FormatRegistry {
+  const rookie = base.formats.find((f) => f.formatId === "FMT_ROOKIE" && f.formatVersion === 1);
+  if (!rookie) throw new Error("CERT_SETUP: FMT_ROOKIE@1 missing from default registry");
+  const noPersist = { ...rookie, formatId: "FMT_STEPS_NO_PERSIST", coins: { coinsPerBattle: 1, persistBetweenBattles: false } };
+  return { ...base, formats: [...base.formats, noPersist] };
+}
+
+function certDecks(i: number): RunnerDecksV1 {
+  const heroes = (side: string) =>
+    Array.from({ length: 4 }, (_, k) => ({
+      versionKey: `CERT:HERO:${side}_${k}:v1`,
+      qty: 2,
+      conceptType: "HERO",
+      power: 50 + ((k * 3 + i + (side === "OP" ? 1 : 0)) % 4) * 10,
+    }));
+  return { LS: heroes("LS"), OP: heroes("OP") };
+}
+
+function check(r: MatchResultRecordV1, persistBetweenBattles: boolean): string[] {
+  const errs: string[] = [];
+  const steps = timelineStepsV1(r.timeline, { persistBetweenBattles });
+  if (steps.length !== r.timeline.length) errs.push(`steps ${steps.length} != timeline ${r.timeline.length}`);
+
+  steps.forEach((s, i) => {
+    if (s.idx !== i) errs.push(`idx gap at ${i}`);
+    if (i > 0 && PHASE_ORDER.indexOf(s.phase) < PHASE_ORDER.indexOf(steps[i - 1].phase)) errs.push(`phase went back at ${i}`);
+  });
+
+  const last = steps[steps.length - 1];
+  const res = r.result;
+  if (!last) return [...errs, "no steps"];
+  if (last.phase !== "COMPLETE") errs.push(`final phase ${last.phase}`);
+  if (JSON.stringify({ home: last.chips.LS, away: last.chips.OP }) !== JSON.stringify(res.finalCoinCount)) {
+    errs.push(`chips ${JSON.stringify(last.chips)} vs ${JSON.stringify(res.finalCoinCount)}`);
+  }
+  if (last.battlesPlayed !== res.totalBattles) errs.push(`battles ${last.battlesPlayed} vs ${res.totalBattles}`);
+  const winner = last.winner === "LS" ? "HOME" : last.winner === "OP" ? "AWAY" : "DRAW";
+  if (winner !== res.winner) errs.push(`winner ${winner} vs ${res.winner}`);
+  const usedSd = r.timeline.some((e) => e.code === "SUDDEN_DEATH_START");
+  if (usedSd !== last.suddenDeathRounds > 0) errs.push(`sudden death rounds ${last.suddenDeathRounds}`);
+  return errs;
+}
+
+function main() {
+  const appConfig = loadAppConfigDefault();
+  const formatRegistry = withNoPersist(loadFormatRegistryDefault());
+  const gameModeRegistry = loadGameModeRegistryDefault();
+
+  const failures: string[] = [];
+  let suddenDeaths = 0;
+
+  for (const [formatId, persist] of [
+    ["FMT_ROOKIE", true],
+    ["FMT_STEPS_NO_PERSIST", false],
+  ] as const) {
+    for (let i = 1; i <= CASES; i++) {
+      const r = replayOnceV1({
+        inputs: {
+          sessionId: `S_STEPS_${i}`,
+          matchId: `M_STEPS_${formatId}_${i}`,
+          pointer: {
+            format: { formatId, formatVersion: 1 },
+            gameMode: { gameModeId: "GM_SCORED", gameModeVersion: 1 },
+          },
+          decks: i % 2 === 0 ? certDecks(i) : null,
+        },
+        appConfig,
+        formatRegistry,
+        gameModeRegistry,
+      });
+      if (r.timeline.some((e) => e.code === "SUDDEN_DEATH_START")) suddenDeaths++;
+      for (const e of check(r, persist)) failures.push(`${formatId} case ${i}: ${e}`);
+    }
+  }
+
+  if (suddenDeaths === 0) failures.push("corpus never reached sudden death");
+
+  if (failures.length > 0) {
+    console.error(`TIMELINE STEPS CERT FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exit(1);
+  }
+
+  console.log(`TIMELINE STEPS CERT PASS: ${CASES * 2} matches (${suddenDeaths} with sudden death) reconstruct to the engine result`);
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,41 @@
+// scripts/turnTimer_expiration_scan.ts
+// Turn-timer expiration job: applies missed turn deadlines to ACTIVE games (logic in src/server/turnTimers.gateway,
+// also exposed as POST /admin/games/turn-timers/scan).
+// Each miss is appended as a TURN_TIMEOUT GameEvent (END_TURN or FORFEIT decided by the mode's timer policy);
+// forfeited games move to ENDED (POST /games/:id/engine/run then stores the result with the forfeit winner).
+// Idempotent: a game whose deadline is still ahead is left untouched.
+//
+// Run:
+//   npx -y tsx scripts/turnTimer_expiration_scan.ts
+//
+// Deterministic time for tests:
+//   NOW_ISO="2026-02-15T00:00:00.000Z" npx -y tsx scripts/turnTimer_expiration_scan.ts
+
+import { PrismaClient } from "@prisma/client";
+import { scanTurnTimers } from "../src/server/turnTimers.gateway";
+
+const prisma = new PrismaClient();
+
+function getNow(): Date {
+  const fromEnv = process.env.NOW_ISO;
+  if (!fromEnv) return new Date();
+  const d = new Date(fromEnv);
+  if (isNaN(d.getTime())) throw new Error("NOW_ISO invalid");
+  return d;
+}
+
+async function main() {
+  const out = await scanTurnTimers(prisma, { nowIso: getNow().toISOString() });
+  console.log(
+    `Turn timers @ ${out.nowIso}: scanned=${out.scanned} timeoutsApplied=${out.timeoutsApplied} forfeited=${out.forfeited} untouched=${out.untouched}`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -62,6 +62,30 @@ const FormatRegistrySchema = z.object({
         engineCompatVersion: z.number().int().positive(),
         name: z.string().min(1).optional(),
         description: z.string().optional(),
+        setup: z
+          .object({
+            initialDrawSize: z.number().int().nonnegative().optional(),
+            deckOrderAtStart: z.enum(["AS_BUILT", "DETERMINISTIC_SHUFFLE"]).optional(),
+          })
+          .optional(),
+        coins: z
+          .object({
+            coinsPerBattle: z.number().int().nonnegative(),
+            persistBetweenBattles: z.boolean(),
+            winConditionCoinTarget: z.number().int().positive().optional(),
+          })
+          .optional(),
+        suddenDeath: z
+          .object({
+            enabled: z.boolean(),
+            trigger: z.literal("TIE").optional(),
+          })
+          .optional(),
+        reshuffle: z
+          .object({
+            mode: z.enum(["NONE", "ON_EXHAUST", "PHASE_BOUNDARY"]),
+          })
+          .optional(),
       })
     )
     .min(1),
@@ -102,11 +126,46 @@ const AppConfigSchema = z.object({
   engineSupportedCompatVersions: z.array(z.number().int().positive()).min(1),
 });
 
+const EngineBindingAdapterSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("IN_PROCESS"), adapterId: z.string().min(1) }),
+  z.object({
+    kind: z.literal("CHILD_PROCESS"),
+    command: z.array(z.string().min(1)).min(1),
+    cwd: z.string().min(1).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    callTimeoutMs: z.number().int().positive().optional(),
+  }),
+]);
+
+const EngineRegistryConfigSchema = z.object({
+  registryVersion: z.literal("EngineRegistryV1"),
+  universeIntegrationIds: z.array(z.string().min(1)).min(1),
+  bindings: z
+    .array(
+      z.object({
+        bindingId: z.string().min(1),
+        universeCode: z.string().min(1),
+        engineCode: z.string().min(1),
+        engineVersion: z.string().min(1),
+        defaultModeCode: z.string().min(1).optional(),
+        status: z.enum(["ACTIVE", "DISABLED", "DEPRECATED"]),
+        precedence: z.number().int().optional(),
+        adapter: EngineBindingAdapterSchema,
+        createdAt: z.string().min(1),
+        updatedAt: z.string().min(1),
+        meta: z.record(z.string(), z.any()).optional(),
+      })
+    )
+    .min(1),
+});
+
 // ---- Types ----
 export type FormatDistribution = z.infer<typeof FormatDistributionSchema>;
 export type FormatRegistry = z.infer<typeof FormatRegistrySchema>;
 export type GameModeRegistry = z.infer<typeof GameModeRegistrySchema>;
 export type AppConfig = z.infer<typeof AppConfigSchema>;
+export type EngineRegistryConfig = z.infer<typeof EngineRegistryConfigSchema>;
+export type EngineBindingAdapterConfig = z.infer<typeof EngineBindingAdapterSchema>;
 
 // ---- A2 ----
 export function loadFormatDistributionDefault(): FormatDistribution {
@@ -171,3 +230,16 @@ export function loadAppConfigDefault(): AppConfig {
   }
   return cfg;
 }
+
+// ---- Engine registry (universe -> engine bindings) ----
+export function loadEngineRegistryDefault(): EngineRegistryConfig {
+  const p = repoRootConfigPath("engineRegistry.default.json");
+  const cfg = readJsonFile(p, EngineRegistryConfigSchema);
+
+  const seen = new Set<string>();
+  for (const b of cfg.bindings) {
+    if (seen.has(b.bindingId)) throw new Error(`CONFIG_DUPLICATE_ENGINE_BINDING: ${b.bindingId}`);
+    seen.add(b.bindingId);
+  }
+  return cfg;
+}
@@ -23,6 +23,10 @@ export type ResolvedFormat = {
   engineCompatVersion: number;
   name?: string;
   description?: string;
+  setup?: { initialDrawSize?: number; deckOrderAtStart?: "AS_BUILT" | "DETERMINISTIC_SHUFFLE" };
+  coins?: { coinsPerBattle: number; persistBetweenBattles: boolean; winConditionCoinTarget?: number };
+  suddenDeath?: { enabled: boolean; trigger?: "TIE" };
+  reshuffle?: { mode: "NONE" | "ON_EXHAUST" | "PHASE_BOUNDARY" };
 };
 
 export type ResolvedGameMode = {
@@ -69,6 +73,10 @@ export function resolveFormat(
     engineCompatVersion: found.engineCompatVersion,
     name: found.name,
     description: found.description,
+    setup: found.setup,
+    coins: found.coins,
+    suddenDeath: found.suddenDeath,
+    reshuffle: found.reshuffle,
   };
 }
 
@@ -9,11 +9,16 @@
  * Constraints:
  * - NO engine calls
  * - NO replay inspection
- * - Uses the same noncrypto-djb2 hashing approach as Phase 9 spine (stable-json-sortedkeys bundle).
+ * - Recomputes with CanonicalJsonV1.hashArtifactV1 (inputs digest + timeline + result), the same code the
+ *   adapters produce with; the rule set is read back from deterministicHash.algo.
+ * - When the artifact carries deterministicHash.components, a mismatch names the diverging parts.
+ * - Artifacts hashed before the shared bundle (legacy noncrypto-djb2 labels) are recomputed with their original
+ *   bundle (seed + sorted participant ids + inputs digest + result summary [+ timeline]) under sorted-keys.
  */
 
 import type { MatchArtifactV1, IdString, JSONObject } from "./MatchArtifactV1";
 import type { AuditRecordV1, AuditStatusV1 } from "./AuditRecordV1";
+import { canonicalHashV1, hashArtifactV1, ruleSetFromBundleAlgoV1 } from "./CanonicalJsonV1";
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -23,59 +28,48 @@ function makeAuditId(matchId: IdString, expected: string): IdString {
   return `AUDIT_${matchId}_${expected}`.replace(/[^A-Za-z0-9_\-]/g, "_");
 }
 
-/**
- * Stable JSON stringify with sorted keys (recursively).
- * Arrays preserve order.
- */
-function stableStringify(value: any): string {
-  if (value === null || value === undefined) return JSON.stringify(value);
-  if (typeof value !== "object") return JSON.stringify(value);
-
-  if (Array.isArray(value)) {
-    return "[" + value.map((v) => stableStringify(v)).join(",") + "]";
-  }
-
-  const keys = Object.keys(value).sort();
-  const parts = keys.map((k) => JSON.stringify(k) + ":" + stableStringify(value[k]));
-  return "{" + parts.join(",") + "}";
+function mismatchedParts(
+  expected: MatchArtifactV1["deterministicHash"]["components"],
+  recomputed: NonNullable<MatchArtifactV1["deterministicHash"]["components"]>
+): string[] {
+  if (!expected) return [];
+  return (["inputs", "timeline", "result"] as const).filter((k) => expected[k] !== recomputed[k]);
 }
 
-/**
- * Non-cryptographic djb2 hash (32-bit) as hex string, stable across runs.
- * Matches Phase 9 intent: "noncrypto-djb2:bundle:v1".
- */
-function djb2Hex(input: string): string {
-  let hash = 5381;
-  for (let i = 0; i < input.length; i++) {
-    hash = ((hash << 5) + hash) ^ input.charCodeAt(i);
-    hash |= 0; // force 32-bit
-  }
-  // Convert to unsigned and hex, pad to 8
-  const u = hash >>> 0;
-  return u.toString(16).padStart(8, "0");
+// deterministicHash labels written by the adapters before CanonicalJsonV1 (inputsDigest used the first one).
+const LEGACY_ALGO_PREFIXES = [
+  "noncrypto-djb2:stable-json-sortedkeys:",
+  "noncrypto-djb2:bundle:",
+  "noncrypto-djb2:inputsDigest+result+timeline:",
+];
+const LEGACY_TIMELINE_ALGO_PREFIX = "noncrypto-djb2:inputsDigest+result+timeline:";
+
+function isLegacyAlgo(algo: string): boolean {
+  return LEGACY_ALGO_PREFIXES.some((prefix) => algo.startsWith(prefix));
 }
 
 /**
- * Build the deterministic bundle payload for hashing.
- * IMPORTANT: Excludes platformMeta (non-deterministic) by design.
- * Includes header, participants, seed, inputsDigest, timeline, result, replay.
+ * Recomputes a legacy deterministicHash. The timeline label bound the engine timeline, or null when the adapter
+ * fell back to a synthesized one, so both are tried; the stored value is returned when either matches.
  */
-function buildDeterministicBundle(artifact: MatchArtifactV1): JSONObject {
-  const participantIdsSorted = artifact.participants
-    .map((p) => p.participantId)
-    .slice()
-    .sort();
-
-  return {
+function recomputeLegacyHash(artifact: MatchArtifactV1): string {
+  const bundle: Record<string, unknown> = {
     seed: artifact.seed,
-    participants: participantIdsSorted,
+    participants: artifact.participants.map((p) => p.participantId).sort(),
     inputsDigest: artifact.inputsDigest.value,
     result: {
       winnerParticipantId: artifact.result.winnerParticipantId,
       scoresByParticipantId: artifact.result.scoresByParticipantId,
       outcomeFlags: artifact.result.outcomeFlags,
     },
-  } as unknown as JSONObject;
+  };
+  if (!artifact.deterministicHash.algo.startsWith(LEGACY_TIMELINE_ALGO_PREFIX)) {
+    return canonicalHashV1(bundle, "stable-json:v1+sorted-keys");
+  }
+
+  const withTimeline = canonicalHashV1({ ...bundle, timeline: artifact.timeline }, "stable-json:v1+sorted-keys");
+  const withoutTimeline = canonicalHashV1({ ...bundle, timeline: null }, "stable-json:v1+sorted-keys");
+  return withoutTimeline === artifact.deterministicHash.value ? withoutTimeline : withTimeline;
 }
 
 export interface VerifyMatchArtifactParamsV1 {
@@ -93,9 +87,12 @@ export function verifyMatchArtifactDeterminismV1(
   const expected = artifact.deterministicHash.value;
 
   try {
-    const bundle = buildDeterministicBundle(artifact);
-    const stableJson = stableStringify(bundle);
-    const recomputed = djb2Hex(stableJson);
+    const algo = artifact.deterministicHash.algo;
+    const ruleSet = ruleSetFromBundleAlgoV1(algo);
+    if (!ruleSet && !isLegacyAlgo(algo)) throw new Error(`UNSUPPORTED_HASH_ALGO: ${algo}`);
+
+    const hash = ruleSet ? hashArtifactV1(artifact, ruleSet) : null;
+    const recomputed = hash ? hash.value : recomputeLegacyHash(artifact);
 
     const matches = recomputed === expected;
 
@@ -118,9 +115,13 @@ export function verifyMatchArtifactDeterminismV1(
       comparison: {
         recomputedDeterministicHash: recomputed,
         matchesExpected: matches,
-        extra: {
-          algo: "noncrypto-djb2:stable-json-sortedkeys:inputsDigest+result:v1",
-        } as JSONObject,
+        extra: (hash
+          ? {
+              algo: hash.algo,
+              components: hash.components,
+              mismatchedParts: matches ? [] : mismatchedParts(artifact.deterministicHash.components, hash.components),
+            }
+          : { algo, legacy: true }) as JSONObject,
       },
       meta: {
         producer: "AuditVerifierV1",
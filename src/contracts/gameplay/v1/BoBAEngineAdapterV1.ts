@@ -8,6 +8,7 @@
  *
  * Determinism:
  * - No wall-clock timestamps. Header + timeline 'at' values are deterministic from {seed, matchId}.
+ * - inputsDigest + deterministicHash come from CanonicalJsonV1 (the same code AuditVerifierV1 recomputes with).
  *
  * Non-goals:
  * - Real BoBA gameplay
@@ -34,43 +35,14 @@ import type {
 } from "./EngineAdapterV1";
 
 import { BoBAEngineManifestV1, BOBA_ENGINE_CODE, BOBA_ENGINE_VERSION } from "./BoBAEngineManifestV1";
-
-/**
- * Stable JSON stringify with sorted keys (recursively).
- * Arrays preserve order.
- */
-function stableStringify(value: any): string {
-  if (value === null || value === undefined) return JSON.stringify(value);
-  if (typeof value !== "object") return JSON.stringify(value);
-
-  if (Array.isArray(value)) {
-    return "[" + value.map((v) => stableStringify(v)).join(",") + "]";
-  }
-
-  const keys = Object.keys(value).sort();
-  const parts = keys.map((k) => JSON.stringify(k) + ":" + stableStringify((value as any)[k]));
-  return "{" + parts.join(",") + "}";
-}
-
-/**
- * Non-cryptographic djb2 hash (32-bit) as hex string, stable across runs.
- */
-function djb2Hex(input: string): string {
-  let hash = 5381;
-  for (let i = 0; i < input.length; i++) {
-    hash = ((hash << 5) + hash) ^ input.charCodeAt(i);
-    hash |= 0;
-  }
-  const u = hash >>> 0;
-  return u.toString(16).padStart(8, "0");
-}
+import { digestInputsV1, djb2HexV1, hashArtifactV1 } from "./CanonicalJsonV1";
 
 /**
  * Deterministic ISO timestamp helper.
  * (Never use wall-clock in adapter outputs.)
  */
 function deterministicIso(seed: string, matchId: string, idx: number): string {
-  const h = djb2Hex(`${seed}::${matchId}`);
+  const h = djb2HexV1(`${seed}::${matchId}`);
   const n = parseInt(h, 16) >>> 0;
 
   const baseEpochMs = 1700000000000; // fixed constant
@@ -79,32 +51,6 @@ function deterministicIso(seed: string, matchId: string, idx: number): string {
   return new Date(t).toISOString();
 }
 
-function digestInputsNonCrypto(inputs: JSONObject): string {
-  const stable = stableStringify(inputs);
-  return djb2Hex(stable);
-}
-
-function deterministicBundleHash(params: {
-  seed: string;
-  participantIdsSorted: string[];
-  inputsDigest: string;
-  result: {
-    winnerParticipantId?: string;
-    scoresByParticipantId?: Record<string, number>;
-    outcomeFlags?: string[];
-  };
-  timeline?: MatchTimelineEventV1[];
-}): string {
-  const stable = stableStringify({
-    seed: params.seed,
-    participants: params.participantIdsSorted,
-    inputsDigest: params.inputsDigest,
-    result: params.result,
-    timeline: params.timeline ?? null,
-  });
-  return djb2Hex(stable);
-}
-
 function isTimelineEventLike(v: any): v is MatchTimelineEventV1 {
   return (
     v &&
@@ -166,7 +112,7 @@ export class BoBAEngineAdapterV1 implements EngineAdapterV1 {
         matchId: params.matchId,
         seed: params.seed,
         participants: participantIds,
-        inputsHashHint: digestInputsNonCrypto(params.inputs).slice(0, 8),
+        inputsHashHint: digestInputsV1(params.inputs).value,
       },
       extra: { createdBy: "boba-stub" } as JSONObject,
     };
@@ -179,7 +125,7 @@ export class BoBAEngineAdapterV1 implements EngineAdapterV1 {
       return { ok: false, errors: [{ code: "BAD_STATE", message: "Missing participants in state" }] };
     }
 
-    const seedHash = djb2Hex(params.seed);
+    const seedHash = djb2HexV1(params.seed);
     const pick = parseInt(seedHash.slice(-1), 16) % ids.length;
 
     const winnerParticipantId = ids[pick] as IdString;
@@ -224,7 +170,7 @@ export class BoBAEngineAdapterV1 implements EngineAdapterV1 {
     const engineCode = BOBA_ENGINE_CODE;
     const engineVersion = BOBA_ENGINE_VERSION;
 
-    const inputsDigestValue = digestInputsNonCrypto(params.inputs);
+    const inputsDigest = digestInputsV1(params.inputs);
 
     const participantIdsSorted = params.participants
       .map((p) => p.participantId)
@@ -242,18 +188,6 @@ export class BoBAEngineAdapterV1 implements EngineAdapterV1 {
     const startedAt = engineTimeline?.[0]?.at ?? deterministicIso(params.seed, params.matchId, 0);
     const completedAt = engineTimeline?.[engineTimeline.length - 1]?.at ?? deterministicIso(params.seed, params.matchId, 1);
 
-    const deterministicHashValue = deterministicBundleHash({
-      seed: params.seed,
-      participantIdsSorted,
-      inputsDigest: inputsDigestValue,
-      result: {
-        winnerParticipantId: winner,
-        scoresByParticipantId: (params.outputs as any).scoresByParticipantId,
-        outcomeFlags: (params.outputs as any).outcomeFlags,
-      },
-      timeline: engineTimeline ?? undefined,
-    });
-
     const fallbackTimeline: MatchTimelineEventV1[] = [
       {
         idx: 0,
@@ -272,53 +206,58 @@ export class BoBAEngineAdapterV1 implements EngineAdapterV1 {
       },
     ];
 
-    const artifact: MatchArtifactV1 = {
-      header: {
-        artifactVersion: MATCH_ARTIFACT_VERSION,
-        universeCode: params.universeCode,
-        engineCode,
-        engineVersion,
-        modeCode: params.modeCode,
-        matchId: params.matchId,
-        startedAt,
-        completedAt,
-      },
-      participants: params.participants.map((p) => ({
-        participantId: p.participantId,
-        role: (p as any).role ?? "PLAYER",
-        extra: (p.extra ?? {}) as JSONObject,
+    const header: MatchArtifactV1["header"] = {
+      artifactVersion: MATCH_ARTIFACT_VERSION,
+      universeCode: params.universeCode,
+      engineCode,
+      engineVersion,
+      modeCode: params.modeCode,
+      matchId: params.matchId,
+      startedAt,
+      completedAt,
+    };
+
+    const participants: MatchArtifactV1["participants"] = params.participants.map((p) => ({
+      participantId: p.participantId,
+      role: (p as any).role ?? "PLAYER",
+      extra: (p.extra ?? {}) as JSONObject,
+    }));
+
+    const timeline = engineTimeline ?? fallbackTimeline;
+
+    const result: MatchArtifactV1["result"] = {
+      winnerParticipantId: winner,
+      placements: participantIdsSorted.map((pid, i) => ({
+        participantId: pid as IdString,
+        placement: pid === winner ? 1 : 2 + i,
       })),
-      seed: params.seed,
-      inputsDigest: {
-        algo: "noncrypto-djb2:stable-json-sortedkeys:v1",
-        value: inputsDigestValue,
-      },
-      timeline: engineTimeline ?? fallbackTimeline,
-      result: {
-        winnerParticipantId: winner,
-        placements: participantIdsSorted.map((pid, i) => ({
-          participantId: pid as IdString,
-          placement: pid === winner ? 1 : 2 + i,
-        })),
+      scoresByParticipantId: (params.outputs as any).scoresByParticipantId,
+      outcomeFlags: (params.outputs as any).outcomeFlags,
+      scoringSummary: {
+        kind: "boba-stub",
         scoresByParticipantId: (params.outputs as any).scoresByParticipantId,
-        outcomeFlags: (params.outputs as any).outcomeFlags,
-        scoringSummary: {
-          kind: "boba-stub",
-          scoresByParticipantId: (params.outputs as any).scoresByParticipantId,
-        } as JSONObject,
-      },
-      deterministicHash: {
-        algo: "noncrypto-djb2:inputsDigest+result+timeline:v1",
-        value: deterministicHashValue,
-      },
+      } as JSONObject,
+    };
+
+    // Full bundle: inputs digest + timeline + result (+ header routing, seed, participants).
+    const deterministicHash = hashArtifactV1({ header, participants, seed: params.seed, inputsDigest, timeline, result });
+
+    const artifact: MatchArtifactV1 = {
+      header,
+      participants,
+      seed: params.seed,
+      inputsDigest,
+      timeline,
+      result,
+      deterministicHash,
       replay: {
         replayVersion: "boba-stub-replay:v1",
         payload: {
           seed: params.seed,
           participants: participantIdsSorted,
-          inputsDigest: inputsDigestValue,
-          deterministicHash: deterministicHashValue,
-          timelineCount: (engineTimeline ?? fallbackTimeline).length,
+          inputsDigest: inputsDigest.value,
+          deterministicHash: deterministicHash.value,
+          timelineCount: timeline.length,
         } as JSONObject,
       },
       platformMeta: {
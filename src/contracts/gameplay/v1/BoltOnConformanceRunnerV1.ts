@@ -2,7 +2,8 @@
  * BoltOnConformanceRunnerV1 — In-process conformance runner for a BoltOnKitV1.
  *
  * Phase 14 Step 2:
- * - Loads an engine adapter module dynamically (no child_process)
+ * - Loads an engine adapter module dynamically, or — when kit.exports.engineProcess is set — spawns the engine
+ *   and drives it over EngineRpcV1 (ChildProcessEngineAdapterV1, handshake recorded as the first test)
  * - Executes a minimal conformance suite against EngineAdapterV1 behaviors
  * - Produces BoltOnConformanceResultV1 (PASS/FAIL/ERROR) with details
  *
@@ -13,6 +14,8 @@
 
 import type { JSONObject, IdString } from "./MatchArtifactV1";
 import type { BoltOnKitV1, BoltOnConformanceResultV1 } from "./BoltOnKitV1";
+import { ENGINE_CONFORMANCE_KIT_VERSION, type EngineConformanceSuiteResultV1 } from "./EngineConformanceKitV1";
+import { ChildProcessEngineAdapterV1 } from "./ChildProcessEngineAdapterV1";
 
 type AnyObj = Record<string, any>;
 
@@ -262,8 +265,47 @@ async function runMinimalSuite(adapter: any, opts: RunBoltOnConformanceOptionsV1
   return tests;
 }
 
+/** Spawn the kit's engine process, handshake against the kit's engine identity, then run the suite. */
+async function runEngineProcessSuite(
+  kit: BoltOnKitV1,
+  baseDir: string,
+  options: RunBoltOnConformanceOptionsV1
+): Promise<BoltOnConformanceDetailsV1["tests"]> {
+  const proc = kit.exports.engineProcess!;
+  const adapter = new ChildProcessEngineAdapterV1({
+    command: proc.command,
+    cwd: asPath(baseDir, proc.cwd ?? "."),
+    env: proc.env,
+    callTimeoutMs: proc.callTimeoutMs,
+    expect: { engineCode: kit.engine.engineCode, engineVersion: kit.engine.engineVersion },
+  });
+
+  try {
+    try {
+      const manifest = await adapter.handshake();
+      const handshake = {
+        name: "engine process handshake",
+        ok: true,
+        message: `EngineRpcV1 handshake ok (${manifest.engineCode}@${manifest.engineVersion})`,
+      };
+      return [handshake, ...(await runMinimalSuite(adapter, options))];
+    } catch (e: any) {
+      return [
+        {
+          name: "engine process handshake",
+          ok: false,
+          message: safeString(e?.message ?? e),
+          extra: { command: proc.command } as unknown as JSONObject,
+        },
+      ];
+    }
+  } finally {
+    adapter.close();
+  }
+}
+
 /**
- * Run in-process conformance for a kit by dynamically loading the adapter.
+ * Run conformance for a kit by dynamically loading the adapter (or spawning its engine process).
  */
 export async function runBoltOnConformanceRunnerV1(
   kit: BoltOnKitV1,
@@ -280,6 +322,21 @@ export async function runBoltOnConformanceRunnerV1(
   };
 
   try {
+    if (kit.exports.engineProcess) {
+      details.adapterModule = `process:${kit.exports.engineProcess.command.join(" ")}`;
+      details.adapterExport = "ChildProcessEngineAdapterV1";
+      details.tests = await runEngineProcessSuite(kit, baseDir, options);
+
+      const failed = details.tests.filter((t) => !t.ok);
+      const status: BoltOnConformanceResultV1["status"] = failed.length === 0 ? "PASS" : "FAIL";
+      return {
+        status,
+        ranAt: nowIso(),
+        summary: status === "PASS" ? "All minimal conformance tests passed" : `${failed.length} conformance test(s) failed`,
+        details: details as unknown as JSONObject,
+      };
+    }
+
     const AdapterExport = await loadExport(adapterModulePath, kit.exports.engineAdapterExportName);
 
     if (!AdapterExport) {
@@ -329,4 +386,30 @@ export async function runBoltOnConformanceRunnerV1(
   }
 }
 
+/**
+ * Project a runner result onto EngineConformanceSuiteResultV1 (one test result per runner test, testId = test name).
+ * ERROR runs are never ok, even if every recorded test passed.
+ */
+export function toEngineConformanceSuiteResultV1(
+  kit: BoltOnKitV1,
+  result: BoltOnConformanceResultV1
+): EngineConformanceSuiteResultV1 {
+  const tests: BoltOnConformanceDetailsV1["tests"] = ((result.details as any)?.tests ?? []) as any;
+  const passed = tests.filter((t) => t.ok).length;
+
+  return {
+    kitVersion: ENGINE_CONFORMANCE_KIT_VERSION,
+    engineCode: kit.engine.engineCode,
+    engineVersion: kit.engine.engineVersion,
+    ranAt: result.ranAt,
+    ok: result.status === "PASS",
+    results: tests.map((t) => ({
+      testId: t.name,
+      ok: t.ok,
+      errors: t.ok ? undefined : [{ code: "CONFORMANCE_TEST_FAILED", message: t.message, details: t.extra }],
+    })),
+    summary: { total: tests.length, passed, failed: tests.length - passed },
+  };
+}
+
 export default runBoltOnConformanceRunnerV1;
@@ -68,6 +68,17 @@ export interface BoltOnExportsV1 {
   /** Optional manifest module if not embedded/constructed at runtime. */
   engineManifestModule?: string;
   engineManifestExportName?: string; // e.g. "MyEngineManifestV1"
+
+  /**
+   * Out-of-process engine (EngineRpcV1 over stdio). When set, the platform spawns `command` and talks to it
+   * through ChildProcessEngineAdapterV1; engineAdapterModule/engineAdapterExportName are then informational.
+   */
+  engineProcess?: {
+    command: string[]; // e.g. ["node", "dist/engine-rpc.js"]
+    cwd?: string;
+    env?: Record<string, string>;
+    callTimeoutMs?: number;
+  };
 }
 
 /**
@@ -0,0 +1,234 @@
+// src/contracts/gameplay/v1/CanonicalJsonV1.ts
+/**
+ * CanonicalJsonV1 — Shared implementation of the DeterminismV1 canonical serialization rule sets
+ * and the artifact hash bundle. Adapters (producing deterministicHash) and AuditVerifierV1
+ * (recomputing it) both go through here, so they cannot drift apart.
+ *
+ * Rule sets (CanonicalSerializationRuleSetV1):
+ * - "stable-json:v1"                           base normalization, keys in insertion order
+ * - "stable-json:v1+sorted-keys"                + object keys sorted by UTF-16 code unit order
+ * - "stable-json:v1+sorted-keys+sorted-arrays"  + array elements sorted by their canonical text
+ *
+ * Base normalization (all rule sets):
+ * - Numbers: must be finite; -0 is written as 0; otherwise ECMAScript shortest round-trip form.
+ * - Strings and keys: Unicode NFC; lone surrogates are rejected; two keys equal after NFC are rejected.
+ * - undefined: omitted as an object member, null as an array element (JSON semantics); rejected at top level.
+ * - toJSON() is honoured (e.g. Date); functions, symbols, bigint and cycles are rejected.
+ *
+ * Errors are thrown as Error("CANONICAL_JSON_<CODE>: detail").
+ *
+ * Hashing is non-cryptographic (djb2, 32-bit) — no crypto dependency in the contract layer.
+ */
+
+import type { DeterministicHashV1, JSONObject, MatchArtifactV1 } from "./MatchArtifactV1";
+import {
+  DETERMINISM_CONTRACT_VERSION,
+  type CanonicalSerializationRuleSetV1,
+  type DeterminismHashBundleV1,
+} from "./DeterminismV1";
+
+export const CANONICAL_SERIALIZATION_RULE_SETS_V1: ReadonlyArray<CanonicalSerializationRuleSetV1> = [
+  "stable-json:v1",
+  "stable-json:v1+sorted-keys",
+  "stable-json:v1+sorted-keys+sorted-arrays",
+];
+
+/** Default rule set for platform hashing. Arrays keep their order (timelines are ordered). */
+export const DEFAULT_CANONICAL_RULE_SET_V1: CanonicalSerializationRuleSetV1 = "stable-json:v1+sorted-keys";
+
+const HASH_ALGO_PREFIX = "noncrypto-djb2:";
+const BUNDLE_ALGO_PREFIX = "noncrypto-djb2:bundle(inputs+timeline+result):";
+
+function fail(code: string, detail: string): never {
+  throw new Error(`CANONICAL_JSON_${code}: ${detail}`);
+}
+
+function normalizeString(s: string, path: string): string {
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    if (c >= 0xd800 && c <= 0xdbff) {
+      const next = s.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        i++;
+        continue;
+      }
+      fail("LONE_SURROGATE", `${path} at index ${i}`);
+    }
+    if (c >= 0xdc00 && c <= 0xdfff) fail("LONE_SURROGATE", `${path} at index ${i}`);
+  }
+  return s.normalize("NFC");
+}
+
+function writeNumber(n: number, path: string): string {
+  if (!Number.isFinite(n)) fail("NON_FINITE", `${path} = ${n}`);
+  return Object.is(n, -0) ? "0" : JSON.stringify(n);
+}
+
+function compareUtf16(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function write(
+  value: any,
+  ruleSet: CanonicalSerializationRuleSetV1,
+  path: string,
+  stack: Set<object>
+): string | undefined {
+  if (value !== null && typeof value === "object" && typeof value.toJSON === "function") value = value.toJSON();
+
+  if (value === undefined) return undefined;
+  if (value === null) return "null";
+
+  switch (typeof value) {
+    case "boolean":
+      return value ? "true" : "false";
+    case "number":
+      return writeNumber(value, path);
+    case "string":
+      return JSON.stringify(normalizeString(value, path));
+    case "object":
+      break;
+    default:
+      fail("UNSUPPORTED", `${path} is ${typeof value}`);
+  }
+
+  if (stack.has(value)) fail("CYCLE", path);
+  stack.add(value);
+
+  let out: string;
+  if (Array.isArray(value)) {
+    const items = value.map((v, i) => write(v, ruleSet, `${path}[${i}]`, stack) ?? "null");
+    if (ruleSet === "stable-json:v1+sorted-keys+sorted-arrays") items.sort(compareUtf16);
+    out = "[" + items.join(",") + "]";
+  } else {
+    const members: Array<[string, string]> = [];
+    const seen = new Set<string>();
+    for (const rawKey of Object.keys(value)) {
+      const key = normalizeString(rawKey, `${path}.<key>`);
+      if (seen.has(key)) fail("DUPLICATE_KEY", `${path}.${key} (keys collide after NFC)`);
+      seen.add(key);
+
+      const v = write(value[rawKey], ruleSet, `${path}.${key}`, stack);
+      if (v !== undefined) members.push([key, v]);
+    }
+    if (ruleSet !== "stable-json:v1") members.sort((a, b) => compareUtf16(a[0], b[0]));
+    out = "{" + members.map(([k, v]) => JSON.stringify(k) + ":" + v).join(",") + "}";
+  }
+
+  stack.delete(value);
+  return out;
+}
+
+export function isCanonicalRuleSetV1(x: unknown): x is CanonicalSerializationRuleSetV1 {
+  return CANONICAL_SERIALIZATION_RULE_SETS_V1.includes(x as any);
+}
+
+/** Canonical text for `value` under `ruleSet`. */
+export function canonicalJsonV1(
+  value: unknown,
+  ruleSet: CanonicalSerializationRuleSetV1 = DEFAULT_CANONICAL_RULE_SET_V1
+): string {
+  if (!isCanonicalRuleSetV1(ruleSet)) fail("UNKNOWN_RULE_SET", String(ruleSet));
+  const out = write(value, ruleSet, "$", new Set());
+  if (out === undefined) fail("UNSUPPORTED", "$ is undefined");
+  return out;
+}
+
+/** Non-cryptographic djb2 (32-bit, xor variant) over UTF-16 code units, as 8 hex chars. */
+export function djb2HexV1(input: string): string {
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash) ^ input.charCodeAt(i);
+    hash |= 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function canonicalHashV1(
+  value: unknown,
+  ruleSet: CanonicalSerializationRuleSetV1 = DEFAULT_CANONICAL_RULE_SET_V1
+): string {
+  return djb2HexV1(canonicalJsonV1(value, ruleSet));
+}
+
+/** Algo label for inputsDigest / component hashes, e.g. "noncrypto-djb2:stable-json:v1+sorted-keys". */
+export function canonicalHashAlgoV1(ruleSet: CanonicalSerializationRuleSetV1): string {
+  return HASH_ALGO_PREFIX + ruleSet;
+}
+
+/** Algo label for deterministicHash produced by hashArtifactV1. */
+export function bundleHashAlgoV1(ruleSet: CanonicalSerializationRuleSetV1): string {
+  return BUNDLE_ALGO_PREFIX + ruleSet;
+}
+
+/** Rule set declared by a bundle algo label, or null if the label was not produced here. */
+export function ruleSetFromBundleAlgoV1(algo: string): CanonicalSerializationRuleSetV1 | null {
+  if (!algo.startsWith(BUNDLE_ALGO_PREFIX)) return null;
+  const ruleSet = algo.slice(BUNDLE_ALGO_PREFIX.length);
+  return isCanonicalRuleSetV1(ruleSet) ? ruleSet : null;
+}
+
+export function digestInputsV1(
+  inputs: JSONObject,
+  ruleSet: CanonicalSerializationRuleSetV1 = DEFAULT_CANONICAL_RULE_SET_V1
+): { algo: string; value: string } {
+  return { algo: canonicalHashAlgoV1(ruleSet), value: canonicalHashV1(inputs, ruleSet) };
+}
+
+/** The artifact fields bound into deterministicHash (replay and platformMeta are not). */
+export type HashableArtifactV1 = Pick<MatchArtifactV1, "participants" | "seed" | "inputsDigest" | "timeline" | "result"> & {
+  header: Pick<MatchArtifactV1["header"], "universeCode" | "engineCode" | "engineVersion" | "modeCode" | "matchId">;
+};
+
+/**
+ * DeterminismHashBundleV1 for an artifact. The artifact carries only the inputs digest, so `inputs`
+ * binds that; `outputs` binds the timeline and result through their component hashes.
+ * Participants are in canonical order (sorted by participantId).
+ */
+export function buildDeterminismHashBundleV1(
+  artifact: HashableArtifactV1,
+  ruleSet: CanonicalSerializationRuleSetV1 = DEFAULT_CANONICAL_RULE_SET_V1
+): DeterminismHashBundleV1 {
+  const participants = artifact.participants
+    .map((p) => (p.extra === undefined ? { participantId: p.participantId } : { participantId: p.participantId, extra: p.extra }))
+    .sort((a, b) => compareUtf16(a.participantId, b.participantId));
+
+  return {
+    contractVersion: DETERMINISM_CONTRACT_VERSION,
+    serialization: { ruleSet },
+    header: {
+      universeCode: artifact.header.universeCode,
+      engineCode: artifact.header.engineCode,
+      engineVersion: artifact.header.engineVersion,
+      modeCode: artifact.header.modeCode,
+      matchId: artifact.header.matchId,
+    },
+    seed: artifact.seed,
+    participants,
+    inputs: { inputsDigest: { algo: artifact.inputsDigest.algo, value: artifact.inputsDigest.value } },
+    outputs: {
+      timelineHash: canonicalHashV1(artifact.timeline, ruleSet),
+      resultHash: canonicalHashV1(artifact.result, ruleSet),
+    },
+  };
+}
+
+/**
+ * deterministicHash for an artifact, with the per-part component hashes. Producers call this on the
+ * finished artifact (minus deterministicHash/replay); verifiers call it on the artifact as received.
+ */
+export function hashArtifactV1(
+  artifact: HashableArtifactV1,
+  ruleSet: CanonicalSerializationRuleSetV1 = DEFAULT_CANONICAL_RULE_SET_V1
+): DeterministicHashV1 & { components: NonNullable<DeterministicHashV1["components"]> } {
+  const bundle = buildDeterminismHashBundleV1(artifact, ruleSet);
+  return {
+    algo: bundleHashAlgoV1(ruleSet),
+    value: canonicalHashV1(bundle, ruleSet),
+    components: {
+      inputs: artifact.inputsDigest.value,
+      timeline: String(bundle.outputs.timelineHash),
+      result: String(bundle.outputs.resultHash),
+    },
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * ChildProcessEngineAdapterV1 — EngineAdapterV1 backed by an engine running as a child process (EngineRpcV1 over stdio).
+ *
+ * Lifecycle:
+ * - The process is spawned lazily on the first call and greeted with "handshake"; the returned EngineManifestV1
+ *   must be a MatchArtifactV1-emitting EngineManifestV1 and, when `expect` is given, match its engineCode/engineVersion.
+ * - Every call has a timeout (options.callTimeoutMs, else manifest.sandbox.timeoutMs, else 5000 ms).
+ *
+ * Isolation:
+ * - The child gets only PATH/HOME/TMPDIR plus options.env — no platform secrets.
+ * - A timeout, crash, oversize line or protocol violation kills the process and fails the in-flight calls;
+ *   the next call starts a fresh process (the protocol is stateless).
+ * - Transport failures surface like engine errors: validateDeck/createMatch/runMatch resolve { ok:false, errors:[...] }
+ *   with codes ENGINE_TIMEOUT / ENGINE_CRASHED / ENGINE_PROTOCOL / ENGINE_HANDSHAKE / ENGINE_ERROR;
+ *   produceArtifact (no error envelope) throws Error("<CODE>: detail").
+ *
+ * Call close() when done, or the open stdio pipes keep the parent process alive.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+
+import type {
+  CreateMatchInputV1,
+  DeckValidationResultV1,
+  EngineAdapterV1,
+  EngineErrorV1,
+  MatchInitV1,
+  ProduceArtifactInputV1,
+  RunMatchInputV1,
+  RunMatchResultV1,
+  ValidateDeckInputV1,
+} from "./EngineAdapterV1";
+import { ENGINE_MANIFEST_VERSION, type EngineManifestV1 } from "./EngineManifestV1";
+import type { JSONObject, MatchArtifactV1 } from "./MatchArtifactV1";
+import {
+  ENGINE_RPC_PROTOCOL_VERSION,
+  type EngineRpcHandshakeResultV1,
+  type EngineRpcMethodV1,
+} from "./EngineRpcV1";
+
+const DEFAULT_CALL_TIMEOUT_MS = 5_000;
+const DEFAULT_HANDSHAKE_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_LINE_BYTES = 8 * 1024 * 1024;
+const STDERR_TAIL_BYTES = 4096;
+
+export type EngineTransportErrorCodeV1 =
+  | "ENGINE_TIMEOUT"
+  | "ENGINE_CRASHED"
+  | "ENGINE_PROTOCOL"
+  | "ENGINE_HANDSHAKE"
+  | "ENGINE_ERROR";
+
+export class EngineTransportErrorV1 extends Error {
+  constructor(
+    public readonly code: EngineTransportErrorCodeV1,
+    detail: string,
+    public readonly details?: JSONObject
+  ) {
+    super(`${code}: ${detail}`);
+  }
+}
+
+export interface ChildProcessEngineOptionsV1 {
+  /** argv of the engine process, e.g. ["node", "dist/engine.js"] or ["deno", "run", "engine.ts"]. */
+  command: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+
+  /** Engine identity the handshake manifest must declare. */
+  expect?: { engineCode?: string; engineVersion?: string };
+
+  callTimeoutMs?: number;
+  handshakeTimeoutMs?: number;
+  maxLineBytes?: number;
+}
+
+type Pending = {
+  method: EngineRpcMethodV1;
+  resolve: (v: unknown) => void;
+  reject: (e: EngineTransportErrorV1) => void;
+  timer: NodeJS.Timeout;
+};
+
+type Session = {
+  child: ChildProcessWithoutNullStreams;
+  pending: Map<number, Pending>;
+  stderrTail: string;
+  dead: boolean;
+  ready: Promise<EngineManifestV1>;
+};
+
+function childEnv(extra: Record<string, string> | undefined): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const k of ["PATH", "HOME", "TMPDIR", "SystemRoot"]) {
+    if (process.env[k] !== undefined) env[k] = process.env[k];
+  }
+  return { ...env, ...(extra ?? {}) };
+}
+
+function checkManifest(m: any, expect: ChildProcessEngineOptionsV1["expect"]): EngineManifestV1 {
+  const bad = (detail: string) => new EngineTransportErrorV1("ENGINE_HANDSHAKE", detail);
+  if (!m || typeof m !== "object") throw bad("handshake returned no manifest");
+  if (m.manifestVersion !== ENGINE_MANIFEST_VERSION) throw bad(`manifestVersion ${m.manifestVersion}`);
+  if (m.artifactVersion !== "MatchArtifactV1") throw bad(`artifactVersion ${m.artifactVersion}`);
+  if (typeof m.engineCode !== "string" || typeof m.engineVersion !== "string") throw bad("manifest missing engineCode/engineVersion");
+  if (expect?.engineCode && m.engineCode !== expect.engineCode) {
+    throw bad(`engineCode ${m.engineCode}, expected ${expect.engineCode}`);
+  }
+  if (expect?.engineVersion && m.engineVersion !== expect.engineVersion) {
+    throw bad(`engineVersion ${m.engineVersion}, expected ${expect.engineVersion}`);
+  }
+  return m as EngineManifestV1;
+}
+
+export class ChildProcessEngineAdapterV1 implements EngineAdapterV1 {
+  public readonly adapterVersion = "EngineAdapterV1" as const;
+
+  private session: Session | null = null;
+  private nextId = 1;
+  private manifestSeen: EngineManifestV1 | null = null;
+  private restarts = 0;
+
+  constructor(private readonly options: ChildProcessEngineOptionsV1) {
+    if (!Array.isArray(options.command) || options.command.length === 0) {
+      throw new Error("ENGINE_PROCESS_COMMAND_REQUIRED: options.command must be a non-empty argv");
+    }
+  }
+
+  /** Manifest from the latest successful handshake (null before the first call). */
+  get manifest(): EngineManifestV1 | null {
+    return this.manifestSeen;
+  }
+
+  /** Number of engine processes started after the first (timeouts/crashes). */
+  get restartCount(): number {
+    return this.restarts;
+  }
+
+  /** Start the engine (if needed) and return its handshake manifest. */
+  async handshake(): Promise<EngineManifestV1> {
+    return this.ensureSession().ready;
+  }
+
+  /** Kill the engine process; a later call starts a new one. */
+  close(): void {
+    if (this.session) this.kill(this.session, new EngineTransportErrorV1("ENGINE_CRASHED", "adapter closed"));
+  }
+
+  private ensureSession(): Session {
+    if (this.session && !this.session.dead) return this.session;
+    if (this.session) this.restarts++;
+
+    const [cmd, ...args] = this.options.command;
+    const child = spawn(cmd, args, {
+      cwd: this.options.cwd,
+      env: childEnv(this.options.env),
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    const session: Session = { child, pending: new Map(), stderrTail: "", dead: false, ready: null as any };
+    this.session = session;
+
+    let buffered = "";
+    const maxLine = this.options.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES;
+    child.stdout.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => {
+      buffered += chunk;
+      let nl = buffered.indexOf("\n");
+      while (nl >= 0) {
+        const line = buffered.slice(0, nl).trim();
+        buffered = buffered.slice(nl + 1);
+        if (line) this.onLine(session, line);
+        if (session.dead) return;
+        nl = buffered.indexOf("\n");
+      }
+      if (buffered.length > maxLine) {
+        this.kill(session, new EngineTransportErrorV1("ENGINE_PROTOCOL", `stdout line exceeds ${maxLine} bytes`));
+      }
+    });
+
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => {
+      session.stderrTail = (session.stderrTail + chunk).slice(-STDERR_TAIL_BYTES);
+    });
+
+    child.on("error", (e) => this.kill(session, new EngineTransportErrorV1("ENGINE_CRASHED", `spawn failed: ${e.message}`)));
+    child.on("exit", (code, signal) => {
+      this.kill(
+        session,
+        new EngineTransportErrorV1("ENGINE_CRASHED", `engine exited (code=${code}, signal=${signal})`, {
+          stderrTail: session.stderrTail,
+        } as JSONObject)
+      );
+    });
+    // A dead child must not take the platform down with EPIPE.
+    child.stdin.on("error", () => undefined);
+
+    session.ready = this.request(
+      session,
+      "handshake",
+      { protocolVersion: ENGINE_RPC_PROTOCOL_VERSION, adapterVersion: "EngineAdapterV1" },
+      this.options.handshakeTimeoutMs ?? DEFAULT_HANDSHAKE_TIMEOUT_MS
+    ).then(
+      (res: any) => {
+        const r = res as EngineRpcHandshakeResultV1;
+        if (r?.protocolVersion !== ENGINE_RPC_PROTOCOL_VERSION) {
+          const err = new EngineTransportErrorV1("ENGINE_HANDSHAKE", `protocolVersion ${r?.protocolVersion}`);
+          this.kill(session, err);
+          throw err;
+        }
+        try {
+          this.manifestSeen = checkManifest(r.manifest, this.options.expect);
+        } catch (e: any) {
+          this.kill(session, e);
+          throw e;
+        }
+        return this.manifestSeen;
+      },
+      (e: EngineTransportErrorV1) => {
+        throw e.code === "ENGINE_TIMEOUT" ? new EngineTransportErrorV1("ENGINE_HANDSHAKE", e.message) : e;
+      }
+    );
+    // Callers observe failures through the calls they make; avoid an unhandled rejection here.
+    session.ready.catch(() => undefined);
+
+    return session;
+  }
+
+  private onLine(session: Session, line: string) {
+    let msg: any;
+    try {
+      msg = JSON.parse(line);
+    } catch {
+      this.kill(session, new EngineTransportErrorV1("ENGINE_PROTOCOL", `non-JSON on stdout: ${line.slice(0, 120)}`));
+      return;
+    }
+    const p = typeof msg?.id === "number" ? session.pending.get(msg.id) : undefined;
+    if (!p) {
+      // id:null errors are the engine rejecting a line it could not parse: that is our bug or a broken engine.
+      if (msg?.error) this.kill(session, new EngineTransportErrorV1("ENGINE_PROTOCOL", String(msg.error.message ?? "error")));
+      return;
+    }
+    session.pending.delete(msg.id);
+    clearTimeout(p.timer);
+    if (msg.error) {
+      p.reject(
+        new EngineTransportErrorV1("ENGINE_ERROR", `${p.method}: ${String(msg.error.message ?? "engine error")}`, {
+          rpcCode: msg.error.code ?? null,
+        } as JSONObject)
+      );
+    } else {
+      p.resolve(msg.result);
+    }
+  }
+
+  private kill(session: Session, err: EngineTransportErrorV1) {
+    if (session.dead) return;
+    session.dead = true;
+    for (const p of session.pending.values()) {
+      clearTimeout(p.timer);
+      p.reject(err);
+    }
+    session.pending.clear();
+    if (session.child.exitCode === null && session.child.signalCode === null) session.child.kill("SIGKILL");
+  }
+
+  private request(session: Session, method: EngineRpcMethodV1, params: unknown, timeoutMs: number): Promise<unknown> {
+    if (session.dead) return Promise.reject(new EngineTransportErrorV1("ENGINE_CRASHED", "engine process is not running"));
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // The engine may be wedged; only a fresh process is trustworthy.
+        this.kill(session, new EngineTransportErrorV1("ENGINE_TIMEOUT", `${method} exceeded ${timeoutMs} ms`));
+      }, timeoutMs);
+      session.pending.set(id, { method, resolve, reject, timer });
+      session.child.stdin.write(JSON.stringify({ jsonrpc: "2.0", id, method, params }) + "\n");
+    });
+  }
+
+  private async call(method: Exclude<EngineRpcMethodV1, "handshake">, params: unknown): Promise<unknown> {
+    const session = this.ensureSession();
+    const manifest = await session.ready;
+    const timeoutMs = this.options.callTimeoutMs ?? manifest.sandbox?.timeoutMs ?? DEFAULT_CALL_TIMEOUT_MS;
+    return this.request(session, method, params, timeoutMs);
+  }
+
+  private async enveloped<T extends { ok: boolean; errors?: EngineErrorV1[] }>(
+    method: "validateDeck" | "createMatch" | "runMatch",
+    params: unknown
+  ): Promise<T> {
+    try {
+      return (await this.call(method, params)) as T;
+    } catch (e: any) {
+      const err = e instanceof EngineTransportErrorV1 ? e : new EngineTransportErrorV1("ENGINE_ERROR", String(e?.message ?? e));
+      return { ok: false, errors: [{ code: err.code, message: err.message, details: err.details }] } as T;
+    }
+  }
+
+  validateDeck(input: ValidateDeckInputV1): Promise<DeckValidationResultV1> {
+    return this.enveloped<DeckValidationResultV1>("validateDeck", input);
+  }
+
+  createMatch(input: CreateMatchInputV1): Promise<MatchInitV1> {
+    return this.enveloped<MatchInitV1>("createMatch", input);
+  }
+
+  runMatch(input: RunMatchInputV1): Promise<RunMatchResultV1> {
+    return this.enveloped<RunMatchResultV1>("runMatch", input);
+  }
+
+  async produceArtifact(input: ProduceArtifactInputV1): Promise<MatchArtifactV1> {
+    return (await this.call("produceArtifact", input)) as MatchArtifactV1;
+  }
+}
+
+export default ChildProcessEngineAdapterV1;
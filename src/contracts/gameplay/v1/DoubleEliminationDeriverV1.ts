@@ -0,0 +1,461 @@
+/**
+ * DoubleEliminationDeriverV1 — Artifact-only derivation for DOUBLE_ELIMINATION brackets.
+ *
+ * Phase 10 Structure #4:
+ * - Implementation file (runtime code)
+ * - Consumes MatchArtifactV1[] only (NO engine calls, NO replay inspection)
+ * - Reads ONLY: artifact.result.winnerParticipantId, artifact.result.placements, artifact.result.scoresByParticipantId
+ * - Uses TournamentV1.schedule as the bracket spine; buildDoubleEliminationScheduleV1() generates one
+ *
+ * Spine conventions:
+ * - slot.participantIds entries are participant ids or placeholders TBD_<slotId>_WIN / TBD_<slotId>_LOSE
+ *   (same TBD_<slotId>_WIN shape single-elim schedules use); the deriver resolves them from artifacts.
+ * - A slot that resolves to one entrant is a walkover (bye): the entrant advances, no loser drops, no match played.
+ * - slot.extra.bracket = WINNERS | LOSERS | GRAND_FINAL, slot.extra.bracketRound = round inside that bracket.
+ * - slot.round is the play wave (W1=1, then L(m) = m+1, W(r) = 2r-2, GF1 = 2k, reset = 2k+1), so every slot's
+ *   sources sit in earlier waves.
+ * - Grand-final reset: a slot with extra.resetOf = <grand final slotId>. It is played only if the grand final is
+ *   won by its second entrant (the losers-bracket champion); otherwise it is SKIPPED. Omit it for no reset.
+ *
+ * Minimal rules:
+ * - winner gets win (+1 point), the other entrant a loss; walkovers score nothing
+ * - a loser is eliminated when no live slot consumes TBD_<slotId>_LOSE
+ * - standings: not-eliminated first, then by elimination wave desc, wins desc, participantId asc
+ *   (so champion, runner-up, losers-final loser, ...); tieBreakers.eliminatedRound = wave of elimination
+ *
+ * Determinism:
+ * - Snapshot ordering is stable by (round asc, position asc, slotId asc).
+ */
+
+import type { MatchArtifactV1, IdString, JSONObject } from "./MatchArtifactV1";
+import type {
+  TournamentDeriverV1,
+  TournamentV1,
+  TournamentStandingsTableV1,
+  TournamentStandingsRowV1,
+  TournamentProgressSnapshotV1,
+  TournamentMatchSlotV1,
+} from "./TournamentV1";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function assertStructure(tournament: TournamentV1) {
+  if (tournament.header.structure !== "DOUBLE_ELIMINATION") {
+    throw new Error("Tournament structure mismatch: expected DOUBLE_ELIMINATION");
+  }
+}
+
+function assertBindingMatches(tournament: TournamentV1, artifact: MatchArtifactV1): void {
+  const th = tournament.header;
+  const ah = artifact.header;
+
+  if (ah.universeCode !== th.universeCode) throw new Error("Artifact universeCode mismatch");
+  if (ah.engineCode !== th.engineCode) throw new Error("Artifact engineCode mismatch");
+  if (ah.engineVersion !== th.engineVersion) throw new Error("Artifact engineVersion mismatch");
+  if (ah.modeCode !== th.modeCode) throw new Error("Artifact modeCode mismatch");
+}
+
+function deriveWinnerFromArtifact(artifact: MatchArtifactV1): IdString | null {
+  // Allowed reads only. Elimination needs one winner; a shared top result is no result.
+  const winner = artifact.result.winnerParticipantId;
+  if (winner) return winner;
+
+  const placements = artifact.result.placements;
+  if (placements && placements.length > 0) {
+    const best = Math.min(...placements.map((p) => p.placement));
+    const top = placements.filter((p) => p.placement === best).map((p) => p.participantId);
+    return top.length === 1 ? top[0] : null;
+  }
+
+  const scores = artifact.result.scoresByParticipantId;
+  if (scores && Object.keys(scores).length > 0) {
+    const entries = Object.entries(scores) as Array<[IdString, number]>;
+    const max = Math.max(...entries.map(([, v]) => v));
+    const top = entries.filter(([, v]) => v === max).map(([pid]) => pid);
+    return top.length === 1 ? top[0] : null;
+  }
+
+  return null;
+}
+
+function stableSortSlots(slots: TournamentMatchSlotV1[]): TournamentMatchSlotV1[] {
+  return slots.slice().sort((a, b) => {
+    if (a.round !== b.round) return a.round - b.round;
+    const p = (a.position ?? "").localeCompare(b.position ?? "");
+    if (p !== 0) return p;
+    return a.slotId.localeCompare(b.slotId);
+  });
+}
+
+const PLACEHOLDER = /^TBD_(.+)_(WIN|LOSE)$/;
+
+export type DoubleEliminationBracketV1 = "WINNERS" | "LOSERS" | "GRAND_FINAL";
+
+/**
+ * PENDING: an entrant is still unknown. READY: both known, no artifact. UNDECIDED: artifact without a single winner.
+ * WALKOVER: one entrant (bye). EMPTY: no entrants (bye met bye). SKIPPED: reset not needed.
+ */
+export type DoubleEliminationSlotStatusV1 = "PENDING" | "READY" | "UNDECIDED" | "COMPLETED" | "WALKOVER" | "EMPTY" | "SKIPPED";
+
+export interface DoubleEliminationBracketSlotSnapshotV1 {
+  slotId: IdString;
+  round: number;
+  position?: string;
+
+  /** Resolved entrants; unresolved ones stay as their TBD_ placeholder, byes are dropped. */
+  participantIds: IdString[];
+  matchId?: IdString;
+
+  completed: boolean;
+  winnerParticipantId?: IdString | null;
+  deterministicHash?: string;
+
+  bracket: DoubleEliminationBracketV1;
+  bracketRound: number;
+  status: DoubleEliminationSlotStatusV1;
+  loserParticipantId?: IdString | null;
+  /** Raw spine entrants (placeholders included). */
+  sourceParticipantIds: IdString[];
+
+  extra?: JSONObject;
+}
+
+type RoundGroup = { round: number; slots: DoubleEliminationBracketSlotSnapshotV1[] };
+
+/**
+ * Same top-level shape as SingleEliminationBracketSnapshotV1 (structure, rounds by wave, championParticipantId),
+ * plus per-bracket views.
+ */
+export interface DoubleEliminationBracketSnapshotV1 {
+  structure: "DOUBLE_ELIMINATION";
+  rounds: RoundGroup[];
+  winners: RoundGroup[];
+  losers: RoundGroup[];
+  grandFinal: DoubleEliminationBracketSlotSnapshotV1[];
+  grandFinalReset: "NONE" | "PENDING" | "PLAYED" | "SKIPPED";
+  championParticipantId?: IdString | null;
+  runnerUpParticipantId?: IdString | null;
+}
+
+type Resolved = {
+  slots: DoubleEliminationBracketSlotSnapshotV1[];
+  usedArtifacts: Array<{ matchId: IdString; deterministicHash: string }>;
+  results: Array<{ winner: IdString; loser: IdString }>;
+  /** participantId -> wave of elimination */
+  eliminated: Map<IdString, number>;
+  champion: IdString | null;
+  runnerUp: IdString | null;
+  reset: DoubleEliminationBracketSnapshotV1["grandFinalReset"];
+};
+
+function resolveBracket(tournament: TournamentV1, artifacts: MatchArtifactV1[]): Resolved {
+  const byMatchId = new Map<IdString, MatchArtifactV1>();
+  for (const a of artifacts) {
+    assertBindingMatches(tournament, a);
+    byMatchId.set(a.header.matchId, a);
+  }
+
+  const sorted = stableSortSlots(tournament.schedule ?? []);
+  // undefined = not known yet, null = nobody (bye / walkover loser / skipped).
+  const outcome = new Map<IdString, { winner: IdString | null | undefined; loser: IdString | null | undefined }>();
+  const snapshots: DoubleEliminationBracketSlotSnapshotV1[] = [];
+  const usedArtifacts: Resolved["usedArtifacts"] = [];
+  const results: Resolved["results"] = [];
+
+  const resolveEntrant = (id: IdString): IdString | null | undefined => {
+    const m = PLACEHOLDER.exec(id);
+    if (!m) return id;
+    const src = outcome.get(m[1]);
+    if (!src) return undefined;
+    return m[2] === "WIN" ? src.winner : src.loser;
+  };
+
+  for (const slot of sorted) {
+    const extra = (slot.extra ?? {}) as any;
+    const entrants = slot.participantIds.map(resolveEntrant);
+    const known = entrants.filter((e): e is IdString => typeof e === "string");
+    const artifact = slot.matchId ? byMatchId.get(slot.matchId) : undefined;
+
+    let status: DoubleEliminationSlotStatusV1;
+    let winner: IdString | null | undefined = undefined;
+    let loser: IdString | null | undefined = undefined;
+
+    const resetOf = typeof extra.resetOf === "string" ? (extra.resetOf as string) : null;
+    const resetSource = resetOf ? sorted.find((s) => s.slotId === resetOf) : undefined;
+    const resetDecided = resetSource ? outcome.get(resetSource.slotId)?.winner : undefined;
+    const resetNeeded =
+      resetSource && typeof resetDecided === "string" ? resetDecided !== resolveEntrant(resetSource.participantIds[0]) : undefined;
+
+    if (resetOf && resetNeeded === false) {
+      status = "SKIPPED";
+      winner = null;
+      loser = null;
+    } else if (entrants.some((e) => e === undefined)) {
+      status = "PENDING";
+    } else if (known.length === 0) {
+      status = "EMPTY";
+      winner = null;
+      loser = null;
+    } else if (known.length === 1) {
+      status = "WALKOVER";
+      winner = known[0];
+      loser = null;
+    } else if (!artifact) {
+      status = "READY";
+    } else {
+      const w = deriveWinnerFromArtifact(artifact);
+      if (!w) {
+        status = "UNDECIDED";
+      } else {
+        if (!known.includes(w)) {
+          throw new Error(`DOUBLE_ELIM_ARTIFACT_MISMATCH: ${slot.slotId} winner ${w} is not an entrant (${known.join(", ")})`);
+        }
+        status = "COMPLETED";
+        winner = w;
+        loser = known.find((p) => p !== w)!;
+        usedArtifacts.push({ matchId: artifact.header.matchId, deterministicHash: artifact.deterministicHash.value });
+        results.push({ winner: w, loser });
+      }
+    }
+
+    outcome.set(slot.slotId, { winner, loser });
+    snapshots.push({
+      slotId: slot.slotId,
+      round: slot.round,
+      position: slot.position,
+      participantIds: slot.participantIds.flatMap((raw, i) => (entrants[i] === null ? [] : [entrants[i] ?? raw])),
+      matchId: slot.matchId,
+      completed: status === "COMPLETED" || status === "WALKOVER" || status === "EMPTY" || status === "SKIPPED",
+      winnerParticipantId: winner ?? null,
+      deterministicHash: artifact?.deterministicHash.value,
+      bracket: (extra.bracket as DoubleEliminationBracketV1) ?? "WINNERS",
+      bracketRound: typeof extra.bracketRound === "number" ? extra.bracketRound : slot.round,
+      status,
+      loserParticipantId: loser ?? null,
+      sourceParticipantIds: slot.participantIds,
+      extra: slot.extra,
+    });
+  }
+
+  // A loser is out when no live (non-skipped) slot consumes their drop.
+  const consumed = new Set<string>();
+  for (const s of snapshots) {
+    if (s.status === "SKIPPED") continue;
+    for (const raw of s.sourceParticipantIds) if (raw.endsWith("_LOSE")) consumed.add(raw);
+  }
+  const eliminated = new Map<IdString, number>();
+  for (const s of snapshots) {
+    if (s.status !== "COMPLETED" || !s.loserParticipantId) continue;
+    if (!consumed.has(`TBD_${s.slotId}_LOSE`)) eliminated.set(s.loserParticipantId, s.round);
+  }
+
+  // Champion: winner of the last live grand-final slot once it is completed.
+  const finals = snapshots.filter((s) => s.bracket === "GRAND_FINAL" && s.status !== "SKIPPED");
+  const last = finals.length ? finals[finals.length - 1] : undefined;
+  const champion = last && last.status === "COMPLETED" ? (last.winnerParticipantId ?? null) : null;
+  const runnerUp = last && last.status === "COMPLETED" ? (last.loserParticipantId ?? null) : null;
+
+  const resetSlot = snapshots.find((s) => s.bracket === "GRAND_FINAL" && (s.extra as any)?.resetOf);
+  const reset: Resolved["reset"] = !resetSlot
+    ? "NONE"
+    : resetSlot.status === "SKIPPED"
+      ? "SKIPPED"
+      : resetSlot.status === "COMPLETED"
+        ? "PLAYED"
+        : "PENDING";
+
+  return { slots: snapshots, usedArtifacts, results, eliminated, champion, runnerUp, reset };
+}
+
+function groupByRound(slots: DoubleEliminationBracketSlotSnapshotV1[], key: (s: DoubleEliminationBracketSlotSnapshotV1) => number): RoundGroup[] {
+  const map = new Map<number, DoubleEliminationBracketSlotSnapshotV1[]>();
+  for (const s of slots) {
+    const list = map.get(key(s)) ?? [];
+    list.push(s);
+    map.set(key(s), list);
+  }
+  return Array.from(map.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([round, list]) => ({ round, slots: list }));
+}
+
+export class DoubleEliminationDeriverV1 implements TournamentDeriverV1 {
+  deriveStandings(params: { tournament: TournamentV1; artifacts: MatchArtifactV1[] }): TournamentStandingsTableV1 {
+    const { tournament, artifacts } = params;
+    assertStructure(tournament);
+
+    const resolved = resolveBracket(tournament, artifacts);
+
+    const rowsMap = new Map<IdString, TournamentStandingsRowV1>();
+    for (const p of tournament.participants) {
+      rowsMap.set(p.participantId, {
+        participantId: p.participantId,
+        label: p.label,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        points: 0,
+        tieBreakers: {},
+        extra: p.extra,
+      });
+    }
+    for (const r of resolved.results) {
+      const w = rowsMap.get(r.winner);
+      const l = rowsMap.get(r.loser);
+      if (w) {
+        w.wins += 1;
+        w.points += 1;
+      }
+      if (l) l.losses += 1;
+    }
+    for (const [pid, wave] of resolved.eliminated) {
+      const row = rowsMap.get(pid);
+      if (row) row.tieBreakers = { eliminatedRound: wave };
+    }
+
+    const alive = (row: TournamentStandingsRowV1) => (resolved.eliminated.has(row.participantId) ? 0 : 1);
+    const rows = Array.from(rowsMap.values()).sort((a, b) => {
+      if (alive(b) !== alive(a)) return alive(b) - alive(a);
+      const ea = resolved.eliminated.get(a.participantId) ?? 0;
+      const eb = resolved.eliminated.get(b.participantId) ?? 0;
+      if (eb !== ea) return eb - ea;
+      if (b.wins !== a.wins) return b.wins - a.wins;
+      return a.participantId.localeCompare(b.participantId);
+    });
+
+    return {
+      tournamentId: tournament.header.tournamentId,
+      derivedAt: nowIso(),
+      sourceArtifacts: resolved.usedArtifacts,
+      rows,
+      summary: {
+        structure: tournament.header.structure,
+        status: tournament.header.status,
+        participants: tournament.participants.length,
+        artifactsUsed: resolved.usedArtifacts.length,
+        scoring: { win: 1, loss: 0 },
+        championParticipantId: resolved.champion,
+      } as JSONObject,
+    };
+  }
+
+  deriveProgress(params: { tournament: TournamentV1; artifacts: MatchArtifactV1[] }): TournamentProgressSnapshotV1 {
+    const { tournament, artifacts } = params;
+    assertStructure(tournament);
+
+    const resolved = resolveBracket(tournament, artifacts);
+    const playable = resolved.slots.filter((s) => s.matchId && ["PENDING", "READY", "UNDECIDED", "COMPLETED"].includes(s.status));
+    const matchesPlanned = playable.length;
+    const matchesCompleted = playable.filter((s) => s.status === "COMPLETED").length;
+    const open = resolved.slots.filter((s) => !s.completed);
+
+    const snapshot: DoubleEliminationBracketSnapshotV1 = {
+      structure: "DOUBLE_ELIMINATION",
+      rounds: groupByRound(resolved.slots, (s) => s.round),
+      winners: groupByRound(resolved.slots.filter((s) => s.bracket === "WINNERS"), (s) => s.bracketRound),
+      losers: groupByRound(resolved.slots.filter((s) => s.bracket === "LOSERS"), (s) => s.bracketRound),
+      grandFinal: resolved.slots.filter((s) => s.bracket === "GRAND_FINAL"),
+      grandFinalReset: resolved.reset,
+      championParticipantId: resolved.champion,
+      runnerUpParticipantId: resolved.runnerUp,
+    };
+
+    return {
+      tournamentId: tournament.header.tournamentId,
+      derivedAt: nowIso(),
+      status: resolved.champion ? "COMPLETED" : tournament.header.status,
+      currentRound: open.length ? Math.min(...open.map((s) => s.round)) : undefined,
+      matchesCompleted,
+      matchesPlanned,
+      view: snapshot as unknown as JSONObject,
+    };
+  }
+}
+
+/**
+ * Bracket spine for `participantIds` in seed order (seed 1 first). Field is padded to the next power of two with
+ * byes for the top seeds. Losers-bracket drops alternate reversed / half-swapped order so a W-round rematch is pushed
+ * as late as possible. grandFinalReset (default true) adds the conditional GF2.
+ */
+export function buildDoubleEliminationScheduleV1(params: {
+  tournamentId: IdString;
+  participantIds: IdString[];
+  grandFinalReset?: boolean;
+}): TournamentMatchSlotV1[] {
+  const { tournamentId, participantIds } = params;
+  if (participantIds.length < 2) throw new Error("DOUBLE_ELIM_NOT_ENOUGH_PARTICIPANTS: need at least 2");
+  if (new Set(participantIds).size !== participantIds.length) throw new Error("DOUBLE_ELIM_DUPLICATE_PARTICIPANT");
+
+  const k = Math.max(1, Math.ceil(Math.log2(participantIds.length)));
+  const size = 2 ** k;
+  const pos = (i: number) => String.fromCharCode(65 + (i % 26)) + (i >= 26 ? String(Math.floor(i / 26)) : "");
+  const win = (slotId: string) => `TBD_${slotId}_WIN`;
+  const lose = (slotId: string) => `TBD_${slotId}_LOSE`;
+
+  const slots: TournamentMatchSlotV1[] = [];
+  const add = (slotId: string, round: number, position: string, ids: IdString[], extra: Record<string, unknown>) =>
+    slots.push({ slotId, round, position, participantIds: ids, matchId: `${tournamentId}_${slotId}`, extra: extra as JSONObject });
+
+  // Winners bracket. Seeds in bracket order so 1 and 2 only meet in the final: 1,8,4,5,2,7,3,6 for 8.
+  let seeds = [1];
+  while (seeds.length < size) {
+    const n = seeds.length * 2;
+    seeds = seeds.flatMap((s) => [s, n + 1 - s]);
+  }
+  const wIds: string[][] = [];
+  for (let r = 1; r <= k; r++) {
+    const ids: string[] = [];
+    for (let i = 0; i < size / 2 ** r; i++) {
+      const slotId = `W${r}_${pos(i)}`;
+      const entrants =
+        r === 1
+          ? [seeds[2 * i], seeds[2 * i + 1]].filter((s) => s <= participantIds.length).map((s) => participantIds[s - 1])
+          : [win(wIds[r - 2][2 * i]), win(wIds[r - 2][2 * i + 1])];
+      add(slotId, r === 1 ? 1 : 2 * r - 2, pos(i), entrants, { bracket: "WINNERS", bracketRound: r, ...(r === 1 ? { seeds: [seeds[2 * i], seeds[2 * i + 1]] } : {}) });
+      ids.push(slotId);
+    }
+    wIds.push(ids);
+  }
+
+  // Losers bracket: L1 pairs W1 losers; L(2j) takes L(2j-1) winners vs W(j+1) drops; L(2j+1) pairs L(2j) winners.
+  let prev: string[] = [];
+  for (let m = 1; m <= 2 * k - 2; m++) {
+    const ids: string[] = [];
+    if (m === 1) {
+      for (let i = 0; i < wIds[0].length / 2; i++) {
+        const slotId = `L1_${pos(i)}`;
+        add(slotId, 2, pos(i), [lose(wIds[0][2 * i]), lose(wIds[0][2 * i + 1])], { bracket: "LOSERS", bracketRound: 1 });
+        ids.push(slotId);
+      }
+    } else if (m % 2 === 0) {
+      const j = m / 2;
+      const drops = wIds[j].slice();
+      const order = j % 2 === 1 ? drops.reverse() : [...drops.slice(drops.length / 2), ...drops.slice(0, drops.length / 2)];
+      for (let i = 0; i < prev.length; i++) {
+        const slotId = `L${m}_${pos(i)}`;
+        add(slotId, m + 1, pos(i), [win(prev[i]), lose(order[i])], { bracket: "LOSERS", bracketRound: m });
+        ids.push(slotId);
+      }
+    } else {
+      for (let i = 0; i < prev.length / 2; i++) {
+        const slotId = `L${m}_${pos(i)}`;
+        add(slotId, m + 1, pos(i), [win(prev[2 * i]), win(prev[2 * i + 1])], { bracket: "LOSERS", bracketRound: m });
+        ids.push(slotId);
+      }
+    }
+    prev = ids;
+  }
+
+  const winnersChampion = win(wIds[k - 1][0]);
+  const losersChampion = k === 1 ? lose(wIds[0][0]) : win(prev[0]);
+  add("GF1", 2 * k, "A", [winnersChampion, losersChampion], { bracket: "GRAND_FINAL", bracketRound: 1 });
+  if (params.grandFinalReset ?? true) {
+    add("GF2", 2 * k + 1, "A", [win("GF1"), lose("GF1")], { bracket: "GRAND_FINAL", bracketRound: 2, resetOf: "GF1" });
+  }
+
+  return slots;
+}
+
+export default DoubleEliminationDeriverV1;
@@ -32,7 +32,10 @@ export type EligibilityClaimKindV1 =
   | "MANUAL_OVERRIDE"      // admin override
   | "UNVERIFIED_SELF_CLAIM"; // user claim only (allowed but marked)
 
-/** Optional signature envelope placeholder (no crypto required yet). */
+/**
+ * Optional signature envelope. The platform signs with scheme "ed25519" (src/signing/signing.v1.ts):
+ * signerId = key id, signature = base64 over the canonical packet minus this field.
+ */
 export interface EligibilitySignatureV1 {
   scheme: "none" | "ed25519" | "secp256k1" | string;
   signerId?: IdString;
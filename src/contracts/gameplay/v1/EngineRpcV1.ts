@@ -0,0 +1,141 @@
+/**
+ * EngineRpcV1 — stdio JSON-RPC protocol for out-of-process engines.
+ *
+ * Wire format:
+ * - One JSON-RPC 2.0 message per line (UTF-8, "\n"-terminated) on the child's stdin/stdout.
+ * - stdout carries protocol messages ONLY; engines log to stderr (the platform keeps a bounded tail for diagnostics).
+ * - The platform sends requests; the engine answers each with { id, result } or { id, error }.
+ *
+ * Methods:
+ * - "handshake"       params { protocolVersion, adapterVersion }  -> { protocolVersion, manifest: EngineManifestV1 }
+ * - "validateDeck"    params ValidateDeckInputV1                  -> DeckValidationResultV1
+ * - "createMatch"     params CreateMatchInputV1                   -> MatchInitV1
+ * - "runMatch"        params RunMatchInputV1                      -> RunMatchResultV1
+ * - "produceArtifact" params ProduceArtifactInputV1               -> MatchArtifactV1
+ *
+ * The protocol is stateless between calls (state travels in the packets), so the platform may restart the
+ * engine process at any time — e.g. after a timeout or crash.
+ *
+ * serveEngineRpcV1() is the engine side: wrap any EngineAdapterV1 + manifest and call it from the child entrypoint.
+ */
+
+import type { EngineAdapterV1 } from "./EngineAdapterV1";
+import type { EngineManifestV1 } from "./EngineManifestV1";
+import type { JSONValue } from "./MatchArtifactV1";
+
+export const ENGINE_RPC_PROTOCOL_VERSION = "EngineRpcV1" as const;
+
+export type EngineRpcMethodV1 = "handshake" | "validateDeck" | "createMatch" | "runMatch" | "produceArtifact";
+
+export const ENGINE_RPC_ADAPTER_METHODS_V1: ReadonlyArray<Exclude<EngineRpcMethodV1, "handshake">> = [
+  "validateDeck",
+  "createMatch",
+  "runMatch",
+  "produceArtifact",
+];
+
+export interface EngineRpcRequestV1 {
+  jsonrpc: "2.0";
+  id: number;
+  method: EngineRpcMethodV1;
+  params: unknown;
+}
+
+/** JSON-RPC error codes used by the engine side (standard range) plus ENGINE_THREW for adapter exceptions. */
+export const ENGINE_RPC_ERROR_CODES_V1 = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  ENGINE_THREW: -32000,
+} as const;
+
+export interface EngineRpcErrorV1 {
+  code: number;
+  message: string;
+  data?: JSONValue;
+}
+
+export type EngineRpcResponseV1 =
+  | { jsonrpc: "2.0"; id: number; result: unknown }
+  | { jsonrpc: "2.0"; id: number | null; error: EngineRpcErrorV1 };
+
+export interface EngineRpcHandshakeParamsV1 {
+  protocolVersion: typeof ENGINE_RPC_PROTOCOL_VERSION;
+  adapterVersion: "EngineAdapterV1";
+}
+
+export interface EngineRpcHandshakeResultV1 {
+  protocolVersion: typeof ENGINE_RPC_PROTOCOL_VERSION;
+  manifest: EngineManifestV1;
+}
+
+/**
+ * Engine side: answer EngineRpcV1 requests on stdin/stdout with `adapter`.
+ * Requests are handled concurrently; responses carry the request id.
+ */
+export function serveEngineRpcV1(params: {
+  adapter: EngineAdapterV1;
+  manifest: EngineManifestV1;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}): void {
+  const input: NodeJS.ReadableStream = params.input ?? process.stdin;
+  const output: NodeJS.WritableStream = params.output ?? process.stdout;
+  const { adapter, manifest } = params;
+
+  const send = (msg: EngineRpcResponseV1) => {
+    output.write(JSON.stringify(msg) + "\n");
+  };
+
+  const handle = async (line: string) => {
+    let req: any;
+    try {
+      req = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: "2.0", id: null, error: { code: ENGINE_RPC_ERROR_CODES_V1.PARSE_ERROR, message: "invalid JSON" } });
+      return;
+    }
+    if (!req || req.jsonrpc !== "2.0" || typeof req.id !== "number" || typeof req.method !== "string") {
+      const id = typeof req?.id === "number" ? req.id : null;
+      send({ jsonrpc: "2.0", id, error: { code: ENGINE_RPC_ERROR_CODES_V1.INVALID_REQUEST, message: "invalid request" } });
+      return;
+    }
+
+    try {
+      if (req.method === "handshake") {
+        const result: EngineRpcHandshakeResultV1 = { protocolVersion: ENGINE_RPC_PROTOCOL_VERSION, manifest };
+        send({ jsonrpc: "2.0", id: req.id, result });
+        return;
+      }
+      if (!ENGINE_RPC_ADAPTER_METHODS_V1.includes(req.method)) {
+        send({
+          jsonrpc: "2.0",
+          id: req.id,
+          error: { code: ENGINE_RPC_ERROR_CODES_V1.METHOD_NOT_FOUND, message: `unknown method ${req.method}` },
+        });
+        return;
+      }
+      const result = await (adapter as any)[req.method](req.params);
+      send({ jsonrpc: "2.0", id: req.id, result });
+    } catch (e: any) {
+      send({
+        jsonrpc: "2.0",
+        id: req.id,
+        error: { code: ENGINE_RPC_ERROR_CODES_V1.ENGINE_THREW, message: String(e?.message ?? e) },
+      });
+    }
+  };
+
+  let buffered = "";
+  input.setEncoding("utf8");
+  input.on("data", (chunk: string) => {
+    buffered += chunk;
+    let nl = buffered.indexOf("\n");
+    while (nl >= 0) {
+      const line = buffered.slice(0, nl).trim();
+      buffered = buffered.slice(nl + 1);
+      if (line) void handle(line);
+      nl = buffered.indexOf("\n");
+    }
+  });
+}
@@ -5,6 +5,7 @@
  * - Prove the contract spine compiles and can flow end-to-end without game logic.
  * - Deterministically selects a winner based on {seed + participants}.
  * - Produces a valid MatchArtifactV1 with minimal timeline + replay.
+ * - Artifact timestamps derive from {seed, matchId}, so the CanonicalJsonV1 hash bundle (incl. timeline) is reproducible.
  *
  * Non-goals:
  * - Cryptographic hashing (this uses a simple non-crypto hash).
@@ -23,36 +24,12 @@ import type {
 } from "./EngineAdapterV1";
 import { MATCH_ARTIFACT_VERSION } from "./MatchArtifactV1";
 import type { MatchArtifactV1, JSONObject } from "./MatchArtifactV1";
+import { digestInputsV1, djb2HexV1, hashArtifactV1 } from "./CanonicalJsonV1";
 
-/** Simple non-crypto string hash (djb2). Deterministic across runtimes. */
-function djb2(input: string): string {
-  let hash = 5381;
-  for (let i = 0; i < input.length; i++) {
-    hash = ((hash << 5) + hash) ^ input.charCodeAt(i); // hash*33 XOR c
-    hash = hash >>> 0; // force uint32
-  }
-  // hex, fixed width
-  return hash.toString(16).padStart(8, "0");
-}
-
-/** Stable stringify with sorted object keys. (Arrays preserved in given order.) */
-function stableStringify(value: unknown): string {
-  const seen = new WeakSet<object>();
-
-  const sorter = (v: any): any => {
-    if (v === null || typeof v !== "object") return v;
-    if (Array.isArray(v)) return v.map(sorter);
-    if (seen.has(v)) throw new Error("stableStringify: circular reference");
-    seen.add(v);
-
-    const out: Record<string, any> = {};
-    for (const k of Object.keys(v).sort()) {
-      out[k] = sorter(v[k]);
-    }
-    return out;
-  };
-
-  return JSON.stringify(sorter(value));
+/** Deterministic ISO timestamp from {seed, matchId}; artifact timestamps are hashed with the timeline. */
+function deterministicIso(seed: string, matchId: string, idx: number): string {
+  const n = parseInt(djb2HexV1(`${seed}::${matchId}`), 16) >>> 0;
+  return new Date(1700000000000 + (n % 86_400_000) + idx * 1000).toISOString();
 }
 
 function nowIso(): string {
@@ -66,7 +43,7 @@ function canonicalParticipantIds(participants: Array<{ participantId: string }>)
 function pickWinnerDeterministically(seed: string, participantIdsSorted: string[]): string | undefined {
   if (participantIdsSorted.length === 0) return undefined;
   const basis = seed + "|" + participantIdsSorted.join(",");
-  const h = djb2(basis);
+  const h = djb2HexV1(basis);
   const n = parseInt(h, 16) >>> 0;
   const idx = n % participantIdsSorted.length;
   return participantIdsSorted[idx];
@@ -99,7 +76,7 @@ export class InProcessMockEngineAdapterV1 implements EngineAdapterV1 {
         matchId: input.matchId,
         seed: input.seed,
         participants: canonicalParticipantIds(input.participants),
-        inputsHashHint: djb2(stableStringify(input.inputs)),
+        inputsHashHint: digestInputsV1(input.inputs).value,
       },
       extra: { createdBy: "mock" },
     };
@@ -130,36 +107,21 @@ export class InProcessMockEngineAdapterV1 implements EngineAdapterV1 {
   }
 
   async produceArtifact(input: ProduceArtifactInputV1): Promise<MatchArtifactV1> {
-    const startedAt = nowIso();
-    const completedAt = nowIso();
+    const startedAt = deterministicIso(input.seed, input.matchId, 0);
+    const completedAt = deterministicIso(input.seed, input.matchId, 1);
 
     const participantIdsSorted = canonicalParticipantIds(input.participants);
     const winner = pickWinnerDeterministically(input.seed, participantIdsSorted);
 
     // inputsDigest binds sanitized inputs (platform will likely compute; mock does it here).
-    const inputsStable = stableStringify(input.inputs);
-    const inputsDigestValue = djb2(inputsStable);
-
-    // deterministicHash binds seed + inputs + outputs (non-crypto).
-    const bundle = stableStringify({
-      seed: input.seed,
-      participants: participantIdsSorted,
-      inputsDigest: inputsDigestValue,
-      // deterministic outcome summary (recomputable from MatchArtifactV1)
-      result: {
-        winnerParticipantId: input.outputs.winnerParticipantId,
-        scoresByParticipantId: input.outputs.scoresByParticipantId,
-        outcomeFlags: input.outputs.outcomeFlags,
-      },
-    });
-    const deterministicHashValue = djb2(bundle);
+    const inputsDigest = digestInputsV1(input.inputs);
 
     const scoresByParticipantId = participantIdsSorted.reduce((acc: Record<string, number>, pid) => {
       acc[pid] = pid === winner ? 1 : 0;
       return acc;
     }, {});
 
-    const timeline = [
+    const timeline: MatchArtifactV1["timeline"] = [
       {
         idx: 0,
         code: "MATCH_START",
@@ -177,53 +139,56 @@ export class InProcessMockEngineAdapterV1 implements EngineAdapterV1 {
       },
     ];
 
+    const header: MatchArtifactV1["header"] = {
+      artifactVersion: MATCH_ARTIFACT_VERSION,
+      universeCode: input.universeCode,
+      engineCode: input.engineCode,
+      engineVersion: input.engineVersion,
+      modeCode: input.modeCode,
+      matchId: input.matchId,
+      startedAt,
+      completedAt,
+    };
+
+    const participants: MatchArtifactV1["participants"] = input.participants.map((p) => ({
+      participantId: p.participantId,
+      role: "PLAYER",
+      extra: p.extra,
+    }));
+
+    const result: MatchArtifactV1["result"] = {
+      winnerParticipantId: winner,
+      placements: winner
+        ? [
+            { participantId: winner, placement: 1 },
+            ...participantIdsSorted
+              .filter((pid) => pid !== winner)
+              .map((pid) => ({ participantId: pid, placement: 2 })),
+          ]
+        : undefined,
+      scoresByParticipantId,
+      outcomeFlags: [],
+      scoringSummary: { kind: "mock", scoresByParticipantId } as JSONObject,
+    };
+
+    // deterministicHash binds seed + inputs digest + timeline + result (CanonicalJsonV1 bundle, non-crypto).
+    const deterministicHash = hashArtifactV1({ header, participants, seed: input.seed, inputsDigest, timeline, result });
+
     return {
-      header: {
-        artifactVersion: MATCH_ARTIFACT_VERSION,
-        universeCode: input.universeCode,
-        engineCode: input.engineCode,
-        engineVersion: input.engineVersion,
-        modeCode: input.modeCode,
-        matchId: input.matchId,
-        startedAt,
-        completedAt,
-      },
-      participants: input.participants.map((p) => ({
-        participantId: p.participantId,
-        role: "PLAYER",
-        extra: p.extra,
-      })),
+      header,
+      participants,
       seed: input.seed,
-      inputsDigest: {
-        algo: "noncrypto-djb2:stable-json-sortedkeys:v1",
-        value: inputsDigestValue,
-      },
+      inputsDigest,
       timeline,
-      result: {
-        winnerParticipantId: winner,
-        placements: winner
-          ? [
-              { participantId: winner, placement: 1 },
-              ...participantIdsSorted
-                .filter((pid) => pid !== winner)
-                .map((pid) => ({ participantId: pid, placement: 2 })),
-            ]
-          : undefined,
-        scoresByParticipantId,
-        outcomeFlags: [],
-        scoringSummary: { kind: "mock", scoresByParticipantId } as JSONObject,
-      },
-      deterministicHash: {
-        algo: "noncrypto-djb2:bundle:v1",
-        value: deterministicHashValue,
-      },
+      result,
+      deterministicHash,
       replay: {
         replayVersion: "mock-replay:v1",
         payload: {
           seed: input.seed,
           participants: participantIdsSorted,
-          inputsDigest: inputsDigestValue,
-          deterministicHash: deterministicHashValue,
+          inputsDigest: inputsDigest.value,
+          deterministicHash: deterministicHash.value,
         },
       },
       platformMeta: {
@@ -110,6 +110,16 @@ export interface DeterministicHashV1 {
 
   /** Hex/base64 hash string. */
   value: string;
+
+  /**
+   * Optional per-part hashes bound into `value` (same algo family), so an audit can report
+   * which part diverged. See CanonicalJsonV1.hashArtifactV1.
+   */
+  components?: {
+    inputs: string;
+    timeline: string;
+    result: string;
+  };
 }
 
 /**
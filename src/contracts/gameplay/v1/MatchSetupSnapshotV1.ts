@@ -17,6 +17,13 @@ import type { IdString, JSONObject } from "./MatchArtifactV1";
 
 export const MATCH_SETUP_SNAPSHOT_VERSION = "MatchSetupSnapshotV1" as const;
 
+export interface MatchSetupDeckSnapshotRefV1 {
+  seat: number;
+  deckId: IdString;
+  /** e.g. "sha256:<hex>" over the canonical deck snapshot. */
+  snapshotHash: string;
+}
+
 /**
  * Fields that MUST be immutable after SETUP begins.
  */
@@ -52,6 +59,12 @@ export interface MatchSetupSnapshotV1 {
    */
   deckTags?: string[];
 
+  /**
+   * Optional: per-seat deck snapshot hashes locked before setup (tournament registration).
+   * The engine may only run decks whose current contents still hash to these values.
+   */
+  deckSnapshots?: MatchSetupDeckSnapshotRefV1[];
+
   /**
    * Optional: event/tournament binding if the match was created under an Event authority window.
    * These are identifiers only — no authority semantics in this type.
@@ -77,6 +90,7 @@ export interface CreateMatchSetupSnapshotParamsV1 {
 
   deckId?: IdString;
   deckTags?: string[];
+  deckSnapshots?: MatchSetupDeckSnapshotRefV1[];
 
   eventId?: IdString;
   tournamentId?: IdString;
@@ -110,6 +124,7 @@ export function createMatchSetupSnapshotV1(
 
     deckId: params.deckId,
     deckTags: params.deckTags,
+    deckSnapshots: params.deckSnapshots,
 
     eventId: params.eventId,
     tournamentId: params.tournamentId,
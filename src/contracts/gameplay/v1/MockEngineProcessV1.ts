@@ -0,0 +1,43 @@
+/**
+ * MockEngineProcessV1 — Child-process entrypoint serving InProcessMockEngineAdapterV1 over EngineRpcV1.
+ *
+ * Usage (as a ChildProcessEngineAdapterV1 command):
+ *   [process.execPath, "--import", "tsx", "src/contracts/gameplay/v1/MockEngineProcessV1.ts"]
+ *
+ * Notes:
+ * - MOCK_ENGINE_FAULT (env) simulates a misbehaving engine for transport proofs:
+ *     "hang-run"      runMatch never answers
+ *     "crash-run"     process exits on runMatch
+ *     "wrong-version" handshake declares engineVersion "9.9.9"
+ *     "noisy-stdout"  writes a non-protocol line before the first answer
+ * - Logs go to stderr only; stdout is the protocol channel.
+ */
+
+import { InProcessMockEngineAdapterV1 } from "./InProcessMockEngineAdapterV1";
+import { MockEngineManifestV1 } from "./MockEngineManifestV1";
+import { serveEngineRpcV1 } from "./EngineRpcV1";
+import type { EngineAdapterV1 } from "./EngineAdapterV1";
+
+const fault = process.env.MOCK_ENGINE_FAULT ?? "";
+const inner = new InProcessMockEngineAdapterV1();
+
+const adapter: EngineAdapterV1 = {
+  adapterVersion: inner.adapterVersion,
+  validateDeck: (input) => inner.validateDeck(input),
+  createMatch: (input) => inner.createMatch(input),
+  runMatch: (input) => {
+    if (fault === "hang-run") return new Promise(() => undefined);
+    if (fault === "crash-run") {
+      process.stderr.write("mock engine: simulated crash in runMatch\n");
+      process.exit(70);
+    }
+    return inner.runMatch(input);
+  },
+  produceArtifact: (input) => inner.produceArtifact(input),
+};
+
+const manifest = fault === "wrong-version" ? { ...MockEngineManifestV1, engineVersion: "9.9.9" } : MockEngineManifestV1;
+
+if (fault === "noisy-stdout") process.stdout.write("mock engine starting...\n");
+
+serveEngineRpcV1({ adapter, manifest });
@@ -0,0 +1,55 @@
+/**
+ * MockUniverseIntegrationV1 — UniverseIntegrationV1 record for the UNIV_TEST universe (mock engine).
+ *
+ * Purpose:
+ * - Give the MOCK_ENGINE bindings in config/engineRegistry.default.json a universe to pass preflight against.
+ *
+ * Scope:
+ * - Values only; local testing (its bindings ship DISABLED).
+ */
+
+import type { UniverseIntegrationV1 } from "./UniverseIntegrationV1";
+import { MockEngineManifestV1 } from "./MockEngineManifestV1";
+
+export const MockUniverseIntegrationV1: UniverseIntegrationV1 = {
+  integrationVersion: "UniverseIntegrationV1",
+  integrationId: "UNIV_INTEGRATION_MOCK_V1",
+
+  universe: {
+    universeCode: "UNIV_TEST",
+    displayName: "Test Universe",
+    description: "Universe for the deterministic mock engine (contract proofs and local runs).",
+  },
+
+  authorizedEngines: [
+    {
+      engineCode: MockEngineManifestV1.engineCode,
+      engineVersion: MockEngineManifestV1.engineVersion,
+      modeCodes: ["ROOKIE"],
+    },
+  ],
+
+  allowedModeCodes: ["ROOKIE"],
+
+  eligibilityPolicy: {
+    policyId: "EligibilityBridgeV1:UNIV_TEST",
+    notes: "No ownership requirements in the test universe.",
+  },
+
+  interpretationPolicy: {
+    policyId: "InterpretationPolicyV1:UNIV_TEST",
+    approach: "SHARED_TAXONOMY",
+  },
+
+  deckAcceptance: {
+    requiredDeckTags: [],
+    forbiddenDeckTags: ["UNIVERSE:BOBA"],
+  },
+
+  publisher: {
+    name: "OnlyChamps (local)",
+    contact: "local",
+  },
+};
+
+export default MockUniverseIntegrationV1;
@@ -0,0 +1,501 @@
+/**
+ * SwissDeriverV1 — Artifact-only derivation + round pairing for SWISS tournaments.
+ *
+ * Phase 10 Structure #3:
+ * - Implementation file (runtime code)
+ * - Consumes MatchArtifactV1[] only (NO engine calls, NO replay inspection)
+ * - Reads ONLY: artifact.result.winnerParticipantId, artifact.result.placements, artifact.result.scoresByParticipantId
+ * - TournamentV1.schedule is the round record; pairNextRound() returns the slots to append for the next round
+ *
+ * Scoring (match points):
+ * - win=3, tie=1, loss=0; a bye is a win (slot with one participant and extra.bye=true, no matchId)
+ *
+ * Tie-breakers (TournamentStandingsRowV1.tieBreakers, 4dp):
+ * - omwPct: mean of opponents' match-win % (each floored at 0.33); byes are not opponents
+ * - buchholz: sum of opponents' match points
+ * - mwPct: own match-win % (points / (3 * rounds played incl. byes))
+ * Order: points desc, then tieBreakOrder (default omwPct, buchholz), then participantId asc.
+ *
+ * Pairing:
+ * - Round 1 folds the seed list (participants order): seed i vs seed i + n/2.
+ * - Later rounds pair down the standings, each player with the highest-ranked unpaired player they have not met
+ *   (backtracking on dead ends); if no rematch-free pairing exists the round is paired with rematches allowed
+ *   (slot.extra.rematch=true).
+ * - Odd count: the lowest-ranked player without a bye gets it (everyone had one -> lowest-ranked).
+ * - Pairing requires every slot of the previous round to be completed (SWISS_ROUND_INCOMPLETE).
+ *
+ * Top cut:
+ * - topCut() hands the top N (power of two) to a SINGLE_ELIMINATION TournamentV1 seeded 1vN, 2v(N-1)... in bracket
+ *   order, later rounds as TBD_<slotId>_WIN placeholders (same spine SingleEliminationDeriverV1 reads).
+ *
+ * Determinism:
+ * - Same tournament + artifacts => same standings, pairings and match ids (<tournamentId>_R<round>_T<table>).
+ */
+
+import type { MatchArtifactV1, IdString, JSONObject } from "./MatchArtifactV1";
+import type {
+  TournamentDeriverV1,
+  TournamentV1,
+  TournamentStandingsTableV1,
+  TournamentStandingsRowV1,
+  TournamentProgressSnapshotV1,
+  TournamentMatchSlotV1,
+} from "./TournamentV1";
+
+const WIN_POINTS = 3;
+const TIE_POINTS = 1;
+const MWP_FLOOR = 0.33;
+const PAIRING_SEARCH_BUDGET = 200_000;
+
+export type SwissTieBreakerV1 = "omwPct" | "buchholz" | "mwPct";
+
+export interface SwissDeriverOptionsV1 {
+  /** Rounds to play. Default: header.meta.swissRounds, else ceil(log2(participants)). */
+  totalRounds?: number;
+
+  /** Tie-breaker order after points. Default ["omwPct", "buchholz"]. */
+  tieBreakOrder?: SwissTieBreakerV1[];
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function round4(x: number): number {
+  return Math.round(x * 10_000) / 10_000;
+}
+
+function assertStructure(tournament: TournamentV1) {
+  if (tournament.header.structure !== "SWISS") {
+    throw new Error("Tournament structure mismatch: expected SWISS");
+  }
+}
+
+function assertBindingMatches(tournament: TournamentV1, artifact: MatchArtifactV1): void {
+  const th = tournament.header;
+  const ah = artifact.header;
+
+  if (ah.universeCode !== th.universeCode) throw new Error("Artifact universeCode mismatch");
+  if (ah.engineCode !== th.engineCode) throw new Error("Artifact engineCode mismatch");
+  if (ah.engineVersion !== th.engineVersion) throw new Error("Artifact engineVersion mismatch");
+  if (ah.modeCode !== th.modeCode) throw new Error("Artifact modeCode mismatch");
+}
+
+export function isSwissByeSlotV1(slot: TournamentMatchSlotV1): boolean {
+  return slot.participantIds.length === 1 && (slot.extra as any)?.bye === true;
+}
+
+/**
+ * Outcome from the allowed fields only (same precedence as RoundRobinDeriverV1):
+ * winnerParticipantId, else best placement (shared => tie), else top score (shared => tie). null => unscorable.
+ */
+function deriveOutcomeFromArtifact(artifact: MatchArtifactV1): { winners: IdString[]; ties: IdString[] } | null {
+  const winner = artifact.result.winnerParticipantId;
+  if (winner) return { winners: [winner], ties: [] };
+
+  const placements = artifact.result.placements;
+  if (placements && placements.length > 0) {
+    const best = Math.min(...placements.map((p) => p.placement));
+    const top = placements.filter((p) => p.placement === best).map((p) => p.participantId);
+    return top.length === 1 ? { winners: top, ties: [] } : { winners: [], ties: top };
+  }
+
+  const scores = artifact.result.scoresByParticipantId;
+  if (scores && Object.keys(scores).length > 0) {
+    const entries = Object.entries(scores) as Array<[IdString, number]>;
+    const max = Math.max(...entries.map(([, v]) => v));
+    const top = entries.filter(([, v]) => v === max).map(([pid]) => pid);
+    return top.length === 1 ? { winners: top, ties: [] } : { winners: [], ties: top };
+  }
+
+  return null;
+}
+
+type SwissRecord = {
+  row: TournamentStandingsRowV1;
+  seed: number;
+  opponents: IdString[];
+  byes: number;
+  roundsPlayed: number;
+};
+
+type SwissState = {
+  records: Map<IdString, SwissRecord>;
+  usedArtifacts: Array<{ matchId: IdString; deterministicHash: string }>;
+  /** round -> { slots, open } */
+  rounds: Map<number, { slots: TournamentMatchSlotV1[]; open: number }>;
+  byMatchId: Map<IdString, MatchArtifactV1>;
+};
+
+function stableSortSlots(slots: TournamentMatchSlotV1[]): TournamentMatchSlotV1[] {
+  return slots.slice().sort((a, b) => {
+    if (a.round !== b.round) return a.round - b.round;
+    const bye = Number(isSwissByeSlotV1(a)) - Number(isSwissByeSlotV1(b));
+    if (bye !== 0) return bye;
+    const p = (a.position ?? "").localeCompare(b.position ?? "");
+    if (p !== 0) return p;
+    return a.slotId.localeCompare(b.slotId);
+  });
+}
+
+function buildState(tournament: TournamentV1, artifacts: MatchArtifactV1[]): SwissState {
+  const records = new Map<IdString, SwissRecord>();
+  tournament.participants.forEach((p, i) => {
+    records.set(p.participantId, {
+      row: { participantId: p.participantId, label: p.label, wins: 0, losses: 0, ties: 0, points: 0, tieBreakers: {}, extra: p.extra },
+      seed: i + 1,
+      opponents: [],
+      byes: 0,
+      roundsPlayed: 0,
+    });
+  });
+
+  const byMatchId = new Map<IdString, MatchArtifactV1>();
+  for (const a of artifacts) {
+    assertBindingMatches(tournament, a);
+    byMatchId.set(a.header.matchId, a);
+  }
+
+  const usedArtifacts: SwissState["usedArtifacts"] = [];
+  const rounds: SwissState["rounds"] = new Map();
+
+  for (const slot of stableSortSlots(tournament.schedule ?? [])) {
+    const r = rounds.get(slot.round) ?? { slots: [], open: 0 };
+    r.slots.push(slot);
+    rounds.set(slot.round, r);
+
+    if (isSwissByeSlotV1(slot)) {
+      const rec = records.get(slot.participantIds[0]);
+      if (rec) {
+        rec.byes += 1;
+        rec.roundsPlayed += 1;
+        rec.row.wins += 1;
+        rec.row.points += WIN_POINTS;
+      }
+      continue;
+    }
+
+    const artifact = slot.matchId ? byMatchId.get(slot.matchId) : undefined;
+    const outcome = artifact ? deriveOutcomeFromArtifact(artifact) : null;
+    if (!artifact || !outcome) {
+      r.open += 1;
+      continue;
+    }
+    usedArtifacts.push({ matchId: artifact.header.matchId, deterministicHash: artifact.deterministicHash.value });
+
+    for (const pid of slot.participantIds) {
+      const rec = records.get(pid);
+      if (!rec) continue;
+      rec.roundsPlayed += 1;
+      for (const other of slot.participantIds) if (other !== pid) rec.opponents.push(other);
+
+      if (outcome.winners.includes(pid)) {
+        rec.row.wins += 1;
+        rec.row.points += WIN_POINTS;
+      } else if (outcome.ties.includes(pid)) {
+        rec.row.ties += 1;
+        rec.row.points += TIE_POINTS;
+      } else {
+        rec.row.losses += 1;
+      }
+    }
+  }
+
+  // Tie-breakers need every record's points first.
+  const mwp = (rec: SwissRecord) => (rec.roundsPlayed > 0 ? rec.row.points / (WIN_POINTS * rec.roundsPlayed) : 0);
+  for (const rec of records.values()) {
+    const opps = rec.opponents.map((o) => records.get(o)).filter((o): o is SwissRecord => Boolean(o));
+    const omw = opps.length > 0 ? opps.reduce((s, o) => s + Math.max(MWP_FLOOR, mwp(o)), 0) / opps.length : 0;
+    rec.row.tieBreakers = {
+      omwPct: round4(omw),
+      buchholz: opps.reduce((s, o) => s + o.row.points, 0),
+      mwPct: round4(mwp(rec)),
+    };
+  }
+
+  return { records, usedArtifacts, rounds, byMatchId };
+}
+
+export class SwissDeriverV1 implements TournamentDeriverV1 {
+  constructor(private readonly options: SwissDeriverOptionsV1 = {}) {}
+
+  totalRounds(tournament: TournamentV1): number {
+    const fromMeta = Number((tournament.header.meta as any)?.swissRounds);
+    const n = this.options.totalRounds ?? (Number.isInteger(fromMeta) && fromMeta > 0 ? fromMeta : undefined);
+    return n ?? Math.max(1, Math.ceil(Math.log2(Math.max(2, tournament.participants.length))));
+  }
+
+  private compare(a: SwissRecord, b: SwissRecord): number {
+    if (b.row.points !== a.row.points) return b.row.points - a.row.points;
+    for (const tb of this.options.tieBreakOrder ?? ["omwPct", "buchholz"]) {
+      const d = (b.row.tieBreakers?.[tb] ?? 0) - (a.row.tieBreakers?.[tb] ?? 0);
+      if (d !== 0) return d;
+    }
+    return a.row.participantId.localeCompare(b.row.participantId);
+  }
+
+  deriveStandings(params: { tournament: TournamentV1; artifacts: MatchArtifactV1[] }): TournamentStandingsTableV1 {
+    const { tournament, artifacts } = params;
+    assertStructure(tournament);
+
+    const state = buildState(tournament, artifacts);
+    const ranked = Array.from(state.records.values()).sort((a, b) => this.compare(a, b));
+
+    return {
+      tournamentId: tournament.header.tournamentId,
+      derivedAt: nowIso(),
+      sourceArtifacts: state.usedArtifacts,
+      rows: ranked.map((r) => r.row),
+      summary: {
+        structure: tournament.header.structure,
+        status: tournament.header.status,
+        participants: tournament.participants.length,
+        artifactsUsed: state.usedArtifacts.length,
+        scoring: { win: WIN_POINTS, tie: TIE_POINTS, loss: 0, bye: WIN_POINTS },
+        tieBreakOrder: this.options.tieBreakOrder ?? ["omwPct", "buchholz"],
+        totalRounds: this.totalRounds(tournament),
+      } as JSONObject,
+    };
+  }
+
+  deriveProgress(params: { tournament: TournamentV1; artifacts: MatchArtifactV1[] }): TournamentProgressSnapshotV1 {
+    const { tournament, artifacts } = params;
+    assertStructure(tournament);
+
+    const state = buildState(tournament, artifacts);
+    const totalRounds = this.totalRounds(tournament);
+
+    let matchesPlanned = 0;
+    let matchesCompleted = 0;
+    const rounds = Array.from(state.rounds.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([round, r]) => ({
+        round,
+        completed: r.open === 0,
+        slots: r.slots.map((slot) => {
+          const bye = isSwissByeSlotV1(slot);
+          const artifact = slot.matchId ? state.byMatchId.get(slot.matchId) : undefined;
+          if (!bye && slot.matchId) {
+            matchesPlanned += 1;
+            if (artifact) matchesCompleted += 1;
+          }
+          const outcome = artifact ? deriveOutcomeFromArtifact(artifact) : null;
+          return {
+            slotId: slot.slotId,
+            position: slot.position,
+            participantIds: slot.participantIds,
+            matchId: slot.matchId,
+            bye,
+            completed: bye || Boolean(outcome),
+            winnerParticipantId: bye ? slot.participantIds[0] : outcome?.winners[0] ?? null,
+            deterministicHash: artifact?.deterministicHash.value,
+            extra: slot.extra,
+          };
+        }),
+      }));
+
+    const lastRound = rounds.length ? rounds[rounds.length - 1] : undefined;
+    const finished = Boolean(lastRound && lastRound.round >= totalRounds && lastRound.completed);
+    const currentRound = lastRound ? (lastRound.completed && !finished ? lastRound.round + 1 : lastRound.round) : 1;
+
+    return {
+      tournamentId: tournament.header.tournamentId,
+      derivedAt: nowIso(),
+      status: finished ? "COMPLETED" : tournament.header.status,
+      currentRound,
+      matchesCompleted,
+      matchesPlanned,
+      view: {
+        structure: "SWISS",
+        totalRounds,
+        roundsPaired: rounds.length,
+        nextRoundReady: Boolean(!finished && (!lastRound || lastRound.completed)),
+        rounds,
+      } as unknown as JSONObject,
+    };
+  }
+
+  /**
+   * Slots for the next round (append to tournament.schedule). Throws SWISS_ROUND_INCOMPLETE while the previous
+   * round has open slots and SWISS_ROUNDS_EXHAUSTED once totalRounds are paired.
+   */
+  pairNextRound(params: { tournament: TournamentV1; artifacts: MatchArtifactV1[] }): TournamentMatchSlotV1[] {
+    const { tournament, artifacts } = params;
+    assertStructure(tournament);
+    if (tournament.participants.length < 2) throw new Error("SWISS_NOT_ENOUGH_PARTICIPANTS: need at least 2");
+
+    const state = buildState(tournament, artifacts);
+    const paired = Array.from(state.rounds.keys());
+    const lastRound = paired.length ? Math.max(...paired) : 0;
+    if (lastRound > 0 && state.rounds.get(lastRound)!.open > 0) {
+      throw new Error(`SWISS_ROUND_INCOMPLETE: round ${lastRound} has ${state.rounds.get(lastRound)!.open} open slot(s)`);
+    }
+    const round = lastRound + 1;
+    if (round > this.totalRounds(tournament)) {
+      throw new Error(`SWISS_ROUNDS_EXHAUSTED: ${this.totalRounds(tournament)} round(s) already paired`);
+    }
+
+    let order: SwissRecord[];
+    if (round === 1) {
+      order = Array.from(state.records.values()).sort((a, b) => a.seed - b.seed);
+    } else {
+      order = Array.from(state.records.values()).sort((a, b) => this.compare(a, b));
+    }
+
+    // Bye: lowest-ranked player who has not had one (everyone had one -> lowest-ranked).
+    let bye: SwissRecord | null = null;
+    if (order.length % 2 === 1) {
+      bye = [...order].reverse().find((r) => r.byes === 0) ?? order[order.length - 1];
+      order = order.filter((r) => r !== bye);
+    }
+
+    let pairs: Array<[SwissRecord, SwissRecord]>;
+    let rematches = false;
+    if (round === 1) {
+      const half = order.length / 2;
+      pairs = order.slice(0, half).map((r, i) => [r, order[half + i]] as [SwissRecord, SwissRecord]);
+    } else {
+      const found = pairAvoidingRematches(order);
+      rematches = found === null;
+      pairs = found ?? adjacentPairs(order);
+    }
+
+    const tid = tournament.header.tournamentId;
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const slots: TournamentMatchSlotV1[] = pairs.map(([a, b], i) => {
+      const table = i + 1;
+      const met = a.opponents.includes(b.row.participantId);
+      return {
+        slotId: `R${round}_T${pad(table)}`,
+        round,
+        position: `T${pad(table)}`,
+        participantIds: [a.row.participantId, b.row.participantId],
+        matchId: `${tid}_R${round}_T${pad(table)}`,
+        extra: (rematches && met ? { rematch: true } : {}) as JSONObject,
+      };
+    });
+    if (bye) {
+      slots.push({
+        slotId: `R${round}_BYE`,
+        round,
+        position: "BYE",
+        participantIds: [bye.row.participantId],
+        extra: { bye: true } as JSONObject,
+      });
+    }
+    return slots;
+  }
+
+  /**
+   * Hand the top `cutSize` (power of two, <= participants) to a SINGLE_ELIMINATION tournament. Swiss must be
+   * finished (all totalRounds paired and completed).
+   */
+  topCut(params: {
+    tournament: TournamentV1;
+    artifacts: MatchArtifactV1[];
+    cutSize: number;
+    tournamentId?: IdString;
+    nowIso?: string;
+  }): TournamentV1 {
+    const { tournament, artifacts, cutSize } = params;
+    assertStructure(tournament);
+
+    if (!Number.isInteger(cutSize) || cutSize < 2 || (cutSize & (cutSize - 1)) !== 0) {
+      throw new Error(`SWISS_TOP_CUT_INVALID: cutSize ${cutSize} must be a power of two >= 2`);
+    }
+    if (cutSize > tournament.participants.length) {
+      throw new Error(`SWISS_TOP_CUT_INVALID: cutSize ${cutSize} exceeds ${tournament.participants.length} participants`);
+    }
+    const progress = this.deriveProgress({ tournament, artifacts });
+    if (progress.status !== "COMPLETED") throw new Error("SWISS_NOT_FINISHED: top cut needs every Swiss round completed");
+
+    const standings = this.deriveStandings({ tournament, artifacts });
+    const seeded = standings.rows.slice(0, cutSize);
+
+    const tid = params.tournamentId ?? `${tournament.header.tournamentId}_TOP${cutSize}`;
+    const at = params.nowIso ?? nowIso();
+
+    // Bracket order of seeds (1-based) so 1 and 2 can only meet in the final: 1,8,4,5,2,7,3,6 for 8.
+    let seeds = [1];
+    while (seeds.length < cutSize) {
+      const n = seeds.length * 2;
+      seeds = seeds.flatMap((s) => [s, n + 1 - s]);
+    }
+
+    const schedule: TournamentMatchSlotV1[] = [];
+    const rounds = Math.log2(cutSize);
+    const pos = (i: number) => String.fromCharCode(65 + (i % 26)) + (i >= 26 ? String(Math.floor(i / 26)) : "");
+    for (let r = 1; r <= rounds; r++) {
+      const slotsInRound = cutSize / 2 ** r;
+      for (let i = 0; i < slotsInRound; i++) {
+        const slotId = `TOP${cutSize}_R${r}_${pos(i)}`;
+        const participantIds =
+          r === 1
+            ? [seeded[seeds[2 * i] - 1].participantId, seeded[seeds[2 * i + 1] - 1].participantId]
+            : [`TBD_TOP${cutSize}_R${r - 1}_${pos(2 * i)}_WIN`, `TBD_TOP${cutSize}_R${r - 1}_${pos(2 * i + 1)}_WIN`];
+        schedule.push({
+          slotId,
+          round: r,
+          position: pos(i),
+          participantIds,
+          matchId: `${tid}_R${r}_${pos(i)}`,
+          extra: (r === 1 ? { seeds: [seeds[2 * i], seeds[2 * i + 1]] } : {}) as JSONObject,
+        });
+      }
+    }
+
+    return {
+      header: {
+        ...tournament.header,
+        tournamentId: tid,
+        name: `${tournament.header.name} — Top ${cutSize}`,
+        createdAt: at,
+        updatedAt: at,
+        status: "ACTIVE",
+        structure: "SINGLE_ELIMINATION",
+        meta: { swissTournamentId: tournament.header.tournamentId, cutSize } as JSONObject,
+      },
+      participants: seeded.map((row, i) => {
+        const p = tournament.participants.find((x) => x.participantId === row.participantId)!;
+        return { ...p, extra: { ...(p.extra ?? {}), swissRank: i + 1, swissPoints: row.points } as JSONObject };
+      }),
+      schedule,
+      artifactIndex: [],
+      extra: { swissStandingsDerivedAt: standings.derivedAt } as JSONObject,
+    };
+  }
+}
+
+function adjacentPairs(order: SwissRecord[]): Array<[SwissRecord, SwissRecord]> {
+  const out: Array<[SwissRecord, SwissRecord]> = [];
+  for (let i = 0; i + 1 < order.length; i += 2) out.push([order[i], order[i + 1]]);
+  return out;
+}
+
+/** Depth-first: top unpaired player takes the highest-ranked unpaired opponent they have not met. null if impossible. */
+function pairAvoidingRematches(order: SwissRecord[]): Array<[SwissRecord, SwissRecord]> | null {
+  const used = new Array<boolean>(order.length).fill(false);
+  const pairs: Array<[SwissRecord, SwissRecord]> = [];
+  let budget = PAIRING_SEARCH_BUDGET;
+
+  const solve = (): boolean => {
+    const i = used.indexOf(false);
+    if (i < 0) return true;
+    used[i] = true;
+    for (let j = i + 1; j < order.length; j++) {
+      if (used[j] || order[i].opponents.includes(order[j].row.participantId)) continue;
+      if (--budget < 0) break;
+      used[j] = true;
+      pairs.push([order[i], order[j]]);
+      if (solve()) return true;
+      pairs.pop();
+      used[j] = false;
+    }
+    used[i] = false;
+    return false;
+  };
+
+  return solve() ? pairs : null;
+}
+
+export default SwissDeriverV1;
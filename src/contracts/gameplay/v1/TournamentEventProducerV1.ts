@@ -10,6 +10,8 @@
  * Completion rule (minimal, deterministic):
  * - If tournament.schedule exists and every slot with a matchId has a corresponding artifact,
  *   and matchesCompleted >= matchesPlanned, then tournament is considered completed.
+ * - Brackets with conditional slots (double-elim walkovers, an unneeded grand-final reset) never get artifacts for
+ *   every scheduled matchId: there the deriver decides (progress.status COMPLETED and matchesCompleted >= matchesPlanned).
  * - Otherwise, no tournament.completed event is produced.
  *
  * Note:
@@ -48,7 +50,11 @@ function buildArtifactIndex(artifacts: MatchArtifactV1[]): Array<{ matchId: IdSt
   }));
 }
 
-function isTournamentComplete(tournament: TournamentV1, artifacts: MatchArtifactV1[]): { ok: boolean; key: string } {
+function isTournamentComplete(
+  tournament: TournamentV1,
+  artifacts: MatchArtifactV1[],
+  deriver: TournamentDeriverV1
+): { ok: boolean; key: string } {
   const schedule = tournament.schedule;
   if (!schedule || schedule.length === 0) return { ok: false, key: "no-schedule" };
 
@@ -61,7 +67,12 @@ function isTournamentComplete(tournament: TournamentV1, artifacts: MatchArtifact
   const artifactMatchIds = new Set(artifacts.map((a) => a.header.matchId));
 
   const missing = plannedMatchIds.filter((mid) => !artifactMatchIds.has(mid));
-  if (missing.length > 0) return { ok: false, key: `missing:${missing.sort().join(",")}` };
+  if (missing.length > 0) {
+    const progress = deriver.deriveProgress({ tournament, artifacts });
+    const derivedComplete =
+      progress.status === "COMPLETED" && (progress.matchesCompleted ?? 0) >= (progress.matchesPlanned ?? Infinity);
+    if (!derivedComplete) return { ok: false, key: `missing:${missing.sort().join(",")}` };
+  }
 
   // Deterministic key derived from the sorted deterministicHash list.
   const key = buildArtifactIndex(artifacts)
@@ -107,7 +118,7 @@ export function produceTournamentCompletedEventV1(
   const { tournament, artifacts, deriver, correlation, auditRefs } = params;
 
   // Binding enforcement is handled inside deriver implementations (recommended).
-  const completion = isTournamentComplete(tournament, artifacts);
+  const completion = isTournamentComplete(tournament, artifacts, deriver);
   if (!completion.ok) return null;
 
   const standings = deriver.deriveStandings({ tournament, artifacts });
@@ -15,7 +15,7 @@ export const TOURNAMENT_VERSION = "TournamentV1" as const;
 export type TournamentStatusV1 = "DRAFT" | "ACTIVE" | "COMPLETED" | "CANCELLED";
 
 /** How the tournament is structured (minimal for Phase 10 Step 1). */
-export type TournamentStructureV1 = "ROUND_ROBIN" | "SINGLE_ELIMINATION" | "SWISS";
+export type TournamentStructureV1 = "ROUND_ROBIN" | "SINGLE_ELIMINATION" | "DOUBLE_ELIMINATION" | "SWISS";
 
 /**
  * Tournament identity and binding.
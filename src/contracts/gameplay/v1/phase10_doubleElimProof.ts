@@ -0,0 +1,184 @@
+/**
+ * phase10_doubleElimProof.ts — Minimal proof: artifacts -> double-elim bracket snapshot + tournament.completed event.
+ *
+ * Phase 10 Proof (Structure #4):
+ * - Builds DOUBLE_ELIMINATION spines with buildDoubleEliminationScheduleV1 (8 players; 6 players => byes; 5 players, no reset)
+ * - Plays every READY slot with InProcessMockEngineAdapterV1 until a champion is derived (artifact-only)
+ * - Checks: everyone but the champion is eliminated with exactly 2 losses; champion <= 1 loss; reset played only
+ *   when the losers-bracket champion wins GF1; standings open with champion, runner-up
+ * - Produces tournament.completed event via TournamentEventProducerV1 (artifact-only)
+ *
+ * Usage:
+ *   npx -y tsx src/contracts/gameplay/v1/phase10_doubleElimProof.ts
+ */
+
+import { InProcessMockEngineAdapterV1 } from "./InProcessMockEngineAdapterV1";
+import {
+  DoubleEliminationDeriverV1,
+  buildDoubleEliminationScheduleV1,
+  type DoubleEliminationBracketSnapshotV1,
+} from "./DoubleEliminationDeriverV1";
+import { produceTournamentCompletedEventV1 } from "./TournamentEventProducerV1";
+import type { JSONObject, MatchArtifactV1 } from "./MatchArtifactV1";
+import type { TournamentV1 } from "./TournamentV1";
+
+function logJson(label: string, obj: unknown) {
+  // eslint-disable-next-line no-console
+  console.log(`\n== ${label} ==\n${JSON.stringify(obj, null, 2)}`);
+}
+
+async function makeArtifact(params: {
+  adapter: InProcessMockEngineAdapterV1;
+  tournament: TournamentV1;
+  matchId: string;
+  seed: string;
+  participantIds: string[];
+}) {
+  const { adapter, tournament, matchId, seed, participantIds } = params;
+  const { universeCode, engineCode, engineVersion, modeCode } = tournament.header;
+  const participants = participantIds.map((participantId) => ({ participantId }));
+  const inputs: JSONObject = { participants, proof: { kind: "phase10_double_elim" } } as JSONObject;
+
+  const init = await adapter.createMatch({ universeCode, engineCode, engineVersion, modeCode, matchId, participants, seed, inputs });
+  if (!init.ok || init.state === undefined) throw new Error("createMatch failed in proof harness");
+
+  const run = await adapter.runMatch({ universeCode, engineCode, engineVersion, modeCode, matchId, seed, state: init.state, inputs });
+  if (!run.ok || !run.outputs) throw new Error("runMatch failed in proof harness");
+
+  return adapter.produceArtifact({
+    universeCode,
+    engineCode,
+    engineVersion,
+    modeCode,
+    matchId,
+    seed,
+    participants,
+    inputs,
+    outputs: run.outputs,
+  });
+}
+
+function makeTournament(tournamentId: string, players: number, grandFinalReset: boolean): TournamentV1 {
+  const participantIds = Array.from({ length: players }, (_, i) => `P${i + 1}`);
+  return {
+    header: {
+      tournamentVersion: "TournamentV1",
+      tournamentId,
+      name: `Phase 10 Proof — Double Elimination (${players})`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      status: "ACTIVE",
+      universeCode: "UNIV_TEST",
+      engineCode: "MOCK_ENGINE",
+      engineVersion: "0.0.1",
+      modeCode: "ROOKIE",
+      structure: "DOUBLE_ELIMINATION",
+      meta: { purpose: "phase10_double_elim_proof" } as JSONObject,
+    },
+    participants: participantIds.map((p) => ({ participantId: p, label: p })),
+    schedule: buildDoubleEliminationScheduleV1({ tournamentId, participantIds, grandFinalReset }),
+    artifactIndex: [],
+  };
+}
+
+async function playOut(adapter: InProcessMockEngineAdapterV1, deriver: DoubleEliminationDeriverV1, tournament: TournamentV1, seedPrefix: string) {
+  const artifacts: MatchArtifactV1[] = [];
+  for (let guard = 0; guard < 64; guard++) {
+    const progress = deriver.deriveProgress({ tournament, artifacts });
+    const view = progress.view as unknown as DoubleEliminationBracketSnapshotV1;
+    const ready = view.rounds.flatMap((r) => r.slots).filter((s) => s.status === "READY");
+    if (ready.length === 0) return { artifacts, progress, view };
+    for (const s of ready) {
+      artifacts.push(
+        await makeArtifact({ adapter, tournament, matchId: s.matchId!, seed: `${seedPrefix}-${s.slotId}`, participantIds: s.participantIds })
+      );
+    }
+  }
+  throw new Error("bracket did not finish");
+}
+
+async function main() {
+  const adapter = new InProcessMockEngineAdapterV1();
+  const deriver = new DoubleEliminationDeriverV1();
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  const resets = new Set<string>();
+  let shown: { tournament: TournamentV1; artifacts: MatchArtifactV1[]; view: DoubleEliminationBracketSnapshotV1 } | null = null;
+
+  const cases: Array<{ players: number; reset: boolean; seeds: string[] }> = [
+    { players: 8, reset: true, seeds: ["seed-de-a", "seed-de-b", "seed-de-c", "seed-de-d", "seed-de-e", "seed-de-f"] },
+    { players: 6, reset: true, seeds: ["seed-de-a", "seed-de-b"] },
+    { players: 5, reset: false, seeds: ["seed-de-a"] },
+    { players: 2, reset: true, seeds: ["seed-de-a", "seed-de-b"] },
+  ];
+
+  for (const c of cases) {
+    for (const seed of c.seeds) {
+      const label = `${c.players}p/${seed}`;
+      const tournament = makeTournament(`T_DOUBLEELIM_${c.players}_${seed}`, c.players, c.reset);
+      const { artifacts, progress, view } = await playOut(adapter, deriver, tournament, seed);
+      const standings = deriver.deriveStandings({ tournament, artifacts });
+
+      expect(progress.status === "COMPLETED" && Boolean(view.championParticipantId), `${label}: champion derived`);
+      expect(progress.matchesCompleted === progress.matchesPlanned, `${label}: every live match played`);
+      expect(standings.rows[0].participantId === view.championParticipantId, `${label}: standings open with champion`);
+      expect(standings.rows[1].participantId === view.runnerUpParticipantId, `${label}: runner-up second`);
+      expect(standings.rows[0].losses <= 1, `${label}: champion has <= 1 loss`);
+      expect(standings.rows.slice(1).every((r) => r.losses === 2), `${label}: everyone else out on 2 losses`);
+      expect(standings.rows.slice(1).every((r) => typeof r.tieBreakers?.eliminatedRound === "number"), `${label}: eliminatedRound set`);
+
+      const gf1 = view.grandFinal.find((s) => s.slotId === "GF1")!;
+      const losersSideWonGf1 = gf1.winnerParticipantId === gf1.participantIds[1];
+      if (!c.reset) expect(view.grandFinalReset === "NONE" && view.grandFinal.length === 1, `${label}: no reset slot`);
+      else expect(view.grandFinalReset === (losersSideWonGf1 ? "PLAYED" : "SKIPPED"), `${label}: reset ${view.grandFinalReset} matches GF1`);
+      resets.add(view.grandFinalReset);
+
+      const completed = produceTournamentCompletedEventV1({ tournament, artifacts, deriver, correlation: { requestId: "REQ_DOUBLEELIM_PROOF" } });
+      expect(Boolean(completed), `${label}: tournament.completed emitted`);
+
+      if (c.players === 6 && !shown) shown = { tournament, artifacts, view };
+    }
+  }
+  expect(resets.has("PLAYED") && resets.has("SKIPPED"), `both reset outcomes exercised (${Array.from(resets).join(",")})`);
+
+  // Drop-down slotting (8 players): W2 losers land in L2 reversed, W3 loser meets the L3 winner.
+  const spine = buildDoubleEliminationScheduleV1({ tournamentId: "T_SPINE", participantIds: ["A", "B", "C", "D", "E", "F", "G", "H"] });
+  const at = (id: string) => spine.find((s) => s.slotId === id)!.participantIds.join(" vs ");
+  expect(at("L2_A") === "TBD_L1_A_WIN vs TBD_W2_B_LOSE" && at("L2_B") === "TBD_L1_B_WIN vs TBD_W2_A_LOSE", "L2 drops reversed");
+  expect(at("L4_A") === "TBD_L3_A_WIN vs TBD_W3_A_LOSE", "L4 takes the winners-final loser");
+  expect(at("GF1") === "TBD_W3_A_WIN vs TBD_L4_A_WIN", "GF1 winners champion vs losers champion");
+
+  if (shown) {
+    const { view } = shown;
+    logJson("Double-elim bracket (6 players, summarized)", {
+      winners: view.winners.map((r) => ({ round: r.round, slots: r.slots.map((s) => `${s.slotId}: ${s.participantIds.join(" vs ")} -> ${s.winnerParticipantId} [${s.status}]`) })),
+      losers: view.losers.map((r) => ({ round: r.round, slots: r.slots.map((s) => `${s.slotId}: ${s.participantIds.join(" vs ")} -> ${s.winnerParticipantId} [${s.status}]`) })),
+      grandFinal: view.grandFinal.map((s) => `${s.slotId}: ${s.participantIds.join(" vs ")} -> ${s.winnerParticipantId} [${s.status}]`),
+      champion: view.championParticipantId,
+    });
+    logJson("Double-elim standings (6 players)", deriver.deriveStandings({ tournament: shown.tournament, artifacts: shown.artifacts }).rows);
+  }
+
+  if (failures.length > 0) {
+    // eslint-disable-next-line no-console
+    console.error(`\nDOUBLE ELIM PROOF FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `\nSUMMARY: brackets=${cases.reduce((s, c) => s + c.seeds.length, 0)} resets=${Array.from(resets).sort().join(",")} ` +
+      `champion6p=${shown?.view.championParticipantId ?? "unknown"}`
+  );
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exitCode = 1;
+});
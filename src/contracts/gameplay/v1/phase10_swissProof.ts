@@ -0,0 +1,217 @@
+/**
+ * phase10_swissProof.ts — Minimal proof: Swiss rounds paired from artifacts -> standings + top cut into single-elim.
+ *
+ * Phase 10 Proof (Structure #3):
+ * - 7 players (odd => one bye per round), rounds paired by SwissDeriverV1.pairNextRound()
+ * - Uses InProcessMockEngineAdapterV1 to generate MatchArtifactV1 receipts for each paired table
+ * - Checks: no rematches, no repeat byes, deterministic pairing, tie-breakers present
+ * - Hands the Top 4 to SingleEliminationDeriverV1 and produces tournament.completed for both stages
+ *
+ * Usage:
+ *   npx -y tsx src/contracts/gameplay/v1/phase10_swissProof.ts
+ */
+
+import { InProcessMockEngineAdapterV1 } from "./InProcessMockEngineAdapterV1";
+import { SwissDeriverV1, isSwissByeSlotV1 } from "./SwissDeriverV1";
+import { SingleEliminationDeriverV1 } from "./SingleEliminationDeriverV1";
+import { produceTournamentCompletedEventV1 } from "./TournamentEventProducerV1";
+import type { JSONObject, MatchArtifactV1 } from "./MatchArtifactV1";
+import type { TournamentV1 } from "./TournamentV1";
+
+function logJson(label: string, obj: unknown) {
+  // eslint-disable-next-line no-console
+  console.log(`\n== ${label} ==\n${JSON.stringify(obj, null, 2)}`);
+}
+
+async function makeArtifact(params: {
+  adapter: InProcessMockEngineAdapterV1;
+  tournament: TournamentV1;
+  matchId: string;
+  seed: string;
+  participantIds: string[];
+}) {
+  const { adapter, tournament, matchId, seed, participantIds } = params;
+  const { universeCode, engineCode, engineVersion, modeCode } = tournament.header;
+  const participants = participantIds.map((participantId) => ({ participantId }));
+  const inputs: JSONObject = { participants, proof: { kind: "phase10_swiss" } } as JSONObject;
+
+  const init = await adapter.createMatch({ universeCode, engineCode, engineVersion, modeCode, matchId, participants, seed, inputs });
+  if (!init.ok || init.state === undefined) throw new Error("createMatch failed in proof harness");
+
+  const run = await adapter.runMatch({ universeCode, engineCode, engineVersion, modeCode, matchId, seed, state: init.state, inputs });
+  if (!run.ok || !run.outputs) throw new Error("runMatch failed in proof harness");
+
+  return adapter.produceArtifact({
+    universeCode,
+    engineCode,
+    engineVersion,
+    modeCode,
+    matchId,
+    seed,
+    participants,
+    inputs,
+    outputs: run.outputs,
+  });
+}
+
+/** Play every open table of a schedule (artifact-less, non-bye slots without TBD placeholders). */
+async function playOpenSlots(adapter: InProcessMockEngineAdapterV1, tournament: TournamentV1, artifacts: MatchArtifactV1[]) {
+  const done = new Set(artifacts.map((a) => a.header.matchId));
+  for (const slot of tournament.schedule ?? []) {
+    if (!slot.matchId || done.has(slot.matchId) || isSwissByeSlotV1(slot)) continue;
+    if (slot.participantIds.some((p) => p.startsWith("TBD_"))) continue;
+    artifacts.push(
+      await makeArtifact({ adapter, tournament, matchId: slot.matchId, seed: `seed-${slot.matchId}`, participantIds: slot.participantIds })
+    );
+  }
+}
+
+async function main() {
+  const adapter = new InProcessMockEngineAdapterV1();
+  const swiss = new SwissDeriverV1();
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+
+  const players = ["P1", "P2", "P3", "P4", "P5", "P6", "P7"];
+  const tournament: TournamentV1 = {
+    header: {
+      tournamentVersion: "TournamentV1",
+      tournamentId: "T_SWISS_001",
+      name: "Phase 10 Proof — Swiss",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      status: "ACTIVE",
+      universeCode: "UNIV_TEST",
+      engineCode: "MOCK_ENGINE",
+      engineVersion: "0.0.1",
+      modeCode: "ROOKIE",
+      structure: "SWISS",
+      meta: { purpose: "phase10_swiss_proof" } as JSONObject,
+    },
+    participants: players.map((p) => ({ participantId: p, label: p })),
+    schedule: [],
+    artifactIndex: [],
+    extra: { note: "Swiss proof. Pairings + standings derived from artifacts only." } as JSONObject,
+  };
+
+  const artifacts: MatchArtifactV1[] = [];
+  const totalRounds = swiss.totalRounds(tournament);
+  expect(totalRounds === 3, `7 players => 3 rounds (got ${totalRounds})`);
+
+  for (let r = 1; r <= totalRounds; r++) {
+    const slots = swiss.pairNextRound({ tournament, artifacts });
+    const again = swiss.pairNextRound({ tournament, artifacts });
+    expect(JSON.stringify(slots) === JSON.stringify(again), `round ${r}: pairing deterministic`);
+    expect(slots.filter(isSwissByeSlotV1).length === 1, `round ${r}: exactly one bye`);
+
+    tournament.schedule!.push(...slots);
+    let incomplete = "";
+    try {
+      swiss.pairNextRound({ tournament, artifacts });
+    } catch (e: any) {
+      incomplete = String(e?.message ?? "");
+    }
+    expect(incomplete.startsWith("SWISS_ROUND_INCOMPLETE"), `round ${r}: next round refused while open`);
+
+    await playOpenSlots(adapter, tournament, artifacts);
+  }
+
+  // No rematches, no repeat byes
+  const met = new Set<string>();
+  const byes = new Set<string>();
+  for (const slot of tournament.schedule!) {
+    if (isSwissByeSlotV1(slot)) {
+      expect(!byes.has(slot.participantIds[0]), `repeat bye for ${slot.participantIds[0]}`);
+      byes.add(slot.participantIds[0]);
+      continue;
+    }
+    const key = slot.participantIds.slice().sort().join("|");
+    expect(!met.has(key), `rematch ${key}`);
+    met.add(key);
+  }
+
+  const standings = swiss.deriveStandings({ tournament, artifacts });
+  const progress = swiss.deriveProgress({ tournament, artifacts });
+  expect(progress.status === "COMPLETED", `swiss COMPLETED after ${totalRounds} rounds (got ${progress.status})`);
+  expect(
+    standings.rows.every((row) => typeof row.tieBreakers?.omwPct === "number" && typeof row.tieBreakers?.buchholz === "number"),
+    "tie-breakers on every row"
+  );
+  expect(standings.rows.reduce((s, row) => s + row.wins, 0) === 9 + 3, "9 matches + 3 byes => 12 wins");
+
+  let exhausted = "";
+  try {
+    swiss.pairNextRound({ tournament, artifacts });
+  } catch (e: any) {
+    exhausted = String(e?.message ?? "");
+  }
+  expect(exhausted.startsWith("SWISS_ROUNDS_EXHAUSTED"), "no round after the last");
+
+  logJson("Swiss standings", standings);
+  logJson("Swiss progress (view.rounds[].slots summarized)", {
+    ...progress,
+    view: (progress.view as any).rounds.map((r: any) => ({
+      round: r.round,
+      tables: r.slots.map((s: any) => `${s.participantIds.join(" vs ")}${s.bye ? " (BYE)" : ""} -> ${s.winnerParticipantId}`),
+    })),
+  });
+
+  const swissCompleted = produceTournamentCompletedEventV1({
+    tournament,
+    artifacts,
+    deriver: swiss,
+    correlation: { requestId: "REQ_SWISS_PROOF" },
+  });
+
+  // --- Top 4 handoff
+  const top4 = swiss.topCut({ tournament, artifacts, cutSize: 4 });
+  expect(top4.header.structure === "SINGLE_ELIMINATION", "top cut is SINGLE_ELIMINATION");
+  expect(
+    top4.participants.map((p) => p.participantId).join(",") === standings.rows.slice(0, 4).map((r) => r.participantId).join(","),
+    "top cut seeded from standings"
+  );
+  const semi = top4.schedule!.filter((s) => s.round === 1);
+  expect(semi[0].participantIds[0] === standings.rows[0].participantId && semi[0].participantIds[1] === standings.rows[3].participantId, "1 vs 4");
+  expect(semi[1].participantIds[0] === standings.rows[1].participantId && semi[1].participantIds[1] === standings.rows[2].participantId, "2 vs 3");
+
+  const elim = new SingleEliminationDeriverV1();
+  const cutArtifacts: MatchArtifactV1[] = [];
+  await playOpenSlots(adapter, top4, cutArtifacts);
+  const final = top4.schedule!.find((s) => s.round === 2)!;
+  final.participantIds = semi.map((s) => cutArtifacts.find((a) => a.header.matchId === s.matchId)!.result.winnerParticipantId!);
+  await playOpenSlots(adapter, top4, cutArtifacts);
+
+  const cutProgress = elim.deriveProgress({ tournament: top4, artifacts: cutArtifacts });
+  const cutCompleted = produceTournamentCompletedEventV1({
+    tournament: top4,
+    artifacts: cutArtifacts,
+    deriver: elim,
+    correlation: { requestId: "REQ_SWISS_TOP4_PROOF" },
+  });
+  expect(Boolean((cutProgress.view as any)?.championParticipantId), "top cut champion derived");
+
+  logJson("Top 4 bracket snapshot (progress.view)", cutProgress.view);
+
+  if (failures.length > 0) {
+    // eslint-disable-next-line no-console
+    console.error(`\nSWISS PROOF FAIL: ${failures.length} failure(s)`);
+    for (const f of failures.slice(0, 10)) console.error(`- ${f}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `\nSUMMARY: rounds=${totalRounds} artifacts=${artifacts.length} byes=${byes.size} leader=${standings.rows[0].participantId} ` +
+      `swissEvent=${swissCompleted ? "emitted" : "null"} top4Champion=${(cutProgress.view as any)?.championParticipantId ?? "unknown"} ` +
+      `top4Event=${cutCompleted ? "emitted" : "null"}`
+  );
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exitCode = 1;
+});
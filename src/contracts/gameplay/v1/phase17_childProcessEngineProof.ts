@@ -0,0 +1,142 @@
+/**
+ * phase17_childProcessEngineProof.ts — Proof: out-of-process engines over EngineRpcV1.
+ *
+ * Phase 17 Proof:
+ * - Runs BoltOnConformanceRunnerV1 against the mock engine spawned as a child process -> PASS
+ * - Child artifacts hash identically to the in-process adapter's
+ * - Hung engine -> ENGINE_TIMEOUT, crashed engine -> ENGINE_CRASHED; both restart cleanly on the next call
+ * - Handshake identity mismatch and stdout noise are refused
+ *
+ * Usage:
+ *   npx -y tsx src/contracts/gameplay/v1/phase17_childProcessEngineProof.ts
+ */
+
+import { runBoltOnConformanceRunnerV1 } from "./BoltOnConformanceRunnerV1";
+import type { BoltOnKitV1 } from "./BoltOnKitV1";
+import { ChildProcessEngineAdapterV1 } from "./ChildProcessEngineAdapterV1";
+import { InProcessMockEngineAdapterV1 } from "./InProcessMockEngineAdapterV1";
+import type { IdString, JSONObject } from "./MatchArtifactV1";
+
+const ENTRY = "src/contracts/gameplay/v1/MockEngineProcessV1.ts";
+const COMMAND = [process.execPath, "--import", "tsx", ENTRY];
+
+function logJson(label: string, obj: unknown) {
+  // eslint-disable-next-line no-console
+  console.log(`\n== ${label} ==\n${JSON.stringify(obj, null, 2)}`);
+}
+
+const base = {
+  universeCode: "UNIV_TEST",
+  engineCode: "MOCK_ENGINE",
+  engineVersion: "0.0.1",
+  modeCode: "ROOKIE",
+  matchId: "M_PHASE17_001",
+  seed: "seed-phase17",
+};
+const participants = [
+  { participantId: "P1" as IdString, extra: {} as JSONObject },
+  { participantId: "P2" as IdString, extra: {} as JSONObject },
+];
+const inputs: JSONObject = { participants: [{ participantId: "P1" }, { participantId: "P2" }] };
+
+function spawnMock(fault?: string, callTimeoutMs = 3_000) {
+  return new ChildProcessEngineAdapterV1({
+    command: COMMAND,
+    cwd: process.cwd(),
+    env: fault ? { MOCK_ENGINE_FAULT: fault } : {},
+    callTimeoutMs,
+    expect: { engineCode: "MOCK_ENGINE", engineVersion: "0.0.1" },
+  });
+}
+
+async function main() {
+  const failures: string[] = [];
+  const expect = (ok: boolean, msg: string) => {
+    if (!ok) failures.push(msg);
+  };
+  const open: ChildProcessEngineAdapterV1[] = [];
+  const track = (a: ChildProcessEngineAdapterV1) => (open.push(a), a);
+
+  try {
+    // 1) Conformance over the process boundary
+    const kit: BoltOnKitV1 = {
+      kitVersion: "BoltOnKitV1",
+      kitId: "KIT_MOCK_ENGINE_PROCESS_001",
+      name: "Mock Engine Kit (child process)",
+      engine: { engineCode: "MOCK_ENGINE", engineVersion: "0.0.1", universeCodes: ["UNIV_TEST"], modeCodes: ["ROOKIE"] },
+      publisher: { name: "OnlyChamps (local)" },
+      exports: {
+        engineAdapterModule: ENTRY,
+        engineAdapterExportName: "InProcessMockEngineAdapterV1",
+        engineProcess: { command: COMMAND, callTimeoutMs: 3_000 },
+      },
+      conformance: { entrypoint: { runtime: "node", command: COMMAND } },
+      compatibility: { requiredContracts: ["EngineAdapterV1", "MatchArtifactV1"] },
+    };
+    const conformance = await runBoltOnConformanceRunnerV1(kit, { baseDir: process.cwd(), seed: "seed-phase17-proof" });
+    logJson("Conformance result (child process)", conformance);
+    expect(conformance.status === "PASS", `conformance over child process: ${conformance.status}`);
+
+    // 2) Same artifact hash as in-process
+    const child = track(spawnMock());
+    const local = new InProcessMockEngineAdapterV1();
+    const created = await child.createMatch({ ...base, participants, inputs });
+    const ran = await child.runMatch({ ...base, state: created.state ?? null, inputs });
+    expect(ran.ok === true, "child runMatch ok");
+    const a1 = await child.produceArtifact({ ...base, participants, inputs, outputs: ran.outputs ?? {} });
+    const a2 = await local.produceArtifact({ ...base, participants, inputs, outputs: ran.outputs ?? {} });
+    expect(a1.deterministicHash.value === a2.deterministicHash.value, "child and in-process artifacts hash identically");
+
+    // 3) Timeout kills the hung engine; next call gets a fresh process
+    const hung = track(spawnMock("hang-run", 1_000));
+    const t = await hung.runMatch({ ...base, state: created.state ?? null, inputs });
+    expect(t.ok === false && t.errors?.[0]?.code === "ENGINE_TIMEOUT", `hung engine => ENGINE_TIMEOUT (${t.errors?.[0]?.code})`);
+    const afterTimeout = await hung.validateDeck({ ...base, deckId: "D1", cardVersionKeys: ["CARD_A"] });
+    expect(afterTimeout.ok === true && hung.restartCount === 1, "engine restarted after timeout");
+
+    // 4) Crash surfaces as ENGINE_CRASHED with the stderr tail
+    const crashy = track(spawnMock("crash-run"));
+    const c = await crashy.runMatch({ ...base, state: created.state ?? null, inputs });
+    const crashErr = c.errors?.[0];
+    expect(c.ok === false && crashErr?.code === "ENGINE_CRASHED", `crashed engine => ENGINE_CRASHED (${crashErr?.code})`);
+    expect(String((crashErr?.details as any)?.stderrTail ?? "").includes("simulated crash"), "crash keeps stderr tail");
+    const afterCrash = await crashy.createMatch({ ...base, participants, inputs });
+    expect(afterCrash.ok === true && crashy.restartCount === 1, "engine restarted after crash");
+
+    // 5) Handshake identity mismatch
+    const wrong = track(spawnMock("wrong-version"));
+    const w = await wrong.validateDeck({ ...base, deckId: "D1", cardVersionKeys: ["CARD_A"] });
+    expect(w.ok === false && w.errors?.[0]?.code === "ENGINE_HANDSHAKE", `wrong engineVersion => ENGINE_HANDSHAKE (${w.errors?.[0]?.code})`);
+    let threw = "";
+    try {
+      await wrong.produceArtifact({ ...base, participants, inputs, outputs: ran.outputs ?? {} });
+    } catch (e: any) {
+      threw = String(e?.message ?? "");
+    }
+    expect(threw.startsWith("ENGINE_HANDSHAKE"), "produceArtifact throws on handshake failure");
+
+    // 6) Non-protocol stdout is a protocol violation
+    const noisy = track(spawnMock("noisy-stdout"));
+    const n = await noisy.validateDeck({ ...base, deckId: "D1", cardVersionKeys: ["CARD_A"] });
+    expect(n.ok === false && n.errors?.[0]?.code === "ENGINE_PROTOCOL", `stdout noise => ENGINE_PROTOCOL (${n.errors?.[0]?.code})`);
+  } finally {
+    for (const a of open) a.close();
+  }
+
+  if (failures.length > 0) {
+    // eslint-disable-next-line no-console
+    console.error(`\nSUMMARY: FAIL ${failures.length} failure(s)`);
+    // eslint-disable-next-line no-console
+    for (const f of failures) console.error(`- ${f}`);
+    process.exitCode = 1;
+    return;
+  }
+  // eslint-disable-next-line no-console
+  console.log("\nSUMMARY: PASS conformance over EngineRpcV1 + hash parity + timeout/crash/handshake/protocol isolation");
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exitCode = 1;
+});
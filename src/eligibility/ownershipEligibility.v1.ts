@@ -0,0 +1,161 @@
+// src/eligibility/ownershipEligibility.v1.ts
+// Ownership eligibility v1 (deck -> EligibilityPacketV1)
+// Pure functions. No side effects. Callers load the deck lines and the owner's holdings and inject "now".
+// - Owned copies of a versionKey: OwnershipLot.qtyAvailable (listings already deduct from it) plus UserCardInstance
+//   rows with an APPROVED Verification that are not on an open listing. Listed copies never count.
+// - Every deck copy gets a claim: OWNERSHIP_RECORD while owned copies last, UNVERIFIED_SELF_CLAIM for the rest, so the
+//   bridge still hands the engine the full deck.
+// - decision: ownedOnly -> ELIGIBLE only when nothing is self-claimed (INELIGIBLE otherwise); not ownedOnly ->
+//   ELIGIBLE (the claims still show what is owned). A deck without an owner is UNKNOWN.
+
+import type {
+  EligibilityCardClaimV1,
+  EligibilityDecisionV1,
+  EligibilityPacketV1,
+} from "../contracts/gameplay/v1/EligibilityPacketV1";
+import type { JSONObject } from "../contracts/gameplay/v1/MatchArtifactV1";
+
+export type OwnershipLotHoldingV1 = { lotId: string; versionKey: string; qtyAvailable: number };
+
+/** Unsold quantity on the owner's open (ACTIVE/PAUSED) listings; already deducted from qtyAvailable. */
+export type ListedQuantityHoldingV1 = { listingId: string; versionKey: string; qty: number };
+
+export type CardInstanceHoldingV1 = {
+  instanceId: string;
+  versionKey: string;
+  /** Id of an APPROVED Verification covering this instance (instance scope, or the owner's version scope). */
+  approvedVerificationId: string | null;
+  /** Open listing holding this instance (ACTIVE/PAUSED listing, line not sold). */
+  listingId: string | null;
+};
+
+export type OwnershipHoldingsV1 = {
+  lots: OwnershipLotHoldingV1[];
+  listed: ListedQuantityHoldingV1[];
+  instances: CardInstanceHoldingV1[];
+};
+
+export type DeckOwnershipShortfallV1 = {
+  versionKey: string;
+  required: number;
+  owned: number;
+  /** Copies that would count but sit in an open listing. */
+  listingLocked: number;
+  /** Owned instances still waiting on an approved verification. */
+  unverified: number;
+};
+
+export function buildDeckEligibilityPacketV1(params: {
+  eligibilityPacketId: string;
+  issuedAtIso: string;
+  context: EligibilityPacketV1["context"];
+  deck: { deckId: string; deckName?: string; ownerUserId: string | null; lines: Array<{ versionKey: string; qty: number }> };
+  holdings: OwnershipHoldingsV1;
+  ownedOnly: boolean;
+}): EligibilityPacketV1 {
+  const { deck, holdings, ownedOnly } = params;
+  const participantId = deck.ownerUserId ?? `DECK_${deck.deckId}`;
+
+  const required = new Map<string, number>();
+  for (const l of deck.lines) {
+    const qty = Math.max(0, Math.floor(Number(l.qty) || 0));
+    if (qty > 0) required.set(l.versionKey, (required.get(l.versionKey) ?? 0) + qty);
+  }
+
+  const claims: EligibilityCardClaimV1[] = [];
+  const shortfalls: DeckOwnershipShortfallV1[] = [];
+
+  for (const versionKey of [...required.keys()].sort()) {
+    const need = required.get(versionKey)!;
+    let remaining = need;
+    let listingLocked = 0;
+    let unverified = 0;
+
+    if (deck.ownerUserId) {
+      const lots = holdings.lots.filter((l) => l.versionKey === versionKey).sort((a, b) => (a.lotId < b.lotId ? -1 : 1));
+      listingLocked += holdings.listed.filter((l) => l.versionKey === versionKey).reduce((sum, l) => sum + Math.max(0, l.qty), 0);
+      for (const lot of lots) {
+        const take = Math.min(remaining, Math.max(0, lot.qtyAvailable));
+        if (take <= 0) continue;
+        claims.push({ cardVersionKey: versionKey, quantity: take, claimKind: "OWNERSHIP_RECORD", refs: { ownershipId: lot.lotId } });
+        remaining -= take;
+      }
+
+      const instances = holdings.instances
+        .filter((i) => i.versionKey === versionKey)
+        .sort((a, b) => (a.instanceId < b.instanceId ? -1 : 1));
+      for (const inst of instances) {
+        if (inst.listingId) {
+          listingLocked += 1;
+          continue;
+        }
+        if (!inst.approvedVerificationId) {
+          unverified += 1;
+          continue;
+        }
+        if (remaining <= 0) continue;
+        claims.push({
+          cardVersionKey: versionKey,
+          quantity: 1,
+          claimKind: "OWNERSHIP_RECORD",
+          refs: { ownershipId: inst.instanceId, adminDecisionId: inst.approvedVerificationId },
+          extra: { instance: true },
+        });
+        remaining -= 1;
+      }
+    }
+
+    if (remaining > 0) {
+      claims.push({ cardVersionKey: versionKey, quantity: remaining, claimKind: "UNVERIFIED_SELF_CLAIM" });
+      shortfalls.push({ versionKey, required: need, owned: need - remaining, listingLocked, unverified });
+    }
+  }
+
+  let decision: EligibilityDecisionV1 = "ELIGIBLE";
+  const reasons: NonNullable<EligibilityPacketV1["reasons"]> = [];
+  if (!deck.ownerUserId) {
+    decision = ownedOnly ? "UNKNOWN" : "ELIGIBLE";
+    reasons.push({ code: "DECK_OWNER_UNKNOWN", message: "Deck has no owner; ownership cannot be checked." });
+  } else if (shortfalls.length > 0) {
+    if (ownedOnly) decision = "INELIGIBLE";
+    for (const s of shortfalls) {
+      reasons.push({
+        code: s.listingLocked > 0 ? "CARD_LISTING_LOCKED" : s.unverified > 0 ? "CARD_UNVERIFIED" : "CARD_NOT_OWNED",
+        message: `${s.versionKey}: ${s.owned}/${s.required} owned`,
+        extra: s as unknown as JSONObject,
+      });
+    }
+  } else {
+    reasons.push({ code: "OWNERSHIP_VERIFIED", message: "Every deck copy is backed by an ownership record." });
+  }
+
+  return {
+    packetVersion: "EligibilityPacketV1",
+    eligibilityPacketId: params.eligibilityPacketId,
+    issuedAt: params.issuedAtIso,
+    ...(deck.ownerUserId ? { requester: { userId: deck.ownerUserId, participantId } } : {}),
+    context: params.context,
+    deck: {
+      deckId: deck.deckId,
+      ...(deck.deckName ? { deckName: deck.deckName } : {}),
+      participantId,
+      claims,
+      constraints: { ownedOnly },
+    },
+    decision,
+    reasons,
+  };
+}
+
+/** Short human summary of an ineligible packet, e.g. "CARD_A 1/3 owned (2 listed), CARD_B 0/1 owned". */
+export function describeEligibilityShortfallV1(packet: EligibilityPacketV1): string {
+  return (packet.reasons ?? [])
+    .filter((r) => r.code !== "OWNERSHIP_VERIFIED")
+    .map((r) => {
+      const s = r.extra as unknown as DeckOwnershipShortfallV1 | undefined;
+      if (!s?.versionKey) return r.message ?? r.code;
+      const notes = [s.listingLocked > 0 ? `${s.listingLocked} listed` : "", s.unverified > 0 ? `${s.unverified} unverified` : ""].filter(Boolean);
+      return `${s.versionKey} ${s.owned}/${s.required} owned${notes.length ? ` (${notes.join(", ")})` : ""}`;
+    })
+    .join(", ");
+}
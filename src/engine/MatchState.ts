@@ -1,7 +1,9 @@
 // src/engine/MatchState.ts
 
-import type { GameEvent, GameAction, MatchState } from "./types";
+import type { GameEvent, GameAction, MatchEnd, MatchState } from "./types";
 import { reduce, makeInitialState } from "./reducer";
+import { getModePlugin } from "./modeRegistry";
+import { effectiveEvents } from "./takeback";
 
 export class MatchStateEngine {
   private readonly initial: MatchState;
@@ -12,15 +14,22 @@ export class MatchStateEngine {
 
   public replay(events: GameEvent[]): MatchState {
     let s: MatchState = JSON.parse(JSON.stringify(this.initial));
-    const ordered = [...events].sort((a, b) => a.seq - b.seq);
+    // Events superseded by an approved TAKEBACK are skipped (history itself stays append-only).
+    const ordered = effectiveEvents(events);
 
     for (const e of ordered) {
-      const action: GameAction = { type: e.type, payload: e.payload };
+      const action: GameAction = { type: e.type, payload: e.payload, at: e.at, seq: e.seq };
       s = reduce(s, action);
     }
 
     return s;
   }
+
+  /** End-of-match check via the mode plugin (null for unknown modes or matches still in play). */
+  public detectEnd(state: MatchState): MatchEnd | null {
+    const plugin = getModePlugin(state.modeCode);
+    return plugin ? plugin.detectEnd(state) : null;
+  }
 }
 
 export function newEngine(args: { modeCode: string; seats: number[] }): MatchStateEngine {
@@ -0,0 +1,76 @@
+// src/engine/decks.v1.ts
+// Runner deck inputs (DeckCardVersion lists + catalog facts) and deterministic pile helpers.
+// Pure: decks are loaded by the server layer and passed in; matchSeed is the sole entropy.
+
+import crypto from "node:crypto";
+
+export type DeckOrderAtStartV1 = "AS_BUILT" | "DETERMINISTIC_SHUFFLE";
+
+/** One DeckCardVersion line with the catalog facts the runner needs. */
+export type RunnerDeckCardV1 = {
+  versionKey: string;
+  qty: number;
+  conceptType: "HERO" | "PLAY" | "HOTDOG" | string;
+  power?: number | null; // CardVersion.attributes.power (HERO only)
+};
+
+/** Decks by runner side (LS = HOME = seat 1, OP = AWAY = seat 2). */
+export type RunnerDecksV1 = {
+  LS: RunnerDeckCardV1[];
+  OP: RunnerDeckCardV1[];
+};
+
+export type HeroCardV1 = {
+  versionKey: string;
+  power: number;
+};
+
+function sha256Hex(input: string): string {
+  return crypto.createHash("sha256").update(input).digest("hex");
+}
+
+/**
+ * Expands HERO lines into one entry per copy, in deck-list order (AS_BUILT).
+ * Non-HERO lines are skipped; missing/invalid power counts as 0.
+ */
+export function expandHeroCardsV1(deck: RunnerDeckCardV1[]): HeroCardV1[] {
+  const out: HeroCardV1[] = [];
+  for (const line of deck) {
+    if (String(line.conceptType).toUpperCase() !== "HERO") continue;
+    const qty = Number.isInteger(line.qty) && line.qty > 0 ? line.qty : 0;
+    const power = typeof line.power === "number" && Number.isFinite(line.power) ? line.power : 0;
+    for (let i = 0; i < qty; i++) out.push({ versionKey: line.versionKey, power });
+  }
+  return out;
+}
+
+/** Fisher–Yates driven by a sha256 counter stream over `${seed}::${label}`. Never mutates input. */
+export function seededShuffleV1<T>(items: T[], seed: string, label: string): T[] {
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const h = sha256Hex(`${seed}::${label}::${i}`);
+    const j = parseInt(h.slice(0, 8), 16) % (i + 1);
+    const tmp = out[i];
+    out[i] = out[j];
+    out[j] = tmp;
+  }
+  return out;
+}
+
+export function orderDeckAtStartV1(args: {
+  cards: HeroCardV1[];
+  order: DeckOrderAtStartV1;
+  matchSeed: string;
+  side: "LS" | "OP";
+}): HeroCardV1[] {
+  if (args.order === "DETERMINISTIC_SHUFFLE") return seededShuffleV1(args.cards, args.matchSeed, `deck_${args.side}`);
+  return args.cards.slice();
+}
+
+export function assertRunnerDecksV1(decks: RunnerDecksV1): void {
+  for (const side of ["LS", "OP"] as const) {
+    const list = decks[side];
+    if (!Array.isArray(list)) throw new Error(`RUNNER_DECK_INVALID: ${side} deck missing`);
+    if (expandHeroCardsV1(list).length === 0) throw new Error(`RUNNER_DECK_INVALID: ${side} deck has no HERO cards`);
+  }
+}
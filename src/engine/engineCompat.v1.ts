@@ -0,0 +1,108 @@
+// src/engine/engineCompat.v1.ts
+// Engine-compat migration path for stored artifacts.
+//
+// Two separate concerns when engineCompatVersion advances:
+//  - Replay: an artifact is only reproducible by the engine code that produced it. Every compat version that has
+//    ever shipped keeps a pinned replay entry here, and replays run against that compat regardless of the
+//    current appConfig.engineSupportedCompatVersions window.
+//  - Reading: consumers (ratings, tournaments, UI) read the current matchResult shape. Upgraders transform
+//    matchResultJson / timeline one compat step at a time (vN -> vN+1); the stored artifact is never rewritten.
+//
+// Bumping compat = add a pinned entry for the new engine + an upgrader from the previous version.
+
+import type { AppConfig, FormatRegistry, GameModeRegistry } from "../config/registryLoaders.v1";
+import type { MatchResultRecordV1 } from "./matchResult.v1";
+import { replayOnceV1, type ReplayInputsV1 } from "./replayHarness.v1";
+
+/** Compat version the in-tree runner (runner.v1 / session.v1) implements. */
+export const ENGINE_CODE_COMPAT_VERSION = 1;
+
+export type PinnedReplayEngineV1 = {
+  engineCompatVersion: number;
+  replay: (args: {
+    inputs: ReplayInputsV1;
+    appConfig: AppConfig;
+    formatRegistry: FormatRegistry;
+    gameModeRegistry: GameModeRegistry;
+  }) => MatchResultRecordV1;
+};
+
+export type MatchResultUpgraderV1 = {
+  fromCompat: number;
+  toCompat: number;
+  description: string;
+  upgrade: (matchResult: any) => any;
+};
+
+export const PINNED_REPLAY_ENGINES_V1: ReadonlyArray<PinnedReplayEngineV1> = [
+  { engineCompatVersion: 1, replay: replayOnceV1 },
+];
+
+// Compat 1 is current: no upgrade steps yet.
+export const MATCH_RESULT_UPGRADERS_V1: ReadonlyArray<MatchResultUpgraderV1> = [];
+
+export function pinnedReplayEngineV1(
+  engineCompatVersion: number,
+  engines: ReadonlyArray<PinnedReplayEngineV1> = PINNED_REPLAY_ENGINES_V1
+): PinnedReplayEngineV1 | null {
+  return engines.find((e) => e.engineCompatVersion === engineCompatVersion) ?? null;
+}
+
+/** appConfig narrowed to one compat version: resolvers then accept exactly the registry entries that version ran. */
+export function pinnedAppConfigV1(appConfig: AppConfig, engineCompatVersion: number): AppConfig {
+  return { ...appConfig, engineSupportedCompatVersions: [engineCompatVersion] };
+}
+
+/** Replays with the engine pinned to the compat version the artifact was produced under. */
+export function replayPinnedV1(args: {
+  engineCompatVersion: number;
+  inputs: ReplayInputsV1;
+  appConfig: AppConfig;
+  formatRegistry: FormatRegistry;
+  gameModeRegistry: GameModeRegistry;
+  engines?: ReadonlyArray<PinnedReplayEngineV1>;
+}): MatchResultRecordV1 {
+  const engine = pinnedReplayEngineV1(args.engineCompatVersion, args.engines);
+  if (!engine) throw new Error(`ENGINE_COMPAT_NOT_PINNED: compat=${args.engineCompatVersion}`);
+
+  return engine.replay({
+    inputs: args.inputs,
+    appConfig: pinnedAppConfigV1(args.appConfig, args.engineCompatVersion),
+    formatRegistry: args.formatRegistry,
+    gameModeRegistry: args.gameModeRegistry,
+  });
+}
+
+/** Upgrade steps fromCompat -> toCompat, or null if any step is missing. */
+export function upgradePathV1(
+  fromCompat: number,
+  toCompat: number,
+  upgraders: ReadonlyArray<MatchResultUpgraderV1> = MATCH_RESULT_UPGRADERS_V1
+): MatchResultUpgraderV1[] | null {
+  if (fromCompat > toCompat) return null;
+  const path: MatchResultUpgraderV1[] = [];
+  for (let v = fromCompat; v < toCompat; v++) {
+    const step = upgraders.find((u) => u.fromCompat === v && u.toCompat === v + 1);
+    if (!step) return null;
+    path.push(step);
+  }
+  return path;
+}
+
+/** Returns a new matchResult in the toCompat shape (input is not mutated). */
+export function upgradeMatchResultV1(
+  matchResult: MatchResultRecordV1,
+  toCompat: number = ENGINE_CODE_COMPAT_VERSION,
+  upgraders: ReadonlyArray<MatchResultUpgraderV1> = MATCH_RESULT_UPGRADERS_V1
+): MatchResultRecordV1 {
+  const fromCompat = Number(matchResult.engineCompatVersion);
+  const path = upgradePathV1(fromCompat, toCompat, upgraders);
+  if (!path) throw new Error(`ENGINE_COMPAT_NO_UPGRADE_PATH: ${fromCompat} -> ${toCompat}`);
+
+  let out: any = JSON.parse(JSON.stringify(matchResult));
+  for (const step of path) {
+    out = step.upgrade(out);
+    out.engineCompatVersion = step.toCompat;
+  }
+  return out as MatchResultRecordV1;
+}
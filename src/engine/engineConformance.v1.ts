@@ -0,0 +1,101 @@
+// src/engine/engineConformance.v1.ts
+// Conformance as a service: load a BoltOnKitV1 manifest (JSON file), run BoltOnConformanceRunnerV1 against it and
+// report the result with the manifest's identity (kitId, kitVersion, engine, sha256 of the file bytes).
+// Kit paths (engineAdapterModule, engineProcess.cwd) resolve relative to the manifest's directory.
+// activationGateV1: a binding may only go ACTIVE when the latest run for its engineCode@engineVersion is PASS.
+// No Prisma; persistence is engineConformance.gateway.
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  runBoltOnConformanceRunnerV1,
+  toEngineConformanceSuiteResultV1,
+} from "../contracts/gameplay/v1/BoltOnConformanceRunnerV1";
+import { BOLT_ON_KIT_VERSION, type BoltOnConformanceResultV1, type BoltOnKitV1 } from "../contracts/gameplay/v1/BoltOnKitV1";
+import type { EngineConformanceSuiteResultV1 } from "../contracts/gameplay/v1/EngineConformanceKitV1";
+
+export type LoadedKitManifestV1 = {
+  kit: BoltOnKitV1;
+  manifestPath: string; // absolute
+  manifestHash: string; // sha256 hex of the file bytes
+};
+
+export type KitConformanceRunV1 = LoadedKitManifestV1 & {
+  result: BoltOnConformanceResultV1;
+  suiteResult: EngineConformanceSuiteResultV1;
+};
+
+export type ActivationGateV1 =
+  | { ok: true; runId: string }
+  | { ok: false; code: "CONFORMANCE_NOT_RUN" | "CONFORMANCE_NOT_PASSED"; message: string };
+
+function nonEmpty(x: any): boolean {
+  return typeof x === "string" && x.trim().length > 0;
+}
+
+/**
+ * Read + shape-check a kit manifest. `root` (when given) must contain the manifest: the kit's code gets imported or
+ * spawned, so callers fed by HTTP pin manifests to a directory they control.
+ */
+export function readKitManifestV1(manifestPath: string, opts: { root?: string } = {}): LoadedKitManifestV1 {
+  const abs = path.resolve(opts.root ?? process.cwd(), manifestPath);
+  if (opts.root) {
+    const rel = path.relative(path.resolve(opts.root), abs);
+    if (rel.startsWith("..") || path.isAbsolute(rel)) throw new Error(`KIT_MANIFEST_OUTSIDE_ROOT: ${manifestPath}`);
+  }
+  if (!fs.existsSync(abs)) throw new Error(`KIT_MANIFEST_NOT_FOUND: ${manifestPath}`);
+
+  const raw = fs.readFileSync(abs);
+  let kit: any;
+  try {
+    kit = JSON.parse(raw.toString("utf8"));
+  } catch {
+    throw new Error(`KIT_MANIFEST_INVALID_JSON: ${manifestPath}`);
+  }
+
+  const problems: string[] = [];
+  if (kit?.kitVersion !== BOLT_ON_KIT_VERSION) problems.push(`kitVersion must be ${BOLT_ON_KIT_VERSION}`);
+  if (!nonEmpty(kit?.kitId)) problems.push("kitId required");
+  if (!nonEmpty(kit?.engine?.engineCode) || !nonEmpty(kit?.engine?.engineVersion)) problems.push("engine.engineCode/engineVersion required");
+  if (!nonEmpty(kit?.exports?.engineAdapterModule) || !nonEmpty(kit?.exports?.engineAdapterExportName)) {
+    problems.push("exports.engineAdapterModule/engineAdapterExportName required");
+  }
+  const cmd = kit?.exports?.engineProcess?.command;
+  if (kit?.exports?.engineProcess && !(Array.isArray(cmd) && cmd.length > 0 && cmd.every(nonEmpty))) {
+    problems.push("exports.engineProcess.command must be a non-empty string array");
+  }
+  if (problems.length > 0) throw new Error(`KIT_MANIFEST_INVALID: ${manifestPath}: ${problems.join("; ")}`);
+
+  return {
+    kit: kit as BoltOnKitV1,
+    manifestPath: abs,
+    manifestHash: crypto.createHash("sha256").update(raw).digest("hex"),
+  };
+}
+
+export async function runKitConformanceV1(loaded: LoadedKitManifestV1, opts: { seed?: string } = {}): Promise<KitConformanceRunV1> {
+  const result = await runBoltOnConformanceRunnerV1(loaded.kit, {
+    baseDir: path.dirname(loaded.manifestPath),
+    continueOnFail: true,
+    seed: opts.seed,
+  });
+  return { ...loaded, result, suiteResult: toEngineConformanceSuiteResultV1(loaded.kit, result) };
+}
+
+export function activationGateV1(
+  engine: { engineCode: string; engineVersion: string },
+  latestRun: { id: string; status: string; ranAt: string } | null
+): ActivationGateV1 {
+  const who = `${engine.engineCode}@${engine.engineVersion}`;
+  if (!latestRun) return { ok: false, code: "CONFORMANCE_NOT_RUN", message: `No conformance run for ${who}` };
+  if (latestRun.status !== "PASS") {
+    return {
+      ok: false,
+      code: "CONFORMANCE_NOT_PASSED",
+      message: `Latest conformance run for ${who} is ${latestRun.status} (${latestRun.id}, ${latestRun.ranAt})`,
+    };
+  }
+  return { ok: true, runId: latestRun.id };
+}
@@ -0,0 +1,293 @@
+// src/engine/engineRegistry.v1.ts
+// Runtime engine registry: EngineRegistryV1 bindings from config/engineRegistry.default.json, their adapter instances,
+// and the UniverseIntegrationV1 records preflight checks against.
+//
+// Resolution (universeCode + optional modeCode):
+//  - Candidates are the universe's ACTIVE bindings (after status overrides), lowest precedence first, bindingId tie-break.
+//  - With a modeCode, the first candidate whose engine the universe authorizes for that mode wins; if none is
+//    authorized the first candidate is returned anyway so preflight reports the exact violation.
+//  - Without one, the winning binding's defaultModeCode is used (BINDING_MODE_REQUIRED if it has none).
+//
+// runBoundMatchV1: preflight -> validateDeck (per deck) -> createMatch -> runMatch -> produceArtifact, stopping at the
+// first failure. Pure apart from adapter instances (CHILD_PROCESS adapters spawn on first use); no Prisma.
+
+import type { EngineBindingAdapterConfig, EngineRegistryConfig } from "../config/registryLoaders.v1";
+import { BoBAEngineAdapterV1 } from "../contracts/gameplay/v1/BoBAEngineAdapterV1";
+import { BoBAUniverseIntegrationV1 } from "../contracts/gameplay/v1/BoBAUniverseIntegrationV1";
+import { ChildProcessEngineAdapterV1 } from "../contracts/gameplay/v1/ChildProcessEngineAdapterV1";
+import type { EngineAdapterV1, EngineErrorV1 } from "../contracts/gameplay/v1/EngineAdapterV1";
+import {
+  ENGINE_REGISTRY_VERSION,
+  type EngineBindingStatusV1,
+  type EngineBindingV1,
+  type EngineRegistryLookupV1,
+} from "../contracts/gameplay/v1/EngineRegistryV1";
+import { InProcessMockEngineAdapterV1 } from "../contracts/gameplay/v1/InProcessMockEngineAdapterV1";
+import type { IdString, JSONObject, MatchArtifactV1 } from "../contracts/gameplay/v1/MatchArtifactV1";
+import { MockUniverseIntegrationV1 } from "../contracts/gameplay/v1/MockUniverseIntegrationV1";
+import { authorizeEngineForUniverseV1 } from "../contracts/gameplay/v1/UniverseEngineAuthorizationV1";
+import {
+  createUniverseIntegrationRegistryV1,
+  type UniverseIntegrationRegistryV1,
+} from "../contracts/gameplay/v1/UniverseIntegrationRegistryV1";
+import type { UniverseIntegrationV1 } from "../contracts/gameplay/v1/UniverseIntegrationV1";
+import {
+  runUniverseMatchPreflightV1,
+  type UniverseMatchPreflightDecisionV1,
+} from "../contracts/gameplay/v1/UniverseMatchPreflightV1";
+
+/** Universe integrations config may reference, by integrationId. */
+export const KNOWN_UNIVERSE_INTEGRATIONS_V1: Readonly<Record<string, UniverseIntegrationV1>> = {
+  [BoBAUniverseIntegrationV1.integrationId]: BoBAUniverseIntegrationV1,
+  [MockUniverseIntegrationV1.integrationId]: MockUniverseIntegrationV1,
+};
+
+/** IN_PROCESS adapters config may reference, by adapterId. */
+export const IN_PROCESS_ENGINE_ADAPTERS_V1: Readonly<Record<string, () => EngineAdapterV1>> = {
+  BoBAEngineAdapterV1: () => new BoBAEngineAdapterV1(),
+  InProcessMockEngineAdapterV1: () => new InProcessMockEngineAdapterV1(),
+};
+
+export type RuntimeEngineBindingV1 = EngineBindingV1 & { adapter: EngineBindingAdapterConfig };
+
+/** bindingId -> status (EngineBindingState rows); wins over the config status. */
+export type EngineBindingStatusOverridesV1 = Record<string, EngineBindingStatusV1>;
+
+export type EngineRegistryRuntimeV1 = {
+  /** Bindings as configured (config status). */
+  bindings: ReadonlyArray<RuntimeEngineBindingV1>;
+  universes: UniverseIntegrationRegistryV1;
+  /** EngineRegistryLookupV1 view with status overrides applied. */
+  lookup(overrides?: EngineBindingStatusOverridesV1): EngineRegistryLookupV1 & {
+    resolveForMode(universeCode: string, modeCode?: string | null): Promise<ResolvedEngineBindingV1>;
+  };
+  adapterFor(bindingId: string): EngineAdapterV1;
+  /** Stop CHILD_PROCESS engines (they restart on next use). */
+  close(): void;
+};
+
+export type ResolvedEngineBindingV1 =
+  | { ok: true; binding: RuntimeEngineBindingV1; modeCode: string }
+  | { ok: false; code: "BINDING_NOT_FOUND" | "BINDING_MODE_REQUIRED"; message: string };
+
+export function effectiveBindingsV1(
+  bindings: ReadonlyArray<RuntimeEngineBindingV1>,
+  overrides: EngineBindingStatusOverridesV1 = {}
+): RuntimeEngineBindingV1[] {
+  return bindings.map((b) => (overrides[b.bindingId] ? { ...b, status: overrides[b.bindingId] } : { ...b }));
+}
+
+function byPrecedence(a: RuntimeEngineBindingV1, b: RuntimeEngineBindingV1): number {
+  const pa = a.precedence ?? Number.MAX_SAFE_INTEGER;
+  const pb = b.precedence ?? Number.MAX_SAFE_INTEGER;
+  if (pa !== pb) return pa - pb;
+  return a.bindingId < b.bindingId ? -1 : a.bindingId > b.bindingId ? 1 : 0;
+}
+
+export function resolveBindingForModeV1(args: {
+  bindings: ReadonlyArray<RuntimeEngineBindingV1>;
+  universes: UniverseIntegrationRegistryV1;
+  universeCode: string;
+  modeCode?: string | null;
+}): ResolvedEngineBindingV1 {
+  const active = args.bindings.filter((b) => b.universeCode === args.universeCode && b.status === "ACTIVE").sort(byPrecedence);
+  if (active.length === 0) {
+    return { ok: false, code: "BINDING_NOT_FOUND", message: `No ACTIVE engine binding for universe ${args.universeCode}` };
+  }
+
+  const modeCode = args.modeCode || null;
+  if (!modeCode) {
+    const binding = active[0];
+    if (!binding.defaultModeCode) {
+      return { ok: false, code: "BINDING_MODE_REQUIRED", message: `Binding ${binding.bindingId} has no defaultModeCode` };
+    }
+    return { ok: true, binding, modeCode: binding.defaultModeCode };
+  }
+
+  const integration = args.universes.get(args.universeCode);
+  const authorized = active.find(
+    (b) =>
+      authorizeEngineForUniverseV1({
+        integration,
+        universeCode: args.universeCode,
+        engineCode: b.engineCode,
+        engineVersion: b.engineVersion,
+        modeCode,
+      }).ok
+  );
+  return { ok: true, binding: authorized ?? active[0], modeCode };
+}
+
+export function createEngineRegistryV1(config: EngineRegistryConfig, opts: { baseDir?: string } = {}): EngineRegistryRuntimeV1 {
+  const integrations = config.universeIntegrationIds.map((id) => {
+    const integration = KNOWN_UNIVERSE_INTEGRATIONS_V1[id];
+    if (!integration) throw new Error(`CONFIG_UNKNOWN_UNIVERSE_INTEGRATION: ${id}`);
+    return integration;
+  });
+  const universes = createUniverseIntegrationRegistryV1(integrations);
+
+  const bindings: RuntimeEngineBindingV1[] = config.bindings.map((b) => {
+    if (!universes.get(b.universeCode)) {
+      throw new Error(`CONFIG_BINDING_UNIVERSE_NOT_LOADED: ${b.bindingId} -> ${b.universeCode}`);
+    }
+    if (b.adapter.kind === "IN_PROCESS" && !IN_PROCESS_ENGINE_ADAPTERS_V1[b.adapter.adapterId]) {
+      throw new Error(`CONFIG_UNKNOWN_ENGINE_ADAPTER: ${b.bindingId} -> ${b.adapter.adapterId}`);
+    }
+    return { ...b, bindingId: b.bindingId as IdString, meta: b.meta as JSONObject | undefined };
+  });
+
+  const adapters = new Map<string, EngineAdapterV1>();
+  const baseDir = opts.baseDir ?? process.cwd();
+
+  const adapterFor = (bindingId: string): EngineAdapterV1 => {
+    const existing = adapters.get(bindingId);
+    if (existing) return existing;
+
+    const binding = bindings.find((b) => b.bindingId === bindingId);
+    if (!binding) throw new Error(`ENGINE_BINDING_NOT_FOUND: ${bindingId}`);
+
+    const cfg = binding.adapter;
+    const adapter =
+      cfg.kind === "IN_PROCESS"
+        ? IN_PROCESS_ENGINE_ADAPTERS_V1[cfg.adapterId]()
+        : new ChildProcessEngineAdapterV1({
+            command: cfg.command,
+            cwd: cfg.cwd ?? baseDir,
+            env: cfg.env,
+            callTimeoutMs: cfg.callTimeoutMs,
+            expect: { engineCode: binding.engineCode, engineVersion: binding.engineVersion },
+          });
+    adapters.set(bindingId, adapter);
+    return adapter;
+  };
+
+  return {
+    bindings,
+    universes,
+    lookup(overrides = {}) {
+      const effective = effectiveBindingsV1(bindings, overrides);
+      return {
+        async listBindingsByUniverse(universeCode: string) {
+          return {
+            registryVersion: ENGINE_REGISTRY_VERSION,
+            universeCode,
+            bindings: effective.filter((b) => b.universeCode === universeCode).sort(byPrecedence),
+          };
+        },
+        async resolveDefaultBinding(universeCode: string) {
+          const r = resolveBindingForModeV1({ bindings: effective, universes, universeCode });
+          return r.ok ? r.binding : null;
+        },
+        async getBindingById(bindingId: IdString) {
+          return effective.find((b) => b.bindingId === bindingId) ?? null;
+        },
+        async resolveForMode(universeCode: string, modeCode?: string | null) {
+          return resolveBindingForModeV1({ bindings: effective, universes, universeCode, modeCode });
+        },
+      };
+    },
+    adapterFor,
+    close() {
+      for (const a of adapters.values()) {
+        if (a instanceof ChildProcessEngineAdapterV1) a.close();
+      }
+    },
+  };
+}
+
+export type BoundMatchStepV1 = "validateDeck" | "createMatch" | "runMatch" | "produceArtifact";
+
+export type BoundMatchOutcomeV1 =
+  | { ok: true; preflight: UniverseMatchPreflightDecisionV1; artifact: MatchArtifactV1 }
+  | { ok: false; stage: "PREFLIGHT"; preflight: UniverseMatchPreflightDecisionV1 }
+  | {
+      ok: false;
+      stage: "ENGINE";
+      step: BoundMatchStepV1;
+      preflight: UniverseMatchPreflightDecisionV1;
+      errors: EngineErrorV1[];
+    };
+
+/** Run one match through a resolved binding. Adapter exceptions become ENGINE errors (code ENGINE_THREW). */
+export async function runBoundMatchV1(args: {
+  universes: UniverseIntegrationRegistryV1;
+  binding: RuntimeEngineBindingV1;
+  adapter: EngineAdapterV1;
+  modeCode: string;
+  deckTags: string[];
+  decks: Array<{ deckId: string; cardVersionKeys: string[] }>;
+  matchId: string;
+  seed: string;
+  participants: Array<{ participantId: IdString; extra?: JSONObject }>;
+  inputs: JSONObject;
+}): Promise<BoundMatchOutcomeV1> {
+  const { binding, adapter, modeCode } = args;
+  const route = {
+    universeCode: binding.universeCode,
+    engineCode: binding.engineCode,
+    engineVersion: binding.engineVersion,
+    modeCode,
+  };
+
+  const preflight = runUniverseMatchPreflightV1({ registry: args.universes, ...route, deckTags: args.deckTags });
+  if (!preflight.ok) return { ok: false, stage: "PREFLIGHT", preflight };
+
+  const engineFail = (step: BoundMatchStepV1, errors: EngineErrorV1[] | undefined): BoundMatchOutcomeV1 => ({
+    ok: false,
+    stage: "ENGINE",
+    step,
+    preflight,
+    errors: errors && errors.length > 0 ? errors : [{ code: "ENGINE_FAILED", message: `${step} returned ok:false` }],
+  });
+
+  let step: BoundMatchStepV1 = "validateDeck";
+  try {
+    for (const deck of args.decks) {
+      const v = await adapter.validateDeck({ ...route, deckId: deck.deckId as IdString, cardVersionKeys: deck.cardVersionKeys });
+      if (!v.ok) return engineFail(step, v.errors);
+    }
+
+    step = "createMatch";
+    const created = await adapter.createMatch({
+      ...route,
+      matchId: args.matchId as IdString,
+      participants: args.participants,
+      seed: args.seed,
+      inputs: args.inputs,
+    });
+    if (!created.ok) return engineFail(step, created.errors);
+
+    step = "runMatch";
+    const ran = await adapter.runMatch({
+      ...route,
+      matchId: args.matchId as IdString,
+      seed: args.seed,
+      state: created.state ?? null,
+      inputs: args.inputs,
+    });
+    if (!ran.ok) return engineFail(step, ran.errors);
+
+    step = "produceArtifact";
+    const artifact = await adapter.produceArtifact({
+      ...route,
+      matchId: args.matchId as IdString,
+      seed: args.seed,
+      participants: args.participants,
+      inputs: args.inputs,
+      outputs: ran.outputs ?? {},
+    });
+
+    const h = artifact?.header;
+    if (!h || h.engineCode !== binding.engineCode || h.engineVersion !== binding.engineVersion) {
+      return engineFail(step, [
+        {
+          code: "ENGINE_IDENTITY_MISMATCH",
+          message: `artifact declares ${h?.engineCode}@${h?.engineVersion}, binding is ${binding.engineCode}@${binding.engineVersion}`,
+        },
+      ]);
+    }
+    return { ok: true, preflight, artifact };
+  } catch (e: any) {
+    return engineFail(step, [{ code: "ENGINE_THREW", message: String(e?.message ?? e) }]);
+  }
+}
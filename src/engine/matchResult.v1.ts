@@ -35,8 +35,34 @@ export type MatchResultRecordV1 = {
     totalBattles: number;
     finalCoinCount?: { home: number; away: number };
   };
+
+  // Set when the result comes from a live Game's matchEnd (ROOKIE_END, SUBSTITUTION_END, chip target, forfeit):
+  // result.winner/winReason are what the players reached, the rest comes from the engine run.
+  liveEnd?: LiveMatchEndV1;
+};
+
+export type LiveMatchEndV1 = {
+  winner: "HOME" | "AWAY" | "DRAW";
+  winReason: WinReasonV1;
+  winnerSeat: number | null;
 };
 
+/** Outcome a live Game's matchEnd settled (seat 1 = HOME, seat 2 = AWAY, no winner = DRAW); null without one. */
+export function liveEndFromMatchEndV1(matchEnd: unknown): LiveMatchEndV1 | null {
+  const end = ensureObj(matchEnd);
+  const reason = typeof end.reason === "string" ? end.reason : "";
+  if (!reason) return null;
+  const winnerSeat = typeof end.winnerSeat === "number" ? end.winnerSeat : null;
+  const winner = winnerSeat === 1 ? "HOME" : winnerSeat === 2 ? "AWAY" : "DRAW";
+  return { winner, winReason: reason, winnerSeat };
+}
+
+/** Record with the live end applied over the engine outcome; used when storing and again on every replay compare. */
+export function applyLiveEndV1(record: MatchResultRecordV1, liveEnd: LiveMatchEndV1 | null | undefined): MatchResultRecordV1 {
+  if (!liveEnd) return record;
+  return { ...record, result: { ...record.result, winner: liveEnd.winner, winReason: liveEnd.winReason }, liveEnd };
+}
+
 function ensureObj(v: any): Record<string, any> {
   return v && typeof v === "object" && !Array.isArray(v) ? (v as any) : {};
 }
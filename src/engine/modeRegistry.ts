@@ -0,0 +1,76 @@
+// src/engine/modeRegistry.ts
+// Mode overlay plugin registry. reduce(), MatchStateEngine and games.routes dispatch through here;
+// adding a mode = one module under ./modes + one registration line.
+
+import type {
+  MatchState,
+  ModeActionContext,
+  ModeActionError,
+  ModeInitArgs,
+  ModePlugin,
+} from "./types";
+import { rookieModePlugin } from "./modes/rookie";
+import { substitutionModePlugin } from "./modes/substitution";
+import { playmakerModePlugin } from "./modes/playmaker";
+
+const PLUGINS = new Map<string, ModePlugin>();
+
+export function registerModePlugin(plugin: ModePlugin): void {
+  const code = String(plugin.modeCode ?? "").toUpperCase();
+  if (!code) throw new Error("MODE_PLUGIN_INVALID: modeCode required");
+  if (PLUGINS.has(code)) throw new Error(`MODE_PLUGIN_DUPLICATE: ${code}`);
+  PLUGINS.set(code, plugin);
+}
+
+export function getModePlugin(modeCode: unknown): ModePlugin | null {
+  if (typeof modeCode !== "string" || !modeCode) return null;
+  return PLUGINS.get(modeCode.toUpperCase()) ?? null;
+}
+
+export function listModeCodes(): string[] {
+  return Array.from(PLUGINS.keys()).sort();
+}
+
+/**
+ * Ensures the plugin's overlay slice exists on state (mutates).
+ * Missing fields are default-filled so older persisted slices keep working.
+ */
+export function ensureModeSlice(plugin: ModePlugin, state: MatchState, args: ModeInitArgs): Record<string, unknown> {
+  const s = state as unknown as Record<string, unknown>;
+  const existing = s[plugin.stateKey];
+  const current = existing && typeof existing === "object" ? (existing as Record<string, unknown>) : {};
+  s[plugin.stateKey] = { ...plugin.initialState(args), ...current };
+  return s[plugin.stateKey] as Record<string, unknown>;
+}
+
+/**
+ * Validates then applies one overlay action on state (mutates).
+ * Returns the validator's rejection (state untouched) or null on success.
+ * Sets state.matchEnd once the plugin's end detector fires.
+ */
+export function runModeAction(
+  plugin: ModePlugin,
+  state: MatchState,
+  type: string,
+  payload: unknown,
+  ctx: ModeActionContext,
+  initArgs?: Pick<ModeInitArgs, "format">
+): ModeActionError | null {
+  const handler = plugin.actions[type];
+  if (!handler) return { error: "action_unknown", modeCode: plugin.modeCode, type };
+
+  ensureModeSlice(plugin, state, { seats: ctx.seats, ...(initArgs ?? {}) });
+
+  const rejected = handler.validate ? handler.validate(state, payload ?? {}, ctx) : null;
+  if (rejected) return rejected;
+
+  handler.apply(state, payload ?? {}, ctx);
+
+  const end = plugin.detectEnd(state);
+  if (end) state.matchEnd = end;
+  return null;
+}
+
+registerModePlugin(rookieModePlugin);
+registerModePlugin(substitutionModePlugin);
+registerModePlugin(playmakerModePlugin);
@@ -0,0 +1,209 @@
+// src/engine/modes/playmaker.ts
+// PLAYMAKER overlay plugin: heroes are committed per battle, PLAY cards resolve power effects
+// against them, and battle winners collect chips up to the format's coin target.
+// No wall clock, no randomness, no DB (card facts arrive pre-resolved in the action payload).
+
+import type { MatchState, ModePlugin, PlaymakerState, Seat } from "../types";
+
+export const PLAYMAKER_CHIP_TARGET = 4;
+export const PLAYMAKER_MAX_PLAYS_PER_BATTLE = 2;
+
+export type PlaymakerEffectKind = "POWER_BOOST" | "POWER_DRAIN";
+
+export type PlaymakerEffect = {
+  kind: PlaymakerEffectKind;
+  amount: number;
+};
+
+export type PlaymakerBattleRecord = {
+  battleIndex: number;
+  heroes: Record<string, { versionKey: string; power: number }>;
+  plays: Record<string, Array<{ versionKey: string; effect: PlaymakerEffect }>>;
+  powerFinal: Record<string, number>;
+  winnerSeat: Seat | null;
+};
+
+function pmOf(state: MatchState): PlaymakerState {
+  return state.playmaker as PlaymakerState;
+}
+
+export function makePlaymakerState(chipTarget?: number): PlaymakerState {
+  return {
+    phase: "SETUP",
+    battleIndex: 1,
+    chipTarget: typeof chipTarget === "number" && chipTarget > 0 ? chipTarget : PLAYMAKER_CHIP_TARGET,
+    chips: {},
+    heroes: {},
+    plays: {},
+    playsUsed: {},
+    battles: [],
+  };
+}
+
+/**
+ * Normalizes a PLAY card effect as stored on CardVersion.attributes.effect.
+ * Returns null when the shape is not a known effect (caller decides how to reject).
+ */
+export function normalizePlaymakerEffect(raw: unknown): PlaymakerEffect | null {
+  const e = raw && typeof raw === "object" ? (raw as any) : null;
+  if (!e) return null;
+
+  const kind = String(e.kind ?? "").toUpperCase();
+  if (kind !== "POWER_BOOST" && kind !== "POWER_DRAIN") return null;
+
+  const amount = Number(e.amount);
+  if (!Number.isInteger(amount) || amount < 0) return null;
+
+  return { kind, amount };
+}
+
+/**
+ * Resolves the current battle: hero power + own boosts - opponent drains (floored at 0).
+ * Higher final power wins one chip; equal power awards nothing. Mutates and returns the slice.
+ */
+export function resolvePlaymakerBattle(pm: PlaymakerState, seats: Seat[]): PlaymakerState {
+  const heroes = pm.heroes as PlaymakerBattleRecord["heroes"];
+  const plays = pm.plays as PlaymakerBattleRecord["plays"];
+
+  const powerFinal: Record<string, number> = {};
+  for (const seat of seats) {
+    const key = String(seat);
+    let power = Number(heroes[key]?.power ?? 0);
+
+    for (const p of plays[key] ?? []) {
+      if (p.effect.kind === "POWER_BOOST") power += p.effect.amount;
+    }
+    for (const other of seats) {
+      if (other === seat) continue;
+      for (const p of plays[String(other)] ?? []) {
+        if (p.effect.kind === "POWER_DRAIN") power -= p.effect.amount;
+      }
+    }
+
+    powerFinal[key] = Math.max(0, power);
+  }
+
+  const best = Math.max(...seats.map((s) => powerFinal[String(s)] ?? 0));
+  const top = seats.filter((s) => (powerFinal[String(s)] ?? 0) === best);
+  const winnerSeat = top.length === 1 ? top[0] : null;
+
+  if (winnerSeat !== null) {
+    pm.chips[String(winnerSeat)] = (pm.chips[String(winnerSeat)] ?? 0) + 1;
+  }
+
+  const record: PlaymakerBattleRecord = {
+    battleIndex: pm.battleIndex,
+    heroes: JSON.parse(JSON.stringify(heroes)),
+    plays: JSON.parse(JSON.stringify(plays)),
+    powerFinal,
+    winnerSeat,
+  };
+  pm.battles.push(record);
+
+  pm.heroes = {};
+  pm.plays = {};
+  pm.battleIndex += 1;
+
+  if (winnerSeat !== null && pm.chips[String(winnerSeat)] >= pm.chipTarget) {
+    pm.phase = "ENDED";
+    pm.results = { winnerSeat, reason: "CHIP_TARGET", chips: { ...pm.chips } };
+  }
+
+  return pm;
+}
+
+export const playmakerModePlugin: ModePlugin = {
+  modeCode: "PLAYMAKER",
+  stateKey: "playmaker",
+  turnTimer: { turnSeconds: 90, onExpire: "END_TURN", forfeitAfterTimeouts: 2 },
+
+  initialState: (args) => makePlaymakerState(args.format?.winConditionCoinTarget),
+
+  onStart: (state) => {
+    pmOf(state).phase = "SETUP";
+  },
+
+  actions: {
+    PLAYMAKER_COMMIT_HERO: {
+      validate: (state, payload, ctx) => {
+        const pm = pmOf(state);
+        if (pm.phase === "ENDED") return { error: "playmaker_hero_invalid", reason: "phase", phase: pm.phase };
+        if (!Number.isInteger(payload?.seat) || !ctx.seats.includes(payload.seat))
+          return { error: "playmaker_hero_invalid", reason: "seat" };
+        if (typeof payload.versionKey !== "string" || !Number.isFinite(Number(payload.power)))
+          return { error: "playmaker_hero_invalid", reason: "hero" };
+        if (pm.heroes[String(payload.seat)] !== undefined)
+          return { error: "playmaker_hero_invalid", reason: "already_committed" };
+        return null;
+      },
+      apply: (state, payload) => {
+        const pm = pmOf(state);
+        pm.heroes[String(payload.seat)] = { versionKey: payload.versionKey, power: Number(payload.power) };
+        if (pm.phase === "SETUP") pm.phase = "MATCH";
+      },
+    },
+
+    PLAYMAKER_PLAY: {
+      validate: (state, payload, ctx) => {
+        const pm = pmOf(state);
+        if (pm.phase !== "MATCH") return { error: "playmaker_play_invalid", reason: "phase", phase: pm.phase };
+        if (!Number.isInteger(payload?.seat) || !ctx.seats.includes(payload.seat))
+          return { error: "playmaker_play_invalid", reason: "seat" };
+        if (typeof payload.versionKey !== "string" || !normalizePlaymakerEffect(payload.effect))
+          return { error: "playmaker_play_invalid", reason: "effect" };
+
+        // Plays resolve against a committed hero only (post-reveal play window).
+        if (pm.heroes[String(payload.seat)] === undefined)
+          return { error: "playmaker_play_invalid", reason: "no_hero_committed" };
+        if ((pm.plays[String(payload.seat)] ?? []).length >= PLAYMAKER_MAX_PLAYS_PER_BATTLE)
+          return { error: "playmaker_play_invalid", reason: "max_plays", maxPlays: PLAYMAKER_MAX_PLAYS_PER_BATTLE };
+        return null;
+      },
+      apply: (state, payload) => {
+        const pm = pmOf(state);
+        const seat = String(payload.seat);
+        const versionKey: string = payload.versionKey;
+
+        pm.plays[seat] = [...(pm.plays[seat] ?? []), { versionKey, effect: normalizePlaymakerEffect(payload.effect) }];
+        pm.playsUsed[seat] = pm.playsUsed[seat] ?? {};
+        pm.playsUsed[seat][versionKey] = (pm.playsUsed[seat][versionKey] ?? 0) + 1;
+      },
+    },
+
+    PLAYMAKER_RESOLVE_BATTLE: {
+      validate: (state, _payload, ctx) => {
+        const pm = pmOf(state);
+        if (pm.phase !== "MATCH") return { error: "playmaker_resolve_invalid", reason: "phase", phase: pm.phase };
+        const missing = ctx.seats.filter((s) => pm.heroes[String(s)] === undefined);
+        if (ctx.seats.length === 0 || missing.length > 0)
+          return { error: "playmaker_resolve_invalid", reason: "heroes_missing", seats: missing };
+        return null;
+      },
+      apply: (state, _payload, ctx) => {
+        resolvePlaymakerBattle(pmOf(state), ctx.seats);
+      },
+    },
+
+    PLAYMAKER_END: {
+      validate: (state, payload, ctx) => {
+        const pm = pmOf(state);
+        if (pm.phase === "ENDED") return { error: "playmaker_end_invalid", reason: "phase", phase: pm.phase };
+        const winnerSeat = Number(payload?.winnerSeat);
+        if (!Number.isInteger(winnerSeat) || !ctx.seats.includes(winnerSeat)) return { error: "playmaker_end_invalid" };
+        return null;
+      },
+      apply: (state, payload) => {
+        const pm = pmOf(state);
+        pm.results = { winnerSeat: Number(payload.winnerSeat), reason: "MANUAL" };
+        pm.phase = "ENDED";
+      },
+    },
+  },
+
+  detectEnd: (state) => {
+    const pm = state.playmaker;
+    if (!pm || pm.phase !== "ENDED") return null;
+    const r = (pm.results ?? {}) as any;
+    return { winnerSeat: Number.isInteger(r.winnerSeat) ? r.winnerSeat : null, reason: String(r.reason ?? "PLAYMAKER_END") };
+  },
+};
@@ -0,0 +1,205 @@
+// src/engine/modes/rookie.ts
+// ROOKIE overlay plugin: placements/reveals, scored match resolve, overtime, and the scored-session
+// ROOKIE_SCORE / ROOKIE_END actions used by games.routes.
+
+import type { MatchState, ModeActionContext, ModePlugin, RookieState, Seat, Viewer } from "../types";
+
+/** Stand-in for a placement the viewer may not see (the zone is known to be occupied). */
+export const ROOKIE_REDACTED_PLACEMENT = Object.freeze({ redacted: true });
+
+function isSeatPair12(seats: Seat[]): boolean {
+  if (seats.length !== 2) return false;
+  const s = [...seats].sort((a, b) => a - b);
+  return s[0] === 1 && s[1] === 2;
+}
+
+function rookieOf(state: MatchState): RookieState {
+  return state.rookie as RookieState;
+}
+
+function hasZoneIndex(payload: any): boolean {
+  return payload?.zoneIndex !== undefined && payload?.zoneIndex !== null && String(payload.zoneIndex) !== "";
+}
+
+// A seat always sees its own placements; everything else only once the zone is revealed.
+function canSeePlacement(state: MatchState, viewer: Viewer, seat: string, zoneIndex: string): boolean {
+  if (viewer.kind === "SEAT" && String(viewer.seat) === seat) return true;
+  return state.rookie?.revealedZones?.[zoneIndex] === true;
+}
+
+export function validateRookieScoreAttempt(
+  state: MatchState,
+  ctx: ModeActionContext
+): null | {
+  error: "rookie_score_invalid";
+  phaseInvalid?: { required: string[]; actual: string };
+  seatInvalid?: { required: number[]; actual: number[] };
+} {
+  if (state.modeCode !== "ROOKIE") return { error: "rookie_score_invalid" };
+
+  const r = state.rookie;
+  if (!r) return { error: "rookie_score_invalid" };
+
+  const requiredPhases = ["MATCH", "ENDED"];
+  if (!requiredPhases.includes(r.phase)) {
+    return {
+      error: "rookie_score_invalid",
+      phaseInvalid: { required: requiredPhases, actual: r.phase },
+    };
+  }
+
+  if (!isSeatPair12(ctx.seats)) {
+    return {
+      error: "rookie_score_invalid",
+      seatInvalid: { required: [1, 2], actual: ctx.seats },
+    };
+  }
+
+  return null;
+}
+
+export const rookieModePlugin: ModePlugin = {
+  modeCode: "ROOKIE",
+  stateKey: "rookie",
+  turnTimer: { turnSeconds: 120, onExpire: "END_TURN", forfeitAfterTimeouts: 3 },
+
+  initialState: () => ({
+    phase: "SETUP",
+    placements: {},
+    lastPlaceAt: {},
+    revealedZones: {},
+    score: 0,
+    end: null,
+    rewardEligible: false,
+    rewardPaidAt: null,
+  }),
+
+  onStart: (state) => {
+    rookieOf(state).phase = "SETUP"; // structure-only seed
+  },
+
+  actions: {
+    ROOKIE_PLACE: {
+      validate: (_state, payload, ctx) => {
+        if (typeof payload?.seat !== "number" || !ctx.seats.includes(payload.seat))
+          return { error: "rookie_place_invalid", reason: "seat" };
+        if (!hasZoneIndex(payload)) return { error: "rookie_place_invalid", reason: "zoneIndex" };
+        return null;
+      },
+      apply: (state, payload) => {
+        const r = rookieOf(state);
+        const seat = String(payload.seat);
+        const zoneIndex = String(payload.zoneIndex);
+
+        r.placements[seat] = r.placements[seat] ?? {};
+        r.placements[seat][zoneIndex] = payload.placement;
+
+        r.lastPlaceAt[seat] = r.lastPlaceAt[seat] ?? {};
+        r.lastPlaceAt[seat][zoneIndex] = payload.at ?? new Date(0).toISOString();
+
+        // phase can move forward but stays deterministic and permissive
+        if (r.phase === "SETUP") r.phase = "MATCH";
+      },
+    },
+
+    ROOKIE_REVEAL: {
+      validate: (_state, payload) => (hasZoneIndex(payload) ? null : { error: "rookie_reveal_invalid" }),
+      apply: (state, payload) => {
+        rookieOf(state).revealedZones[String(payload.zoneIndex)] = true;
+      },
+    },
+
+    ROOKIE_HIDE: {
+      validate: (_state, payload) => (hasZoneIndex(payload) ? null : { error: "rookie_hide_invalid" }),
+      apply: (state, payload) => {
+        rookieOf(state).revealedZones[String(payload.zoneIndex)] = false;
+      },
+    },
+
+    ROOKIE_RESOLVE_MATCH: {
+      validate: (state, _payload, ctx) => validateRookieScoreAttempt(state, ctx),
+      apply: (state, payload) => {
+        const r = rookieOf(state);
+        r.results = payload ?? null;
+        r.phase = "ENDED";
+      },
+    },
+
+    ROOKIE_SCORE_MATCH: {
+      validate: (state, _payload, ctx) => validateRookieScoreAttempt(state, ctx),
+      apply: (state, payload) => {
+        const r = rookieOf(state);
+        r.results = payload ?? null;
+        r.phase = "ENDED";
+      },
+    },
+
+    ROOKIE_OVERTIME_DRAW: {
+      apply: (state, payload) => {
+        const r = rookieOf(state);
+        r.overtime = { ...((r.overtime as object) ?? {}), draw: payload ?? true };
+      },
+    },
+
+    ROOKIE_OVERTIME_REVEAL: {
+      apply: (state, payload) => {
+        const r = rookieOf(state);
+        r.overtime = { ...((r.overtime as object) ?? {}), reveal: payload ?? true };
+      },
+    },
+
+    ROOKIE_RESET_OVERTIME: {
+      apply: (state) => {
+        rookieOf(state).overtime = undefined;
+      },
+    },
+
+    ROOKIE_SCORE: {
+      validate: (_state, payload) => (Number.isFinite(Number(payload?.score)) ? null : { error: "rookie_score_invalid" }),
+      apply: (state, payload) => {
+        rookieOf(state).score = Number(payload.score);
+      },
+    },
+
+    ROOKIE_END: {
+      validate: (_state, payload, ctx) => {
+        const winnerSeat = Number(payload?.winnerSeat);
+        return Number.isInteger(winnerSeat) && ctx.seats.includes(winnerSeat) ? null : { error: "rookie_end_invalid" };
+      },
+      apply: (state, payload) => {
+        const r = rookieOf(state);
+        r.end = { winnerSeat: Number(payload.winnerSeat) };
+        r.phase = "COMPLETE";
+        r.rewardEligible = true;
+      },
+    },
+  },
+
+  views: {
+    redactState: (state, viewer) => {
+      const r = state.rookie;
+      if (!r) return;
+      for (const [seat, zones] of Object.entries(r.placements ?? {})) {
+        for (const zoneIndex of Object.keys(zones ?? {})) {
+          if (!canSeePlacement(state, viewer, seat, zoneIndex)) zones[zoneIndex] = { ...ROOKIE_REDACTED_PLACEMENT };
+        }
+      }
+    },
+    redactEvent: (event, state, viewer) => {
+      if (event.type !== "ROOKIE_PLACE") return event;
+      const p: any = event.payload ?? {};
+      if (canSeePlacement(state, viewer, String(p.seat), String(p.zoneIndex))) return event;
+      return { ...event, payload: { ...p, placement: { ...ROOKIE_REDACTED_PLACEMENT } } };
+    },
+  },
+
+  detectEnd: (state) => {
+    const r = state.rookie;
+    if (!r) return null;
+
+    // Scoring (phase ENDED) may be redone; only ROOKIE_END closes the match and makes the reward claimable.
+    if (r.phase === "COMPLETE" && r.end) return { winnerSeat: r.end.winnerSeat, reason: "ROOKIE_END" };
+
+    return null;
+  },
+};
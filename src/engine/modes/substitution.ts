@@ -0,0 +1,120 @@
+// src/engine/modes/substitution.ts
+// SUBSTITUTION overlay plugin: each seat fields a lineup + bench, then swaps bench cards in
+// (active seat only, capped per seat) until the match is ended.
+
+import type { MatchState, ModePlugin, SubstitutionState } from "../types";
+
+export const SUBSTITUTION_MAX_SUBS = 3;
+
+function subOf(state: MatchState): SubstitutionState {
+  return state.substitution as SubstitutionState;
+}
+
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+export const substitutionModePlugin: ModePlugin = {
+  modeCode: "SUBSTITUTION",
+  stateKey: "substitution",
+  turnTimer: { turnSeconds: 120, onExpire: "END_TURN", forfeitAfterTimeouts: 3 },
+
+  initialState: () => ({
+    phase: "SETUP",
+    lineups: {},
+    bench: {},
+    subsUsed: {},
+    maxSubs: SUBSTITUTION_MAX_SUBS,
+    end: null,
+  }),
+
+  onStart: (state) => {
+    subOf(state).phase = "SETUP";
+  },
+
+  actions: {
+    SUBSTITUTION_SET_LINEUP: {
+      validate: (state, payload, ctx) => {
+        const sub = subOf(state);
+        if (sub.phase !== "SETUP") return { error: "substitution_lineup_invalid", reason: "phase", phase: sub.phase };
+        if (!Number.isInteger(payload?.seat) || !ctx.seats.includes(payload.seat))
+          return { error: "substitution_lineup_invalid", reason: "seat" };
+        if (!isPlainObject(payload.lineup) || Object.keys(payload.lineup).length === 0)
+          return { error: "substitution_lineup_invalid", reason: "lineup" };
+        if (payload.bench !== undefined && !Array.isArray(payload.bench))
+          return { error: "substitution_lineup_invalid", reason: "bench" };
+        return null;
+      },
+      apply: (state, payload, ctx) => {
+        const sub = subOf(state);
+        const seat = String(payload.seat);
+
+        sub.lineups[seat] = { ...payload.lineup };
+        sub.bench[seat] = Array.isArray(payload.bench) ? [...payload.bench] : [];
+        sub.subsUsed[seat] = 0;
+
+        // Match starts once every seat has submitted a lineup.
+        if (ctx.seats.every((s) => sub.lineups[String(s)] !== undefined)) sub.phase = "MATCH";
+      },
+    },
+
+    SUBSTITUTION_SWAP: {
+      validate: (state, payload, ctx) => {
+        const sub = subOf(state);
+        if (sub.phase !== "MATCH") return { error: "substitution_swap_invalid", reason: "phase", phase: sub.phase };
+
+        const seat = payload?.seat;
+        if (!Number.isInteger(seat) || !ctx.seats.includes(seat)) return { error: "substitution_swap_invalid", reason: "seat" };
+        if (ctx.activeSeat !== null && ctx.activeSeat !== seat)
+          return { error: "substitution_swap_invalid", reason: "not_active_seat", activeSeat: ctx.activeSeat };
+
+        const lineup = sub.lineups[String(seat)] ?? {};
+        const bench = sub.bench[String(seat)] ?? [];
+        const zoneIndex = String(payload.zoneIndex ?? "");
+        const benchIndex = Number(payload.benchIndex);
+        if (!zoneIndex || !(zoneIndex in lineup)) return { error: "substitution_swap_invalid", reason: "zoneIndex" };
+        if (!Number.isInteger(benchIndex) || benchIndex < 0 || benchIndex >= bench.length)
+          return { error: "substitution_swap_invalid", reason: "benchIndex" };
+
+        if ((sub.subsUsed[String(seat)] ?? 0) >= sub.maxSubs)
+          return { error: "substitution_swap_invalid", reason: "max_subs", maxSubs: sub.maxSubs };
+        return null;
+      },
+      apply: (state, payload) => {
+        const sub = subOf(state);
+        const seat = String(payload.seat);
+        const zoneIndex = String(payload.zoneIndex);
+        const benchIndex = Number(payload.benchIndex);
+
+        // Swap in place: the outgoing card takes the incoming card's bench slot.
+        const lineup = sub.lineups[seat];
+        const bench = sub.bench[seat];
+        const outgoing = lineup[zoneIndex];
+        lineup[zoneIndex] = bench[benchIndex];
+        bench[benchIndex] = outgoing;
+        sub.subsUsed[seat] = (sub.subsUsed[seat] ?? 0) + 1;
+      },
+    },
+
+    SUBSTITUTION_END: {
+      validate: (state, payload, ctx) => {
+        const sub = subOf(state);
+        if (sub.phase !== "MATCH") return { error: "substitution_end_invalid", reason: "phase", phase: sub.phase };
+        const winnerSeat = Number(payload?.winnerSeat);
+        if (!Number.isInteger(winnerSeat) || !ctx.seats.includes(winnerSeat)) return { error: "substitution_end_invalid" };
+        return null;
+      },
+      apply: (state, payload) => {
+        const sub = subOf(state);
+        sub.end = { winnerSeat: Number(payload.winnerSeat) };
+        sub.phase = "ENDED";
+      },
+    },
+  },
+
+  detectEnd: (state) => {
+    const sub = state.substitution;
+    if (!sub || sub.phase !== "ENDED") return null;
+    return { winnerSeat: sub.end?.winnerSeat ?? null, reason: "SUBSTITUTION_END" };
+  },
+};
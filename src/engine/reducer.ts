@@ -1,12 +1,18 @@
 // src/engine/reducer.ts
 
-import type { GameAction, MatchState, Seat } from "./types";
-
-function isSeatPair12(seats: Seat[]): boolean {
-  if (seats.length !== 2) return false;
-  const s = [...seats].sort((a, b) => a - b);
-  return s[0] === 1 && s[1] === 2;
-}
+import type {
+  GameAction,
+  MatchState,
+  ModeActionContext,
+  ModeInitArgs,
+  Seat,
+  TakebackRequestPayload,
+  TurnTimeoutPayload,
+} from "./types";
+import { ensureModeSlice, getModePlugin, runModeAction } from "./modeRegistry";
+import { applyTurnTimeout, armTurnDeadline, makeTurnTimerState } from "./turnTimer";
+import { applyTakebackRequest, clearTakebackRequest } from "./takeback";
+import { validateRookieScoreAttempt as validateRookieScoreAttemptForSeats } from "./modes/rookie";
 
 function getSeatsFromState(state: MatchState): Seat[] {
   // We keep seats in meta for deterministic validation.
@@ -14,19 +20,14 @@ function getSeatsFromState(state: MatchState): Seat[] {
   return Array.isArray(seats) ? (seats as Seat[]) : [];
 }
 
-function ensureRookie(state: MatchState): Required<Pick<MatchState, "rookie">>["rookie"] {
-  if (!state.rookie) {
-    state.rookie = {
-      phase: "SETUP",
-      placements: {},
-      lastPlaceAt: {},
-      revealedZones: {},
-    };
-  }
-  return state.rookie;
+function contextFromState(state: MatchState): ModeActionContext {
+  return {
+    seats: getSeatsFromState(state),
+    activeSeat: typeof state.activeSeat === "number" ? state.activeSeat : null,
+  };
 }
 
-export function makeInitialState(args: { modeCode: string; seats: Seat[] }): MatchState {
+export function makeInitialState(args: { modeCode: string; seats: Seat[]; format?: ModeInitArgs["format"] }): MatchState {
   const { modeCode, seats } = args;
   const base: MatchState = {
     modeCode,
@@ -36,14 +37,9 @@ export function makeInitialState(args: { modeCode: string; seats: Seat[] }): Mat
     meta: { seats: [...seats].sort((a, b) => a - b) },
   };
 
-  if (modeCode === "ROOKIE") {
-    base.rookie = {
-      phase: "SETUP",
-      placements: {},
-      lastPlaceAt: {},
-      revealedZones: {},
-    };
-  }
+  const plugin = getModePlugin(modeCode);
+  if (plugin) ensureModeSlice(plugin, base, { seats: getSeatsFromState(base), format: args.format });
+  if (plugin?.turnTimer) base.timer = makeTurnTimerState(plugin.turnTimer);
 
   return base;
 }
@@ -54,15 +50,18 @@ export function reduce(stateIn: MatchState, action: GameAction): MatchState {
 
   if (!action?.type || typeof action.type !== "string") return state;
 
+  const plugin = getModePlugin(state.modeCode);
+
   switch (action.type) {
     case "START": {
       if (state.status !== "LOBBY") return state;
       state.status = "ACTIVE";
       // Contract note: echo modeCode in state already present.
-      if (state.modeCode === "ROOKIE") {
-        const r = ensureRookie(state);
-        r.phase = "SETUP"; // structure-only seed
+      if (plugin) {
+        ensureModeSlice(plugin, state, { seats: getSeatsFromState(state) });
+        plugin.onStart?.(state);
       }
+      if (action.at) armTurnDeadline(state, action.at);
       return state;
     }
 
@@ -76,131 +75,54 @@ export function reduce(stateIn: MatchState, action: GameAction): MatchState {
       const idx = seats.indexOf(state.activeSeat ?? seats[0]);
       const next = idx < 0 ? seats[0] : seats[(idx + 1) % seats.length];
       state.activeSeat = next;
+      if (action.at) armTurnDeadline(state, action.at);
 
       return state;
     }
 
-    // --- Rookie overlay actions (overlay-only) ---
-    case "ROOKIE_PLACE": {
-      if (state.modeCode !== "ROOKIE") return state;
-      if (state.status !== "ACTIVE") return state;
-
-      const r = ensureRookie(state);
-      const payload = (action.payload ?? {}) as any;
-
-      const seat: Seat = payload.seat;
-      const zoneIndex = String(payload.zoneIndex);
-      const placement = payload.placement;
+    case "TURN_TIMEOUT": {
+      // Recorded by the routes/scan with every decision in the payload; replay never consults a clock.
+      if (state.status !== "ACTIVE" || !state.timer) return state;
+      const payload = (action.payload ?? {}) as TurnTimeoutPayload;
+      if (payload.seat !== state.activeSeat) return state;
 
-      if (typeof seat !== "number" || !zoneIndex) return state;
-
-      r.placements[String(seat)] = r.placements[String(seat)] ?? {};
-      r.placements[String(seat)][zoneIndex] = placement;
-
-      r.lastPlaceAt[String(seat)] = r.lastPlaceAt[String(seat)] ?? {};
-      r.lastPlaceAt[String(seat)][zoneIndex] = payload.at ?? new Date(0).toISOString();
-
-      // phase can move forward but stays deterministic and permissive
-      if (r.phase === "SETUP") r.phase = "MATCH";
+      applyTurnTimeout(state, payload, getSeatsFromState(state));
+      if (state.matchEnd) state.status = "CLOSED";
       return state;
     }
 
-    case "ROOKIE_REVEAL": {
-      if (state.modeCode !== "ROOKIE") return state;
+    // Takebacks: the TAKEBACK itself is consumed by effectiveEvents() before replay; only the
+    // request/decline bookkeeping reaches the reducer.
+    case "TAKEBACK_REQUEST": {
       if (state.status !== "ACTIVE") return state;
-
-      const r = ensureRookie(state);
-      const payload = (action.payload ?? {}) as any;
-      const zoneIndex = String(payload.zoneIndex);
-      if (!zoneIndex) return state;
-
-      r.revealedZones[zoneIndex] = true;
+      const payload = (action.payload ?? {}) as TakebackRequestPayload;
+      applyTakebackRequest(state, payload, action.seq ?? 0);
       return state;
     }
 
-    case "ROOKIE_HIDE": {
-      if (state.modeCode !== "ROOKIE") return state;
-      if (state.status !== "ACTIVE") return state;
-
-      const r = ensureRookie(state);
-      const payload = (action.payload ?? {}) as any;
-      const zoneIndex = String(payload.zoneIndex);
-      if (!zoneIndex) return state;
-
-      r.revealedZones[zoneIndex] = false;
+    case "TAKEBACK_DECLINED": {
+      clearTakebackRequest(state);
       return state;
     }
 
-    case "ROOKIE_RESOLVE_MATCH":
-    case "ROOKIE_SCORE_MATCH": {
-      if (state.modeCode !== "ROOKIE") return state;
-      if (state.status !== "ACTIVE") return state;
-
-      // Validation per contract happens at route layer (400 rookie_score_invalid).
-      // Reducer writes results deterministically from payload.
-      const r = ensureRookie(state);
-      r.results = action.payload ?? null;
-      r.phase = "ENDED";
+    case "TAKEBACK":
       return state;
-    }
 
-    case "ROOKIE_OVERTIME_DRAW": {
-      if (state.modeCode !== "ROOKIE") return state;
+    // --- Mode overlay actions (dispatched via modeRegistry) ---
+    default: {
+      if (!plugin || !plugin.actions[action.type]) return state;
       if (state.status !== "ACTIVE") return state;
 
-      const r = ensureRookie(state);
-      r.overtime = { ...(r.overtime ?? {}), draw: action.payload ?? true };
-      return state;
-    }
+      // Replay is permissive: rejected actions are no-ops (routes reject them with 400 up front).
+      const rejected = runModeAction(plugin, state, action.type, action.payload, contextFromState(state));
+      if (rejected) return JSON.parse(JSON.stringify(stateIn));
 
-    case "ROOKIE_OVERTIME_REVEAL": {
-      if (state.modeCode !== "ROOKIE") return state;
-      if (state.status !== "ACTIVE") return state;
-
-      const r = ensureRookie(state);
-      r.overtime = { ...(r.overtime ?? {}), reveal: action.payload ?? true };
+      if (state.matchEnd) state.status = "CLOSED";
       return state;
     }
-
-    case "ROOKIE_RESET_OVERTIME": {
-      if (state.modeCode !== "ROOKIE") return state;
-      if (state.status !== "ACTIVE") return state;
-
-      const r = ensureRookie(state);
-      r.overtime = undefined;
-      return state;
-    }
-
-    default:
-      return state;
   }
 }
 
-export function validateRookieScoreAttempt(state: MatchState): null | {
-  error: "rookie_score_invalid";
-  phaseInvalid?: { required: string[]; actual: string };
-  seatInvalid?: { required: number[]; actual: number[] };
-} {
-  if (state.modeCode !== "ROOKIE") return { error: "rookie_score_invalid" };
-
-  const r = state.rookie;
-  if (!r) return { error: "rookie_score_invalid" };
-
-  const requiredPhases = ["MATCH", "ENDED"];
-  if (!requiredPhases.includes(r.phase)) {
-    return {
-      error: "rookie_score_invalid",
-      phaseInvalid: { required: requiredPhases, actual: r.phase },
-    };
-  }
-
-  const seats = getSeatsFromState(state);
-  if (!isSeatPair12(seats)) {
-    return {
-      error: "rookie_score_invalid",
-      seatInvalid: { required: [1, 2], actual: seats },
-    };
-  }
-
-  return null;
+export function validateRookieScoreAttempt(state: MatchState) {
+  return validateRookieScoreAttemptForSeats(state, contextFromState(state));
 }
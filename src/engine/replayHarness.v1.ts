@@ -7,12 +7,15 @@ import type { SessionPointer } from "../config/sessionGate.v1";
 import { SessionV1 } from "./session.v1";
 import { runSessionV1 } from "./runner.v1";
 import { buildMatchResultRecordV1, type MatchResultRecordV1 } from "./matchResult.v1";
+import type { RunnerDecksV1 } from "./decks.v1";
+import crypto from "node:crypto";
 
 export type ReplayInputsV1 = {
   sessionId: string;
   matchId: string;
   pointer: SessionPointer & { ruleset?: { ruleSetKey: string; ruleSetVersion: number } | null };
   ruleSetJson?: any | null;
+  decks?: RunnerDecksV1 | null; // omitted => seed-only battle outcomes
 };
 
 export type ReplayDiffV1 = {
@@ -31,6 +34,10 @@ function pickResult(r: MatchResultRecordV1) {
   };
 }
 
+function timelineHash(r: MatchResultRecordV1): string {
+  return crypto.createHash("sha256").update(JSON.stringify(r.timeline)).digest("hex");
+}
+
 export function replayOnceV1(args: {
   inputs: ReplayInputsV1;
   appConfig: AppConfig;
@@ -45,6 +52,7 @@ export function replayOnceV1(args: {
     gameModeRegistry: args.gameModeRegistry,
     matchIdForDeterminism: args.inputs.matchId,
     ruleSetJson: args.inputs.ruleSetJson ?? null,
+    decks: args.inputs.decks ?? null,
   });
 
   return buildMatchResultRecordV1({ matchId: args.inputs.matchId, session: s });
@@ -71,5 +79,10 @@ export function assertDeterministicReplayV1(args: {
   const bCoins = JSON.stringify(b.finalCoinCount ?? null);
   if (aCoins !== bCoins) diffs.push(`finalCoinCount: ${aCoins} !== ${bCoins}`);
 
+  // Format knobs (draws, reshuffles, coin awards) surface in the timeline before they move the result.
+  const aTimeline = timelineHash(r1);
+  const bTimeline = timelineHash(r2);
+  if (aTimeline !== bTimeline) diffs.push(`timelineHash: ${aTimeline} !== ${bTimeline}`);
+
   return { ok: diffs.length === 0, diffs, a, b };
 }
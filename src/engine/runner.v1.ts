@@ -6,9 +6,26 @@
 // - No wall-clock timestamps.
 // - matchSeed is the sole entropy source; all derived randomness must come from it.
 // - Timeline events must follow Spec v0.3 vocabulary + required payload envelope (stored in event.extra).
+// - When decks are supplied, battles are decided by real HERO power (CardVersion.attributes.power):
+//   piles are ordered per format setup.deckOrderAtStart, lanes 1..N are dealt from the top, and
+//   lane i battles mirror(i). Without decks the seed-only outcome path is used (certification harnesses).
+// - Format knobs (SessionV1.getFormatKnobs) are honored: initialDrawSize (lanes dealt at setup; the rest are
+//   drawn at their battle), coinsPerBattle, persistBetweenBattles, winConditionCoinTarget, suddenDeath.enabled
+//   and reshuffle.mode (regulation draws from an empty pile).
 
 import type { AppConfig, FormatRegistry, GameModeRegistry } from "../config/registryLoaders.v1";
-import { SessionV1 } from "./session.v1";
+import type { JSONObject } from "../contracts/gameplay/v1/MatchArtifactV1";
+import { canonicalJsonV1 } from "../contracts/gameplay/v1/CanonicalJsonV1";
+import { SessionV1, type FormatKnobsV1 } from "./session.v1";
+import {
+  assertRunnerDecksV1,
+  expandHeroCardsV1,
+  orderDeckAtStartV1,
+  seededShuffleV1,
+  type DeckOrderAtStartV1,
+  type HeroCardV1,
+  type RunnerDecksV1,
+} from "./decks.v1";
 import crypto from "node:crypto";
 
 export type RunResultV1 = {
@@ -16,6 +33,9 @@ export type RunResultV1 = {
   phase: "COMPLETE";
 };
 
+type Side = "LS" | "OP";
+type Outcome = Side | "TIE";
+
 function sha256Hex(input: string): string {
   return crypto.createHash("sha256").update(input).digest("hex");
 }
@@ -36,31 +56,108 @@ function deterministicIsoFromSeed(matchSeed: string, idx: number): string {
   return new Date(t).toISOString();
 }
 
-function coinFlipFirstPlayer(matchSeed: string): "LS" | "OP" {
+function coinFlipFirstPlayer(matchSeed: string): Side {
   const h = sha256Hex(`${matchSeed}::coin`);
   return (u32FromHex(h, 0) % 2) === 0 ? "LS" : "OP";
 }
 
-function outcomeForBattle(args: { matchSeed: string; battleIndex: number }): "LS" | "OP" | "TIE" {
+function outcomeForBattle(args: { matchSeed: string; battleIndex: number }): Outcome {
   const h = sha256Hex(`${args.matchSeed}::battle::${args.battleIndex}`);
   const v = u32FromHex(h, 0) % 3;
   return v === 0 ? "LS" : v === 1 ? "OP" : "TIE";
 }
 
-function outcomeForSuddenDeathRound(args: { matchSeed: string; sdRound: number }): "LS" | "OP" | "TIE" {
+function outcomeForSuddenDeathRound(args: { matchSeed: string; sdRound: number }): Outcome {
   const h = sha256Hex(`${args.matchSeed}::sd::round::${args.sdRound}`);
   const v = u32FromHex(h, 0) % 3;
   return v === 0 ? "LS" : v === 1 ? "OP" : "TIE";
 }
 
-function heroRefFor(args: { matchSeed: string; side: "LS" | "OP"; drawIndex: number }): string {
+function heroRefFor(args: { matchSeed: string; side: Side; drawIndex: number }): string {
   // Spec: heroSeed_{side} = hash(matchSeed + 'hero_{side}')
   const seed = sha256Hex(`${args.matchSeed}::hero_${args.side}`);
-  // Deterministically name a ref from the seed + drawIndex (no deck IO in this phase)
+  // Deterministically name a ref from the seed + drawIndex (seed-only path: no decks supplied)
   const h = sha256Hex(`${seed}::draw::${args.drawIndex}`);
   return `HEROREF_${args.side}_${h.slice(0, 10)}`;
 }
 
+function comparePower(ls: number, op: number): Outcome {
+  if (ls > op) return "LS";
+  if (op > ls) return "OP";
+  return "TIE";
+}
+
+/** Per-side deck state for a deck-driven run. */
+type DeckTable = {
+  all: Record<Side, HeroCardV1[]>;
+  pile: Record<Side, HeroCardV1[]>;
+  discard: Record<Side, HeroCardV1[]>;
+  lanes: Record<Side, Array<HeroCardV1 | null | undefined>>; // 1-based; index 0 unused; undefined = not dealt yet
+  reshuffles: number;
+};
+
+function dealDeckTable(args: {
+  decks: RunnerDecksV1;
+  order: DeckOrderAtStartV1;
+  matchSeed: string;
+  laneCount: number;
+  initialDrawSize: number;
+}): DeckTable {
+  const table: DeckTable = {
+    all: { LS: [], OP: [] },
+    pile: { LS: [], OP: [] },
+    discard: { LS: [], OP: [] },
+    lanes: { LS: [null], OP: [null] },
+    reshuffles: 0,
+  };
+
+  // initialDrawSize 0 => deal every lane at setup
+  const dealt = args.initialDrawSize > 0 ? Math.min(args.initialDrawSize, args.laneCount) : args.laneCount;
+
+  for (const side of ["LS", "OP"] as const) {
+    table.all[side] = expandHeroCardsV1(args.decks[side]);
+    table.pile[side] = orderDeckAtStartV1({ cards: table.all[side], order: args.order, matchSeed: args.matchSeed, side });
+    for (let lane = 1; lane <= args.laneCount; lane++) {
+      table.lanes[side].push(lane <= dealt ? table.pile[side].shift() ?? null : undefined);
+    }
+  }
+
+  return table;
+}
+
+function drawRegulationHero(args: {
+  table: DeckTable;
+  side: Side;
+  matchSeed: string;
+  reshuffleMode: FormatKnobsV1["reshuffleMode"];
+}): HeroCardV1 | null {
+  const { table, side } = args;
+  if (table.pile[side].length === 0 && args.reshuffleMode === "ON_EXHAUST" && table.discard[side].length > 0) {
+    table.reshuffles += 1;
+    table.pile[side] = seededShuffleV1(table.discard[side], args.matchSeed, `reg_reshuffle_${side}_${table.reshuffles}`);
+    table.discard[side] = [];
+  }
+  return table.pile[side].shift() ?? null;
+}
+
+function drawSuddenDeathHero(args: {
+  table: DeckTable;
+  side: Side;
+  matchSeed: string;
+  sdReshufflePolicy: "RESHUFFLE_DISCARD_INTO_DECK" | "RESHUFFLE_ALL_HERO_CARDS";
+}): HeroCardV1 | null {
+  const { table, side } = args;
+  if (table.pile[side].length === 0) {
+    const source = args.sdReshufflePolicy === "RESHUFFLE_ALL_HERO_CARDS" ? table.all[side] : table.discard[side];
+    table.reshuffles += 1;
+    table.pile[side] = seededShuffleV1(source, args.matchSeed, `sd_reshuffle_${side}_${table.reshuffles}`);
+    table.discard[side] = [];
+  }
+  const card = table.pile[side].shift() ?? null;
+  if (card) table.discard[side].push(card);
+  return card;
+}
+
 export function runSessionV1(args: {
   session: SessionV1;
   appConfig: AppConfig;
@@ -68,6 +165,7 @@ export function runSessionV1(args: {
   gameModeRegistry: GameModeRegistry;
   matchIdForDeterminism: string; // required for deterministic replays
   ruleSetJson?: any | null;
+  decks?: RunnerDecksV1 | null; // LS = HOME (seat 1), OP = AWAY (seat 2)
 }): RunResultV1 {
   // 1) matchSeed (sole entropy)
   const matchSeed = sha256Hex(`MATCHSEED::${args.matchIdForDeterminism}`);
@@ -79,7 +177,13 @@ export function runSessionV1(args: {
   const at = (idx: number) => deterministicIsoFromSeed(matchSeed, idx);
 
   // 3) ruleset knobs (external to mode)
-  const rules = args.session.getRulesetKnobs(args.ruleSetJson ?? null);
+  const rules = args.session.getRulesetKnobs();
+
+  const decks = args.decks ?? null;
+  if (decks) assertRunnerDecksV1(decks);
+
+  let table: DeckTable | null = null;
+  let fmt: FormatKnobsV1 | null = null;
 
   // 4) lifecycle: LOAD_RULES → SETUP_MODE
   if (args.session.phase === "CREATED") {
@@ -91,7 +195,7 @@ export function runSessionV1(args: {
       laneIndex: null,
       sdRound: null,
       payload: {
-        rulesetSnapshotHash: args.session.rulesetSnapshotHash(matchSeed, rules),
+        rulesetSnapshotHash: args.session.rulesetSnapshotHash(),
         seed: matchSeed,
       },
     });
@@ -112,7 +216,27 @@ export function runSessionV1(args: {
       gameModeRegistry: args.gameModeRegistry,
     });
 
-    const setupSnapshotHash = args.session.setupSnapshotHash(matchSeed);
+    const setupSnapshotHash = args.session.setupSnapshotHash();
+    fmt = args.session.getFormatKnobs();
+    const deckOrderAtStart: DeckOrderAtStartV1 = fmt.deckOrderAtStart;
+
+    const setupPayload: JSONObject = { setupSnapshotHash };
+    if (decks) {
+      table = dealDeckTable({
+        decks,
+        order: deckOrderAtStart,
+        matchSeed,
+        laneCount: rules.regulationBattles,
+        initialDrawSize: fmt.initialDrawSize,
+      });
+      setupPayload.deckOrderAtStart = deckOrderAtStart;
+      setupPayload.initialDrawSize = fmt.initialDrawSize;
+      setupPayload.deckSnapshotHash = sha256Hex(canonicalJsonV1(decks));
+      setupPayload.lanes = {
+        LS: table.lanes.LS.slice(1).map((c) => c?.versionKey ?? null),
+        OP: table.lanes.OP.slice(1).map((c) => c?.versionKey ?? null),
+      };
+    }
 
     args.session.appendTimelineEventV3({
       eventType: "SETUP_COMPLETE",
@@ -121,7 +245,7 @@ export function runSessionV1(args: {
       battleIndex: null,
       laneIndex: null,
       sdRound: null,
-      payload: { setupSnapshotHash },
+      payload: setupPayload,
     });
 
     const firstPlayer = coinFlipFirstPlayer(matchSeed);
@@ -145,22 +269,36 @@ export function runSessionV1(args: {
 
   // 6) RUN_REGULATION (battle loop)
   let timelineIdx = 4;
+  const knobs: FormatKnobsV1 = fmt ?? args.session.getFormatKnobs();
 
   if (args.session.phase === "REGULATION") {
     const regulationBattles = rules.regulationBattles;
-    const chipTarget = rules.chipTarget;
+    const chipTarget = args.session.getChipTarget();
+
+    // Pairing invariant mirror(i) = (N + 1) - i for lanes 1..N (Spec v0.3: N = 7 → 8 - i)
+    const mirror = (i: number) => regulationBattles + 1 - i;
 
-    // Pairing invariant mirror(i) = 8 - i for lanes 1..7 (Spec v0.3)
-    const mirror = (i: number) => 8 - i;
+    let battlesPlayed = 0;
 
     for (let battleIndex = 1; battleIndex <= regulationBattles; battleIndex++) {
       // Early stop if chipTarget reached
       const chips = args.session.getChipCounts();
       if (chips.LS >= chipTarget || chips.OP >= chipTarget) break;
 
-      const laneIndex = battleIndex; // 1..7
+      if (!knobs.persistBetweenBattles) args.session.resetChipCounts();
+
+      const laneIndex = battleIndex; // 1..N
       const paired = { LS: laneIndex, OP: mirror(laneIndex) };
 
+      // Lanes beyond initialDrawSize are drawn when their battle starts.
+      if (table) {
+        for (const side of ["LS", "OP"] as const) {
+          if (table.lanes[side][paired[side]] === undefined) {
+            table.lanes[side][paired[side]] = drawRegulationHero({ table, side, matchSeed, reshuffleMode: knobs.reshuffleMode });
+          }
+        }
+      }
+
       args.session.appendTimelineEventV3({
         eventType: "BATTLE_START",
         at: at(timelineIdx++),
@@ -171,8 +309,35 @@ export function runSessionV1(args: {
         payload: { pairedLanes: paired },
       });
 
-      // Minimal mode mechanics in this phase: deterministic outcome only
-      const outcome = outcomeForBattle({ matchSeed, battleIndex });
+      let outcome: Outcome;
+      let resolvePayload: JSONObject;
+
+      if (table) {
+        const lsHero = table.lanes.LS[paired.LS] ?? null;
+        const opHero = table.lanes.OP[paired.OP] ?? null;
+        const LS_powerFinal = lsHero?.power ?? 0;
+        const OP_powerFinal = opHero?.power ?? 0;
+
+        outcome = comparePower(LS_powerFinal, OP_powerFinal);
+        resolvePayload = {
+          outcome,
+          LS_versionKey: lsHero?.versionKey ?? null,
+          OP_versionKey: opHero?.versionKey ?? null,
+          LS_powerFinal,
+          OP_powerFinal,
+        };
+
+        if (lsHero) table.discard.LS.push(lsHero);
+        if (opHero) table.discard.OP.push(opHero);
+      } else {
+        // Seed-only mechanics (no decks supplied): deterministic outcome only
+        outcome = outcomeForBattle({ matchSeed, battleIndex });
+        resolvePayload = {
+          outcome,
+          LS_powerFinal: outcome === "LS" ? 1 : 0,
+          OP_powerFinal: outcome === "OP" ? 1 : 0,
+        };
+      }
 
       args.session.appendTimelineEventV3({
         eventType: "RESOLVE",
@@ -181,15 +346,13 @@ export function runSessionV1(args: {
         battleIndex,
         laneIndex,
         sdRound: null,
-        payload: {
-          outcome,
-          LS_powerFinal: outcome === "LS" ? 1 : 0,
-          OP_powerFinal: outcome === "OP" ? 1 : 0,
-        },
+        payload: resolvePayload,
       });
 
-      if (outcome === "LS" || outcome === "OP") {
-        const newChipCounts = args.session.awardChip(outcome);
+      if (outcome === "LS" || outcome === "OP") args.session.recordBattleWin(outcome);
+
+      if ((outcome === "LS" || outcome === "OP") && knobs.coinsPerBattle > 0) {
+        const newChipCounts = args.session.awardChip(outcome, knobs.coinsPerBattle);
         args.session.appendTimelineEventV3({
           eventType: "CHIP_AWARDED",
           at: at(timelineIdx++),
@@ -197,11 +360,12 @@ export function runSessionV1(args: {
           battleIndex,
           laneIndex,
           sdRound: null,
-          payload: { winner: outcome, newChipCounts },
+          payload: { winner: outcome, coins: knobs.coinsPerBattle, newChipCounts },
         });
       }
 
       args.session.incrementBattleCount();
+      battlesPlayed = battleIndex;
 
       args.session.appendTimelineEventV3({
         eventType: "BATTLE_END",
@@ -215,7 +379,11 @@ export function runSessionV1(args: {
     }
 
     // Regulation end evaluation
-    const endEval = args.session.evaluateRegulationEnd(rules);
+    const endEval = args.session.evaluateRegulationEnd({
+      battleIndex: battlesPlayed,
+      chipCounts: args.session.getChipCounts(),
+      ...(knobs.persistBetweenBattles ? {} : { battlesWon: args.session.getBattlesWon() }),
+    });
 
     args.session.appendTimelineEventV3({
       eventType: "REGULATION_END",
@@ -243,8 +411,8 @@ export function runSessionV1(args: {
       });
     } else {
       // TIE after regulation
-      if (rules.tiebreakPolicy === "ALLOW_TIE") {
-        args.session.endMatchTie("ALLOW_TIE");
+      if (rules.tiebreakPolicy === "ALLOW_TIE" || !knobs.suddenDeathEnabled) {
+        args.session.endMatchTie(knobs.suddenDeathEnabled ? "ALLOW_TIE" : "SUDDEN_DEATH_DISABLED");
         args.session.appendTimelineEventV3({
           eventType: "MATCH_END",
           at: at(timelineIdx++),
@@ -255,7 +423,7 @@ export function runSessionV1(args: {
           payload: { endMethod: "TIE", winner: NoneNull() },
         });
       } else {
-        args.session.enterSuddenDeath(rules);
+        args.session.enterSuddenDeath();
       }
     }
   }
@@ -271,11 +439,27 @@ export function runSessionV1(args: {
       battleIndex: null,
       laneIndex: null,
       sdRound: 1,
-      payload: { sdConfigSnapshotHash: args.session.suddenDeathConfigHash(matchSeed, sd) },
+      payload: { sdConfigSnapshotHash: args.session.suddenDeathConfigHash() },
     });
 
+    // PHASE_BOUNDARY: the regulation discard is shuffled back under the pile before sudden death.
+    if (table && knobs.reshuffleMode === "PHASE_BOUNDARY") {
+      for (const side of ["LS", "OP"] as const) {
+        table.pile[side] = seededShuffleV1([...table.pile[side], ...table.discard[side]], matchSeed, `phase_reshuffle_${side}`);
+        table.discard[side] = [];
+      }
+    }
+
+    // ALL_HERO_CARDS: sudden death draws from every HERO copy, not just what is left in the pile.
+    if (table && sd.sdDrawSource === "ALL_HERO_CARDS") {
+      for (const side of ["LS", "OP"] as const) {
+        table.pile[side] = seededShuffleV1(table.all[side], matchSeed, `sd_source_${side}`);
+        table.discard[side] = [];
+      }
+    }
+
     let drawIndex = 0;
-    let outcome: "LS" | "OP" | "TIE" = "TIE";
+    let outcome: Outcome = "TIE";
 
     for (let sdRound = 1; sdRound <= (sd.sdMaxRounds ?? 10_000); sdRound++) {
       args.session.appendTimelineEventV3({
@@ -288,9 +472,27 @@ export function runSessionV1(args: {
         payload: { sdRound },
       });
 
-      // SD_DRAW / SD_REVEAL — stub heroRef materialization
-      const LS_heroRef = heroRefFor({ matchSeed, side: "LS", drawIndex: drawIndex++ });
-      const OP_heroRef = heroRefFor({ matchSeed, side: "OP", drawIndex: drawIndex++ });
+      let LS_heroRef: string | null;
+      let OP_heroRef: string | null;
+      let resolvePayload: JSONObject;
+
+      if (table) {
+        const lsHero = drawSuddenDeathHero({ table, side: "LS", matchSeed, sdReshufflePolicy: sd.sdReshufflePolicy });
+        const opHero = drawSuddenDeathHero({ table, side: "OP", matchSeed, sdReshufflePolicy: sd.sdReshufflePolicy });
+        LS_heroRef = lsHero?.versionKey ?? null;
+        OP_heroRef = opHero?.versionKey ?? null;
+
+        const LS_powerFinal = lsHero?.power ?? 0;
+        const OP_powerFinal = opHero?.power ?? 0;
+        outcome = comparePower(LS_powerFinal, OP_powerFinal);
+        resolvePayload = { outcome, LS_powerFinal, OP_powerFinal };
+      } else {
+        // SD_DRAW / SD_REVEAL — stub heroRef materialization (seed-only path)
+        LS_heroRef = heroRefFor({ matchSeed, side: "LS", drawIndex: drawIndex++ });
+        OP_heroRef = heroRefFor({ matchSeed, side: "OP", drawIndex: drawIndex++ });
+        outcome = outcomeForSuddenDeathRound({ matchSeed, sdRound });
+        resolvePayload = { outcome };
+      }
 
       args.session.appendTimelineEventV3({
         eventType: "SD_DRAW",
@@ -312,8 +514,6 @@ export function runSessionV1(args: {
         payload: { LS_heroRef, OP_heroRef },
       });
 
-      outcome = outcomeForSuddenDeathRound({ matchSeed, sdRound });
-
       args.session.appendTimelineEventV3({
         eventType: "SD_RESOLVE",
         at: at(timelineIdx++),
@@ -321,7 +521,7 @@ export function runSessionV1(args: {
         battleIndex: null,
         laneIndex: null,
         sdRound,
-        payload: { outcome },
+        payload: resolvePayload,
       });
 
       args.session.incrementSuddenDeathRoundCount();
@@ -334,7 +534,7 @@ export function runSessionV1(args: {
     }
 
     // SD_END + MATCH_END
-    const sdOutcome: "LS" | "OP" | "TIE" = outcome === "TIE" ? "TIE" : outcome;
+    const sdOutcome: Outcome = outcome === "TIE" ? "TIE" : outcome;
     args.session.appendTimelineEventV3({
       eventType: "SD_END",
       at: at(timelineIdx++),
@@ -11,6 +11,7 @@
 import type { AppConfig, FormatRegistry, GameModeRegistry } from "../config/registryLoaders.v1";
 import { validateSessionCanEnterSetup, type SessionPointer } from "../config/sessionGate.v1";
 import type { MatchTimelineEventV1, JSONObject } from "../contracts/gameplay/v1/MatchArtifactV1";
+import { canonicalJsonV1 } from "../contracts/gameplay/v1/CanonicalJsonV1";
 
 export type SessionPhase = "CREATED" | "SETUP" | "REGULATION" | "SUDDEN_DEATH" | "BATTLE_LOOP" | "COMPLETE";
 
@@ -33,6 +34,16 @@ export type SessionPointerV1 = SessionPointer & {
 type ChipSide = "LS" | "OP";
 type ChipCounts = { LS: number; OP: number };
 
+export type FormatKnobsV1 = {
+  initialDrawSize: number; // 0 => every regulation lane is dealt at setup
+  deckOrderAtStart: "AS_BUILT" | "DETERMINISTIC_SHUFFLE";
+  coinsPerBattle: number;
+  persistBetweenBattles: boolean;
+  winConditionCoinTarget: number | null; // null => ruleset chipTarget
+  suddenDeathEnabled: boolean;
+  reshuffleMode: "NONE" | "ON_EXHAUST" | "PHASE_BOUNDARY";
+};
+
 export class SessionV1 {
   readonly sessionId: string;
 
@@ -58,6 +69,7 @@ export class SessionV1 {
   // Lightweight deterministic counters (used by lifecycle runner)
   private _chipCounts: ChipCounts = { LS: 0, OP: 0 };
   private _battleCount = 0; // regulation+sd battles
+  private _battlesWon: ChipCounts = { LS: 0, OP: 0 }; // regulation battles won; survives resetChipCounts()
   private _suddenDeathRoundCount = 0;
 
   constructor(args: { sessionId: string; pointer: SessionPointerV1 & { ruleset?: { ruleSetKey: string; ruleSetVersion: number } | null }; ruleSetJson?: any | null }) {
@@ -236,6 +248,52 @@ export class SessionV1 {
     });
   }
 
+  // -----------------------------
+  // Format knobs (frozen formatSnapshot; defaults = pre-knob runner behavior)
+  // -----------------------------
+  getFormatKnobs(): FormatKnobsV1 {
+    const f: any = this._snapshots?.formatSnapshot ?? {};
+    const setup = ensureObj(f.setup);
+    const coins = ensureObj(f.coins);
+    const sd = ensureObj(f.suddenDeath);
+    const reshuffle = ensureObj(f.reshuffle);
+
+    const initialDrawSize =
+      typeof setup.initialDrawSize === "number" && Number.isFinite(setup.initialDrawSize)
+        ? Math.max(0, Math.floor(setup.initialDrawSize))
+        : 0;
+
+    const coinsPerBattle =
+      typeof coins.coinsPerBattle === "number" && Number.isFinite(coins.coinsPerBattle)
+        ? Math.max(0, Math.floor(coins.coinsPerBattle))
+        : 1;
+
+    const winConditionCoinTarget =
+      typeof coins.winConditionCoinTarget === "number" && Number.isFinite(coins.winConditionCoinTarget)
+        ? Math.max(1, Math.floor(coins.winConditionCoinTarget))
+        : null;
+
+    const reshuffleMode =
+      reshuffle.mode === "ON_EXHAUST" || reshuffle.mode === "PHASE_BOUNDARY" ? reshuffle.mode : "NONE";
+
+    return deepFreeze({
+      initialDrawSize,
+      deckOrderAtStart: setup.deckOrderAtStart === "DETERMINISTIC_SHUFFLE" ? "DETERMINISTIC_SHUFFLE" : "AS_BUILT",
+      coinsPerBattle,
+      persistBetweenBattles: typeof coins.persistBetweenBattles === "boolean" ? coins.persistBetweenBattles : true,
+      winConditionCoinTarget,
+      suddenDeathEnabled: typeof sd.enabled === "boolean" ? sd.enabled : true,
+      reshuffleMode,
+    });
+  }
+
+  /** Format winConditionCoinTarget wins over the ruleset chipTarget when declared. */
+  getChipTarget(): number {
+    const fromFormat = this.getFormatKnobs().winConditionCoinTarget;
+    if (fromFormat !== null) return fromFormat;
+    return Number(this.getRulesetKnobs().chipTarget ?? 4);
+  }
+
   getSuddenDeathConfig(): {
     sdDrawSource: "HERO_DECK_ONLY" | "ALL_HERO_CARDS";
     sdReshufflePolicy: "RESHUFFLE_DISCARD_INTO_DECK" | "RESHUFFLE_ALL_HERO_CARDS";
@@ -254,7 +312,7 @@ export class SessionV1 {
   }
 
   suddenDeathConfigHash(): string {
-    return sha256Hex(stableStringify(this.getSuddenDeathConfig()));
+    return sha256Hex(canonicalJsonV1(this.getSuddenDeathConfig()));
   }
 
   rulesetSnapshotHash(): string {
@@ -263,7 +321,7 @@ export class SessionV1 {
       ruleset: snap ? { ruleSetKey: snap.ruleSetKey, ruleSetVersion: snap.ruleSetVersion } : null,
       rules: this._ruleSetJson ?? null,
     };
-    return sha256Hex(stableStringify(payload));
+    return sha256Hex(canonicalJsonV1(payload));
   }
 
   setupSnapshotHash(): string {
@@ -272,24 +330,29 @@ export class SessionV1 {
       snapshots: this._snapshots,
       rulesetSnapshotHash: this.rulesetSnapshotHash(),
     };
-    return sha256Hex(stableStringify(payload));
+    return sha256Hex(canonicalJsonV1(payload));
   }
 
   // -----------------------------
   // Regulation helpers
   // -----------------------------
+  // battlesWon (coins.persistBetweenBattles=false): the chip pool only holds the last battle, so
+  // REGULATION_BATTLES is decided on battles won instead.
   evaluateRegulationEnd(args: {
     battleIndex: number;
     chipCounts: { LS: number; OP: number };
+    battlesWon?: { LS: number; OP: number };
   }): { ended: boolean; endReason: string | null; outcome: ChipSide | "TIE" | null } {
     const battleIndex = Number(args?.battleIndex ?? 0);
     const chips = args?.chipCounts ?? ({ LS: 0, OP: 0 } as any);
     const chipLS = Number((chips as any).LS ?? 0);
     const chipOP = Number((chips as any).OP ?? 0);
+    const scoreLS = args?.battlesWon ? Number(args.battlesWon.LS ?? 0) : chipLS;
+    const scoreOP = args?.battlesWon ? Number(args.battlesWon.OP ?? 0) : chipOP;
 
     const knobs: any = this.getRulesetKnobs() ?? {};
     const regulationBattles = Number(knobs.regulationBattles ?? 7);
-    const chipTarget = Number(knobs.chipTarget ?? 4);
+    const chipTarget = this.getChipTarget();
     const endPolicy = String(knobs.regulationEndPolicy ?? "EITHER").toUpperCase();
 
     const reachedTarget = chipTarget > 0 && (chipLS >= chipTarget || chipOP >= chipTarget);
@@ -299,8 +362,8 @@ export class SessionV1 {
     }
 
     if (battleIndex >= regulationBattles && (endPolicy === "EITHER" || endPolicy === "BATTLES_ONLY")) {
-      if (chipLS > chipOP) return { ended: true, endReason: "REGULATION_BATTLES", outcome: "LS" };
-      if (chipOP > chipLS) return { ended: true, endReason: "REGULATION_BATTLES", outcome: "OP" };
+      if (scoreLS > scoreOP) return { ended: true, endReason: "REGULATION_BATTLES", outcome: "LS" };
+      if (scoreOP > scoreLS) return { ended: true, endReason: "REGULATION_BATTLES", outcome: "OP" };
       return { ended: true, endReason: "REGULATION_TIE", outcome: "TIE" };
     }
 
@@ -314,12 +377,30 @@ export class SessionV1 {
     return { ...this._chipCounts };
   }
 
-  awardChip(winner: ChipSide) {
+  awardChip(winner: ChipSide, amount: number = 1): ChipCounts {
     const w = winner === "OP" ? "OP" : "LS";
+    const n = Number.isFinite(amount) ? Math.max(0, Math.floor(amount)) : 0;
     this._chipCounts = {
-      LS: this._chipCounts.LS + (w === "LS" ? 1 : 0),
-      OP: this._chipCounts.OP + (w === "OP" ? 1 : 0),
+      LS: this._chipCounts.LS + (w === "LS" ? n : 0),
+      OP: this._chipCounts.OP + (w === "OP" ? n : 0),
     };
+    return this.getChipCounts();
+  }
+
+  // Format coins.persistBetweenBattles=false: each battle starts from zero.
+  resetChipCounts(): ChipCounts {
+    this._chipCounts = { LS: 0, OP: 0 };
+    return this.getChipCounts();
+  }
+
+  getBattlesWon(): ChipCounts {
+    return { ...this._battlesWon };
+  }
+
+  recordBattleWin(winner: ChipSide): ChipCounts {
+    const w = winner === "OP" ? "OP" : "LS";
+    this._battlesWon = { ...this._battlesWon, [w]: this._battlesWon[w] + 1 };
+    return this.getBattlesWon();
   }
 
   incrementBattleCount() {
@@ -422,14 +503,31 @@ export class SessionV1 {
     this._timeline.push(e);
   }
 
+  /**
+   * Spec v0.3 envelope: lifecycle vocabulary goes to `code`; actor/indices/payload are kept
+   * in `extra` so consumers can read them without a schema change.
+   */
   appendTimelineEventV3(args: {
-    code: string;
+    eventType: string;
     at: string;
-    participantId?: string;
-    metrics?: Record<string, number>;
-    extra?: JSONObject;
+    actor: "SYSTEM" | ChipSide;
+    battleIndex: number | null;
+    laneIndex: number | null;
+    sdRound: number | null;
+    payload: JSONObject;
   }) {
-    this.appendTimelineEvent(args);
+    this.appendTimelineEvent({
+      code: args.eventType,
+      at: args.at,
+      extra: {
+        eventType: args.eventType,
+        actor: args.actor,
+        battleIndex: args.battleIndex,
+        laneIndex: args.laneIndex,
+        sdRound: args.sdRound,
+        payload: args.payload,
+      },
+    });
   }
 
   enterRegulation() {
@@ -469,15 +567,6 @@ export class SessionV1 {
 // -----------------------------
 // Helpers (deterministic)
 // -----------------------------
-function stableStringify(value: any): string {
-  if (value === null || value === undefined) return JSON.stringify(value);
-  if (typeof value !== "object") return JSON.stringify(value);
-  if (Array.isArray(value)) return "[" + value.map((v) => stableStringify(v)).join(",") + "]";
-  const keys = Object.keys(value).sort();
-  const parts = keys.map((k) => JSON.stringify(k) + ":" + stableStringify((value as any)[k]));
-  return "{" + parts.join(",") + "}";
-}
-
 function sha256Hex(input: string): string {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   const crypto = require("node:crypto");
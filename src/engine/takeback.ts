@@ -0,0 +1,65 @@
+// src/engine/takeback.ts
+// Takeback protocol over the append-only event stream.
+// A seat files TAKEBACK_REQUEST {toSeq}; the opponent either declines (TAKEBACK_DECLINED) or approves, in which
+// case the server appends a compensating TAKEBACK event. Nothing is deleted: replay simply skips every event
+// the TAKEBACK superseded (seq > toSeq, recorded before the TAKEBACK).
+
+import type { MatchState, Seat, TakebackPayload, TakebackRequestPayload } from "./types";
+
+export const TAKEBACK_REQUEST_EVENT = "TAKEBACK_REQUEST";
+export const TAKEBACK_DECLINED_EVENT = "TAKEBACK_DECLINED";
+export const TAKEBACK_EVENT = "TAKEBACK";
+
+type SeqEvent = { seq: number; type: string; payload?: unknown };
+
+/**
+ * Events still in force, in seq order. TAKEBACK events are consumed (they only supersede);
+ * a later takeback to an earlier seq also supersedes earlier takebacks.
+ */
+export function effectiveEvents<E extends SeqEvent>(events: E[]): E[] {
+  const ordered = [...events].sort((a, b) => a.seq - b.seq);
+  const kept: E[] = [];
+
+  for (const e of ordered) {
+    if (e.type !== TAKEBACK_EVENT) {
+      kept.push(e);
+      continue;
+    }
+    const toSeq = Number((e.payload as any)?.toSeq);
+    if (!Number.isInteger(toSeq)) continue;
+    while (kept.length > 0 && kept[kept.length - 1].seq > toSeq) kept.pop();
+  }
+
+  return kept;
+}
+
+/** Seqs superseded by takebacks (audit/UI: show them struck through rather than hiding them). */
+export function supersededSeqs<E extends SeqEvent>(events: E[]): number[] {
+  const kept = new Set(effectiveEvents(events).map((e) => e.seq));
+  return events
+    .filter((e) => e.type !== TAKEBACK_EVENT && !kept.has(e.seq))
+    .map((e) => e.seq)
+    .sort((a, b) => a - b);
+}
+
+/** Records a pending request (mutates). */
+export function applyTakebackRequest(state: MatchState, payload: TakebackRequestPayload, requestSeq: number): void {
+  state.takeback = { pending: { requestSeq, seat: payload.seat, toSeq: payload.toSeq } };
+}
+
+/** Clears a pending request (mutates). */
+export function clearTakebackRequest(state: MatchState): void {
+  state.takeback = { pending: null };
+}
+
+export function buildTakebackPayload(args: {
+  pending: { requestSeq: number; seat: Seat; toSeq: number };
+  approvedBySeat: Seat;
+}): TakebackPayload {
+  return {
+    toSeq: args.pending.toSeq,
+    requestSeq: args.pending.requestSeq,
+    requestedBySeat: args.pending.seat,
+    approvedBySeat: args.approvedBySeat,
+  };
+}
@@ -0,0 +1,134 @@
+// src/engine/timelineSteps.v1.ts
+// Step-through replay: folds a stored Spec v0.3 timeline (LOAD_RULES … MATCH_END) into the session state after each
+// index — phase, chip counts, battle index, sudden-death round, last resolve. Pure; reads only the timeline, so it
+// works on stored artifacts without re-running the engine.
+//
+// Mirrors runner.v1: with coins.persistBetweenBattles=false chips reset at every BATTLE_START (the runner does not
+// emit an event for that), and CHIP_AWARDED.newChipCounts is authoritative when present.
+
+import type { MatchTimelineEventV1 } from "../contracts/gameplay/v1/MatchArtifactV1";
+import type { SessionPhase } from "./session.v1";
+
+type ChipSide = "LS" | "OP";
+
+export type TimelineStepV1 = {
+  idx: number;
+  eventType: string;
+  at: string;
+  phase: SessionPhase;
+  chips: { LS: number; OP: number };
+  battleIndex: number | null;
+  battlesPlayed: number;
+  sdRound: number | null;
+  suddenDeathRounds: number;
+  /** Latest RESOLVE / SD_RESOLVE payload (outcome + powers/hero refs when decks were used). */
+  lastResolve: Record<string, any> | null;
+  winner: ChipSide | null;
+  endMethod: string | null;
+  event: MatchTimelineEventV1;
+};
+
+function ensureObj(v: any): Record<string, any> {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as any) : {};
+}
+
+function eventTypeOf(e: MatchTimelineEventV1): string {
+  return String(ensureObj(e.extra).eventType ?? e.code ?? "");
+}
+
+export function timelineStepsV1(
+  timeline: ReadonlyArray<MatchTimelineEventV1>,
+  opts: { persistBetweenBattles?: boolean } = {}
+): TimelineStepV1[] {
+  const persist = opts.persistBetweenBattles !== false;
+  const ordered = [...timeline].sort((a, b) => Number(a.idx) - Number(b.idx));
+
+  let phase: SessionPhase = "CREATED";
+  let chips = { LS: 0, OP: 0 };
+  let battleIndex: number | null = null;
+  let battlesPlayed = 0;
+  let sdRound: number | null = null;
+  let suddenDeathRounds = 0;
+  let lastResolve: Record<string, any> | null = null;
+  let winner: ChipSide | null = null;
+  let endMethod: string | null = null;
+
+  const steps: TimelineStepV1[] = [];
+
+  for (const e of ordered) {
+    const type = eventTypeOf(e);
+    const extra = ensureObj(e.extra);
+    const payload = ensureObj(extra.payload);
+
+    switch (type) {
+      case "SETUP_START":
+      case "SETUP_COMPLETE":
+        phase = "SETUP";
+        break;
+      case "MATCH_START":
+        phase = "REGULATION";
+        break;
+      case "BATTLE_START":
+        phase = "REGULATION";
+        if (!persist) chips = { LS: 0, OP: 0 };
+        battleIndex = Number(extra.battleIndex ?? battlesPlayed + 1);
+        break;
+      case "RESOLVE":
+        lastResolve = payload;
+        break;
+      case "CHIP_AWARDED": {
+        const next = ensureObj(payload.newChipCounts);
+        if (typeof next.LS === "number" && typeof next.OP === "number") {
+          chips = { LS: next.LS, OP: next.OP };
+        } else if (payload.winner === "LS" || payload.winner === "OP") {
+          chips = { ...chips, [payload.winner]: chips[payload.winner as ChipSide] + Number(payload.coins ?? 1) };
+        }
+        break;
+      }
+      case "BATTLE_END":
+        battlesPlayed = Number(extra.battleIndex ?? battlesPlayed + 1);
+        break;
+      case "SUDDEN_DEATH_START":
+        phase = "SUDDEN_DEATH";
+        battleIndex = null;
+        break;
+      case "SD_ROUND_START":
+        phase = "SUDDEN_DEATH";
+        sdRound = Number(extra.sdRound ?? payload.sdRound ?? suddenDeathRounds + 1);
+        break;
+      case "SD_RESOLVE":
+        lastResolve = payload;
+        suddenDeathRounds = Math.max(suddenDeathRounds, Number(extra.sdRound ?? sdRound ?? 0));
+        break;
+      case "SD_END":
+        if (typeof payload.suddenDeathRounds === "number") suddenDeathRounds = payload.suddenDeathRounds;
+        break;
+      case "MATCH_END":
+        phase = "COMPLETE";
+        winner = payload.winner === "LS" || payload.winner === "OP" ? payload.winner : null;
+        endMethod = payload.endMethod ? String(payload.endMethod) : null;
+        break;
+      default:
+        // LOAD_RULES, REGULATION_END, SD_DRAW, SD_REVEAL: no state change
+        break;
+    }
+
+    steps.push({
+      idx: Number(e.idx),
+      eventType: type,
+      at: e.at,
+      phase,
+      chips: { ...chips },
+      battleIndex,
+      battlesPlayed,
+      sdRound,
+      suddenDeathRounds,
+      lastResolve,
+      winner,
+      endMethod,
+      event: e,
+    });
+  }
+
+  return steps;
+}
@@ -0,0 +1,94 @@
+// src/engine/turnTimer.ts
+// Turn deadlines for live games. Pure: callers inject "now" (routes/scan read NOW_ISO), so the engine never
+// reads the wall clock. Expiries are persisted as TURN_TIMEOUT events carrying every decision, which lets
+// reduce() replay timed-out games without a clock.
+
+import type { MatchState, Seat, TurnTimeoutPayload, TurnTimerPolicy, TurnTimerState } from "./types";
+
+export const TURN_TIMEOUT_EVENT = "TURN_TIMEOUT";
+
+// Upper bound on timeouts applied in one pass (a long-abandoned END_TURN-only game would otherwise cascade forever).
+const MAX_TIMEOUTS_PER_PASS = 64;
+
+function addSeconds(iso: string, seconds: number): string {
+  const t = new Date(iso).getTime();
+  if (!Number.isFinite(t)) throw new Error(`TURN_TIMER_INVALID_TIME: ${iso}`);
+  return new Date(t + seconds * 1000).toISOString();
+}
+
+export function makeTurnTimerState(policy: TurnTimerPolicy): TurnTimerState {
+  return {
+    turnSeconds: policy.turnSeconds,
+    onExpire: policy.onExpire,
+    forfeitAfterTimeouts: policy.forfeitAfterTimeouts ?? null,
+    deadlineAt: null,
+    timeouts: {},
+  };
+}
+
+/** Starts the active seat's clock at `atIso` (mutates). No-op for untimed games. */
+export function armTurnDeadline(state: MatchState, atIso: string): void {
+  if (!state.timer) return;
+  state.timer.deadlineAt = addSeconds(atIso, state.timer.turnSeconds);
+}
+
+/** Applies one recorded TURN_TIMEOUT (mutates). Used by reduce() and the routes alike. */
+export function applyTurnTimeout(state: MatchState, payload: TurnTimeoutPayload, seats: Seat[]): void {
+  const timer = state.timer;
+  if (!timer) return;
+
+  const seat = String(payload.seat);
+  timer.timeouts[seat] = (timer.timeouts[seat] ?? 0) + 1;
+
+  if (payload.resolution === "FORFEIT") {
+    const others = seats.filter((s) => s !== payload.seat);
+    state.matchEnd = { winnerSeat: others.length === 1 ? others[0] : null, reason: "TURN_TIMEOUT_FORFEIT" };
+    timer.deadlineAt = null;
+    return;
+  }
+
+  state.turn = (state.turn ?? 0) + 1;
+  const idx = seats.indexOf(payload.seat);
+  state.activeSeat = idx < 0 ? seats[0] ?? null : seats[(idx + 1) % seats.length];
+  timer.deadlineAt = payload.nextDeadlineAt;
+}
+
+/**
+ * Every deadline that has passed by `nowIso`, in order, applied to a copy of state.
+ * Each follow-up deadline is chained from the expired one (not from now), so the outcome does not
+ * depend on when the check ran.
+ */
+export function collectTurnTimeouts(
+  stateIn: MatchState,
+  nowIso: string,
+  seats: Seat[]
+): { state: MatchState; timeouts: TurnTimeoutPayload[] } {
+  const state: MatchState = JSON.parse(JSON.stringify(stateIn));
+  const timeouts: TurnTimeoutPayload[] = [];
+  const now = new Date(nowIso).getTime();
+  if (!Number.isFinite(now)) throw new Error(`TURN_TIMER_INVALID_TIME: ${nowIso}`);
+
+  while (timeouts.length < MAX_TIMEOUTS_PER_PASS) {
+    const timer = state.timer;
+    if (!timer || !timer.deadlineAt || state.matchEnd || typeof state.activeSeat !== "number") break;
+    if (new Date(timer.deadlineAt).getTime() > now) break;
+
+    const seat = state.activeSeat;
+    const priorTimeouts = timer.timeouts[String(seat)] ?? 0;
+    const forfeit =
+      timer.onExpire === "FORFEIT" ||
+      (timer.forfeitAfterTimeouts !== null && priorTimeouts + 1 >= timer.forfeitAfterTimeouts);
+
+    const payload: TurnTimeoutPayload = {
+      seat,
+      deadlineAt: timer.deadlineAt,
+      resolution: forfeit ? "FORFEIT" : "END_TURN",
+      nextDeadlineAt: forfeit ? null : addSeconds(timer.deadlineAt, timer.turnSeconds),
+    };
+
+    applyTurnTimeout(state, payload, seats);
+    timeouts.push(payload);
+  }
+
+  return { state, timeouts };
+}
@@ -16,11 +16,24 @@ export type GameActionType =
   | "ROOKIE_RESOLVE_MATCH"
   | "ROOKIE_OVERTIME_DRAW"
   | "ROOKIE_OVERTIME_REVEAL"
-  | "ROOKIE_RESET_OVERTIME";
+  | "ROOKIE_RESET_OVERTIME"
+  | "SUBSTITUTION_SET_LINEUP"
+  | "SUBSTITUTION_SWAP"
+  | "SUBSTITUTION_END"
+  | "PLAYMAKER_COMMIT_HERO"
+  | "PLAYMAKER_PLAY"
+  | "PLAYMAKER_RESOLVE_BATTLE"
+  | "PLAYMAKER_END"
+  | "TURN_TIMEOUT"
+  | "TAKEBACK_REQUEST"
+  | "TAKEBACK_DECLINED"
+  | "TAKEBACK";
 
 export type GameAction = {
   type: GameActionType | string;
   payload?: unknown;
+  at?: string; // event time; arms turn deadlines on START / END_TURN
+  seq?: number; // event seq; identifies takeback requests
 };
 
 export type GameEvent = {
@@ -45,6 +58,33 @@ export type RookieState = {
   revealedZones: Record<string, boolean>; // [zoneIndex] = true/false
   results?: unknown;
   overtime?: unknown;
+
+  // scored-session fields (games.routes ROOKIE_SCORE / ROOKIE_END):
+  score?: number;
+  end?: { winnerSeat: Seat } | null;
+  rewardEligible?: boolean;
+  rewardPaidAt?: string | null;
+};
+
+export type SubstitutionState = {
+  phase: "SETUP" | "MATCH" | "ENDED" | string;
+  lineups: Record<string, Record<string, unknown>>; // [seat][zoneIndex] = fielded card
+  bench: Record<string, unknown[]>; // [seat] = benched cards, in order
+  subsUsed: Record<string, number>; // [seat] = swaps made so far
+  maxSubs: number;
+  end?: { winnerSeat: Seat } | null;
+};
+
+export type PlaymakerState = {
+  phase: "SETUP" | "MATCH" | "ENDED" | string;
+  battleIndex: number; // 1-based, current battle
+  chipTarget: number;
+  chips: Record<string, number>; // [seat] = chips won
+  heroes: Record<string, unknown>; // [seat] = committed hero for current battle
+  plays: Record<string, unknown[]>; // [seat] = PLAY cards resolved in current battle
+  playsUsed: Record<string, Record<string, number>>; // [seat][versionKey] = copies played this match
+  battles: unknown[]; // resolved battle records, in order
+  results?: unknown;
 };
 
 export type MatchState = {
@@ -57,11 +97,119 @@ export type MatchState = {
 
   // mode overlay:
   rookie?: RookieState;
+  substitution?: SubstitutionState;
+  playmaker?: PlaymakerState;
+
+  // set once the mode's end detector fires (or a seat forfeits on time):
+  matchEnd?: MatchEnd;
+
+  // turn deadline (modes with a turnTimer policy only):
+  timer?: TurnTimerState;
+
+  // open takeback request, if any:
+  takeback?: TakebackState;
 
   // extra state allowed, but must remain deterministic:
   meta?: Record<string, unknown>;
 };
 
+export type MatchEnd = {
+  winnerSeat: Seat | null;
+  reason: string;
+};
+
+// --- Turn timers ---
+
+export type TurnTimerPolicy = {
+  turnSeconds: number;
+  onExpire: "END_TURN" | "FORFEIT";
+  forfeitAfterTimeouts?: number | null; // END_TURN policy: forfeit on this many timeouts by one seat
+};
+
+export type TurnTimerState = {
+  turnSeconds: number;
+  onExpire: "END_TURN" | "FORFEIT";
+  forfeitAfterTimeouts: number | null;
+  deadlineAt: string | null; // ISO; null = clock not running
+  timeouts: Record<string, number>; // [seat] = deadlines missed
+};
+
+export type TurnTimeoutPayload = {
+  seat: Seat;
+  deadlineAt: string;
+  resolution: "END_TURN" | "FORFEIT";
+  nextDeadlineAt: string | null;
+};
+
+// --- Takebacks ---
+
+export type TakebackRequestPayload = {
+  seat: Seat; // requesting seat
+  toSeq: number; // last event to keep
+};
+
+export type TakebackState = {
+  pending: { requestSeq: number; seat: Seat; toSeq: number } | null;
+};
+
+/** Compensating event appended once the opponent approves; supersedes events after toSeq. */
+export type TakebackPayload = {
+  toSeq: number;
+  requestSeq: number;
+  requestedBySeat: Seat;
+  approvedBySeat: Seat;
+};
+
+// --- Views (hidden information) ---
+
+/** Who a projection is for: a seated player, or a spectator (no seat, same reveal rules). */
+export type Viewer = { kind: "SEAT"; seat: Seat } | { kind: "SPECTATOR" };
+
+export type ModeViewRedactor = {
+  /** Hides what `viewer` may not see yet (mutates a clone). */
+  redactState: (state: MatchState, viewer: Viewer) => void;
+  /** Returns the event as `viewer` may see it; `state` is the current (unredacted) state. */
+  redactEvent?: (event: { type: string; payload?: unknown }, state: MatchState, viewer: Viewer) => unknown;
+};
+
+// --- Mode plugins ---
+
+export type ModeActionContext = {
+  seats: Seat[];
+  activeSeat: Seat | null;
+};
+
+/** Validator rejection. Routes return it verbatim as a 400 body. */
+export type ModeActionError = {
+  error: string;
+  [key: string]: unknown;
+};
+
+export type ModeActionHandler = {
+  validate?: (state: MatchState, payload: any, ctx: ModeActionContext) => ModeActionError | null;
+  /** Mutates the (already cloned) state. Runs only after validate passed. */
+  apply: (state: MatchState, payload: any, ctx: ModeActionContext) => void;
+};
+
+export type ModeInitArgs = {
+  seats: Seat[];
+  format?: { winConditionCoinTarget?: number };
+};
+
+export type ModePlugin = {
+  modeCode: ModeCode;
+  /** MatchState key holding this mode's overlay slice. */
+  stateKey: "rookie" | "substitution" | "playmaker" | string;
+  initialState: (args: ModeInitArgs) => Record<string, unknown>;
+  onStart?: (state: MatchState) => void;
+  actions: Record<string, ModeActionHandler>;
+  detectEnd: (state: MatchState) => MatchEnd | null;
+  /** Live-game turn deadline; omitted = untimed. */
+  turnTimer?: TurnTimerPolicy;
+  /** Hidden-information rules for seat/spectator views; omitted = everything is public. */
+  views?: ModeViewRedactor;
+};
+
 export type Game = {
   id: string;
   modeCode: ModeCode;
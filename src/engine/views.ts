@@ -0,0 +1,46 @@
+// src/engine/views.ts
+// Seat-scoped and spectator projections of MatchState and its event stream.
+// Redaction rules live on each mode plugin (ModePlugin.views); modes without rules are fully public.
+// Projections are read-only copies: replay and persistence always use the unredacted state/events.
+
+import type { MatchState, Seat, Viewer } from "./types";
+import { getModePlugin } from "./modeRegistry";
+
+export const SPECTATOR: Viewer = Object.freeze({ kind: "SPECTATOR" }) as Viewer;
+
+export function seatViewer(seat: Seat): Viewer {
+  return { kind: "SEAT", seat };
+}
+
+export function projectStateForViewer(modeCode: unknown, state: MatchState, viewer: Viewer): MatchState {
+  const out: MatchState = JSON.parse(JSON.stringify(state ?? {}));
+  const views = getModePlugin(modeCode)?.views;
+  if (views) views.redactState(out, viewer);
+  return out;
+}
+
+/**
+ * GAME_SETUP eligibility packets list the owner's cards with lot/instance/listing ids; every mode keeps the full
+ * packet to its own seat, everyone else sees seat, deck, packet id, decision and signature.
+ */
+function redactSetupEligibility<E extends { type: string; payload?: unknown }>(event: E, viewer: Viewer): E {
+  const packets = (event.payload as any)?.eligibility?.packets;
+  if (event.type !== "GAME_SETUP" || !Array.isArray(packets)) return event;
+  for (const entry of packets) {
+    if (entry && typeof entry === "object" && !(viewer.kind === "SEAT" && viewer.seat === entry.seat)) delete entry.packet;
+  }
+  return event;
+}
+
+/** Events are redacted against the current state, so a later reveal also opens the earlier event. */
+export function projectEventsForViewer<E extends { type: string; payload?: unknown }>(
+  modeCode: unknown,
+  events: E[],
+  state: MatchState,
+  viewer: Viewer
+): E[] {
+  const views = getModePlugin(modeCode)?.views;
+  const copies: E[] = (JSON.parse(JSON.stringify(events ?? [])) as E[]).map((e) => redactSetupEligibility(e, viewer));
+  if (!views?.redactEvent) return copies;
+  return copies.map((e) => views.redactEvent!(e, state, viewer) as E);
+}
@@ -0,0 +1,185 @@
+// src/matchmaking/queue.v1.ts
+// Matchmaking Queue v1
+// Pure functions. No side effects. Callers inject "now" (routes read NOW_ISO).
+// - Event gating: queued play under an event requires the event to be LIVE; STRICT events reject invalid decks,
+//   ADVISORY events (or STRICT with the kill switch active) admit them with warnings.
+// - Pairing: entries sharing a queueKey are paired oldest-first; the acceptable rating gap widens with wait time.
+// - Timeouts: entries waiting longer than maxWaitSeconds leave the queue unpaired.
+
+import type { EnforcementLevel, EventV1 } from "../config/events.v1";
+
+export const QUEUE_DEFAULT_RATING = 1500;
+
+export type QueuePolicyV1 = {
+  /** Rating gap accepted immediately on enqueue. */
+  ratingBandBase: number;
+  /** Extra rating gap accepted per second waited. */
+  ratingBandWidenPerSecond: number;
+  ratingBandMax: number;
+  maxWaitSeconds: number;
+};
+
+export const DEFAULT_QUEUE_POLICY_V1: QueuePolicyV1 = {
+  ratingBandBase: 100,
+  ratingBandWidenPerSecond: 5,
+  ratingBandMax: 600,
+  maxWaitSeconds: 300,
+};
+
+export type QueuePointersV1 = {
+  modeCode: string;
+  gameModeId: string;
+  gameModeVersion: number;
+  formatId: string;
+  formatVersion: number;
+};
+
+export type QueueEntryV1 = {
+  id: string;
+  userId: string;
+  deckId: string;
+  queueKey: string;
+  rating: number;
+  enqueuedAt: string;
+};
+
+export type QueuePairV1 = {
+  /** Longer-waiting entry; takes seat 1. */
+  home: QueueEntryV1;
+  away: QueueEntryV1;
+  ratingGap: number;
+};
+
+export type QueueDeckValidationV1 = {
+  ok: boolean;
+  messages: string[];
+};
+
+export type QueueGateDecisionV1 = {
+  allowed: boolean;
+  eventId: string | null;
+  enforcement: EnforcementLevel | null;
+  /** STRICT downgraded to ADVISORY by the event kill switch. */
+  killSwitchApplied: boolean;
+  reasons: string[];
+  warnings: string[];
+};
+
+export function queueKeyV1(p: QueuePointersV1, eventId: string | null): string {
+  return [
+    p.modeCode.toUpperCase(),
+    `${p.gameModeId}@${p.gameModeVersion}`,
+    `${p.formatId}@${p.formatVersion}`,
+    eventId ?? "-",
+  ].join("|");
+}
+
+function secondsBetween(fromIso: string, toIso: string): number {
+  const from = new Date(fromIso).getTime();
+  const to = new Date(toIso).getTime();
+  if (!Number.isFinite(from) || !Number.isFinite(to)) throw new Error(`QUEUE_INVALID_TIME: ${fromIso} -> ${toIso}`);
+  return Math.max(0, (to - from) / 1000);
+}
+
+export function waitedSecondsV1(entry: QueueEntryV1, nowIso: string): number {
+  return secondsBetween(entry.enqueuedAt, nowIso);
+}
+
+export function ratingBandV1(entry: QueueEntryV1, nowIso: string, policy: QueuePolicyV1 = DEFAULT_QUEUE_POLICY_V1): number {
+  const widened = policy.ratingBandBase + policy.ratingBandWidenPerSecond * waitedSecondsV1(entry, nowIso);
+  return Math.min(policy.ratingBandMax, Math.floor(widened));
+}
+
+/**
+ * Decides whether a deck may join an event queue.
+ * No eventId = casual queue (always allowed). validation = null means the validator could not run.
+ */
+export function decideQueueGateV1(args: {
+  eventId: string | null;
+  event: EventV1 | null;
+  validation: QueueDeckValidationV1 | null;
+}): QueueGateDecisionV1 {
+  const { eventId, event, validation } = args;
+  const out: QueueGateDecisionV1 = {
+    allowed: true,
+    eventId,
+    enforcement: event?.enforcementLevel ?? null,
+    killSwitchApplied: false,
+    reasons: [],
+    warnings: [],
+  };
+
+  if (eventId === null) {
+    if (validation && !validation.ok) out.warnings.push(...validation.messages);
+    return out;
+  }
+
+  if (!event) return { ...out, allowed: false, reasons: ["EVENT_NOT_FOUND"] };
+  if (event.status !== "LIVE") return { ...out, allowed: false, reasons: [`EVENT_NOT_LIVE:${event.status}`] };
+
+  const strict = event.enforcementLevel === "STRICT" && !event.killSwitchActive;
+  out.killSwitchApplied = event.enforcementLevel === "STRICT" && !!event.killSwitchActive;
+
+  const problems = validation === null ? ["VALIDATOR_UNAVAILABLE"] : validation.ok ? [] : validation.messages;
+  if (problems.length === 0) return out;
+
+  if (strict) return { ...out, allowed: false, reasons: validation === null ? problems : ["DECK_INVALID", ...problems] };
+  out.warnings.push(...problems);
+  return out;
+}
+
+function byAge(a: QueueEntryV1, b: QueueEntryV1): number {
+  const t = new Date(a.enqueuedAt).getTime() - new Date(b.enqueuedAt).getTime();
+  return t !== 0 ? t : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/** Entries that have waited past policy.maxWaitSeconds at nowIso (oldest first). */
+export function expiredQueueEntriesV1(
+  entries: QueueEntryV1[],
+  nowIso: string,
+  policy: QueuePolicyV1 = DEFAULT_QUEUE_POLICY_V1
+): QueueEntryV1[] {
+  return entries.filter((e) => waitedSecondsV1(e, nowIso) > policy.maxWaitSeconds).sort(byAge);
+}
+
+/**
+ * Greedy pairing, oldest entry first. Two entries pair when they share a queueKey, belong to different users,
+ * and their rating gap fits inside the band of BOTH entries (so a newcomer is not dragged into a wide gap it
+ * has not waited for). Among candidates the smallest gap wins, then the longest wait.
+ */
+export function pairQueueEntriesV1(
+  entries: QueueEntryV1[],
+  nowIso: string,
+  policy: QueuePolicyV1 = DEFAULT_QUEUE_POLICY_V1
+): QueuePairV1[] {
+  const open = entries.filter((e) => waitedSecondsV1(e, nowIso) <= policy.maxWaitSeconds).sort(byAge);
+  const taken = new Set<string>();
+  const pairs: QueuePairV1[] = [];
+
+  for (const home of open) {
+    if (taken.has(home.id)) continue;
+    const homeBand = ratingBandV1(home, nowIso, policy);
+
+    let best: QueueEntryV1 | null = null;
+    let bestGap = Infinity;
+    for (const away of open) {
+      if (away.id === home.id || taken.has(away.id)) continue;
+      if (away.queueKey !== home.queueKey || away.userId === home.userId) continue;
+
+      const gap = Math.abs(home.rating - away.rating);
+      if (gap > homeBand || gap > ratingBandV1(away, nowIso, policy)) continue;
+      if (gap < bestGap) {
+        best = away;
+        bestGap = gap;
+      }
+    }
+
+    if (best) {
+      taken.add(home.id);
+      taken.add(best.id);
+      pairs.push({ home, away: best, ratingGap: bestGap });
+    }
+  }
+
+  return pairs;
+}
@@ -0,0 +1,218 @@
+// src/ratings/rating.v1.ts
+// Skill Ratings v1 (Glicko-1, one rating period per match)
+// Pure functions. No side effects. No clock: RD only shrinks with play, so replaying the same artifacts in the
+// same order always yields the same ratings.
+// Ratings are scoped per game mode + format pointer (ratingKey); competitors are the artifact identity fields.
+
+export const RATING_INITIAL = 1500;
+export const RD_INITIAL = 350;
+export const RD_MIN = 30;
+
+// Artifacts with this matchType never move ratings.
+export const UNRATED_MATCH_TYPES = new Set(["TRAINING"]);
+
+const Q = Math.log(10) / 400;
+
+export type GlickoRatingV1 = { rating: number; rd: number };
+
+export type CompetitorRatingV1 = GlickoRatingV1 & {
+  ratingKey: string;
+  competitorId: string;
+  matches: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  lastMatchId: string | null;
+};
+
+export type RatingHistoryEntryV1 = {
+  ratingKey: string;
+  competitorId: string;
+  opponentId: string;
+  matchId: string;
+  artifactId: string;
+  /** 1 win, 0.5 draw, 0 loss */
+  score: number;
+  ratingBefore: number;
+  rdBefore: number;
+  ratingAfter: number;
+  rdAfter: number;
+  /** This competitor's rated match count (1-based) within ratingKey. */
+  matchNumber: number;
+};
+
+// Observed EngineMatchArtifactV1 row shape (matchResultJson carries identity + winner)
+export type RatedArtifactV1 = {
+  id: string;
+  matchId: string;
+  formatId: string;
+  formatVersion: number;
+  gameModeId: string;
+  gameModeVersion: number;
+  createdAt: string | Date;
+  matchResultJson: any;
+};
+
+export type RatedOutcomeV1 = {
+  ratingKey: string;
+  homeId: string;
+  awayId: string;
+  /** Home score: 1 / 0.5 / 0 */
+  homeScore: number;
+};
+
+export function ratingKeyV1(p: { gameModeId: string; gameModeVersion: number; formatId: string; formatVersion: number }) {
+  return `${p.gameModeId}@${p.gameModeVersion}|${p.formatId}@${p.formatVersion}`;
+}
+
+/** The rated outcome of an artifact, or null when it cannot move ratings (no identity, self-play, unrated type). */
+export function ratedOutcomeV1(a: RatedArtifactV1): RatedOutcomeV1 | null {
+  const m = a.matchResultJson ?? {};
+  const homeId = typeof m.homeCompetitorId === "string" && m.homeCompetitorId ? m.homeCompetitorId : null;
+  const awayId = typeof m.awayCompetitorId === "string" && m.awayCompetitorId ? m.awayCompetitorId : null;
+  if (!homeId || !awayId || homeId === awayId) return null;
+  if (UNRATED_MATCH_TYPES.has(String(m.matchType ?? "").toUpperCase())) return null;
+
+  const winner = m.result?.winner;
+  const homeScore = winner === "HOME" ? 1 : winner === "AWAY" ? 0 : 0.5;
+  return { ratingKey: ratingKeyV1(a), homeId, awayId, homeScore };
+}
+
+/** Canonical processing order: creation time, then id. */
+export function compareArtifactsV1(a: { createdAt: string | Date; id: string }, b: { createdAt: string | Date; id: string }) {
+  const t = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  return t !== 0 ? t : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function g(rd: number): number {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * rd * rd) / (Math.PI * Math.PI));
+}
+
+function expectedScore(self: GlickoRatingV1, opp: GlickoRatingV1): number {
+  return 1 / (1 + Math.pow(10, (-g(opp.rd) * (self.rating - opp.rating)) / 400));
+}
+
+/** One Glicko-1 update of `self` against a single opponent (both pre-match values). */
+export function glickoUpdateV1(self: GlickoRatingV1, opp: GlickoRatingV1, score: number): GlickoRatingV1 {
+  const gOpp = g(opp.rd);
+  const e = expectedScore(self, opp);
+  const dSquared = 1 / (Q * Q * gOpp * gOpp * e * (1 - e));
+  const denom = 1 / (self.rd * self.rd) + 1 / dSquared;
+
+  return {
+    rating: self.rating + (Q / denom) * gOpp * (score - e),
+    rd: Math.max(RD_MIN, Math.sqrt(1 / denom)),
+  };
+}
+
+export function freshRatingV1(ratingKey: string, competitorId: string): CompetitorRatingV1 {
+  return {
+    ratingKey,
+    competitorId,
+    rating: RATING_INITIAL,
+    rd: RD_INITIAL,
+    matches: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    lastMatchId: null,
+  };
+}
+
+/**
+ * Applies one rated outcome to the two current ratings. Returns the updated records and one history entry
+ * per side; inputs are not mutated.
+ */
+export function applyOutcomeV1(args: {
+  artifact: { id: string; matchId: string };
+  outcome: RatedOutcomeV1;
+  home: CompetitorRatingV1;
+  away: CompetitorRatingV1;
+}): { home: CompetitorRatingV1; away: CompetitorRatingV1; history: RatingHistoryEntryV1[] } {
+  const { artifact, outcome, home, away } = args;
+  const homeAfter = glickoUpdateV1(home, away, outcome.homeScore);
+  const awayAfter = glickoUpdateV1(away, home, 1 - outcome.homeScore);
+
+  const advance = (r: CompetitorRatingV1, next: GlickoRatingV1, score: number): CompetitorRatingV1 => ({
+    ...r,
+    ...next,
+    matches: r.matches + 1,
+    wins: r.wins + (score === 1 ? 1 : 0),
+    losses: r.losses + (score === 0 ? 1 : 0),
+    draws: r.draws + (score === 0.5 ? 1 : 0),
+    lastMatchId: artifact.matchId,
+  });
+
+  const nextHome = advance(home, homeAfter, outcome.homeScore);
+  const nextAway = advance(away, awayAfter, 1 - outcome.homeScore);
+
+  const entry = (before: CompetitorRatingV1, after: CompetitorRatingV1, opponentId: string, score: number) => ({
+    ratingKey: outcome.ratingKey,
+    competitorId: before.competitorId,
+    opponentId,
+    matchId: artifact.matchId,
+    artifactId: artifact.id,
+    score,
+    ratingBefore: before.rating,
+    rdBefore: before.rd,
+    ratingAfter: after.rating,
+    rdAfter: after.rd,
+    matchNumber: after.matches,
+  });
+
+  return {
+    home: nextHome,
+    away: nextAway,
+    history: [
+      entry(home, nextHome, outcome.awayId, outcome.homeScore),
+      entry(away, nextAway, outcome.homeId, 1 - outcome.homeScore),
+    ],
+  };
+}
+
+/** Full recompute: every artifact in canonical order, from fresh ratings. */
+export function computeRatingsV1(artifacts: RatedArtifactV1[]): {
+  ratings: CompetitorRatingV1[];
+  history: RatingHistoryEntryV1[];
+  rated: number;
+  skipped: number;
+} {
+  const current = new Map<string, CompetitorRatingV1>();
+  const history: RatingHistoryEntryV1[] = [];
+  let rated = 0;
+  let skipped = 0;
+
+  const get = (ratingKey: string, competitorId: string) =>
+    current.get(`${ratingKey}::${competitorId}`) ?? freshRatingV1(ratingKey, competitorId);
+
+  for (const artifact of [...artifacts].sort(compareArtifactsV1)) {
+    const outcome = ratedOutcomeV1(artifact);
+    if (!outcome) {
+      skipped++;
+      continue;
+    }
+
+    const out = applyOutcomeV1({
+      artifact,
+      outcome,
+      home: get(outcome.ratingKey, outcome.homeId),
+      away: get(outcome.ratingKey, outcome.awayId),
+    });
+    current.set(`${outcome.ratingKey}::${outcome.homeId}`, out.home);
+    current.set(`${outcome.ratingKey}::${outcome.awayId}`, out.away);
+    history.push(...out.history);
+    rated++;
+  }
+
+  const ratings = Array.from(current.values()).sort((a, b) =>
+    a.ratingKey !== b.ratingKey ? a.ratingKey.localeCompare(b.ratingKey) : a.competitorId.localeCompare(b.competitorId)
+  );
+  return { ratings, history, rated, skipped };
+}
+
+/** Leaderboard order: rating desc, then lower RD (more certain), then competitorId. */
+export function compareLeaderboardV1(a: CompetitorRatingV1, b: CompetitorRatingV1): number {
+  if (b.rating !== a.rating) return b.rating - a.rating;
+  if (a.rd !== b.rd) return a.rd - b.rd;
+  return a.competitorId.localeCompare(b.competitorId);
+}
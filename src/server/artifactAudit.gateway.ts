@@ -0,0 +1,183 @@
+import type { PrismaClient } from "@prisma/client";
+import { loadAppConfigDefault, loadFormatRegistryDefault, loadGameModeRegistryDefault } from "../config/registryLoaders.v1";
+import { storedMatchFromArtifactRowV1 } from "../store/matchStore.prisma.v1";
+import { ENGINE_CODE_COMPAT_VERSION } from "../engine/engineCompat.v1";
+import { auditStoredMatchV1 } from "../store/replayAudit.v1";
+import {
+  assessReplayabilityV1,
+  summarizeReplayabilityV1,
+  type ReplayabilitySummaryV1,
+  type ReplayabilityV1,
+} from "../store/replayability.v1";
+
+/**
+ * Artifact audit gateway
+ *
+ * Goal:
+ *  - Replay every stored EngineMatchArtifactV1 in (createdAt, id) order and persist one AuditRecordV1 per artifact
+ *    (ArtifactAuditRecord), so drift introduced by engine changes shows up across the whole history.
+ *  - runArtifactAudit() resumes the open RUNNING run from its cursor; restart: true abandons it and starts over.
+ *  - replayabilityReport() lists artifacts an engine-compat bump has stranded (no pinned engine / no upgrade path).
+ *
+ * NOTE:
+ *  - One transaction per artifact: record, counters and cursor move together, so a killed run resumes cleanly.
+ *  - maxArtifacts bounds a single call (the run stays RUNNING until the artifact table is exhausted).
+ */
+
+const BATCH = 200;
+
+export type ArtifactAuditRunResult = {
+  runId: string;
+  status: "RUNNING" | "COMPLETED";
+  resumed: boolean;
+  audited: number;
+  scanned: number;
+  verified: number;
+  failed: number;
+};
+
+async function openRun(prisma: PrismaClient, restart: boolean): Promise<{ run: any; resumed: boolean }> {
+  const open = await (prisma as any).artifactAuditRun.findFirst({
+    where: { status: "RUNNING" },
+    orderBy: { startedAt: "desc" },
+  });
+
+  if (open && !restart) return { run: open, resumed: true };
+  if (open) {
+    await (prisma as any).artifactAuditRun.update({
+      where: { id: open.id },
+      data: { status: "COMPLETED", finishedAt: new Date() },
+    });
+  }
+  return { run: await (prisma as any).artifactAuditRun.create({ data: {} }), resumed: false };
+}
+
+export async function runArtifactAudit(
+  prisma: PrismaClient,
+  opts: { restart?: boolean; maxArtifacts?: number } = {}
+): Promise<ArtifactAuditRunResult> {
+  const appConfig = loadAppConfigDefault();
+  const formatRegistry = loadFormatRegistryDefault();
+  const gameModeRegistry = loadGameModeRegistryDefault();
+
+  const { run, resumed } = await openRun(prisma, !!opts.restart);
+  const limit = opts.maxArtifacts && opts.maxArtifacts > 0 ? Math.floor(opts.maxArtifacts) : Infinity;
+
+  let cursor = { lastCreatedAt: run.lastCreatedAt as Date | null, lastArtifactId: run.lastArtifactId as string | null };
+  let audited = 0;
+  let exhausted = false;
+
+  while (audited < limit) {
+    const after = cursor.lastCreatedAt
+      ? {
+          OR: [
+            { createdAt: { gt: cursor.lastCreatedAt } },
+            { createdAt: cursor.lastCreatedAt, id: { gt: cursor.lastArtifactId ?? "" } },
+          ],
+        }
+      : {};
+
+    const batch = await (prisma as any).engineMatchArtifactV1.findMany({
+      where: after,
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: Math.min(BATCH, limit - audited),
+    });
+    if (batch.length === 0) {
+      exhausted = true;
+      break;
+    }
+
+    for (const row of batch) {
+      const { record, fieldDiffs } = auditStoredMatchV1({
+        stored: storedMatchFromArtifactRowV1(row),
+        appConfig,
+        formatRegistry,
+        gameModeRegistry,
+        auditedAtIso: new Date().toISOString(),
+      });
+      const ok = record.status === "VERIFIED";
+
+      await prisma.$transaction(async (tx: any) => {
+        await tx.artifactAuditRecord.create({
+          data: {
+            runId: run.id,
+            artifactId: row.id,
+            matchId: row.matchId,
+            status: record.status,
+            diffsJson: fieldDiffs as any,
+            auditRecordJson: record as any,
+            auditedAt: new Date(record.auditedAt),
+          },
+        });
+        await tx.artifactAuditRun.update({
+          where: { id: run.id },
+          data: {
+            lastCreatedAt: row.createdAt,
+            lastArtifactId: row.id,
+            scanned: { increment: 1 },
+            verified: { increment: ok ? 1 : 0 },
+            failed: { increment: ok ? 0 : 1 },
+          },
+        });
+      });
+
+      cursor = { lastCreatedAt: row.createdAt, lastArtifactId: row.id };
+      audited++;
+    }
+  }
+
+  const latest = await (prisma as any).artifactAuditRun.update({
+    where: { id: run.id },
+    data: exhausted ? { status: "COMPLETED", finishedAt: new Date() } : {},
+  });
+
+  return {
+    runId: latest.id,
+    status: latest.status,
+    resumed,
+    audited,
+    scanned: latest.scanned,
+    verified: latest.verified,
+    failed: latest.failed,
+  };
+}
+
+/** Static replayability of every stored artifact against targetCompat; only problem artifacts are listed. */
+export async function replayabilityReport(
+  prisma: PrismaClient,
+  opts: { targetCompat?: number } = {}
+): Promise<{ summary: ReplayabilitySummaryV1; problems: Array<ReplayabilityV1 & { artifactId: string }> }> {
+  const appConfig = loadAppConfigDefault();
+  const formatRegistry = loadFormatRegistryDefault();
+  const gameModeRegistry = loadGameModeRegistryDefault();
+  const targetCompat = opts.targetCompat ?? ENGINE_CODE_COMPAT_VERSION;
+
+  const items: ReplayabilityV1[] = [];
+  const problems: Array<ReplayabilityV1 & { artifactId: string }> = [];
+  let cursorId: string | null = null;
+
+  for (;;) {
+    const batch: any[] = await (prisma as any).engineMatchArtifactV1.findMany({
+      orderBy: { id: "asc" },
+      take: BATCH,
+      ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+    });
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      const r = assessReplayabilityV1({
+        stored: storedMatchFromArtifactRowV1(row),
+        appConfig,
+        formatRegistry,
+        gameModeRegistry,
+        targetCompat,
+      });
+      items.push(r);
+      if (!r.replayable || !r.upgradable) problems.push({ ...r, artifactId: row.id });
+    }
+    cursorId = batch[batch.length - 1].id;
+    if (batch.length < BATCH) break;
+  }
+
+  return { summary: summarizeReplayabilityV1(items, targetCompat), problems };
+}
@@ -0,0 +1,98 @@
+// src/server/artifactAudit.routes.v1.ts
+// Admin: bulk determinism re-verification of stored engine artifacts (see artifactAudit.gateway).
+// Runs are resumable; failures = any ArtifactAuditRecord whose status is not VERIFIED.
+// Replayability: which artifacts an engine-compat bump leaves without a pinned engine or upgrade path.
+
+import type { FastifyInstance } from "fastify";
+import type { PrismaClient } from "@prisma/client";
+
+import { replayabilityReport, runArtifactAudit } from "./artifactAudit.gateway";
+
+function clampLimit(raw: any, fallback: number, max: number): number {
+  const n = Number(raw ?? fallback);
+  if (!Number.isInteger(n) || n < 1) return fallback;
+  return Math.min(n, max);
+}
+
+function runView(r: any) {
+  return {
+    id: r.id,
+    status: r.status,
+    scanned: r.scanned,
+    verified: r.verified,
+    failed: r.failed,
+    lastArtifactId: r.lastArtifactId ?? null,
+    startedAt: new Date(r.startedAt).toISOString(),
+    finishedAt: r.finishedAt ? new Date(r.finishedAt).toISOString() : null,
+  };
+}
+
+export async function registerArtifactAuditRoutesV1(app: FastifyInstance, prisma: PrismaClient) {
+  // POST /admin/audit/artifacts/run
+  // Body: { restart?: boolean, maxArtifacts?: number } — resumes the open run unless restart.
+  app.post("/admin/audit/artifacts/run", async (req: any, reply) => {
+    try {
+      const body = (req.body ?? {}) as any;
+      const maxArtifacts = body.maxArtifacts === undefined ? undefined : Number(body.maxArtifacts);
+      if (maxArtifacts !== undefined && (!Number.isInteger(maxArtifacts) || maxArtifacts < 1)) {
+        return reply.code(400).send({ ok: false, error: "maxArtifacts must be a positive integer" });
+      }
+
+      const out = await runArtifactAudit(prisma, { restart: body.restart === true, maxArtifacts });
+      return reply.send({ ok: true, ...out });
+    } catch (e: any) {
+      return reply.code(400).send({ ok: false, error: e?.message ?? "BAD_REQUEST" });
+    }
+  });
+
+  // GET /admin/audit/artifacts/runs?limit=
+  app.get("/admin/audit/artifacts/runs", async (req: any, reply) => {
+    const rows = await (prisma as any).artifactAuditRun.findMany({
+      orderBy: { startedAt: "desc" },
+      take: clampLimit(req.query?.limit, 20, 100),
+    });
+    return reply.send({ ok: true, runs: rows.map(runView) });
+  });
+
+  // GET /admin/audit/artifacts/failures?runId=&limit=
+  // Defaults to the most recent run.
+  app.get("/admin/audit/artifacts/failures", async (req: any, reply) => {
+    const runId = req.query?.runId ? String(req.query.runId) : null;
+    const run = runId
+      ? await (prisma as any).artifactAuditRun.findUnique({ where: { id: runId } })
+      : await (prisma as any).artifactAuditRun.findFirst({ orderBy: { startedAt: "desc" } });
+    if (!run) return reply.code(404).send({ ok: false, error: runId ? "run not found" : "no audit runs" });
+
+    const rows = await (prisma as any).artifactAuditRecord.findMany({
+      where: { runId: run.id, status: { not: "VERIFIED" } },
+      orderBy: { auditedAt: "asc" },
+      take: clampLimit(req.query?.limit, 100, 1000),
+    });
+
+    return reply.send({
+      ok: true,
+      run: runView(run),
+      count: rows.length,
+      failures: rows.map((r: any) => ({
+        matchId: r.matchId,
+        artifactId: r.artifactId,
+        status: r.status,
+        diffs: r.diffsJson ?? [],
+        auditRecord: r.auditRecordJson,
+        auditedAt: new Date(r.auditedAt).toISOString(),
+      })),
+    });
+  });
+
+  // GET /admin/audit/artifacts/replayability?targetCompat=
+  app.get("/admin/audit/artifacts/replayability", async (req: any, reply) => {
+    const raw = req.query?.targetCompat;
+    const targetCompat = raw === undefined ? undefined : Number(raw);
+    if (targetCompat !== undefined && (!Number.isInteger(targetCompat) || targetCompat < 1)) {
+      return reply.code(400).send({ ok: false, error: "targetCompat must be a positive integer" });
+    }
+
+    const out = await replayabilityReport(prisma, { targetCompat });
+    return reply.send({ ok: true, ...out });
+  });
+}
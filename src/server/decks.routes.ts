@@ -4,6 +4,7 @@
 
 import type { FastifyInstance } from "fastify";
 import { PrismaClient } from "@prisma/client";
+import { findDeckTournamentLock } from "./liveTournaments.gateway";
 
 declare global {
   // eslint-disable-next-line no-var
@@ -127,6 +128,10 @@ export async function registerDecksRoutes(app: FastifyInstance) {
     const deckExists = await prisma.deck.findUnique({ where: { id: deckId }, select: { id: true } });
     if (!deckExists) return reply.code(404).send({ error: "not_found", deckId });
 
+    // Registered in a running (or open) tournament: contents are frozen until it ends or the player withdraws.
+    const lock = await findDeckTournamentLock(prisma, deckId);
+    if (lock) return reply.code(409).send({ error: "deck_locked", deckId, tournamentId: lock.tournamentId, status: lock.status });
+
     // verify all versionKeys exist
     if (versionKeys.length > 0) {
       const found = await prisma.cardVersion.findMany({
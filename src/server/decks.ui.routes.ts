@@ -5,12 +5,14 @@
 //  - Collapsible errors/warnings
 //  - ModeRuleBinding validation dropdown (Mode -> RuleSet)
 //  - Run Match link (GET) that triggers POST /engine/matches/run internally and shows stored matchId.
+//  - Step-through replay of a stored match timeline (/ui/matches/:matchId/replay).
 // NOTE: Uses GET to avoid needing formbody middleware. No new dependencies.
 // No schema changes.
 
 import type { FastifyInstance } from "fastify";
 import { PrismaClient } from "@prisma/client";
 import { validateDecksForModeRuleSet } from "./engineValidation.gateway";
+import { loadMatchReplaySteps } from "./matchReplay.gateway";
 
 declare global {
   // eslint-disable-next-line no-var
@@ -442,6 +444,7 @@ app.get("/ui/matches", async (req, reply) => {
 
           <p style="margin-top:10px;">
             <a href="/engine/matches/${esc(row.matchId)}" target="_blank">Open Stored Match Artifact (JSON)</a>
+            · <a href="/ui/matches/${esc(row.matchId)}/replay">Step-through Replay</a>
           </p>
         </div>
 
@@ -486,6 +489,130 @@ app.get("/ui/matches", async (req, reply) => {
   });
 
 
+  // -----------------------------
+  // UI: Step-through replay (read-only)
+  // Scrub the stored timeline; ?idx= selects the step (GET only, like the rest of this file).
+  // -----------------------------
+  app.get("/ui/matches/:matchId/replay", async (req, reply) => {
+    const matchId = (req.params as any).matchId as string;
+
+    if (!/^M_[A-Za-z0-9_-]+$/.test(matchId)) {
+      return reply
+        .code(400)
+        .type("text/html; charset=utf-8")
+        .send(layout("Invalid matchId", `<h1>Match Replay</h1><p class="meta">Invalid matchId.</p><p><a href="/ui/matches">Back to Matches</a></p>`));
+    }
+
+    const replay = await loadMatchReplaySteps(prisma, matchId);
+    if (!replay) {
+      return reply
+        .code(404)
+        .type("text/html; charset=utf-8")
+        .send(
+          layout(
+            "Match Not Found",
+            `<h1>Match Not Found</h1><p class="meta"><code>${esc(matchId)}</code></p><p><a href="/ui/matches">Back to Matches</a></p>`
+          )
+        );
+    }
+
+    const steps = replay.steps;
+    const maxIdx = steps.length > 0 ? steps[steps.length - 1].idx : 0;
+    const rawIdx = Number((req.query as any)?.idx ?? maxIdx);
+    const step =
+      steps.find((s) => s.idx === rawIdx) ?? (rawIdx < (steps[0]?.idx ?? 0) ? steps[0] : steps[steps.length - 1]) ?? null;
+
+    const base = `/ui/matches/${encodeURIComponent(replay.matchId)}/replay`;
+    const pos = step ? steps.indexOf(step) : -1;
+    const prev = pos > 0 ? steps[pos - 1] : null;
+    const next = pos >= 0 && pos < steps.length - 1 ? steps[pos + 1] : null;
+
+    const result: any = replay.result ?? {};
+    const side = (s: "LS" | "OP") => (s === "LS" ? "LS (home)" : "OP (away)");
+
+    const stateBox = step
+      ? `
+        <div class="box">
+          <div><strong>Step ${esc(step.idx)}</strong> <span class="pill">${esc(step.eventType)}</span> <span class="muted">${esc(step.at)}</span></div>
+          <div class="row" style="margin-top:10px;">
+            <span class="pill">phase: ${esc(step.phase)}</span>
+            <span class="pill">${esc(side("LS"))}: ${esc(step.chips.LS)} chips</span>
+            <span class="pill">${esc(side("OP"))}: ${esc(step.chips.OP)} chips</span>
+            <span class="pill">battle: ${esc(step.battleIndex ?? "-")}</span>
+            <span class="pill">battles played: ${esc(step.battlesPlayed)}</span>
+            <span class="pill">SD round: ${esc(step.sdRound ?? "-")}</span>
+            ${step.winner ? `<span class="pill ok">winner: ${esc(side(step.winner))} (${esc(step.endMethod)})</span>` : ``}
+            ${!step.winner && step.endMethod ? `<span class="pill">${esc(step.endMethod)}</span>` : ``}
+          </div>
+          ${
+            step.lastResolve
+              ? `<div class="kv"><div><strong>Last resolve:</strong> <code>${esc(JSON.stringify(step.lastResolve))}</code></div></div>`
+              : ``
+          }
+          <div class="row" style="margin-top:12px;">
+            ${prev ? `<a class="linkBtn" href="${base}?idx=${esc(prev.idx)}">← Prev</a>` : `<span class="linkBtn muted">← Prev</span>`}
+            ${next ? `<a class="linkBtn" href="${base}?idx=${esc(next.idx)}">Next →</a>` : `<span class="linkBtn muted">Next →</span>`}
+          </div>
+          <form method="get" action="${base}" class="formRow">
+            <input type="range" name="idx" min="${esc(steps[0]?.idx ?? 0)}" max="${esc(maxIdx)}" value="${esc(step.idx)}" style="flex:1;" onchange="this.form.submit()" />
+            <noscript><button type="submit">Go</button></noscript>
+          </form>
+          <details>
+            <summary>Raw event</summary>
+            <pre style="white-space: pre-wrap;">${esc(prettyJson(step.event))}</pre>
+          </details>
+        </div>`
+      : `<div class="box"><p class="meta">No timeline events stored for this match.</p></div>`;
+
+    const stepRows = steps
+      .map((s) => {
+        const current = step && s.idx === step.idx;
+        return `<tr${current ? ` style="background:#eef6ff;"` : ``}>
+          <td><a href="${base}?idx=${esc(s.idx)}">${esc(s.idx)}</a></td>
+          <td><code>${esc(s.eventType)}</code></td>
+          <td>${esc(s.phase)}</td>
+          <td>${esc(s.chips.LS)} - ${esc(s.chips.OP)}</td>
+          <td>${esc(s.battleIndex ?? "")}</td>
+          <td>${esc(s.sdRound ?? "")}</td>
+        </tr>`;
+      })
+      .join("");
+
+    const html = layout(
+      `Replay ${replay.matchId}`,
+      `
+        <h1>Match Replay</h1>
+        <p class="meta"><strong>matchId:</strong> <code>${esc(replay.matchId)}</code></p>
+        <div class="row">
+          <span class="pill">result: ${esc(result.winner ?? "(unknown)")}</span>
+          <span class="pill">${esc(result.winReason ?? "")}</span>
+          <span class="pill">format: ${esc(replay.formatId)}@${esc(replay.formatVersion)}</span>
+          <span class="pill">mode: ${esc(replay.gameModeId)}@${esc(replay.gameModeVersion)}</span>
+          <span class="pill">chips ${replay.persistBetweenBattles ? "persist" : "reset each battle"}</span>
+        </div>
+
+        ${stateBox}
+
+        <div class="box">
+          <div><strong>Timeline</strong> <span class="muted">(${esc(steps.length)} steps)</span></div>
+          <table>
+            <thead><tr><th>idx</th><th>event</th><th>phase</th><th>chips LS - OP</th><th>battle</th><th>SD round</th></tr></thead>
+            <tbody>
+              ${stepRows || `<tr><td colspan="6">No timeline events.</td></tr>`}
+            </tbody>
+          </table>
+        </div>
+
+        <p style="margin-top:20px;">
+          <a href="/engine/matches/${esc(replay.matchId)}/steps" target="_blank">Steps (JSON)</a> ·
+          <a href="/ui/matches">Back to Matches</a>
+        </p>
+      `
+    );
+
+    return reply.type("text/html; charset=utf-8").send(html);
+  });
+
   app.get("/ui/decks", async (_req, reply) => {
     const decks = await prisma.deck.findMany({
       where: { archivedAt: null },
@@ -0,0 +1,179 @@
+import type { PrismaClient } from "@prisma/client";
+import {
+  EligibilityDecisionErrorV1,
+  buildValidateDeckBridgeFromEligibilityPacketV1,
+} from "../contracts/gameplay/v1/EligibilityBridgeV1";
+import type { EligibilityPacketV1, EligibilityToValidateDeckBridgeV1 } from "../contracts/gameplay/v1/EligibilityPacketV1";
+import {
+  buildDeckEligibilityPacketV1,
+  describeEligibilityShortfallV1,
+  type OwnershipHoldingsV1,
+} from "../eligibility/ownershipEligibility.v1";
+import { LIVE_TOURNAMENT_BINDING_V1, normalizeLiveTournamentConfigV1 } from "../tournaments/liveTournament.v1";
+
+/**
+ * Ownership eligibility gateway
+ *
+ * Goal:
+ *  - Build an EligibilityPacketV1 per deck from the owner's OwnershipLot / UserCardInstance rows plus APPROVED
+ *    Verification rows; copies held by open listings are excluded.
+ *  - POST /games/:id/setup runs every seated deck's packet through buildValidateDeckBridgeFromEligibilityPacketV1:
+ *    games of an ownedOnly event (live tournament config.ownedOnly) reject a deck the player does not fully own.
+ *
+ * NOTE:
+ *  - Casual games are not ownedOnly: their packets are ELIGIBLE and only record what is owned.
+ *  - Packets are returned unsigned; the caller signs them (signing.gateway) before storing them on GAME_SETUP,
+ *    where only the packet's own seat sees it in full (engine/views).
+ */
+
+const OPEN_LISTING_STATUSES = ["ACTIVE", "PAUSED"];
+
+export type GameDeckEligibilityV1 = {
+  seat: number;
+  deckId: string;
+  packet: EligibilityPacketV1;
+  bridge: EligibilityToValidateDeckBridgeV1 | null;
+};
+
+export type GameEligibilityResultV1 =
+  | { ok: true; ownedOnly: boolean; decks: GameDeckEligibilityV1[] }
+  | {
+      ok: false;
+      ownedOnly: boolean;
+      decks: GameDeckEligibilityV1[];
+      failure: { seat: number; deckId: string; code: string; message: string; reasons: EligibilityPacketV1["reasons"] };
+    };
+
+export async function loadOwnershipHoldings(prisma: PrismaClient, ownerId: string, versionKeys: string[]): Promise<OwnershipHoldingsV1> {
+  if (versionKeys.length === 0) return { lots: [], listed: [], instances: [] };
+
+  const lots = await (prisma as any).ownershipLot.findMany({
+    where: { ownerId, versionKey: { in: versionKeys } },
+    select: { id: true, versionKey: true, qtyAvailable: true },
+  });
+
+  const listingLines = await (prisma as any).listingLine.findMany({
+    where: { versionKey: { in: versionKeys }, listing: { sellerId: ownerId, status: { in: OPEN_LISTING_STATUSES } } },
+    select: { listingId: true, versionKey: true, qtyListed: true, qtySold: true },
+  });
+
+  const instances = await (prisma as any).userCardInstance.findMany({
+    where: { ownerId, versionKey: { in: versionKeys } },
+    select: {
+      id: true,
+      versionKey: true,
+      verifications: { where: { status: "APPROVED" }, select: { id: true }, orderBy: { decidedAt: "asc" }, take: 1 },
+      listings: {
+        where: { sold: false, listing: { status: { in: OPEN_LISTING_STATUSES } } },
+        select: { listingId: true },
+        take: 1,
+      },
+    },
+  });
+
+  // Version-scope approvals vouch for every instance of that version the owner holds.
+  const versionApprovals = await (prisma as any).verification.findMany({
+    where: { ownerId, scope: "VERSION", status: "APPROVED", versionKey: { in: versionKeys } },
+    select: { id: true, versionKey: true },
+  });
+  const approvedByVersion = new Map<string, string>();
+  for (const v of versionApprovals) if (!approvedByVersion.has(v.versionKey)) approvedByVersion.set(v.versionKey, v.id);
+
+  return {
+    lots: lots.map((l: any) => ({ lotId: l.id, versionKey: l.versionKey, qtyAvailable: Number(l.qtyAvailable ?? 0) })),
+    listed: listingLines.map((l: any) => ({
+      listingId: l.listingId,
+      versionKey: l.versionKey,
+      qty: Number(l.qtyListed ?? 0) - Number(l.qtySold ?? 0),
+    })),
+    instances: instances.map((i: any) => ({
+      instanceId: i.id,
+      versionKey: i.versionKey,
+      approvedVerificationId: i.verifications?.[0]?.id ?? approvedByVersion.get(i.versionKey) ?? null,
+      listingId: i.listings?.[0]?.listingId ?? null,
+    })),
+  };
+}
+
+export async function buildDeckEligibilityPacket(
+  prisma: PrismaClient,
+  args: { deckId: string; ownedOnly: boolean; context: EligibilityPacketV1["context"]; packetId: string; now: Date }
+): Promise<EligibilityPacketV1> {
+  const deck = await (prisma as any).deck.findUnique({
+    where: { id: args.deckId },
+    select: { id: true, name: true, ownerUserId: true, cards: { select: { versionKey: true, qty: true } } },
+  });
+  if (!deck) throw new Error(`DECK_NOT_FOUND: ${args.deckId}`);
+
+  const lines = (deck.cards ?? []).map((c: any) => ({ versionKey: String(c.versionKey), qty: Number(c.qty ?? 0) }));
+  const holdings = deck.ownerUserId
+    ? await loadOwnershipHoldings(prisma, deck.ownerUserId, [...new Set<string>(lines.map((l: any) => l.versionKey))])
+    : { lots: [], listed: [], instances: [] };
+
+  return buildDeckEligibilityPacketV1({
+    eligibilityPacketId: args.packetId,
+    issuedAtIso: args.now.toISOString(),
+    context: args.context,
+    deck: { deckId: deck.id, deckName: deck.name, ownerUserId: deck.ownerUserId ?? null, lines },
+    holdings,
+    ownedOnly: args.ownedOnly,
+  });
+}
+
+/** One packet + bridge per seated deck; stops at the first deck the bridge rejects. */
+export async function checkGameEligibility(prisma: PrismaClient, args: { gameId: string; now: Date }): Promise<GameEligibilityResultV1> {
+  const game = await (prisma as any).game.findUnique({
+    where: { id: args.gameId },
+    include: { players: { orderBy: { seat: "asc" } } },
+  });
+  if (!game) throw new Error(`GAME_NOT_FOUND: ${args.gameId}`);
+
+  const tg = await (prisma as any).tournamentGame.findUnique({
+    where: { gameId: args.gameId },
+    include: { tournament: { select: { id: true, configJson: true } } },
+  });
+  const ownedOnly = Boolean(tg && normalizeLiveTournamentConfigV1(tg.tournament.configJson).ownedOnly);
+  const modeCode = String(game.modeCode ?? "");
+
+  const decks: GameDeckEligibilityV1[] = [];
+  for (const p of game.players ?? []) {
+    const packet = await buildDeckEligibilityPacket(prisma, {
+      deckId: p.deckId,
+      ownedOnly,
+      context: {
+        universeCode: LIVE_TOURNAMENT_BINDING_V1.universeCode,
+        modeCode,
+        ...(tg ? { tournamentId: tg.tournamentId, matchId: tg.matchId } : {}),
+      },
+      packetId: `ELIG_${args.gameId}_S${p.seat}`,
+      now: args.now,
+    });
+
+    try {
+      const bridge = buildValidateDeckBridgeFromEligibilityPacketV1({
+        packet,
+        ...LIVE_TOURNAMENT_BINDING_V1,
+        modeCode,
+        options: { allowUnknown: !ownedOnly },
+      });
+      decks.push({ seat: p.seat, deckId: p.deckId, packet, bridge });
+    } catch (e: any) {
+      if (!(e instanceof EligibilityDecisionErrorV1)) throw e;
+      decks.push({ seat: p.seat, deckId: p.deckId, packet, bridge: null });
+      const detail = describeEligibilityShortfallV1(packet);
+      return {
+        ok: false,
+        ownedOnly,
+        decks,
+        failure: {
+          seat: p.seat,
+          deckId: p.deckId,
+          code: e.code,
+          message: `seat ${p.seat} deck ${p.deckId}${detail ? `: ${detail}` : ""}`,
+          reasons: packet.reasons,
+        },
+      };
+    }
+  }
+  return { ok: true, ownedOnly, decks };
+}
@@ -0,0 +1,85 @@
+import type { PrismaClient } from "@prisma/client";
+import { readKitManifestV1, runKitConformanceV1 } from "../engine/engineConformance.v1";
+
+/**
+ * Engine conformance gateway
+ *
+ * Goal:
+ *  - Run a bolt-on kit manifest through the conformance suite and persist the outcome (EngineConformanceRun) with
+ *    the kit identity + manifest hash, so "which exact kit passed" is answerable later.
+ *  - latestConformanceRun() feeds the activation gate in engineRegistry.gateway.
+ *
+ * NOTE:
+ *  - Manifests must live under the repo root (process.cwd()): the kit's adapter is imported / its engine spawned.
+ *  - An unreadable/invalid manifest throws (KIT_MANIFEST_*) and records nothing — there is no kit to attribute it to.
+ */
+
+function runView(row: any) {
+  return {
+    id: row.id,
+    kitId: row.kitId,
+    kitVersion: row.kitVersion,
+    engineCode: row.engineCode,
+    engineVersion: row.engineVersion,
+    manifestPath: row.manifestPath,
+    manifestHash: row.manifestHash,
+    status: row.status,
+    ranAt: new Date(row.ranAt).toISOString(),
+  };
+}
+
+export type EngineConformanceRunView = ReturnType<typeof runView>;
+
+export async function runEngineConformance(prisma: PrismaClient, args: { manifestPath: string; seed?: string }) {
+  const loaded = readKitManifestV1(args.manifestPath, { root: process.cwd() });
+  const run = await runKitConformanceV1(loaded, { seed: args.seed });
+
+  const row = await (prisma as any).engineConformanceRun.create({
+    data: {
+      kitId: run.kit.kitId,
+      kitVersion: run.kit.kitVersion,
+      engineCode: run.kit.engine.engineCode,
+      engineVersion: run.kit.engine.engineVersion,
+      manifestPath: run.manifestPath,
+      manifestHash: run.manifestHash,
+      status: run.result.status,
+      resultJson: run.result as any,
+      suiteResultJson: run.suiteResult as any,
+      ranAt: new Date(run.result.ranAt),
+    },
+  });
+
+  return { run: runView(row), result: run.result, suiteResult: run.suiteResult };
+}
+
+export async function latestConformanceRun(
+  prisma: PrismaClient,
+  engine: { engineCode: string; engineVersion: string }
+): Promise<EngineConformanceRunView | null> {
+  const row = await (prisma as any).engineConformanceRun.findFirst({
+    where: { engineCode: engine.engineCode, engineVersion: engine.engineVersion },
+    orderBy: [{ ranAt: "desc" }, { id: "desc" }],
+  });
+  return row ? runView(row) : null;
+}
+
+export async function listConformanceRuns(
+  prisma: PrismaClient,
+  filter: { engineCode?: string; engineVersion?: string; kitId?: string; limit?: number }
+) {
+  const rows = await (prisma as any).engineConformanceRun.findMany({
+    where: {
+      ...(filter.engineCode ? { engineCode: filter.engineCode } : {}),
+      ...(filter.engineVersion ? { engineVersion: filter.engineVersion } : {}),
+      ...(filter.kitId ? { kitId: filter.kitId } : {}),
+    },
+    orderBy: [{ ranAt: "desc" }, { id: "desc" }],
+    take: filter.limit ?? 50,
+  });
+  return rows.map(runView);
+}
+
+export async function getConformanceRun(prisma: PrismaClient, id: string) {
+  const row = await (prisma as any).engineConformanceRun.findUnique({ where: { id } });
+  return row ? { run: runView(row), result: row.resultJson, suiteResult: row.suiteResultJson } : null;
+}
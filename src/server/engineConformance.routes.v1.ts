@@ -0,0 +1,52 @@
+// src/server/engineConformance.routes.v1.ts
+// Engine conformance v1 (see engineConformance.gateway): certify a bolt-on kit manifest on demand and read back past
+// runs. A PASS here is what POST /admin/engine/bindings/:bindingId/status requires before ACTIVE.
+
+import type { FastifyInstance } from "fastify";
+import type { PrismaClient } from "@prisma/client";
+
+import { getConformanceRun, listConformanceRuns, runEngineConformance } from "./engineConformance.gateway";
+
+export async function registerEngineConformanceRoutesV1(app: FastifyInstance, prisma: PrismaClient) {
+  // POST /admin/engine/conformance/runs
+  // Body: { manifestPath: string (repo-relative, e.g. "kits/mockEngine.kit.json"), seed?: string }
+  app.post("/admin/engine/conformance/runs", async (req: any, reply) => {
+    const body = (req.body ?? {}) as any;
+    const manifestPath = typeof body.manifestPath === "string" ? body.manifestPath.trim() : "";
+    if (!manifestPath) return reply.code(400).send({ ok: false, error: "manifestPath required" });
+    const seed = typeof body.seed === "string" && body.seed ? body.seed : undefined;
+
+    try {
+      const out = await runEngineConformance(prisma, { manifestPath, seed });
+      return reply.send({ ok: true, ...out });
+    } catch (e: any) {
+      const msg = String(e?.message ?? "BAD_REQUEST");
+      return reply.code(msg.startsWith("KIT_MANIFEST_NOT_FOUND") ? 404 : 400).send({ ok: false, error: msg });
+    }
+  });
+
+  // GET /admin/engine/conformance/runs?engineCode=&engineVersion=&kitId=&limit=
+  app.get("/admin/engine/conformance/runs", async (req: any, reply) => {
+    const q = (req.query ?? {}) as any;
+    const limit = q.limit === undefined ? undefined : Number(q.limit);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 500)) {
+      return reply.code(400).send({ ok: false, error: "limit must be an integer in 1..500" });
+    }
+    const str = (x: any) => (typeof x === "string" && x ? x : undefined);
+
+    const runs = await listConformanceRuns(prisma, {
+      engineCode: str(q.engineCode),
+      engineVersion: str(q.engineVersion),
+      kitId: str(q.kitId),
+      limit,
+    });
+    return reply.send({ ok: true, runs });
+  });
+
+  // GET /admin/engine/conformance/runs/:runId — includes the per-test results.
+  app.get("/admin/engine/conformance/runs/:runId", async (req: any, reply) => {
+    const out = await getConformanceRun(prisma, String(req.params?.runId ?? ""));
+    if (!out) return reply.code(404).send({ ok: false, error: "run not found" });
+    return reply.send({ ok: true, ...out });
+  });
+}
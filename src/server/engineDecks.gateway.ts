@@ -0,0 +1,60 @@
+import type { PrismaClient } from "@prisma/client";
+import type { RunnerDeckCardV1, RunnerDecksV1 } from "../engine/decks.v1";
+
+/**
+ * Engine deck loader gateway
+ *
+ * Goal:
+ *  - Load both players' DeckCardVersion lists + catalog facts (conceptType, attributes.power) for the runner.
+ *  - Lines are sorted by versionKey so the AS_BUILT order is stable across DB reads.
+ *
+ * NOTE:
+ *  - Returns null when either deckId is missing (caller falls back to the seed-only runner path).
+ *  - Throws RUNNER_DECK_NOT_FOUND when a deckId does not resolve.
+ */
+
+function ensureObj(x: any): Record<string, any> {
+  return x && typeof x === "object" && !Array.isArray(x) ? x : {};
+}
+
+async function loadDeckLines(prisma: PrismaClient, deckId: string): Promise<RunnerDeckCardV1[]> {
+  const deck = await (prisma as any).deck.findUnique({
+    where: { id: deckId },
+    select: {
+      id: true,
+      cards: {
+        orderBy: { versionKey: "asc" },
+        select: {
+          versionKey: true,
+          qty: true,
+          cardVersion: { select: { conceptType: true, attributes: true } },
+        },
+      },
+    },
+  });
+  if (!deck) throw new Error(`RUNNER_DECK_NOT_FOUND: ${deckId}`);
+
+  return (deck.cards ?? []).map((c: any) => {
+    const power = Number(ensureObj(c.cardVersion?.attributes).power);
+    return {
+      versionKey: String(c.versionKey),
+      qty: Number(c.qty ?? 0),
+      conceptType: String(c.cardVersion?.conceptType ?? ""),
+      power: Number.isFinite(power) ? power : null,
+    };
+  });
+}
+
+export async function loadRunnerDecks(opts: {
+  prisma: PrismaClient;
+  homeDeckId: string | null;
+  awayDeckId: string | null;
+}): Promise<RunnerDecksV1 | null> {
+  const { prisma, homeDeckId, awayDeckId } = opts;
+  if (!homeDeckId || !awayDeckId) return null;
+
+  return {
+    LS: await loadDeckLines(prisma, homeDeckId),
+    OP: await loadDeckLines(prisma, awayDeckId),
+  };
+}
@@ -10,6 +10,20 @@
 // - matchType is NOT locked. Caller may pass matchType (e.g., TRAINING, RANKED, TOURNAMENT).
 // - Default matchType to TRAINING when omitted/blank.
 // - Persist matchType inside matchResultJson (JSON payload) without schema changes.
+//
+// Patch v1.0.3:
+// - Optional homeDeckId/awayDeckId: battles are decided by the decks' HERO power; deck lists persist in snapshotsJson.decks.
+//
+// Patch v1.0.4:
+// - GET /engine/matches/:matchId/steps: reconstructed session state after each timeline index (step-through replay).
+//
+// Patch v1.0.5:
+// - Stored artifacts are signed (MATCH_ARTIFACT, signing.gateway); verify at GET /signing/matches/:matchId.
+//
+// Patch v1.0.6:
+// - Optional universeCode: the match is dispatched through the engine registry (engineRegistry.gateway) — binding
+//   resolved by universeCode + modeCode, runUniverseMatchPreflightV1 (deckTags from the body), then the bound
+//   adapter. Stored in EngineAdapterMatchV1; without universeCode the built-in runner path is unchanged.
 
 import { FastifyInstance } from "fastify";
 import { PrismaClient } from "@prisma/client";
@@ -17,6 +31,14 @@ import { PrismaClient } from "@prisma/client";
 import { loadAppConfigDefault, loadFormatRegistryDefault, loadGameModeRegistryDefault } from "../config/registryLoaders.v1";
 import { replayOnceV1 } from "../engine/replayHarness.v1";
 import { buildPostGameBundleV1 } from "../postgame/postGameBundle.v1";
+import type { IdString, JSONObject } from "../contracts/gameplay/v1/MatchArtifactV1";
+import { runBoundMatchV1 } from "../engine/engineRegistry.v1";
+import { loadRunnerDecks } from "./engineDecks.gateway";
+import { bindingStatusOverrides, engineRegistry, saveAdapterMatch } from "./engineRegistry.gateway";
+import { loadMatchReplaySteps } from "./matchReplay.gateway";
+import { syncRatings } from "./ratings.gateway";
+import { signStoredRecord } from "./signing.gateway";
+import { MatchStorePrismaV1 } from "../store/matchStore.prisma.v1";
 
 function newId(prefix: string): string {
   return `${prefix}_${cryptoRandom()}`;
@@ -32,6 +54,108 @@ function upper(s: any): string {
   return String(s ?? "").trim().toUpperCase();
 }
 
+function stringList(x: any): string[] {
+  return Array.isArray(x) ? x.filter((t) => typeof t === "string" && t.trim()).map((t) => t.trim()) : [];
+}
+
+/** Universe path of POST /engine/matches/run: registry binding -> preflight -> adapter -> EngineAdapterMatchV1. */
+async function runUniverseMatch(
+  prisma: PrismaClient,
+  args: {
+    body: any;
+    universeCode: string;
+    sessionId: string;
+    matchId: string;
+    matchType: string;
+    homeCompetitorId: string | null;
+    awayCompetitorId: string | null;
+  }
+): Promise<{ code: number; payload: any }> {
+  const { body } = args;
+  const registry = engineRegistry();
+
+  const lookup = registry.lookup(await bindingStatusOverrides(prisma));
+  const resolved = await lookup.resolveForMode(args.universeCode, upper(body.modeCode ?? "") || null);
+  if (!resolved.ok) return { code: 409, payload: { ok: false, error: resolved.code, message: resolved.message } };
+  const { binding, modeCode } = resolved;
+
+  const homeDeckId = typeof body.homeDeckId === "string" && body.homeDeckId.trim() ? body.homeDeckId.trim() : null;
+  const awayDeckId = typeof body.awayDeckId === "string" && body.awayDeckId.trim() ? body.awayDeckId.trim() : null;
+  const decks = await loadRunnerDecks({ prisma, homeDeckId, awayDeckId });
+
+  const participants = [
+    { participantId: (args.homeCompetitorId ?? "HOME") as IdString, extra: { side: "HOME" } as JSONObject },
+    { participantId: (args.awayCompetitorId ?? "AWAY") as IdString, extra: { side: "AWAY" } as JSONObject },
+  ];
+
+  const outcome = await runBoundMatchV1({
+    universes: registry.universes,
+    binding,
+    adapter: registry.adapterFor(binding.bindingId),
+    modeCode,
+    deckTags: stringList(body.deckTags),
+    decks: decks
+      ? [
+          { deckId: homeDeckId!, cardVersionKeys: decks.LS.map((c) => c.versionKey) },
+          { deckId: awayDeckId!, cardVersionKeys: decks.OP.map((c) => c.versionKey) },
+        ]
+      : [],
+    matchId: args.matchId,
+    seed: String(body.seed ?? args.matchId),
+    participants,
+    inputs: {
+      participants: participants.map((p) => ({ participantId: p.participantId })),
+      matchType: args.matchType,
+      deckIds: decks ? [homeDeckId!, awayDeckId!] : [],
+    } as JSONObject,
+  });
+
+  const bindingView = {
+    bindingId: binding.bindingId,
+    universeCode: binding.universeCode,
+    engineCode: binding.engineCode,
+    engineVersion: binding.engineVersion,
+    modeCode,
+  };
+
+  if (!outcome.ok && outcome.stage === "PREFLIGHT") {
+    return {
+      code: 403,
+      payload: { ok: false, error: outcome.preflight.violationCode, binding: bindingView, preflight: outcome.preflight },
+    };
+  }
+  if (!outcome.ok) {
+    return {
+      code: 422,
+      payload: { ok: false, error: "ENGINE_RUN_FAILED", binding: bindingView, step: outcome.step, errors: outcome.errors },
+    };
+  }
+
+  const row = await saveAdapterMatch(prisma, {
+    sessionId: args.sessionId,
+    binding,
+    modeCode,
+    preflight: outcome.preflight,
+    artifact: outcome.artifact,
+  });
+
+  return {
+    code: 200,
+    payload: {
+      ok: true,
+      stored: {
+        id: row.id,
+        matchId: row.matchId,
+        sessionId: row.sessionId,
+        createdAt: new Date(row.createdAt).toISOString(),
+      },
+      binding: bindingView,
+      preflight: outcome.preflight,
+      artifact: outcome.artifact,
+    },
+  };
+}
+
 export async function registerEngineMatchRoutes(app: FastifyInstance, prisma: PrismaClient) {
   // Boot-load registries once (read-only)
   const appConfig = loadAppConfigDefault();
@@ -75,6 +199,21 @@ export async function registerEngineMatchRoutes(app: FastifyInstance, prisma: Pr
           ? body.awayCompetitorId.trim()
           : null;
 
+      // Universe-bound engines (Patch v1.0.6)
+      const universeCode = upper(body.universeCode ?? "");
+      if (universeCode) {
+        const out = await runUniverseMatch(prisma, {
+          body,
+          universeCode,
+          sessionId,
+          matchId,
+          matchType,
+          homeCompetitorId,
+          awayCompetitorId,
+        });
+        return reply.code(out.code).send(out.payload);
+      }
+
       // Optional ruleset snapshot (modeKey → binding → ruleset)
       const modeKey = upper(body.modeKey ?? body.modeCode ?? "");
       let ruleSetSnapshot: { ruleSetKey: string; ruleSetVersion: number } | null = null;
@@ -102,6 +241,11 @@ export async function registerEngineMatchRoutes(app: FastifyInstance, prisma: Pr
         }
       }
 
+      // Optional decks: when both are given, battles are decided by their HERO cards.
+      const homeDeckId = typeof body.homeDeckId === "string" && body.homeDeckId.trim() ? body.homeDeckId.trim() : null;
+      const awayDeckId = typeof body.awayDeckId === "string" && body.awayDeckId.trim() ? body.awayDeckId.trim() : null;
+      const decks = await loadRunnerDecks({ prisma, homeDeckId, awayDeckId });
+
       // Run (certified)
       const matchResult = replayOnceV1({
         inputs: {
@@ -109,6 +253,7 @@ export async function registerEngineMatchRoutes(app: FastifyInstance, prisma: Pr
           matchId,
           pointer,
           ruleSetJson, // optional (null allowed)
+          decks, // optional (null => seed-only)
         } as any,
         appConfig,
         formatRegistry,
@@ -130,44 +275,43 @@ export async function registerEngineMatchRoutes(app: FastifyInstance, prisma: Pr
       const bundle = buildPostGameBundleV1({ matchResult: matchResultWithIdentity });
 
       // Persist (Milestone C2 model)
-      const row = await prisma.engineMatchArtifactV1.create({
-        data: {
-          matchId: matchResult.matchId,
-          sessionId: matchResult.sessionId,
-
-          formatId: matchResult.formatId,
-          formatVersion: matchResult.formatVersion,
-          gameModeId: matchResult.gameModeId,
-          gameModeVersion: matchResult.gameModeVersion,
-          engineCompatVersion: matchResult.engineCompatVersion,
-
-          pointerJson: pointer as any,
-          snapshotsJson: {
-            formatSnapshot: {
-              formatId: matchResult.formatId,
-              formatVersion: matchResult.formatVersion,
-              engineCompatVersion: matchResult.engineCompatVersion,
-            },
-            gameModeSnapshot: {
-              gameModeId: matchResult.gameModeId,
-              gameModeVersion: matchResult.gameModeVersion,
-              engineCompatVersion: matchResult.engineCompatVersion,
-            },
-            ruleSetSnapshot: ruleSetSnapshot ?? null,
-            ruleSetJson: ruleSetJson ?? null,
-          } as any,
-          matchResultJson: matchResultWithIdentity as any,
-          insightRecordJson: bundle.insightRecord as any,
+      const row = await new MatchStorePrismaV1(prisma).save({
+        matchId: matchResult.matchId,
+        sessionId: matchResult.sessionId,
+        pointer: pointer as any,
+        snapshots: {
+          formatSnapshot: {
+            formatId: matchResult.formatId,
+            formatVersion: matchResult.formatVersion,
+            engineCompatVersion: matchResult.engineCompatVersion,
+          },
+          gameModeSnapshot: {
+            gameModeId: matchResult.gameModeId,
+            gameModeVersion: matchResult.gameModeVersion,
+            engineCompatVersion: matchResult.engineCompatVersion,
+          },
+          ruleSetSnapshot: ruleSetSnapshot ?? null,
+          ruleSetJson: ruleSetJson ?? null,
+          decks: decks ?? null,
         },
+        matchResult: matchResultWithIdentity,
+        insightRecord: bundle.insightRecord,
+        createdAtIso: new Date().toISOString(),
       });
 
+      // Ratings are derived; a sync failure must not fail the stored artifact (ratings_recompute repairs).
+      await syncRatings(prisma).catch((e) => req.log.warn({ err: e }, "ratings sync failed"));
+      await signStoredRecord(prisma, "MATCH_ARTIFACT", row.matchId).catch((e) =>
+        req.log.warn({ err: e }, "artifact signing failed (POST /admin/signing/backfill repairs)")
+      );
+
       return reply.send({
         ok: true,
         stored: {
-          id: row.id,
+          id: row.storeId,
           matchId: row.matchId,
           sessionId: row.sessionId,
-          createdAt: row.createdAt,
+          createdAt: row.createdAtIso,
         },
         bundle,
       });
@@ -185,7 +329,11 @@ export async function registerEngineMatchRoutes(app: FastifyInstance, prisma: Pr
       if (!matchId) throw new Error("BAD_REQUEST");
 
       const row = await prisma.engineMatchArtifactV1.findUnique({ where: { matchId } });
-      if (!row) return reply.code(404).send({ ok: false, error: "NOT_FOUND" });
+      if (!row) {
+        const adapterRow = await (prisma as any).engineAdapterMatchV1.findUnique({ where: { matchId } });
+        if (!adapterRow) return reply.code(404).send({ ok: false, error: "NOT_FOUND" });
+        return reply.send({ ok: true, source: "ENGINE_BINDING", row: adapterRow });
+      }
 
       return reply.send({
         ok: true,
@@ -195,4 +343,29 @@ export async function registerEngineMatchRoutes(app: FastifyInstance, prisma: Pr
       return reply.code(400).send({ ok: false, error: e.message ?? "BAD_REQUEST" });
     }
   });
+
+  // -------------------------------
+  // GET /engine/matches/:matchId/steps?idx=
+  // -------------------------------
+  app.get("/engine/matches/:matchId/steps", async (req: any, reply) => {
+    try {
+      const matchId = String(req.params?.matchId ?? "");
+      if (!matchId) throw new Error("BAD_REQUEST");
+
+      const replay = await loadMatchReplaySteps(prisma, matchId);
+      if (!replay) return reply.code(404).send({ ok: false, error: "NOT_FOUND" });
+
+      const rawIdx = req.query?.idx;
+      if (rawIdx === undefined) return reply.send({ ok: true, ...replay });
+
+      const idx = Number(rawIdx);
+      const step = Number.isInteger(idx) ? replay.steps.find((s) => s.idx === idx) : undefined;
+      if (!step) return reply.code(400).send({ ok: false, error: "BAD_IDX", steps: replay.steps.length });
+
+      const { steps, ...meta } = replay;
+      return reply.send({ ok: true, ...meta, totalSteps: steps.length, step });
+    } catch (e: any) {
+      return reply.code(400).send({ ok: false, error: e.message ?? "BAD_REQUEST" });
+    }
+  });
 }
@@ -0,0 +1,115 @@
+import type { PrismaClient } from "@prisma/client";
+import { loadEngineRegistryDefault } from "../config/registryLoaders.v1";
+import type { EngineBindingStatusV1 } from "../contracts/gameplay/v1/EngineRegistryV1";
+import type { MatchArtifactV1 } from "../contracts/gameplay/v1/MatchArtifactV1";
+import type { UniverseMatchPreflightDecisionV1 } from "../contracts/gameplay/v1/UniverseMatchPreflightV1";
+import { activationGateV1 } from "../engine/engineConformance.v1";
+import {
+  createEngineRegistryV1,
+  effectiveBindingsV1,
+  type EngineBindingStatusOverridesV1,
+  type EngineRegistryRuntimeV1,
+  type RuntimeEngineBindingV1,
+} from "../engine/engineRegistry.v1";
+import { latestConformanceRun } from "./engineConformance.gateway";
+
+/**
+ * Engine registry gateway
+ *
+ * Goal:
+ *  - One process-wide runtime registry (config/engineRegistry.default.json), loaded on first use.
+ *  - Binding status lives in config but is operated from the DB: an EngineBindingState row overrides it, so
+ *    admins can disable/activate/deprecate a binding without a deploy.
+ *  - Matches dispatched through a binding persist to EngineAdapterMatchV1 (artifact + preflight evidence).
+ *
+ * NOTE:
+ *  - Overrides are read per call (no cache), so a toggle applies to the very next match.
+ *  - A binding id that is not in config cannot be toggled (ENGINE_BINDING_NOT_FOUND).
+ *  - Toggling to ACTIVE requires the latest conformance run for the binding's engineCode@engineVersion to be PASS
+ *    (ENGINE_BINDING_CONFORMANCE_REQUIRED). Config-ACTIVE bindings are trusted as shipped.
+ */
+
+export const ENGINE_BINDING_STATUSES: ReadonlyArray<EngineBindingStatusV1> = ["ACTIVE", "DISABLED", "DEPRECATED"];
+
+let registry: EngineRegistryRuntimeV1 | null = null;
+
+export function engineRegistry(): EngineRegistryRuntimeV1 {
+  if (!registry) registry = createEngineRegistryV1(loadEngineRegistryDefault());
+  return registry;
+}
+
+export async function bindingStatusOverrides(prisma: PrismaClient): Promise<EngineBindingStatusOverridesV1> {
+  const rows = await (prisma as any).engineBindingState.findMany({ select: { bindingId: true, status: true } });
+  const out: EngineBindingStatusOverridesV1 = {};
+  for (const r of rows) out[r.bindingId] = r.status;
+  return out;
+}
+
+/** Bindings with overrides applied (optionally one universe), plus whether each status is overridden. */
+export async function listEngineBindings(prisma: PrismaClient, universeCode?: string) {
+  const reg = engineRegistry();
+  const rows = await (prisma as any).engineBindingState.findMany();
+  const byId = new Map<string, any>(rows.map((r: any) => [r.bindingId, r]));
+
+  const overrides: EngineBindingStatusOverridesV1 = {};
+  for (const r of rows) overrides[r.bindingId] = r.status;
+
+  return effectiveBindingsV1(reg.bindings, overrides)
+    .filter((b) => !universeCode || b.universeCode === universeCode)
+    .map((b) => {
+      const state = byId.get(b.bindingId);
+      return {
+        binding: b,
+        configStatus: reg.bindings.find((c) => c.bindingId === b.bindingId)!.status,
+        override: state ? { status: state.status, note: state.note ?? null, updatedAt: new Date(state.updatedAt).toISOString() } : null,
+      };
+    });
+}
+
+export async function setEngineBindingStatus(
+  prisma: PrismaClient,
+  args: { bindingId: string; status: EngineBindingStatusV1; note?: string | null }
+): Promise<RuntimeEngineBindingV1> {
+  const configured = engineRegistry().bindings.find((b) => b.bindingId === args.bindingId);
+  if (!configured) throw new Error(`ENGINE_BINDING_NOT_FOUND: ${args.bindingId}`);
+
+  if (args.status === "ACTIVE") {
+    const gate = activationGateV1(configured, await latestConformanceRun(prisma, configured));
+    if (!gate.ok) throw new Error(`ENGINE_BINDING_CONFORMANCE_REQUIRED: ${gate.code}: ${gate.message}`);
+  }
+
+  const data = { status: args.status, note: args.note ?? null };
+  await (prisma as any).engineBindingState.upsert({
+    where: { bindingId: args.bindingId },
+    create: { bindingId: args.bindingId, ...data },
+    update: data,
+  });
+  return { ...configured, status: args.status };
+}
+
+export async function saveAdapterMatch(
+  prisma: PrismaClient,
+  args: {
+    sessionId: string;
+    binding: RuntimeEngineBindingV1;
+    modeCode: string;
+    preflight: UniverseMatchPreflightDecisionV1;
+    artifact: MatchArtifactV1;
+  }
+) {
+  const { binding, artifact } = args;
+  return (prisma as any).engineAdapterMatchV1.create({
+    data: {
+      matchId: artifact.header.matchId,
+      sessionId: args.sessionId,
+      bindingId: binding.bindingId,
+      universeCode: binding.universeCode,
+      engineCode: binding.engineCode,
+      engineVersion: binding.engineVersion,
+      modeCode: args.modeCode,
+      preflightJson: args.preflight as any,
+      artifactJson: artifact as any,
+      deterministicHash: artifact.deterministicHash.value,
+    },
+  });
+}
@@ -0,0 +1,47 @@
+// src/server/engineRegistry.routes.v1.ts
+// Engine registry v1 (see engineRegistry.gateway): list universe -> engine bindings with their effective status, and
+// admin status toggles. Dispatch itself happens in POST /engine/matches/run when universeCode is given.
+
+import type { FastifyInstance } from "fastify";
+import type { PrismaClient } from "@prisma/client";
+
+import { ENGINE_BINDING_STATUSES, listEngineBindings, setEngineBindingStatus } from "./engineRegistry.gateway";
+
+export async function registerEngineRegistryRoutesV1(app: FastifyInstance, prisma: PrismaClient) {
+  // GET /engine/bindings?universeCode=
+  app.get("/engine/bindings", async (req: any, reply) => {
+    const universeCode = typeof req.query?.universeCode === "string" && req.query.universeCode ? req.query.universeCode : undefined;
+    const rows = await listEngineBindings(prisma, universeCode);
+    return reply.send({
+      ok: true,
+      bindings: rows.map((r) => ({
+        ...r.binding,
+        configStatus: r.configStatus,
+        override: r.override,
+      })),
+    });
+  });
+
+  // POST /admin/engine/bindings/:bindingId/status
+  // Body: { status: "ACTIVE"|"DISABLED"|"DEPRECATED", note?: string }
+  // ACTIVE needs a PASS as the engine's latest conformance run (POST /admin/engine/conformance/runs) — else 409.
+  app.post("/admin/engine/bindings/:bindingId/status", async (req: any, reply) => {
+    const bindingId = String(req.params?.bindingId ?? "");
+    const body = (req.body ?? {}) as any;
+    const status = String(body.status ?? "").trim().toUpperCase();
+    if (!ENGINE_BINDING_STATUSES.includes(status as any)) {
+      return reply.code(400).send({ ok: false, error: `status must be one of ${ENGINE_BINDING_STATUSES.join(", ")}` });
+    }
+    const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : null;
+
+    try {
+      const binding = await setEngineBindingStatus(prisma, { bindingId, status: status as any, note });
+      return reply.send({ ok: true, binding });
+    } catch (e: any) {
+      const msg = String(e?.message ?? "BAD_REQUEST");
+      if (msg.startsWith("ENGINE_BINDING_NOT_FOUND")) return reply.code(404).send({ ok: false, error: msg });
+      if (msg.startsWith("ENGINE_BINDING_CONFORMANCE_REQUIRED")) return reply.code(409).send({ ok: false, error: msg });
+      return reply.code(400).send({ ok: false, error: msg });
+    }
+  });
+}
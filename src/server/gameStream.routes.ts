@@ -0,0 +1,160 @@
+// src/server/gameStream.routes.ts
+// Live GameEvent stream over Server-Sent Events: GET /games/:id/stream
+// games.routes publishes to gameStreamHub after every committed append; each subscriber forwards the events
+// past its cursor, projected for its own viewer (x-user-id seat or spectator), together with the resulting state.
+// Resume: ?fromSeq=N (or the standard Last-Event-ID header) replays stored events with seq > N before going live.
+// The hub is in-process: a subscriber only sees appends made by the same server process.
+
+import type { FastifyInstance } from "fastify";
+import type { PrismaClient } from "@prisma/client";
+
+import type { Viewer } from "../engine/types";
+import { projectGameEvent, resolveViewer } from "./gameViewer.gateway";
+
+export type GameStreamUpdate = {
+  gameId: string;
+  modeCode: string | null;
+  /** Unredacted state after the newest event in `events`. */
+  state: any;
+  /** Stored GameEvent rows (seq ascending). May include rows a subscriber already sent; they are skipped by seq. */
+  events: Array<{ seq: number; type: string; payload?: any; [k: string]: any }>;
+};
+
+type StreamListener = (update: GameStreamUpdate) => void;
+
+export class GameStreamHub {
+  private listeners = new Map<string, Set<StreamListener>>();
+
+  subscribe(gameId: string, listener: StreamListener): () => void {
+    let set = this.listeners.get(gameId);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(gameId, set);
+    }
+    set.add(listener);
+
+    return () => {
+      const current = this.listeners.get(gameId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) this.listeners.delete(gameId);
+    };
+  }
+
+  publish(update: GameStreamUpdate): void {
+    const set = this.listeners.get(update.gameId);
+    if (!set) return;
+    for (const listener of [...set]) {
+      try {
+        listener(update);
+      } catch {
+        // a broken subscriber must never fail the route that appended the event
+      }
+    }
+  }
+
+  subscriberCount(gameId: string): number {
+    return this.listeners.get(gameId)?.size ?? 0;
+  }
+}
+
+export const gameStreamHub = new GameStreamHub();
+
+type GameStreamRouteOptions = {
+  hub?: GameStreamHub;
+  /** Comment-line keepalive so proxies do not drop idle streams. */
+  heartbeatMs?: number;
+};
+
+function parseFromSeq(req: any): number | null {
+  const raw = (req.query as any)?.fromSeq ?? (req.headers as any)?.["last-event-id"];
+  if (raw === undefined || raw === null || raw === "") return 0;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+function sseFrame(seq: number, data: unknown): string {
+  return `id: ${seq}\nevent: game_event\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function registerGameStreamRoutes(
+  app: FastifyInstance,
+  prisma: PrismaClient,
+  opts: GameStreamRouteOptions = {}
+) {
+  const hub = opts.hub ?? gameStreamHub;
+  const heartbeatMs = opts.heartbeatMs ?? 15_000;
+
+  // GET /games/:id/stream?fromSeq=N
+  // Each message: id = event seq, data = { seq, event, state } projected for the caller.
+  // Replayed (backlog) events carry the current state; live events carry the state they produced.
+  app.get("/games/:id/stream", async (req: any, reply) => {
+    const gameId = String(req.params?.id ?? "");
+    if (!gameId) return reply.code(400).send({ error: "bad_request", message: "id required" });
+
+    const fromSeq = parseFromSeq(req);
+    if (fromSeq === null) return reply.code(400).send({ error: "stream_invalid", reason: "fromSeq" });
+
+    const exists = await (prisma as any).game.findUnique({ where: { id: gameId }, select: { id: true } });
+    if (!exists) return reply.code(404).send({ error: "not_found", gameId });
+
+    const viewer: Viewer = await resolveViewer(prisma, gameId, req);
+
+    reply.hijack();
+    const res = reply.raw;
+    res.writeHead(200, {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+      "x-accel-buffering": "no",
+    });
+
+    let cursor = fromSeq;
+    let live = false;
+    let closed = false;
+    const queued: GameStreamUpdate[] = [];
+
+    const forward = (update: GameStreamUpdate) => {
+      for (const e of update.events) {
+        if (closed || e.seq <= cursor) continue;
+        const out = projectGameEvent(update.modeCode, e, update.state, viewer);
+        res.write(sseFrame(e.seq, { seq: e.seq, ...out }));
+        cursor = e.seq;
+      }
+    };
+
+    // Subscribe before reading the backlog so nothing appended in between is lost; the cursor drops duplicates.
+    const unsubscribe = hub.subscribe(gameId, (update) => (live ? forward(update) : queued.push(update)));
+    const heartbeat = setInterval(() => {
+      if (!closed) res.write(": ping\n\n");
+    }, heartbeatMs);
+    heartbeat.unref?.();
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+    res.on("close", close);
+
+    try {
+      const backlog = await (prisma as any).gameEvent.findMany({
+        where: { gameId, seq: { gt: fromSeq } },
+        orderBy: { seq: "asc" },
+      });
+      const game = await (prisma as any).game.findUnique({
+        where: { id: gameId },
+        select: { id: true, modeCode: true, state: true },
+      });
+
+      forward({ gameId, modeCode: game?.modeCode ?? null, state: game?.state ?? {}, events: backlog ?? [] });
+      live = true;
+      for (const update of queued.splice(0)) forward(update);
+    } catch (e: any) {
+      req.log?.error?.(e);
+      close();
+      res.end();
+    }
+  });
+}
@@ -0,0 +1,56 @@
+import type { PrismaClient } from "@prisma/client";
+import { projectEventsForViewer, projectStateForViewer, seatViewer, SPECTATOR } from "../engine/views";
+import { supersededSeqs } from "../engine/takeback";
+import type { Viewer } from "../engine/types";
+
+/**
+ * Game viewer gateway
+ *
+ * Goal:
+ *  - Resolve who is looking at a game (x-user-id -> seat via deck ownership, else spectator).
+ *  - Project Game rows for that viewer so hidden placements never leave the server.
+ *
+ * NOTE:
+ *  - Shared by games.routes (HTTP responses) and gameStream.routes (live pushes).
+ */
+
+function ensureObj(x: any) {
+  return x && typeof x === "object" ? x : {};
+}
+
+/** The seat whose deck the caller (x-user-id) owns; anyone else watches as a spectator. */
+export async function resolveViewer(prisma: PrismaClient, gameId: string, req: any): Promise<Viewer> {
+  const userId = String((req.headers as any)?.["x-user-id"] ?? "").trim();
+  if (!userId) return SPECTATOR;
+
+  const player = await (prisma as any).gamePlayer.findFirst({
+    where: { gameId, deck: { ownerUserId: userId } },
+    orderBy: { seat: "asc" },
+    select: { seat: true },
+  });
+  return player ? seatViewer(player.seat) : SPECTATOR;
+}
+
+export function projectGame(game: any, viewer: Viewer) {
+  const state = ensureObj(game.state);
+  return {
+    ...game,
+    viewer,
+    state: projectStateForViewer(game.modeCode, state, viewer),
+    ...(Array.isArray(game.events)
+      ? {
+          events: projectEventsForViewer(game.modeCode, game.events, state, viewer),
+          supersededSeqs: supersededSeqs(game.events),
+        }
+      : {}),
+  };
+}
+
+/** One event plus the state it produced, both as `viewer` may see them. */
+export function projectGameEvent(modeCode: unknown, event: any, state: any, viewer: Viewer) {
+  const s = ensureObj(state);
+  return {
+    event: projectEventsForViewer(modeCode, [event], s, viewer)[0],
+    state: projectStateForViewer(modeCode, s, viewer),
+  };
+}
@@ -12,6 +12,25 @@ import {
   loadGameModeRegistryDefault,
 } from "../config/registryLoaders.v1";
 import { replayOnceV1 } from "../engine/replayHarness.v1";
+import { applyLiveEndV1, liveEndFromMatchEndV1 } from "../engine/matchResult.v1";
+import { normalizePlaymakerEffect } from "../engine/modes/playmaker";
+import { ensureModeSlice, getModePlugin, runModeAction } from "../engine/modeRegistry";
+import {
+  applyTurnTimeout,
+  armTurnDeadline,
+  collectTurnTimeouts,
+  makeTurnTimerState,
+  TURN_TIMEOUT_EVENT,
+} from "../engine/turnTimer";
+import {
+  applyTakebackRequest,
+  buildTakebackPayload,
+  clearTakebackRequest,
+  effectiveEvents,
+  TAKEBACK_DECLINED_EVENT,
+  TAKEBACK_EVENT,
+  TAKEBACK_REQUEST_EVENT,
+} from "../engine/takeback";
 import { buildPostGameBundleV1 } from "../postgame/postGameBundle.v1";
 
 import crypto from "node:crypto";
@@ -20,6 +39,15 @@ import { deriveStandingsV1, type TournamentV1 } from "../tournaments/tournament.
 
 
 import { validateDecksForModeRuleSet } from "./engineValidation.gateway";
+import { loadRunnerDecks } from "./engineDecks.gateway";
+import { syncRatings } from "./ratings.gateway";
+import { signEligibilityPacket, signStoredRecord } from "./signing.gateway";
+import { checkGameEligibility } from "./eligibility.gateway";
+import { recordTournamentGameArtifact, verifyTournamentGameDecks } from "./liveTournaments.gateway";
+import { MatchStorePrismaV1 } from "../store/matchStore.prisma.v1";
+import { projectGame, resolveViewer } from "./gameViewer.gateway";
+import { gameStreamHub } from "./gameStream.routes";
+import { scanTurnTimers } from "./turnTimers.gateway";
 type CreateGameBody = {
   modeCode?: string;
 
@@ -36,6 +64,12 @@ type ActionBody = {
   payload?: any;
 };
 
+type TakebackRequestBody = { toSeq?: number };
+type TakebackRespondBody = { approve?: boolean };
+
+// Server-authored events: never accepted through POST /games/:id/action.
+const RESERVED_ACTION_TYPES = new Set([TURN_TIMEOUT_EVENT, TAKEBACK_REQUEST_EVENT, TAKEBACK_DECLINED_EVENT, TAKEBACK_EVENT]);
+
 type FormatSnapshot = {
   id: string;
   name: string;
@@ -77,10 +111,25 @@ function newId(prefix: string) {
   return `${prefix}_${crypto.randomUUID()}`;
 }
 
+// Live-game routes (games, matchmaking) read the clock here only. NOW_ISO pins it for deterministic runs/tests.
+export function getNow(): Date {
+  const fromEnv = process.env.NOW_ISO;
+  if (!fromEnv) return new Date();
+  const d = new Date(fromEnv);
+  if (isNaN(d.getTime())) throw new Error("NOW_ISO invalid");
+  return d;
+}
+
 function badRequest(message: string, extra?: Record<string, any>) {
   return { error: "bad_request", message, ...(extra ?? {}) };
 }
 
+/** verifyTournamentGameDecks failures that mean the seated decks no longer match their registrations (-> 409). */
+function isDeckLockError(e: any): boolean {
+  const msg = String(e?.message ?? "");
+  return msg.startsWith("TOURNAMENT_DECK_CHANGED") || msg.startsWith("TOURNAMENT_DECK_NOT_REGISTERED");
+}
+
 function ensureObj(x: any) {
   return x && typeof x === "object" ? x : {};
 }
@@ -143,6 +192,30 @@ const DEFAULT_GAMEMODE: GameModeSnapshot = {
   flow: { setupRequired: true, battleLoop: "STANDARD", endScreen: "STANDARD" },
 };
 
+const PLAYMAKER_FORMAT: FormatSnapshot = {
+  id: "FMT_PLAYMAKER",
+  name: "Playmaker Format",
+  version: 1,
+  engineCompatVersion: 1,
+  setup: { initialDrawSize: 0, deckOrderAtStart: "AS_BUILT" },
+  coins: { coinsPerBattle: 1, persistBetweenBattles: true, winConditionCoinTarget: 4 },
+  suddenDeath: { enabled: false, trigger: "TIE" },
+  reshuffle: { mode: "NONE" },
+};
+
+const PLAYMAKER_GAMEMODE: GameModeSnapshot = {
+  id: "GM_PLAYMAKER",
+  name: "Playmaker Game Mode",
+  version: 1,
+  engineCompatVersion: 1,
+  allowedFormats: { type: "ALLOW_LIST", formats: [{ formatId: "FMT_PLAYMAKER", formatVersion: 1 }] },
+  flow: { setupRequired: true, battleLoop: "STANDARD", endScreen: "STANDARD" },
+};
+
+// Known snapshots MUST match config/*.default.json entries.
+const KNOWN_FORMATS: FormatSnapshot[] = [DEFAULT_FORMAT, PLAYMAKER_FORMAT];
+const KNOWN_GAMEMODES: GameModeSnapshot[] = [DEFAULT_GAMEMODE, PLAYMAKER_GAMEMODE];
+
 function resolveFormatPointers(p: Partial<SessionPointers>) {
   const formatId = String(p.formatId ?? DEFAULT_FORMAT.id);
   const formatVersion = Number(p.formatVersion ?? DEFAULT_FORMAT.version);
@@ -151,10 +224,10 @@ function resolveFormatPointers(p: Partial<SessionPointers>) {
   if (!Number.isInteger(formatVersion) || formatVersion < 1)
     return { ok: false as const, error: { error: "bad_request", message: "formatVersion invalid" } };
 
-  if (formatId !== DEFAULT_FORMAT.id || formatVersion !== DEFAULT_FORMAT.version)
-    return { ok: false as const, error: { error: "unknown_format", formatId, formatVersion } };
+  const format = KNOWN_FORMATS.find((f) => f.id === formatId && f.version === formatVersion);
+  if (!format) return { ok: false as const, error: { error: "unknown_format", formatId, formatVersion } };
 
-  const engineCompatVersion = DEFAULT_FORMAT.engineCompatVersion;
+  const engineCompatVersion = format.engineCompatVersion;
   if (!ENGINE_SUPPORTED_COMPAT_VERSIONS.includes(engineCompatVersion)) {
     return {
       ok: false as const,
@@ -162,7 +235,7 @@ function resolveFormatPointers(p: Partial<SessionPointers>) {
     };
   }
 
-  return { ok: true as const, format: DEFAULT_FORMAT, formatId, formatVersion };
+  return { ok: true as const, format, formatId, formatVersion };
 }
 
 function resolveGameModePointers(p: Partial<SessionPointers>) {
@@ -173,10 +246,10 @@ function resolveGameModePointers(p: Partial<SessionPointers>) {
   if (!Number.isInteger(gameModeVersion) || gameModeVersion < 1)
     return { ok: false as const, error: { error: "bad_request", message: "gameModeVersion invalid" } };
 
-  if (gameModeId !== DEFAULT_GAMEMODE.id || gameModeVersion !== DEFAULT_GAMEMODE.version)
-    return { ok: false as const, error: { error: "unknown_gamemode", gameModeId, gameModeVersion } };
+  const gameMode = KNOWN_GAMEMODES.find((g) => g.id === gameModeId && g.version === gameModeVersion);
+  if (!gameMode) return { ok: false as const, error: { error: "unknown_gamemode", gameModeId, gameModeVersion } };
 
-  const engineCompatVersion = DEFAULT_GAMEMODE.engineCompatVersion;
+  const engineCompatVersion = gameMode.engineCompatVersion;
   if (!ENGINE_SUPPORTED_COMPAT_VERSIONS.includes(engineCompatVersion)) {
     return {
       ok: false as const,
@@ -184,7 +257,7 @@ function resolveGameModePointers(p: Partial<SessionPointers>) {
     };
   }
 
-  return { ok: true as const, gameMode: DEFAULT_GAMEMODE, gameModeId, gameModeVersion };
+  return { ok: true as const, gameMode, gameModeId, gameModeVersion };
 }
 
 function assertGameModeAllowsFormat(gameMode: GameModeSnapshot, formatId: string, formatVersion: number) {
@@ -244,35 +317,143 @@ function ensureRookieState(state: any) {
   return next;
 }
 
-async function applyRookieAction(state: any, seats: number[], type: string, payload: any) {
-  const next = ensureRookieState(state);
+/**
+ * Resolves card facts for PLAYMAKER actions from the seat's deck + catalog.
+ * The returned payload is what gets persisted, so replay never needs the DB.
+ */
+async function resolvePlaymakerPayload(prisma: PrismaClient, game: any, type: string, payload: any) {
+  if (type !== "PLAYMAKER_COMMIT_HERO" && type !== "PLAYMAKER_PLAY") return payload;
+
+  const seat = Number(payload?.seat);
+  const versionKey = typeof payload?.versionKey === "string" ? payload.versionKey : "";
+  const player = (game.players ?? []).find((p: any) => p.seat === seat);
+  if (!player) throw { error: "playmaker_card_invalid", reason: "seat" };
+  if (!versionKey) throw { error: "playmaker_card_invalid", reason: "versionKey" };
+
+  const line = await (prisma as any).deckCardVersion.findUnique({
+    where: { deckId_versionKey: { deckId: player.deckId, versionKey } },
+    select: { qty: true },
+  });
+  if (!line) throw { error: "playmaker_card_invalid", reason: "not_in_deck", versionKey };
 
-  if (type === "ROOKIE_SCORE") {
-    const score = Number(payload?.score);
-    if (!Number.isFinite(score)) throw { error: "rookie_score_invalid" };
-    next.rookie.score = score;
-    return next;
-  }
+  const card = await (prisma as any).cardVersion.findUnique({
+    where: { versionKey },
+    select: { conceptType: true, attributes: true },
+  });
+  if (!card) throw { error: "playmaker_card_invalid", reason: "unknown_card", versionKey };
+
+  const attrs = ensureObj(card.attributes);
 
-  if (type === "ROOKIE_END") {
-    const winnerSeat = Number(payload?.winnerSeat);
-    if (!Number.isInteger(winnerSeat) || !seats.includes(winnerSeat)) throw { error: "rookie_end_invalid" };
-    next.rookie.end = { winnerSeat };
-    next.rookie.phase = "COMPLETE";
-    next.rookie.rewardEligible = true;
-    return next;
+  if (type === "PLAYMAKER_COMMIT_HERO") {
+    if (card.conceptType !== "HERO") throw { error: "playmaker_card_invalid", reason: "not_hero", versionKey };
+    const power = Number(attrs.power);
+    if (!Number.isFinite(power)) throw { error: "playmaker_card_invalid", reason: "hero_power_missing", versionKey };
+    return { seat, versionKey, power };
   }
 
-  return next;
+  if (card.conceptType !== "PLAY") throw { error: "playmaker_card_invalid", reason: "not_play", versionKey };
+  const effect = normalizePlaymakerEffect(attrs.effect);
+  if (!effect) throw { error: "playmaker_card_invalid", reason: "play_effect_missing", versionKey };
+
+  const used = Number(ensureObj(ensureObj(ensureObj(game.state).playmaker).playsUsed)[String(seat)]?.[versionKey] ?? 0);
+  if (used >= Number(line.qty)) throw { error: "playmaker_card_invalid", reason: "copies_exhausted", versionKey };
+
+  return { seat, versionKey, effect };
 }
 
-async function applyReducer(modeCode: string | null, state: any, seats: number[], type: string, payload: any) {
-  const mode = String(modeCode ?? "").toUpperCase();
-  if (mode === "ROOKIE") return await applyRookieAction(state, seats, type, payload);
+function formatKnobsFromState(state: any) {
+  const formatSnapshot = ensureObj(ensureObj(ensureObj(ensureObj(state).session).snapshots).formatSnapshot);
+  const target = ensureObj(formatSnapshot.coins).winConditionCoinTarget;
+  return { winConditionCoinTarget: typeof target === "number" ? target : undefined };
+}
 
+// Mode overlays dispatch through the engine plugin registry; validator rejections are thrown
+// as-is so the action route can return them as 400 bodies.
+async function applyReducer(modeCode: string | null, state: any, seats: number[], type: string, payload: any) {
   if (type === "END_TURN") return applyEndTurn(state, seats);
 
-  return clone(ensureObj(state));
+  const plugin = getModePlugin(String(modeCode ?? "").toUpperCase());
+  if (!plugin) return clone(ensureObj(state));
+
+  const next = clone(ensureObj(state));
+  const ctx = { seats, activeSeat: typeof next.activeSeat === "number" ? next.activeSeat : null };
+  const rejected = runModeAction(plugin, next, type, payload, ctx, { format: formatKnobsFromState(next) });
+  if (rejected) throw rejected;
+
+  return next;
+}
+
+/**
+ * LOBBY state → first ACTIVE state: session snapshots captured, mode slice started, turn clock armed.
+ * Deterministic apart from `nowIso`; takeback rebuilds start from here too.
+ */
+function buildSetupState(lobbyState: any, seats: number[], modeCode: string | null, nowIso: string) {
+  const state = clone(ensureObj(lobbyState));
+  state.turn = 1;
+  state.activeSeat = seats[0];
+
+  const session = ensureSessionStateV1(state);
+  if (!session) return { ok: false as const, error: badRequest("session pointers missing in state") };
+
+  const fmt = resolveFormatPointers(session.pointers);
+  if (!fmt.ok) return { ok: false as const, error: fmt.error };
+
+  const gm = resolveGameModePointers(session.pointers);
+  if (!gm.ok) return { ok: false as const, error: gm.error };
+
+  const allowed = assertGameModeAllowsFormat(gm.gameMode, fmt.formatId, fmt.formatVersion);
+  if (!allowed.ok) return { ok: false as const, error: allowed.error };
+
+  state.session = {
+    pointers: session.pointers,
+    snapshots: { formatSnapshot: fmt.format, gameModeSnapshot: gm.gameMode },
+  } satisfies SessionStateV1;
+
+  const plugin = getModePlugin(String(modeCode ?? "").toUpperCase());
+  if (plugin) {
+    ensureModeSlice(plugin, state, { seats, format: formatKnobsFromState(state) });
+    plugin.onStart?.(state);
+  }
+  if (plugin?.turnTimer) {
+    state.timer = makeTurnTimerState(plugin.turnTimer);
+    armTurnDeadline(state, nowIso);
+  }
+
+  return { ok: true as const, state };
+}
+
+/**
+ * Rebuilds route state after an approved takeback: setup state, then every event still in force.
+ * Rejected mode actions are skipped (same permissive replay as the engine reducer); the turn clock restarts at nowIso.
+ */
+async function rebuildStateFromEvents(game: any, events: any[], seats: number[], nowIso: string) {
+  const session = ensureSessionStateV1(game.state);
+  if (!session) throw { error: "takeback_invalid", reason: "session_missing" };
+
+  const setup = buildSetupState({ session: { pointers: session.pointers } }, seats, game.modeCode ?? null, nowIso);
+  if (!setup.ok) throw setup.error;
+
+  const setupSeq = events.find((e: any) => e.type === "GAME_SETUP")?.seq ?? 0;
+  const plugin = getModePlugin(String(game.modeCode ?? "").toUpperCase());
+  let state = setup.state;
+
+  for (const e of effectiveEvents(events)) {
+    if (e.seq <= setupSeq) continue;
+
+    if (e.type === TURN_TIMEOUT_EVENT) applyTurnTimeout(state, e.payload, seats);
+    else if (e.type === TAKEBACK_REQUEST_EVENT) applyTakebackRequest(state, e.payload, e.seq);
+    else if (e.type === TAKEBACK_DECLINED_EVENT) clearTakebackRequest(state);
+    else if (e.type === "END_TURN" || plugin?.actions[e.type]) {
+      try {
+        state = await applyReducer(game.modeCode ?? null, state, seats, e.type, e.payload);
+      } catch {
+        // superseded context made this action invalid; skip it
+      }
+    }
+  }
+
+  armTurnDeadline(state, nowIso);
+  return state;
 }
 
 async function nextSeq(tx: PrismaClient, gameId: string): Promise<number> {
@@ -284,6 +465,62 @@ async function nextSeq(tx: PrismaClient, gameId: string): Promise<number> {
   return (last?.seq ?? 0) + 1;
 }
 
+/** Resolves + gates game mode/format pointers (defaults applied) exactly as POST /games does. */
+export function resolveSessionPointers(p: Partial<SessionPointers>) {
+  const fmt = resolveFormatPointers({ formatId: p.formatId, formatVersion: p.formatVersion });
+  if (!fmt.ok) return fmt;
+
+  const gm = resolveGameModePointers({ gameModeId: p.gameModeId, gameModeVersion: p.gameModeVersion });
+  if (!gm.ok) return gm;
+
+  const allowed = assertGameModeAllowsFormat(gm.gameMode, fmt.formatId, fmt.formatVersion);
+  if (!allowed.ok) return allowed;
+
+  const pointers: SessionPointers = {
+    gameModeId: gm.gameModeId,
+    gameModeVersion: gm.gameModeVersion,
+    formatId: fmt.formatId,
+    formatVersion: fmt.formatVersion,
+  };
+  return { ok: true as const, pointers };
+}
+
+/** Creates a LOBBY game with its seats and GAME_CREATED event inside the caller's transaction. */
+export async function createLobbyGame(
+  tx: PrismaClient,
+  args: { modeCode: string | null; players: Array<{ seat: number; deckId: string }>; pointers: SessionPointers; createdBy?: any }
+): Promise<string> {
+  const initialState = { session: { pointers: args.pointers } satisfies SessionStateV1 };
+  const g = await (tx as any).game.create({ data: { modeCode: args.modeCode, status: GameStatus.LOBBY, state: initialState } });
+
+  await (tx as any).gamePlayer.createMany({
+    data: args.players.map((p) => ({ gameId: g.id, seat: p.seat, deckId: p.deckId })),
+  });
+
+  const seq = await nextSeq(tx, g.id);
+  await (tx as any).gameEvent.create({
+    data: {
+      gameId: g.id,
+      seq,
+      type: "GAME_CREATED",
+      payload: { players: args.players, ...(args.createdBy ? { createdBy: args.createdBy } : {}) },
+    },
+  });
+
+  return g.id as string;
+}
+
+/** Pushes a freshly committed game (state + events) to live stream subscribers (see gameStream.routes). */
+export function publishGame(game: any) {
+  if (!game) return;
+  gameStreamHub.publish({
+    gameId: game.id,
+    modeCode: game.modeCode ?? null,
+    state: ensureObj(game.state),
+    events: game.events ?? [],
+  });
+}
+
 export async function registerGamesRoutes(app: FastifyInstance, prisma: PrismaClient) {
   // Boot-load registries once (read-only). Matches /engine pipeline behavior.
   const appConfig = loadAppConfigDefault();
@@ -309,44 +546,17 @@ export async function registerGamesRoutes(app: FastifyInstance, prisma: PrismaCl
     const missing = deckIds.filter((id) => !foundIds.has(id));
     if (missing.length > 0) return reply.code(400).send({ error: "unknown_deck", missing });
 
-    const fmt = resolveFormatPointers({ formatId: body.formatId, formatVersion: body.formatVersion });
-    if (!fmt.ok) return reply.code(400).send(fmt.error);
-
-    const gm = resolveGameModePointers({ gameModeId: body.gameModeId, gameModeVersion: body.gameModeVersion });
-    if (!gm.ok) return reply.code(400).send(gm.error);
-
-    const allowed = assertGameModeAllowsFormat(gm.gameMode, fmt.formatId, fmt.formatVersion);
-    if (!allowed.ok) return reply.code(400).send(allowed.error);
-
-    const initialState = {
-      session: {
-        pointers: {
-          gameModeId: gm.gameModeId,
-          gameModeVersion: gm.gameModeVersion,
-          formatId: fmt.formatId,
-          formatVersion: fmt.formatVersion,
-        },
-      } satisfies SessionStateV1,
-    };
+    const pointers = resolveSessionPointers(body);
+    if (!pointers.ok) return reply.code(400).send(pointers.error);
 
-    const gameId = await prisma.$transaction(async (tx) => {
-      const g = await (tx as any).game.create({ data: { modeCode, status: GameStatus.LOBBY, state: initialState } });
-
-      await (tx as any).gamePlayer.createMany({
-        data: players.map((p) => ({ gameId: g.id, seat: p.seat, deckId: p.deckId })),
-      });
-
-      const seq = await nextSeq(tx, g.id);
-      await (tx as any).gameEvent.create({ data: { gameId: g.id, seq, type: "GAME_CREATED", payload: { players } } });
-
-      return g.id as string;
-    });
+    const gameId = await prisma.$transaction((tx) => createLobbyGame(tx, { modeCode, players, pointers: pointers.pointers }));
 
     const created = await (prisma as any).game.findUnique({
       where: { id: gameId },
       include: { players: { orderBy: { seat: "asc" } }, events: { orderBy: { seq: "asc" } } },
     });
 
+    publishGame(created);
     return reply.send(created);
 
         // POST /games/engine/tournaments/derive
@@ -486,6 +696,21 @@ export async function registerGamesRoutes(app: FastifyInstance, prisma: PrismaCl
   });
 
 
+  // GET /games/:id
+  // Seat-scoped view (x-user-id owns a seated deck) or spectator view; hidden placements are redacted.
+  app.get("/games/:id", async (req: any, reply) => {
+    const gameId = String(req.params?.id ?? "");
+    if (!gameId) return reply.code(400).send({ error: "bad_request", message: "id required" });
+
+    const game = await (prisma as any).game.findUnique({
+      where: { id: gameId },
+      include: { players: { orderBy: { seat: "asc" } }, events: { orderBy: { seq: "asc" } } },
+    });
+    if (!game) return reply.code(404).send({ error: "not_found", gameId });
+
+    return reply.send(projectGame(game, await resolveViewer(prisma, gameId, req)));
+  });
+
   // POST /games/:id/setup
   app.post("/games/:id/setup", async (req: any, reply) => {
     const gameId = String(req.params?.id ?? "");
@@ -502,38 +727,56 @@ export async function registerGamesRoutes(app: FastifyInstance, prisma: PrismaCl
     const seats = (game.players ?? []).map((p: any) => p.seat).slice().sort((a: number, b: number) => a - b);
     if (seats.length < 1) return reply.code(400).send({ error: "bad_request", message: "no players" });
 
-    const state = clone(ensureObj(game.state));
-    state.turn = 1;
-    state.activeSeat = seats[0];
-
-    const session = ensureSessionStateV1(state);
+    const session = ensureSessionStateV1(game.state);
     if (!session) return reply.code(400).send({ error: "bad_request", message: "session pointers missing in state" });
 
     if (session.snapshots) return reply.code(409).send({ error: "invalid_state", message: "snapshots already captured" });
 
-    const fmt = resolveFormatPointers(session.pointers);
-    if (!fmt.ok) return reply.code(400).send(fmt.error);
-
-    const gm = resolveGameModePointers(session.pointers);
-    if (!gm.ok) return reply.code(400).send(gm.error);
-
-    const allowed = assertGameModeAllowsFormat(gm.gameMode, fmt.formatId, fmt.formatVersion);
-    if (!allowed.ok) return reply.code(400).send(allowed.error);
-
-    state.session = {
-      pointers: session.pointers,
-      snapshots: { formatSnapshot: fmt.format, gameModeSnapshot: gm.gameMode },
-    } satisfies SessionStateV1;
+    // Tournament games: seated decks must still match their registration snapshots (bound into the setup snapshot).
+    let tournamentLock: Awaited<ReturnType<typeof verifyTournamentGameDecks>> = null;
+    try {
+      tournamentLock = await verifyTournamentGameDecks(prisma, { gameId });
+    } catch (e: any) {
+      if (!isDeckLockError(e)) return reply.code(500).send({ error: "internal_error", message: String(e?.message ?? e) });
+      return reply.code(409).send({ error: "deck_locked", message: String(e?.message ?? e) });
+    }
 
-    let nextState = state;
-    if ((game.modeCode ?? "").toUpperCase() === "ROOKIE") {
-      nextState = ensureRookieState(state);
-      nextState.rookie.phase = "SETUP";
+    // Ownership gate: one EligibilityPacketV1 per seated deck through the validateDeck bridge (ownedOnly events reject).
+    const eligibility = await checkGameEligibility(prisma, { gameId, now: getNow() });
+    if (!eligibility.ok) {
+      return reply.code(403).send({ error: "deck_ineligible", ...eligibility.failure });
     }
+    const packets = await Promise.all(
+      eligibility.decks.map((d) =>
+        signEligibilityPacket(prisma, d.packet).catch((e) => {
+          req.log.warn({ err: e }, "eligibility packet signing failed");
+          return d.packet;
+        })
+      )
+    );
+
+    const setup = buildSetupState(game.state, seats, game.modeCode ?? null, getNow().toISOString());
+    if (!setup.ok) return reply.code(400).send(setup.error);
+    const nextState = setup.state;
 
     const updated = await prisma.$transaction(async (tx) => {
       const seq = await nextSeq(tx, gameId);
-      await (tx as any).gameEvent.create({ data: { gameId, seq, type: "GAME_SETUP", payload: {} } });
+      // Full packets (owned lot/instance/listing ids) are for their own seat only: views.ts strips the others.
+      const payload = {
+        eligibility: {
+          ownedOnly: eligibility.ownedOnly,
+          packets: eligibility.decks.map((d, i) => ({
+            seat: d.seat,
+            deckId: d.deckId,
+            eligibilityPacketId: packets[i].eligibilityPacketId,
+            decision: packets[i].decision,
+            signature: packets[i].signature ?? null,
+            packet: packets[i],
+          })),
+        },
+        ...(tournamentLock ? { matchSetupSnapshot: tournamentLock.setupSnapshot } : {}),
+      };
+      await (tx as any).gameEvent.create({ data: { gameId, seq, type: "GAME_SETUP", payload } });
 
       return await (tx as any).game.update({
         where: { id: gameId },
@@ -542,8 +785,8 @@ export async function registerGamesRoutes(app: FastifyInstance, prisma: PrismaCl
       });
     });
 
-        
-    return reply.send(updated);
+    publishGame(updated);
+    return reply.send(projectGame(updated, await resolveViewer(prisma, gameId, req)));
 
   });
 
@@ -552,6 +795,7 @@ app.post("/games/:id/action", async (req: any, reply) => {
     const body = (req.body ?? {}) as ActionBody;
     if (!gameId) return reply.code(400).send({ error: "bad_request", message: "id required" });
     if (!body?.type) return reply.code(400).send({ error: "bad_request", message: "type required" });
+    if (RESERVED_ACTION_TYPES.has(body.type)) return reply.code(400).send(badRequest("reserved event type", { type: body.type }));
 
     const game = await (prisma as any).game.findUnique({
       where: { id: gameId },
@@ -561,23 +805,116 @@ app.post("/games/:id/action", async (req: any, reply) => {
     if (!game) return reply.code(404).send({ error: "not_found", gameId });
     if (game.status !== GameStatus.ACTIVE) return reply.code(409).send({ error: "invalid_state", status: game.status });
 
+    // An ended match takes no more actions (replay marks it CLOSED and drops them).
+    const current = ensureObj(game.state);
+    if (current.matchEnd) return reply.code(409).send({ error: "invalid_state", matchEnd: current.matchEnd });
+
     const seats = (game.players ?? []).map((p: any) => p.seat).slice().sort((a: number, b: number) => a - b);
+    const now = getNow().toISOString();
+
+    // Missed deadlines are recorded before the incoming action is considered.
+    const timed = collectTurnTimeouts(ensureObj(game.state), now, seats);
+    if (timed.timeouts.length > 0) {
+      const forfeited = !!timed.state.matchEnd;
+      const afterTimeouts = await prisma.$transaction(async (tx) => {
+        for (const t of timed.timeouts) {
+          const seq = await nextSeq(tx, gameId);
+          await (tx as any).gameEvent.create({
+            data: { gameId, seq, type: TURN_TIMEOUT_EVENT, payload: t, actorSeat: t.seat },
+          });
+        }
+        return await (tx as any).game.update({
+          where: { id: gameId },
+          data: { state: timed.state, ...(forfeited ? { status: GameStatus.ENDED } : {}) },
+          include: { events: { orderBy: { seq: "asc" } } },
+        });
+      });
+      publishGame(afterTimeouts);
+
+      if (forfeited) {
+        return reply.code(409).send({ error: "turn_expired", matchEnd: timed.state.matchEnd, timeouts: timed.timeouts });
+      }
+      game.state = timed.state;
+    }
+
+    // Any accepted action by the seat on the clock restarts it (ROOKIE/PLAYMAKER play through their own actions,
+    // not just END_TURN). Actions without a seated x-user-id are taken as the active seat's, as before.
+    const viewer = await resolveViewer(prisma, gameId, req);
+    const activeSeat = ensureObj(game.state).activeSeat;
+    const byActiveSeat = viewer.kind !== "SEAT" || viewer.seat === activeSeat;
 
     let nextState: any;
+    let payload = body.payload ?? null;
     try {
-      nextState = await applyReducer(game.modeCode ?? null, game.state, seats, body.type, body.payload);
+      if ((game.modeCode ?? "").toUpperCase() === "PLAYMAKER") {
+        payload = await resolvePlaymakerPayload(prisma, game, body.type, payload);
+      }
+      nextState = await applyReducer(game.modeCode ?? null, game.state, seats, body.type, payload);
+      if (body.type === "END_TURN" || byActiveSeat) armTurnDeadline(nextState, now);
     } catch (e: any) {
-      if (e?.error === "rookie_score_invalid") return reply.code(400).send(e);
-      if (e?.error === "rookie_end_invalid") return reply.code(400).send(e);
+      // Mode plugin validator rejections (rookie_score_invalid, substitution_swap_invalid, ...).
+      if (typeof e?.error === "string") return reply.code(400).send(e);
       return reply.code(400).send(badRequest("action reducer failed"));
     }
 
     const updated = await prisma.$transaction(async (tx) => {
       const seq = await nextSeq(tx, gameId);
       await (tx as any).gameEvent.create({
-        data: { gameId, seq, type: body.type, payload: body.payload ?? null },
+        data: { gameId, seq, type: body.type, payload },
       });
 
+      // The ending action (ROOKIE_END, SUBSTITUTION_END, PLAYMAKER chip target, ...) ends the Game with it.
+      return await (tx as any).game.update({
+        where: { id: gameId },
+        data: { state: nextState, ...(nextState?.matchEnd ? { status: GameStatus.ENDED } : {}) },
+        include: { players: { orderBy: { seat: "asc" } }, events: { orderBy: { seq: "asc" } } },
+      });
+    });
+
+    publishGame(updated);
+    return reply.send(projectGame(updated, viewer));
+  });
+
+  // POST /games/:id/takeback/request
+  // Body: { toSeq } — the requesting seat (x-user-id) asks to roll the game back to just after event toSeq.
+  app.post("/games/:id/takeback/request", async (req: any, reply) => {
+    const gameId = String(req.params?.id ?? "");
+    const body = (req.body ?? {}) as TakebackRequestBody;
+    if (!gameId) return reply.code(400).send({ error: "bad_request", message: "id required" });
+
+    const game = await (prisma as any).game.findUnique({
+      where: { id: gameId },
+      include: { players: { orderBy: { seat: "asc" } }, events: { orderBy: { seq: "asc" } } },
+    });
+    if (!game) return reply.code(404).send({ error: "not_found", gameId });
+    if (game.status !== GameStatus.ACTIVE) return reply.code(409).send({ error: "invalid_state", status: game.status });
+
+    const viewer = await resolveViewer(prisma, gameId, req);
+    if (viewer.kind !== "SEAT") return reply.code(403).send({ error: "takeback_forbidden", reason: "not_seated" });
+
+    const state = ensureObj(game.state);
+    if (state.matchEnd) return reply.code(409).send({ error: "invalid_state", matchEnd: state.matchEnd });
+    if (state.takeback?.pending) return reply.code(409).send({ error: "takeback_pending", pending: state.takeback.pending });
+
+    const events = game.events ?? [];
+    const setupSeq = events.find((e: any) => e.type === "GAME_SETUP")?.seq ?? null;
+    const lastSeq = events.length > 0 ? events[events.length - 1].seq : 0;
+    const toSeq = Number(body.toSeq);
+    if (setupSeq === null) return reply.code(409).send({ error: "takeback_invalid", reason: "not_set_up" });
+    if (!Number.isInteger(toSeq) || toSeq < setupSeq || toSeq >= lastSeq) {
+      return reply.code(400).send({ error: "takeback_invalid", reason: "toSeq", min: setupSeq, max: lastSeq - 1 });
+    }
+
+    const payload = { seat: viewer.seat, toSeq };
+    const updated = await prisma.$transaction(async (tx) => {
+      const seq = await nextSeq(tx, gameId);
+      await (tx as any).gameEvent.create({
+        data: { gameId, seq, type: TAKEBACK_REQUEST_EVENT, payload, actorSeat: viewer.seat },
+      });
+
+      const nextState = clone(state);
+      applyTakebackRequest(nextState, payload, seq);
+
       return await (tx as any).game.update({
         where: { id: gameId },
         data: { state: nextState },
@@ -585,11 +922,96 @@ app.post("/games/:id/action", async (req: any, reply) => {
       });
     });
 
-    return reply.send(updated);
+    publishGame(updated);
+    return reply.send(projectGame(updated, viewer));
+  });
+
+  // POST /games/:id/takeback/respond
+  // Body: { approve } — the opponent (x-user-id) approves or declines the open request.
+  // Approval appends a compensating TAKEBACK event and rebuilds state from the events still in force.
+  app.post("/games/:id/takeback/respond", async (req: any, reply) => {
+    const gameId = String(req.params?.id ?? "");
+    const body = (req.body ?? {}) as TakebackRespondBody;
+    if (!gameId) return reply.code(400).send({ error: "bad_request", message: "id required" });
+    if (typeof body.approve !== "boolean") return reply.code(400).send(badRequest("approve (boolean) required"));
+
+    const game = await (prisma as any).game.findUnique({
+      where: { id: gameId },
+      include: { players: { orderBy: { seat: "asc" } } },
+    });
+    if (!game) return reply.code(404).send({ error: "not_found", gameId });
+    if (game.status !== GameStatus.ACTIVE) return reply.code(409).send({ error: "invalid_state", status: game.status });
+
+    const viewer = await resolveViewer(prisma, gameId, req);
+    if (viewer.kind !== "SEAT") return reply.code(403).send({ error: "takeback_forbidden", reason: "not_seated" });
+
+    const state = ensureObj(game.state);
+    const pending = state.takeback?.pending ?? null;
+    if (!pending) return reply.code(409).send({ error: "takeback_invalid", reason: "no_pending_request" });
+    if (pending.seat === viewer.seat) return reply.code(403).send({ error: "takeback_forbidden", reason: "own_request" });
+
+    const seats = seatsSorted(game.players ?? []);
+    const nowIso = getNow().toISOString();
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        const seq = await nextSeq(tx, gameId);
+        let nextState: any;
+
+        if (!body.approve) {
+          await (tx as any).gameEvent.create({
+            data: {
+              gameId,
+              seq,
+              type: TAKEBACK_DECLINED_EVENT,
+              payload: { seat: viewer.seat, requestSeq: pending.requestSeq },
+              actorSeat: viewer.seat,
+            },
+          });
+          nextState = clone(state);
+          clearTakebackRequest(nextState);
+        } else {
+          const payload = buildTakebackPayload({ pending, approvedBySeat: viewer.seat });
+          await (tx as any).gameEvent.create({
+            data: { gameId, seq, type: TAKEBACK_EVENT, payload, actorSeat: viewer.seat },
+          });
+          const events = await (tx as any).gameEvent.findMany({ where: { gameId }, orderBy: { seq: "asc" } });
+          nextState = await rebuildStateFromEvents(game, events, seats, nowIso);
+        }
+
+        return await (tx as any).game.update({
+          where: { id: gameId },
+          data: { state: nextState },
+          include: { players: { orderBy: { seat: "asc" } }, events: { orderBy: { seq: "asc" } } },
+        });
+      });
+
+      publishGame(updated);
+      return reply.send(projectGame(updated, viewer));
+    } catch (e: any) {
+      if (typeof e?.error === "string") return reply.code(400).send(e);
+      throw e;
+    }
+  });
+
+  // POST /admin/games/turn-timers/scan
+  // Body: { maxGames?: number } — applies missed deadlines to idle ACTIVE games at NOW_ISO (see turnTimers.gateway).
+  app.post("/admin/games/turn-timers/scan", async (req: any, reply) => {
+    const body = (req.body ?? {}) as any;
+    const maxGames = body.maxGames === undefined ? undefined : Number(body.maxGames);
+    if (maxGames !== undefined && (!Number.isInteger(maxGames) || maxGames < 1)) {
+      return reply.code(400).send(badRequest("maxGames must be a positive integer"));
+    }
+
+    const { updatedGames, ...summary } = await scanTurnTimers(prisma, { nowIso: getNow().toISOString(), maxGames });
+    for (const g of updatedGames) publishGame(g);
+    return reply.send({ ok: true, ...summary, gameIds: updatedGames.map((g: any) => g.id) });
   });
 
   // POST /games/:id/engine/run
   // Idempotent: once a GAME_ENGINE_MATCH_STORED event exists, return that artifact instead of rerunning.
+  // ACTIVE games, or ENDED ones with a matchEnd; the matchEnd (ROOKIE_END, SUBSTITUTION_END, chip target, forfeit)
+  // sets the stored winner, the engine run the rest.
   app.post("/games/:id/engine/run", async (req: any, reply) => {
     try {
       const gameId = String(req.params?.id ?? "");
@@ -623,9 +1045,16 @@ app.post("/games/:id/action", async (req: any, reply) => {
         include: { players: { orderBy: { seat: "asc" } } },
       });
       if (!game) return reply.code(404).send({ error: "not_found", gameId });
-      if (game.status !== GameStatus.ACTIVE) return reply.code(409).send({ error: "invalid_state", status: game.status });
 
       const state = ensureObj(game.state);
+      // ENDED games still get their artifact (ended by an action, or forfeited by the action route's timeout check,
+      // scanTurnTimers / POST /admin/games/turn-timers/scan); the winner the players reached is what gets stored.
+      const endedWithResult = game.status === GameStatus.ENDED && !!state.matchEnd;
+      if (game.status !== GameStatus.ACTIVE && !endedWithResult) {
+        return reply.code(409).send({ error: "invalid_state", status: game.status });
+      }
+      const liveEnd = liveEndFromMatchEndV1(state.matchEnd);
+
       const session = ensureSessionStateV1(state);
       if (!session) return reply.code(400).send({ error: "bad_request", message: "session pointers missing in state" });
 
@@ -642,6 +1071,14 @@ app.post("/games/:id/action", async (req: any, reply) => {
       const allowed = assertGameModeAllowsFormat(gm.gameMode, fmt.formatId, fmt.formatVersion);
       if (!allowed.ok) return reply.code(400).send(allowed.error);
 
+      // Tournament deck lock: re-checked right before the engine reads the decks.
+      try {
+        await verifyTournamentGameDecks(prisma, { gameId });
+      } catch (e: any) {
+        if (!isDeckLockError(e)) return reply.code(500).send({ error: "internal_error", message: String(e?.message ?? e) });
+        return reply.code(409).send({ error: "deck_locked", message: String(e?.message ?? e) });
+      }
+
       // 8D: Engine readiness — enforce RuleSet-driven deck validation (HTTP 400 on invalid).
       // Non-breaking: if no RuleSet is bound for this modeKey, validation is skipped (passes).
       const modeKeyForRules = String((game.modeCode ?? "") || (gm.gameModeId ?? "")).toUpperCase();
@@ -672,65 +1109,79 @@ app.post("/games/:id/action", async (req: any, reply) => {
         gameMode: { gameModeId: gm.gameModeId, gameModeVersion: gm.gameModeVersion },
       };
 
-      const matchResult = replayOnceV1({
-        inputs: { sessionId, matchId, pointer },
-        appConfig,
-        formatRegistry,
-        gameModeRegistry,
-      });
-
       const playersBySeat = (game.players ?? []).slice().sort((a: any, b: any) => (a.seat ?? 0) - (b.seat ?? 0));
       const homeCompetitorId = playersBySeat[0]?.deckId ?? null;
       const awayCompetitorId = playersBySeat[1]?.deckId ?? null;
 
+      // Battles are decided by the seated decks (seat 1 = LS, seat 2 = OP).
+      const decks = await loadRunnerDecks({ prisma: prisma as any, homeDeckId: homeCompetitorId, awayDeckId: awayCompetitorId });
+
+      const matchResult = applyLiveEndV1(
+        replayOnceV1({
+          inputs: { sessionId, matchId, pointer, decks },
+          appConfig,
+          formatRegistry,
+          gameModeRegistry,
+        }),
+        liveEnd
+      );
+
       const matchResultWithIdentity = { ...matchResult, homeCompetitorId, awayCompetitorId } as any;
 
       const bundle = buildPostGameBundleV1({ matchResult: matchResultWithIdentity });
 
-      const row = await (prisma as any).engineMatchArtifactV1.create({
-        data: {
-          matchId: matchResult.matchId,
-          sessionId: matchResult.sessionId,
-
-          formatId: matchResult.formatId,
-          formatVersion: matchResult.formatVersion,
-          gameModeId: matchResult.gameModeId,
-          gameModeVersion: matchResult.gameModeVersion,
-          engineCompatVersion: matchResult.engineCompatVersion,
-
-          pointerJson: pointer as any,
-          snapshotsJson: {
-            formatSnapshot: {
-              formatId: matchResult.formatId,
-              formatVersion: matchResult.formatVersion,
-              engineCompatVersion: matchResult.engineCompatVersion,
-            },
-            gameModeSnapshot: {
-              gameModeId: matchResult.gameModeId,
-              gameModeVersion: matchResult.gameModeVersion,
-              engineCompatVersion: matchResult.engineCompatVersion,
-            },
-          } as any,
-          matchResultJson: matchResultWithIdentity as any,
-          insightRecordJson: bundle.insightRecord as any,
+      const row = await new MatchStorePrismaV1(prisma).save({
+        matchId: matchResult.matchId,
+        sessionId: matchResult.sessionId,
+        pointer: pointer as any,
+        snapshots: {
+          formatSnapshot: {
+            formatId: matchResult.formatId,
+            formatVersion: matchResult.formatVersion,
+            engineCompatVersion: matchResult.engineCompatVersion,
+          },
+          gameModeSnapshot: {
+            gameModeId: matchResult.gameModeId,
+            gameModeVersion: matchResult.gameModeVersion,
+            engineCompatVersion: matchResult.engineCompatVersion,
+          },
+          decks: decks ?? null,
         },
+        matchResult: matchResultWithIdentity,
+        insightRecord: bundle.insightRecord,
+        createdAtIso: new Date().toISOString(),
       });
 
-      await prisma.$transaction(async (tx) => {
+      const stored = await prisma.$transaction(async (tx) => {
         const seq = await nextSeq(tx, gameId);
         await (tx as any).gameEvent.create({
           data: {
             gameId,
             seq,
             type: "GAME_ENGINE_MATCH_STORED",
-            payload: { matchId: row.matchId, sessionId: row.sessionId, artifactId: row.id },
+            payload: { matchId: row.matchId, sessionId: row.sessionId, artifactId: row.storeId },
           },
         });
+        return await (tx as any).game.findUnique({
+          where: { id: gameId },
+          include: { events: { orderBy: { seq: "asc" } } },
+        });
       });
+      publishGame(stored);
+
+      // Ratings are derived; a sync failure must not fail the stored artifact (ratings_recompute repairs).
+      await syncRatings(prisma).catch((e) => req.log.warn({ err: e }, "ratings sync failed"));
+      await signStoredRecord(prisma, "MATCH_ARTIFACT", row.matchId).catch((e) =>
+        req.log.warn({ err: e }, "artifact signing failed (POST /admin/signing/backfill repairs)")
+      );
+      // Live tournament games advance their round; the organizer can close it by hand if this fails.
+      await recordTournamentGameArtifact(prisma, { gameId, artifactMatchId: row.matchId }).catch((e) =>
+        req.log.warn({ err: e }, "tournament round advance failed (POST /tournaments/live/:id/rounds/close repairs)")
+      );
 
       return reply.send({
         ok: true,
-        stored: { id: row.id, matchId: row.matchId, sessionId: row.sessionId, createdAt: row.createdAt },
+        stored: { id: row.storeId, matchId: row.matchId, sessionId: row.sessionId, createdAt: row.createdAtIso },
         bundle,
       });
     } catch (e: any) {
@@ -775,7 +1226,8 @@ app.post("/games/:id/action", async (req: any, reply) => {
       });
     });
 
-    return reply.send(updated);
+    publishGame(updated);
+    return reply.send(projectGame(updated, await resolveViewer(prisma, gameId, req)));
   });
 
   // GET /wallet/tx
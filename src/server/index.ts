@@ -3,6 +3,8 @@ import Fastify from "fastify";
 import { PrismaClient } from "@prisma/client";
 
 import { registerGamesRoutes } from "./games.routes";
+import { registerGameStreamRoutes } from "./gameStream.routes";
+import { registerMatchmakingRoutes } from "./matchmaking.routes";
 import { registerDecksRoutes } from "./decks.routes";
 import { registerDecksUiRoutes } from "./decks.ui.routes";
 import * as catalog from "./catalog.routes";
@@ -12,6 +14,12 @@ import { registerTournamentRoutesV1 } from "./tournaments.routes.v1";
 import { registerSponsorPoolRoutesV1 } from "./sponsorPools.routes.v1";
 import { registerBoBucksRoutesV1 } from "./bobucks.routes.v1";
 import { registerRulesRoutesV1 } from "./rules.routes";
+import { registerRatingsRoutesV1 } from "./ratings.routes.v1";
+import { registerArtifactAuditRoutesV1 } from "./artifactAudit.routes.v1";
+import { registerSigningRoutesV1 } from "./signing.routes.v1";
+import { registerEngineRegistryRoutesV1 } from "./engineRegistry.routes.v1";
+import { registerEngineConformanceRoutesV1 } from "./engineConformance.routes.v1";
+import { registerLiveTournamentRoutesV1 } from "./liveTournaments.routes.v1";
 
 const app = Fastify({ logger: true });
 const prisma = new PrismaClient();
@@ -35,11 +43,19 @@ async function main() {
 
   // Prisma-owned routes
   await registerGamesRoutes(app, prisma);
+  await registerGameStreamRoutes(app, prisma);
+  await registerMatchmakingRoutes(app, prisma);
   await registerEngineMatchRoutes(app, prisma);
   await registerTournamentRoutesV1(app, prisma);
   await registerSponsorPoolRoutesV1(app, prisma);
   await registerBoBucksRoutesV1(app, prisma);
   await registerRulesRoutesV1(app, prisma);
+  await registerRatingsRoutesV1(app, prisma);
+  await registerArtifactAuditRoutesV1(app, prisma);
+  await registerSigningRoutesV1(app, prisma);
+  await registerEngineRegistryRoutesV1(app, prisma);
+  await registerEngineConformanceRoutesV1(app, prisma);
+  await registerLiveTournamentRoutesV1(app, prisma);
 
   await registerMarketplaceRoutes(app, prisma, {
     basePath: "/market",
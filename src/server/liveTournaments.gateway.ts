@@ -0,0 +1,589 @@
+import type { PrismaClient } from "@prisma/client";
+import type { MatchArtifactV1 } from "../contracts/gameplay/v1/MatchArtifactV1";
+import { produceTournamentCompletedEventV1 } from "../contracts/gameplay/v1/TournamentEventProducerV1";
+import type { TournamentMatchSlotV1, TournamentStructureV1, TournamentV1 } from "../contracts/gameplay/v1/TournamentV1";
+import {
+  LIVE_TOURNAMENT_BINDING_V1,
+  LIVE_TOURNAMENT_STRUCTURES_V1,
+  buildLiveTournamentV1,
+  gameResultToMatchArtifactV1,
+  initialLiveScheduleV1,
+  isDecisiveForStructureV1,
+  isLiveTournamentCompleteV1,
+  lastRoundV1,
+  liveTournamentDeriverV1,
+  normalizeLiveTournamentConfigV1,
+  reportedResultToMatchArtifactV1,
+  roundSlotsV1,
+  type LiveTournamentConfigV1,
+  type TournamentReportedResultV1,
+} from "../tournaments/liveTournament.v1";
+import { SwissDeriverV1 } from "../contracts/gameplay/v1/SwissDeriverV1";
+import { BoBAUniverseIntegrationV1 } from "../contracts/gameplay/v1/BoBAUniverseIntegrationV1";
+import { createMatchSetupSnapshotV1, type MatchSetupSnapshotV1 } from "../contracts/gameplay/v1/MatchSetupSnapshotV1";
+import {
+  deckSnapshotHashV1,
+  deckSnapshotV1,
+  describeDeckSnapshotDiffV1,
+  diffDeckSnapshotsV1,
+  type DeckSnapshotV1,
+} from "../tournaments/deckLock.v1";
+import { validateDecksForModeRuleSet } from "./engineValidation.gateway";
+import { buildDeckEligibilityPacket } from "./eligibility.gateway";
+import { describeEligibilityShortfallV1 } from "../eligibility/ownershipEligibility.v1";
+import { createLobbyGame, publishGame } from "./games.routes";
+
+/**
+ * Live tournaments gateway
+ *
+ * Goal:
+ *  - Persistent tournament entity: DRAFT (registration with a deck) -> ACTIVE (rounds) -> COMPLETED | CANCELLED.
+ *  - Starting a round creates one LOBBY Game per playable slot (seat order = slot order), exactly like POST /games.
+ *  - As each Game's result is stored (POST /games/:id/engine/run calls recordTournamentGameArtifact), the round
+ *    closes itself once every Game in it has a result; the deriver then decides whether the tournament is complete,
+ *    and completion stores produceTournamentCompletedEventV1's event.
+ *
+ *  - Registration locks the deck: its DeckSnapshotV1 + hash are stored, PUT /decks/:id/cards is refused while the
+ *    tournament is DRAFT/ACTIVE, and every tournament Game re-checks its seated decks against the snapshots before
+ *    setup and before the engine run. The organizer publishes the decklists once the tournament is COMPLETED.
+ *
+ * NOTE:
+ *  - Standings/progress are derived on read from the stored artifacts (never cached on the row).
+ *  - Only the organizer starts/closes rounds and cancels; autoStartRounds starts the next round on close.
+ *  - A round with no playable slot (all byes/walkovers) closes as soon as it starts.
+ *  - A Game that never stores a result (no-show, timed out, abandoned) gets an organizer-reported result
+ *    (reportTournamentGameResult); it ends the Game and stands in for the engine artifact, so the round can close.
+ */
+
+type LoadedLiveTournament = {
+  row: any;
+  config: LiveTournamentConfigV1;
+  tournament: TournamentV1;
+  games: any[];
+  artifacts: MatchArtifactV1[];
+};
+
+function iso(d: any): string | null {
+  return d ? new Date(d).toISOString() : null;
+}
+
+async function loadLiveTournament(prisma: PrismaClient, tournamentId: string): Promise<LoadedLiveTournament> {
+  const row = await (prisma as any).tournament.findUnique({
+    where: { id: tournamentId },
+    include: {
+      registrations: { orderBy: [{ seed: "asc" }, { registeredAt: "asc" }, { id: "asc" }] },
+      games: { orderBy: [{ round: "asc" }, { slotId: "asc" }] },
+    },
+  });
+  if (!row) throw new Error(`TOURNAMENT_NOT_FOUND: ${tournamentId}`);
+
+  const config = normalizeLiveTournamentConfigV1(row.configJson);
+  const tournament = buildLiveTournamentV1(
+    {
+      id: row.id,
+      name: row.name,
+      structure: row.structure,
+      status: row.status,
+      modeCode: row.modeCode,
+      createdAtIso: iso(row.createdAt)!,
+      updatedAtIso: iso(row.updatedAt)!,
+      schedule: Array.isArray(row.scheduleJson) ? (row.scheduleJson as TournamentMatchSlotV1[]) : [],
+    },
+    row.registrations
+  );
+
+  // An organizer-reported result is a ruling: it stands in for (or over) the Game's stored artifact.
+  const landed = row.games.filter((g: any) => g.artifactMatchId && !g.reportedResultJson);
+  const stored = landed.length
+    ? await (prisma as any).engineMatchArtifactV1.findMany({ where: { matchId: { in: landed.map((g: any) => g.artifactMatchId) } } })
+    : [];
+  const byMatchId = new Map<string, any>(stored.map((s: any) => [s.matchId, s]));
+
+  const artifacts: MatchArtifactV1[] = [];
+  for (const g of row.games) {
+    if (!g.reportedResultJson) continue;
+    artifacts.push(
+      reportedResultToMatchArtifactV1({
+        tournament,
+        slot: { matchId: g.matchId, participantIds: g.participantIdsJson as string[] },
+        gameId: g.gameId,
+        reported: g.reportedResultJson as TournamentReportedResultV1,
+      })
+    );
+  }
+  for (const g of landed) {
+    const s = byMatchId.get(g.artifactMatchId);
+    if (!s) continue;
+    artifacts.push(
+      gameResultToMatchArtifactV1({
+        tournament,
+        slot: { matchId: g.matchId, participantIds: g.participantIdsJson as string[] },
+        gameId: g.gameId,
+        stored: { matchId: s.matchId, sessionId: s.sessionId, createdAtIso: iso(s.createdAt)!, matchResultJson: s.matchResultJson },
+      })
+    );
+  }
+
+  return { row, config, tournament, games: row.games, artifacts };
+}
+
+async function loadDeckSnapshot(prisma: PrismaClient, deckId: string): Promise<DeckSnapshotV1> {
+  const lines = await (prisma as any).deckCardVersion.findMany({ where: { deckId }, select: { versionKey: true, qty: true } });
+  return deckSnapshotV1(deckId, lines);
+}
+
+function assertOrganizer(loaded: LoadedLiveTournament, actorUserId: string | null) {
+  // null = system (artifact hook / auto-advance)
+  if (actorUserId !== null && loaded.row.organizerUserId !== actorUserId) {
+    throw new Error("TOURNAMENT_FORBIDDEN: organizer only");
+  }
+}
+
+export async function createLiveTournament(
+  prisma: PrismaClient,
+  args: { organizerUserId: string; name: string; structure: string; modeCode: string; pointers: any; config?: any }
+) {
+  const structure = args.structure as TournamentStructureV1;
+  if (!LIVE_TOURNAMENT_STRUCTURES_V1.includes(structure)) {
+    throw new Error(`TOURNAMENT_STRUCTURE_UNSUPPORTED: ${args.structure} (one of ${LIVE_TOURNAMENT_STRUCTURES_V1.join(", ")})`);
+  }
+  const row = await (prisma as any).tournament.create({
+    data: {
+      name: args.name,
+      structure,
+      organizerUserId: args.organizerUserId,
+      modeCode: args.modeCode,
+      pointersJson: args.pointers,
+      configJson: normalizeLiveTournamentConfigV1(args.config) as any,
+    },
+  });
+  return getLiveTournament(prisma, row.id);
+}
+
+export async function registerForTournament(prisma: PrismaClient, args: { tournamentId: string; userId: string; deckId: string }) {
+  const loaded = await loadLiveTournament(prisma, args.tournamentId);
+  const { row, config } = loaded;
+  if (row.status !== "DRAFT") throw new Error(`TOURNAMENT_NOT_OPEN: registration closed (${row.status})`);
+  if (row.registrations.some((r: any) => r.userId === args.userId)) throw new Error("TOURNAMENT_ALREADY_REGISTERED");
+  if (row.registrations.some((r: any) => r.deckId === args.deckId)) throw new Error("TOURNAMENT_DECK_IN_USE");
+  if (config.maxPlayers && row.registrations.length >= config.maxPlayers) throw new Error(`TOURNAMENT_FULL: ${config.maxPlayers} players`);
+
+  const deck = await (prisma as any).deck.findUnique({
+    where: { id: args.deckId },
+    select: { id: true, ownerUserId: true, archivedAt: true },
+  });
+  if (!deck) throw new Error(`DECK_NOT_FOUND: ${args.deckId}`);
+  if (deck.ownerUserId !== args.userId) throw new Error("TOURNAMENT_FORBIDDEN: deck_not_owned");
+  if (deck.archivedAt) throw new Error("TOURNAMENT_DECK_ARCHIVED");
+
+  const validation = await validateDecksForModeRuleSet({ prisma, modeKey: row.modeCode, deckIds: [args.deckId] });
+  if (!validation.ok) {
+    throw new Error(`DECK_INVALID: ${validation.errors.flatMap((e) => e.messages).join("; ")}`);
+  }
+
+  // ownedOnly events: fail early here; POST /games/:id/setup re-checks every game (cards can be sold mid-event).
+  if (config.ownedOnly) {
+    const packet = await buildDeckEligibilityPacket(prisma, {
+      deckId: args.deckId,
+      ownedOnly: true,
+      context: { universeCode: LIVE_TOURNAMENT_BINDING_V1.universeCode, modeCode: row.modeCode, tournamentId: row.id },
+      packetId: `ELIG_${row.id}_${args.userId}`,
+      now: new Date(),
+    });
+    if (packet.decision !== "ELIGIBLE") {
+      throw new Error(`ELIGIBILITY_${packet.decision}: ${describeEligibilityShortfallV1(packet)}`);
+    }
+  }
+
+  const snapshot = await loadDeckSnapshot(prisma, args.deckId);
+  await (prisma as any).tournamentRegistration.create({
+    data: {
+      tournamentId: row.id,
+      userId: args.userId,
+      deckId: args.deckId,
+      deckSnapshotJson: snapshot as any,
+      deckSnapshotHash: deckSnapshotHashV1(snapshot),
+    },
+  });
+  return getLiveTournament(prisma, row.id);
+}
+
+export async function withdrawFromTournament(prisma: PrismaClient, args: { tournamentId: string; userId: string }) {
+  const loaded = await loadLiveTournament(prisma, args.tournamentId);
+  if (loaded.row.status !== "DRAFT") throw new Error(`TOURNAMENT_NOT_OPEN: withdraw only before start (${loaded.row.status})`);
+  const removed = await (prisma as any).tournamentRegistration.deleteMany({
+    where: { tournamentId: args.tournamentId, userId: args.userId },
+  });
+  if (removed.count === 0) throw new Error("TOURNAMENT_NOT_REGISTERED");
+  return getLiveTournament(prisma, args.tournamentId);
+}
+
+export async function startLiveTournament(prisma: PrismaClient, args: { tournamentId: string; actorUserId: string; now: Date }) {
+  const loaded = await loadLiveTournament(prisma, args.tournamentId);
+  assertOrganizer(loaded, args.actorUserId);
+  const { row, config } = loaded;
+  if (row.status !== "DRAFT") throw new Error(`TOURNAMENT_NOT_OPEN: already ${row.status}`);
+
+  const participantIds = row.registrations.map((r: any) => r.userId);
+  const schedule = initialLiveScheduleV1({ tournamentId: row.id, structure: row.structure, participantIds, config });
+
+  await prisma.$transaction(async (tx: any) => {
+    const claimed = await tx.tournament.updateMany({
+      where: { id: row.id, status: "DRAFT" },
+      data: { status: "ACTIVE", startedAt: args.now, scheduleJson: schedule as any },
+    });
+    if (claimed.count !== 1) throw new Error("TOURNAMENT_NOT_OPEN: start raced");
+    for (const [i, r] of row.registrations.entries()) {
+      await tx.tournamentRegistration.update({ where: { id: r.id }, data: { seed: i + 1 } });
+    }
+  });
+
+  await startRoundInternal(prisma, row.id);
+  return getLiveTournament(prisma, row.id);
+}
+
+export async function startTournamentRound(prisma: PrismaClient, args: { tournamentId: string; actorUserId: string }) {
+  assertOrganizer(await loadLiveTournament(prisma, args.tournamentId), args.actorUserId);
+  await startRoundInternal(prisma, args.tournamentId);
+  return getLiveTournament(prisma, args.tournamentId);
+}
+
+export async function closeTournamentRound(prisma: PrismaClient, args: { tournamentId: string; actorUserId: string }) {
+  assertOrganizer(await loadLiveTournament(prisma, args.tournamentId), args.actorUserId);
+  await closeRoundInternal(prisma, args.tournamentId);
+  return getLiveTournament(prisma, args.tournamentId);
+}
+
+export async function cancelLiveTournament(prisma: PrismaClient, args: { tournamentId: string; actorUserId: string; now: Date }) {
+  const loaded = await loadLiveTournament(prisma, args.tournamentId);
+  assertOrganizer(loaded, args.actorUserId);
+  if (loaded.row.status === "COMPLETED" || loaded.row.status === "CANCELLED") {
+    throw new Error(`TOURNAMENT_NOT_ACTIVE: already ${loaded.row.status}`);
+  }
+  await (prisma as any).tournament.update({
+    where: { id: args.tournamentId },
+    data: { status: "CANCELLED", roundOpen: false, completedAt: args.now },
+  });
+  return getLiveTournament(prisma, args.tournamentId);
+}
+
+/**
+ * Opens round currentRound+1: SWISS pairs it first, then every playable slot gets a LOBBY Game.
+ * Rounds without a playable slot close straight away (and the next one opens), so byes never stall the event.
+ */
+async function startRoundInternal(prisma: PrismaClient, tournamentId: string): Promise<void> {
+  for (let guard = 0; guard < 64; guard++) {
+    const loaded = await loadLiveTournament(prisma, tournamentId);
+    const { row, config, tournament, artifacts } = loaded;
+    if (row.status !== "ACTIVE") throw new Error(`TOURNAMENT_NOT_ACTIVE: ${row.status}`);
+    if (row.roundOpen) throw new Error(`TOURNAMENT_ROUND_OPEN: round ${row.currentRound} is still open`);
+
+    const round = row.currentRound + 1;
+    if (round > lastRoundV1(tournament, config)) throw new Error(`TOURNAMENT_ROUNDS_EXHAUSTED: ${row.currentRound} round(s) played`);
+
+    const deriver = liveTournamentDeriverV1(row.structure, config);
+    let schedule = tournament.schedule ?? [];
+    if (row.structure === "SWISS") {
+      schedule = [...schedule, ...(deriver as SwissDeriverV1).pairNextRound({ tournament, artifacts })];
+      tournament.schedule = schedule;
+    }
+
+    const { playable, unresolved } = roundSlotsV1({ tournament, artifacts, deriver, round });
+    if (unresolved.length > 0) throw new Error(`TOURNAMENT_ROUND_UNRESOLVED: waiting on ${unresolved.join(", ")}`);
+
+    const deckByUser = new Map<string, string>(row.registrations.map((r: any) => [r.userId, r.deckId]));
+    const gameIds = await prisma.$transaction(async (tx: any) => {
+      const claimed = await tx.tournament.updateMany({
+        where: { id: row.id, status: "ACTIVE", currentRound: row.currentRound, roundOpen: false },
+        data: { currentRound: round, roundOpen: true, scheduleJson: schedule as any },
+      });
+      if (claimed.count !== 1) throw new Error("TOURNAMENT_ROUND_OPEN: round start raced");
+
+      const ids: string[] = [];
+      for (const slot of playable) {
+        const gameId = await createLobbyGame(tx, {
+          modeCode: row.modeCode,
+          players: slot.participantIds.map((pid, i) => ({ seat: i + 1, deckId: deckByUser.get(pid)! })),
+          pointers: row.pointersJson,
+          createdBy: { source: "TOURNAMENT", tournamentId: row.id, round, slotId: slot.slotId, matchId: slot.matchId },
+        });
+        await tx.tournamentGame.create({
+          data: {
+            tournamentId: row.id,
+            round,
+            slotId: slot.slotId,
+            matchId: slot.matchId,
+            gameId,
+            participantIdsJson: slot.participantIds,
+          },
+        });
+        ids.push(gameId);
+      }
+      return ids;
+    });
+
+    for (const gameId of gameIds) {
+      publishGame(await (prisma as any).game.findUnique({ where: { id: gameId }, include: { events: { orderBy: { seq: "asc" } } } }));
+    }
+
+    if (gameIds.length > 0) return;
+    const closed = await closeRoundInternal(prisma, tournamentId, { autoStart: false });
+    if (closed.completed) return;
+  }
+  throw new Error("TOURNAMENT_ROUND_LOOP: no playable round found");
+}
+
+/** Closes the open round once every Game in it has a (decisive, for elimination) result; completes or advances. */
+async function closeRoundInternal(
+  prisma: PrismaClient,
+  tournamentId: string,
+  opts: { autoStart?: boolean } = {}
+): Promise<{ completed: boolean }> {
+  const loaded = await loadLiveTournament(prisma, tournamentId);
+  const { row, config, tournament, games, artifacts } = loaded;
+  if (row.status !== "ACTIVE") throw new Error(`TOURNAMENT_NOT_ACTIVE: ${row.status}`);
+  if (!row.roundOpen) throw new Error(`TOURNAMENT_ROUND_NOT_OPEN: round ${row.currentRound} already closed`);
+
+  const byMatchId = new Map(artifacts.map((a) => [a.header.matchId, a]));
+  const roundGames = games.filter((g: any) => g.round === row.currentRound);
+  const waiting = roundGames.filter((g: any) => !byMatchId.has(g.matchId)).map((g: any) => g.gameId);
+  if (waiting.length > 0) throw new Error(`TOURNAMENT_ROUND_INCOMPLETE: waiting on games ${waiting.join(", ")}`);
+  const undecided = roundGames
+    .filter((g: any) => !isDecisiveForStructureV1(row.structure, byMatchId.get(g.matchId)!))
+    .map((g: any) => g.gameId);
+  if (undecided.length > 0) throw new Error(`TOURNAMENT_ROUND_UNDECIDED: drawn elimination games ${undecided.join(", ")}`);
+
+  const deriver = liveTournamentDeriverV1(row.structure, config);
+  const completed = isLiveTournamentCompleteV1(tournament, artifacts, deriver);
+  const completedEvent = completed
+    ? produceTournamentCompletedEventV1({ tournament, artifacts, deriver, correlation: { requestId: `LIVE_${row.id}` } })
+    : null;
+
+  const claimed = await (prisma as any).tournament.updateMany({
+    where: { id: row.id, status: "ACTIVE", currentRound: row.currentRound, roundOpen: true },
+    data: completed
+      ? { roundOpen: false, status: "COMPLETED", completedAt: new Date(), completedEventJson: completedEvent as any }
+      : { roundOpen: false },
+  });
+  if (claimed.count !== 1) return { completed: false }; // closed concurrently
+
+  if (!completed && (opts.autoStart ?? config.autoStartRounds ?? false)) await startRoundInternal(prisma, row.id);
+  return { completed };
+}
+
+/**
+ * Hook for POST /games/:id/engine/run: links the stored artifact to its tournament Game and closes the round when
+ * it was the last result outstanding. Returns null for non-tournament games.
+ */
+export async function recordTournamentGameArtifact(prisma: PrismaClient, args: { gameId: string; artifactMatchId: string }) {
+  const tg = await (prisma as any).tournamentGame.findUnique({ where: { gameId: args.gameId } });
+  if (!tg) return null;
+  // The organizer already reported this Game's result; a late engine run does not rewrite it.
+  if (tg.reportedResultJson) return { tournamentId: tg.tournamentId, round: tg.round, slotId: tg.slotId, roundClosed: false };
+
+  await (prisma as any).tournamentGame.update({ where: { id: tg.id }, data: { artifactMatchId: args.artifactMatchId } });
+  return closeRoundIfDone(prisma, tg);
+}
+
+/**
+ * Organizer-reported result for a Game of the open round that has no stored artifact: a no-show walkover, or a
+ * Game that timed out or was abandoned (also a drawn elimination Game the round is stuck on). winnerUserId null
+ * reports a draw (refused for elimination structures).
+ * The Game moves to ENDED (engine/run then refuses a Game ended without a matchEnd) and the round closes when
+ * this was its last missing result.
+ */
+export async function reportTournamentGameResult(
+  prisma: PrismaClient,
+  args: { tournamentId: string; gameId: string; actorUserId: string; winnerUserId: string | null; reason?: string; now: Date }
+) {
+  const loaded = await loadLiveTournament(prisma, args.tournamentId);
+  assertOrganizer(loaded, args.actorUserId);
+  const { row, tournament } = loaded;
+  if (row.status !== "ACTIVE") throw new Error(`TOURNAMENT_NOT_ACTIVE: ${row.status}`);
+
+  const tg = loaded.games.find((g: any) => g.gameId === args.gameId);
+  if (!tg) throw new Error(`TOURNAMENT_GAME_NOT_FOUND: ${args.gameId}`);
+  if (!row.roundOpen || tg.round !== row.currentRound) throw new Error(`TOURNAMENT_ROUND_NOT_OPEN: game is in round ${tg.round}`);
+  const stored = loaded.artifacts.find((a) => a.header.matchId === tg.matchId);
+  if (tg.artifactMatchId && stored && isDecisiveForStructureV1(row.structure, stored)) {
+    throw new Error(`TOURNAMENT_RESULT_EXISTS: ${args.gameId} already has a stored result`);
+  }
+
+  const game = await (prisma as any).game.findUnique({ where: { id: args.gameId }, select: { status: true, state: true } });
+  const matchEnd = game?.state && typeof game.state === "object" ? (game.state as any).matchEnd : null;
+  const reported: TournamentReportedResultV1 = {
+    winnerParticipantId: args.winnerUserId,
+    reason: args.reason || (typeof matchEnd?.reason === "string" ? matchEnd.reason : "WALKOVER"),
+    reportedBy: args.actorUserId,
+    reportedAtIso: args.now.toISOString(),
+  };
+  const artifact = reportedResultToMatchArtifactV1({
+    tournament,
+    slot: { matchId: tg.matchId, participantIds: tg.participantIdsJson as string[] },
+    gameId: tg.gameId,
+    reported,
+  });
+  if (!isDecisiveForStructureV1(row.structure, artifact)) {
+    throw new Error(`TOURNAMENT_RESULT_INVALID: ${row.structure} needs a winner`);
+  }
+
+  await prisma.$transaction(async (tx: any) => {
+    await tx.tournamentGame.update({ where: { id: tg.id }, data: { reportedResultJson: reported as any } });
+    if (game && game.status !== "ENDED") await tx.game.update({ where: { id: args.gameId }, data: { status: "ENDED" } });
+  });
+
+  await closeRoundIfDone(prisma, tg);
+  return getLiveTournament(prisma, args.tournamentId);
+}
+
+/** Closes the tournament Game's round when every Game in it has a result (stored or reported). */
+async function closeRoundIfDone(prisma: PrismaClient, tg: any) {
+  const loaded = await loadLiveTournament(prisma, tg.tournamentId);
+  const { row, games, artifacts } = loaded;
+  const have = new Set(artifacts.map((a) => a.header.matchId));
+  const roundDone =
+    row.status === "ACTIVE" &&
+    row.roundOpen &&
+    tg.round === row.currentRound &&
+    games.filter((g: any) => g.round === row.currentRound).every((g: any) => have.has(g.matchId));
+
+  if (roundDone) {
+    await closeRoundInternal(prisma, row.id).catch((e: any) => {
+      // Undecided elimination results wait for the organizer; anything else is a real failure.
+      if (!String(e?.message ?? "").startsWith("TOURNAMENT_ROUND_UNDECIDED")) throw e;
+    });
+  }
+  return { tournamentId: row.id, round: tg.round, slotId: tg.slotId, roundClosed: roundDone };
+}
+
+/** The DRAFT/ACTIVE tournament holding this deck, if any (PUT /decks/:id/cards refuses while it exists). */
+export async function findDeckTournamentLock(prisma: PrismaClient, deckId: string) {
+  const reg = await (prisma as any).tournamentRegistration.findFirst({
+    where: { deckId, tournament: { status: { in: ["DRAFT", "ACTIVE"] } } },
+    select: { tournamentId: true, deckSnapshotHash: true, tournament: { select: { status: true } } },
+  });
+  return reg ? { tournamentId: reg.tournamentId as string, status: reg.tournament.status as string, snapshotHash: reg.deckSnapshotHash ?? null } : null;
+}
+
+/**
+ * For POST /games/:id/setup and /engine/run: every seated deck of a tournament Game must still match its registration
+ * snapshot (TOURNAMENT_DECK_CHANGED otherwise). Returns the MatchSetupSnapshotV1 binding those hashes, or null for
+ * non-tournament games. Registrations from before the lock (no snapshot) are not checked.
+ */
+export async function verifyTournamentGameDecks(
+  prisma: PrismaClient,
+  args: { gameId: string }
+): Promise<{ tournamentId: string; setupSnapshot: MatchSetupSnapshotV1 } | null> {
+  const tg = await (prisma as any).tournamentGame.findUnique({
+    where: { gameId: args.gameId },
+    include: { tournament: { select: { id: true, modeCode: true } } },
+  });
+  if (!tg) return null;
+
+  const players = await (prisma as any).gamePlayer.findMany({ where: { gameId: args.gameId }, orderBy: { seat: "asc" } });
+  const registrations = await (prisma as any).tournamentRegistration.findMany({
+    where: { tournamentId: tg.tournamentId, deckId: { in: players.map((p: any) => p.deckId) } },
+  });
+  const regByDeck = new Map<string, any>(registrations.map((r: any) => [r.deckId, r]));
+
+  const deckSnapshots: Array<{ seat: number; deckId: string; snapshotHash: string }> = [];
+  for (const p of players) {
+    const reg = regByDeck.get(p.deckId);
+    if (!reg) throw new Error(`TOURNAMENT_DECK_NOT_REGISTERED: seat ${p.seat} deck ${p.deckId}`);
+    if (!reg.deckSnapshotJson || !reg.deckSnapshotHash) continue;
+
+    const current = await loadDeckSnapshot(prisma, p.deckId);
+    const diff = diffDeckSnapshotsV1(reg.deckSnapshotJson as DeckSnapshotV1, current);
+    if (!diff.ok || deckSnapshotHashV1(current) !== reg.deckSnapshotHash) {
+      throw new Error(`TOURNAMENT_DECK_CHANGED: seat ${p.seat} deck ${p.deckId} differs from its registration (${describeDeckSnapshotDiffV1(diff)})`);
+    }
+    deckSnapshots.push({ seat: p.seat, deckId: p.deckId, snapshotHash: reg.deckSnapshotHash });
+  }
+
+  const setupSnapshot = createMatchSetupSnapshotV1({
+    snapshotId: `SETUP_${args.gameId}`,
+    matchId: tg.matchId,
+    universeCode: LIVE_TOURNAMENT_BINDING_V1.universeCode,
+    universeIntegrationId: BoBAUniverseIntegrationV1.integrationId,
+    engineCode: LIVE_TOURNAMENT_BINDING_V1.engineCode,
+    engineVersion: LIVE_TOURNAMENT_BINDING_V1.engineVersion,
+    modeCode: tg.tournament.modeCode,
+    deckSnapshots,
+    tournamentId: tg.tournamentId,
+    extra: { gameId: args.gameId, round: tg.round, slotId: tg.slotId },
+  });
+  return { tournamentId: tg.tournamentId, setupSnapshot };
+}
+
+export async function publishTournamentDecklists(prisma: PrismaClient, args: { tournamentId: string; actorUserId: string; now: Date }) {
+  const loaded = await loadLiveTournament(prisma, args.tournamentId);
+  assertOrganizer(loaded, args.actorUserId);
+  if (loaded.row.status !== "COMPLETED") throw new Error(`TOURNAMENT_NOT_COMPLETED: decklists publish after the event (${loaded.row.status})`);
+  if (!loaded.row.decklistsPublishedAt) {
+    await (prisma as any).tournament.update({ where: { id: args.tournamentId }, data: { decklistsPublishedAt: args.now } });
+  }
+  return getTournamentDecklists(prisma, { tournamentId: args.tournamentId, actorUserId: args.actorUserId });
+}
+
+/** Registration snapshots; public once published, the organizer sees them any time. */
+export async function getTournamentDecklists(prisma: PrismaClient, args: { tournamentId: string; actorUserId: string | null }) {
+  const { row } = await loadLiveTournament(prisma, args.tournamentId);
+  if (!row.decklistsPublishedAt && row.organizerUserId !== args.actorUserId) {
+    throw new Error("TOURNAMENT_FORBIDDEN: decklists not published");
+  }
+  return {
+    tournamentId: row.id,
+    decklistsPublishedAt: iso(row.decklistsPublishedAt),
+    decklists: row.registrations.map((r: any) => ({
+      userId: r.userId,
+      deckId: r.deckId,
+      seed: r.seed ?? null,
+      snapshotHash: r.deckSnapshotHash ?? null,
+      cards: (r.deckSnapshotJson as DeckSnapshotV1 | null)?.cards ?? null,
+    })),
+  };
+}
+
+export async function getLiveTournament(prisma: PrismaClient, tournamentId: string) {
+  const { row, config, tournament, games, artifacts } = await loadLiveTournament(prisma, tournamentId);
+  const started = row.status === "ACTIVE" || row.status === "COMPLETED";
+  const deriver = started ? liveTournamentDeriverV1(row.structure, config) : null;
+
+  return {
+    tournament: {
+      id: row.id,
+      name: row.name,
+      structure: row.structure,
+      status: row.status,
+      organizerUserId: row.organizerUserId,
+      modeCode: row.modeCode,
+      pointers: row.pointersJson,
+      config,
+      currentRound: row.currentRound,
+      roundOpen: row.roundOpen,
+      startedAt: iso(row.startedAt),
+      completedAt: iso(row.completedAt),
+      decklistsPublishedAt: iso(row.decklistsPublishedAt),
+      createdAt: iso(row.createdAt),
+    },
+    registrations: row.registrations.map((r: any) => ({
+      userId: r.userId,
+      deckId: r.deckId,
+      seed: r.seed ?? null,
+      deckSnapshotHash: r.deckSnapshotHash ?? null,
+      registeredAt: iso(r.registeredAt),
+    })),
+    games: games.map((g: any) => ({
+      round: g.round,
+      slotId: g.slotId,
+      matchId: g.matchId,
+      gameId: g.gameId,
+      participantIds: g.participantIdsJson,
+      artifactMatchId: g.artifactMatchId ?? null,
+      reportedResult: g.reportedResultJson ?? null,
+    })),
+    standings: deriver ? deriver.deriveStandings({ tournament, artifacts }) : null,
+    progress: deriver ? deriver.deriveProgress({ tournament, artifacts }) : null,
+    completedEvent: row.completedEventJson ?? null,
+  };
+}
@@ -0,0 +1,155 @@
+// src/server/liveTournaments.routes.v1.ts
+// Live tournaments v1 (see liveTournaments.gateway): register with a deck, start, run rounds of real Games, complete.
+// Rounds close themselves as results land via POST /games/:id/engine/run; the organizer may still close one by hand,
+// and reports the result of a Game that will not store one (no-show, timed out, abandoned).
+// Actor = x-user-id (organizer for start/rounds/cancel/decklists, the registering player for register/withdraw).
+// Registering locks the deck (snapshot + hash); decklists go public when the organizer publishes them after the event.
+
+import type { FastifyInstance } from "fastify";
+import type { PrismaClient } from "@prisma/client";
+
+import { resolveSessionPointers } from "./games.routes";
+import {
+  cancelLiveTournament,
+  closeTournamentRound,
+  createLiveTournament,
+  getLiveTournament,
+  getTournamentDecklists,
+  publishTournamentDecklists,
+  registerForTournament,
+  reportTournamentGameResult,
+  startLiveTournament,
+  startTournamentRound,
+  withdrawFromTournament,
+} from "./liveTournaments.gateway";
+
+function statusFor(msg: string): number {
+  if (msg.startsWith("TOURNAMENT_NOT_FOUND") || msg.startsWith("TOURNAMENT_GAME_NOT_FOUND") || msg.startsWith("DECK_NOT_FOUND")) return 404;
+  if (msg.startsWith("TOURNAMENT_FORBIDDEN") || msg.startsWith("ELIGIBILITY_")) return 403;
+  if (msg.startsWith("DECK_INVALID") || msg.startsWith("TOURNAMENT_STRUCTURE_UNSUPPORTED") || msg.startsWith("TOURNAMENT_RESULT_INVALID")) {
+    return 400;
+  }
+  return 409;
+}
+
+export async function registerLiveTournamentRoutesV1(app: FastifyInstance, prisma: PrismaClient) {
+  const actorOf = (req: any) => String((req.headers as any)?.["x-user-id"] ?? "").trim();
+
+  const run = async (reply: any, fn: () => Promise<any>) => {
+    try {
+      return reply.send({ ok: true, ...(await fn()) });
+    } catch (e: any) {
+      const msg = String(e?.message ?? "BAD_REQUEST");
+      return reply.code(statusFor(msg)).send({ ok: false, error: msg });
+    }
+  };
+
+  // POST /tournaments/live
+  // Body: { name, structure: ROUND_ROBIN|SINGLE_ELIMINATION|DOUBLE_ELIMINATION|SWISS, modeCode,
+  //         formatId?, formatVersion?, gameModeId?, gameModeVersion?,
+  //         config?: { swissRounds?, grandFinalReset?, maxPlayers?, autoStartRounds?, ownedOnly? } }
+  app.post("/tournaments/live", async (req: any, reply) => {
+    const organizerUserId = actorOf(req);
+    if (!organizerUserId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+
+    const body = (req.body ?? {}) as any;
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const structure = typeof body.structure === "string" ? body.structure : "";
+    const modeCode = typeof body.modeCode === "string" ? body.modeCode : "";
+    if (!name || !structure || !modeCode) return reply.code(400).send({ ok: false, error: "name, structure, modeCode required" });
+
+    const pointers = resolveSessionPointers(body);
+    if (!pointers.ok) return reply.code(400).send({ ok: false, error: pointers.error });
+
+    return run(reply, () =>
+      createLiveTournament(prisma, { organizerUserId, name, structure, modeCode, pointers: pointers.pointers, config: body.config })
+    );
+  });
+
+  // GET /tournaments/live/:id — registrations, games, derived standings/progress, completed event.
+  app.get("/tournaments/live/:id", async (req: any, reply) => {
+    return run(reply, () => getLiveTournament(prisma, String(req.params?.id ?? "")));
+  });
+
+  // POST /tournaments/live/:id/register  Body: { deckId } — deck must be the caller's and pass the mode's rule set
+  // (ownedOnly events: and be fully owned).
+  app.post("/tournaments/live/:id/register", async (req: any, reply) => {
+    const userId = actorOf(req);
+    if (!userId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+    const deckId = typeof req.body?.deckId === "string" ? req.body.deckId : "";
+    if (!deckId) return reply.code(400).send({ ok: false, error: "deckId required" });
+
+    return run(reply, () => registerForTournament(prisma, { tournamentId: String(req.params.id), userId, deckId }));
+  });
+
+  // POST /tournaments/live/:id/withdraw — before start only.
+  app.post("/tournaments/live/:id/withdraw", async (req: any, reply) => {
+    const userId = actorOf(req);
+    if (!userId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+    return run(reply, () => withdrawFromTournament(prisma, { tournamentId: String(req.params.id), userId }));
+  });
+
+  // POST /tournaments/live/:id/start — seeds by registration order and opens round 1 (organizer).
+  app.post("/tournaments/live/:id/start", async (req: any, reply) => {
+    const actorUserId = actorOf(req);
+    if (!actorUserId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+    return run(reply, () => startLiveTournament(prisma, { tournamentId: String(req.params.id), actorUserId, now: new Date() }));
+  });
+
+  // POST /tournaments/live/:id/rounds/start — opens the next round and creates its Games (organizer).
+  app.post("/tournaments/live/:id/rounds/start", async (req: any, reply) => {
+    const actorUserId = actorOf(req);
+    if (!actorUserId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+    return run(reply, () => startTournamentRound(prisma, { tournamentId: String(req.params.id), actorUserId }));
+  });
+
+  // POST /tournaments/live/:id/rounds/close — closes the open round once every Game has a result, stored or
+  // reported (organizer).
+  app.post("/tournaments/live/:id/rounds/close", async (req: any, reply) => {
+    const actorUserId = actorOf(req);
+    if (!actorUserId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+    return run(reply, () => closeTournamentRound(prisma, { tournamentId: String(req.params.id), actorUserId }));
+  });
+
+  // POST /tournaments/live/:id/games/:gameId/result  Body: { winnerUserId: string | null, reason? } — open round only,
+  // Games without a decisive stored result; ends the Game and closes the round if it was the last one (organizer).
+  app.post("/tournaments/live/:id/games/:gameId/result", async (req: any, reply) => {
+    const actorUserId = actorOf(req);
+    if (!actorUserId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+    const body = (req.body ?? {}) as any;
+    if (!("winnerUserId" in body) || (body.winnerUserId !== null && typeof body.winnerUserId !== "string")) {
+      return reply.code(400).send({ ok: false, error: "winnerUserId (string or null) required" });
+    }
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+    return run(reply, () =>
+      reportTournamentGameResult(prisma, {
+        tournamentId: String(req.params.id),
+        gameId: String(req.params.gameId),
+        actorUserId,
+        winnerUserId: body.winnerUserId,
+        reason: reason || undefined,
+        now: new Date(),
+      })
+    );
+  });
+
+  // POST /tournaments/live/:id/decklists/publish — COMPLETED tournaments only (organizer).
+  app.post("/tournaments/live/:id/decklists/publish", async (req: any, reply) => {
+    const actorUserId = actorOf(req);
+    if (!actorUserId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+    return run(reply, () => publishTournamentDecklists(prisma, { tournamentId: String(req.params.id), actorUserId, now: new Date() }));
+  });
+
+  // GET /tournaments/live/:id/decklists — registration snapshots (public once published; organizer any time).
+  app.get("/tournaments/live/:id/decklists", async (req: any, reply) => {
+    return run(reply, () => getTournamentDecklists(prisma, { tournamentId: String(req.params.id), actorUserId: actorOf(req) || null }));
+  });
+
+  // POST /tournaments/live/:id/cancel (organizer)
+  app.post("/tournaments/live/:id/cancel", async (req: any, reply) => {
+    const actorUserId = actorOf(req);
+    if (!actorUserId) return reply.code(400).send({ ok: false, error: "x-user-id required" });
+    return run(reply, () => cancelLiveTournament(prisma, { tournamentId: String(req.params.id), actorUserId, now: new Date() }));
+  });
+}
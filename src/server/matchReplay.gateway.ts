@@ -0,0 +1,77 @@
+import type { PrismaClient } from "@prisma/client";
+import { loadAppConfigDefault, loadFormatRegistryDefault } from "../config/registryLoaders.v1";
+import { resolveFormat } from "../config/resolvers.v1";
+import { pinnedAppConfigV1 } from "../engine/engineCompat.v1";
+import { timelineStepsV1, type TimelineStepV1 } from "../engine/timelineSteps.v1";
+
+/**
+ * Match replay gateway
+ *
+ * Goal:
+ *  - Step-through view of a stored match: session state after every timeline index (engine/timelineSteps.v1).
+ *  - Shared by GET /engine/matches/:matchId/steps and /ui/matches/:matchId/replay.
+ *
+ * NOTE:
+ *  - Reads the stored timeline only; nothing is re-run.
+ *  - coins.persistBetweenBattles comes from the artifact's format at its own engine compat; if that format no longer
+ *    resolves, chips are assumed to persist (the format default).
+ */
+
+export type MatchReplayStepsV1 = {
+  matchId: string;
+  formatId: string;
+  formatVersion: number;
+  gameModeId: string;
+  gameModeVersion: number;
+  persistBetweenBattles: boolean;
+  result: any;
+  steps: TimelineStepV1[];
+};
+
+function ensureObj(x: any) {
+  return x && typeof x === "object" ? x : {};
+}
+
+function persistBetweenBattlesFor(row: any): boolean {
+  try {
+    const format = resolveFormat({
+      appConfig: pinnedAppConfigV1(loadAppConfigDefault(), Number(row.engineCompatVersion)),
+      formatRegistry: loadFormatRegistryDefault(),
+      pointer: { formatId: row.formatId, formatVersion: Number(row.formatVersion) },
+    });
+    return format.coins?.persistBetweenBattles !== false;
+  } catch {
+    return true;
+  }
+}
+
+export async function loadMatchReplaySteps(prisma: PrismaClient, matchId: string): Promise<MatchReplayStepsV1 | null> {
+  const row = await (prisma as any).engineMatchArtifactV1.findUnique({
+    where: { matchId },
+    select: {
+      matchId: true,
+      formatId: true,
+      formatVersion: true,
+      gameModeId: true,
+      gameModeVersion: true,
+      engineCompatVersion: true,
+      matchResultJson: true,
+    },
+  });
+  if (!row) return null;
+
+  const mr = ensureObj(row.matchResultJson);
+  const timeline = Array.isArray(mr.timeline) ? mr.timeline : [];
+  const persistBetweenBattles = persistBetweenBattlesFor(row);
+
+  return {
+    matchId: row.matchId,
+    formatId: row.formatId,
+    formatVersion: row.formatVersion,
+    gameModeId: row.gameModeId,
+    gameModeVersion: row.gameModeVersion,
+    persistBetweenBattles,
+    result: mr.result ?? null,
+    steps: timelineStepsV1(timeline, { persistBetweenBattles }),
+  };
+}
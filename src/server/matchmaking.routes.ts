@@ -0,0 +1,282 @@
+// src/server/matchmaking.routes.ts
+// Matchmaking queue for live games: enqueue (event-gated), cancel, status.
+// Pairing and timeouts run as a queue pass on every queue request; a pair becomes a LOBBY Game with both seats
+// (longer-waiting entry = seat 1), created exactly like POST /games. Deterministic time: NOW_ISO.
+
+import type { FastifyInstance } from "fastify";
+import type { PrismaClient } from "@prisma/client";
+
+import { getEventById_V1 } from "../config/events.v1";
+import {
+  DEFAULT_QUEUE_POLICY_V1,
+  QUEUE_DEFAULT_RATING,
+  decideQueueGateV1,
+  expiredQueueEntriesV1,
+  pairQueueEntriesV1,
+  queueKeyV1,
+  ratingBandV1,
+  waitedSecondsV1,
+  type QueueDeckValidationV1,
+  type QueueEntryV1,
+} from "../matchmaking/queue.v1";
+import { ratingKeyV1 } from "../ratings/rating.v1";
+import { validateDecksForModeRuleSet } from "./engineValidation.gateway";
+import { getRatingsFor } from "./ratings.gateway";
+import { createLobbyGame, getNow, publishGame, resolveSessionPointers } from "./games.routes";
+
+type EnqueueBody = {
+  deckId?: string;
+  modeCode?: string;
+  gameModeId?: string;
+  gameModeVersion?: number;
+  formatId?: string;
+  formatVersion?: number;
+  eventId?: string;
+};
+
+const DEFAULT_QUEUE_MODE = "ROOKIE";
+
+function ensureObj(x: any) {
+  return x && typeof x === "object" ? x : {};
+}
+
+function actorUserId(req: any): string {
+  return String((req.headers as any)?.["x-user-id"] ?? "").trim();
+}
+
+function toQueueEntry(row: any): QueueEntryV1 {
+  return {
+    id: row.id,
+    userId: row.userId,
+    deckId: row.deckId,
+    queueKey: row.queueKey,
+    rating: Number(row.rating ?? QUEUE_DEFAULT_RATING),
+    enqueuedAt: new Date(row.enqueuedAt).toISOString(),
+  };
+}
+
+function entryView(row: any, nowIso: string) {
+  const entry = toQueueEntry(row);
+  const waiting = row.status === "WAITING";
+  return {
+    id: row.id,
+    status: row.status,
+    userId: row.userId,
+    deckId: row.deckId,
+    modeCode: row.modeCode,
+    queueKey: row.queueKey,
+    eventId: row.eventId ?? null,
+    rating: entry.rating,
+    enqueuedAt: entry.enqueuedAt,
+    resolvedAt: row.resolvedAt ? new Date(row.resolvedAt).toISOString() : null,
+    waitedSeconds: waiting ? Math.floor(waitedSecondsV1(entry, nowIso)) : null,
+    ratingBand: waiting ? ratingBandV1(entry, nowIso) : null,
+    gameId: row.gameId ?? null,
+    seat: row.seat ?? null,
+    gate: ensureObj(row.gateJson),
+  };
+}
+
+async function validateQueueDeck(prisma: PrismaClient, modeKey: string, deckId: string): Promise<QueueDeckValidationV1 | null> {
+  try {
+    const res = await validateDecksForModeRuleSet({ prisma, modeKey, deckIds: [deckId] });
+    return { ok: res.ok, messages: res.errors.flatMap((e) => e.messages) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Times out stale WAITING entries, then turns every compatible pair into a Game.
+ * Each pair is claimed with a WAITING -> MATCHED guard inside its transaction, so concurrent passes
+ * cannot seat one entry twice.
+ */
+async function runQueuePass(prisma: PrismaClient, now: Date) {
+  const nowIso = now.toISOString();
+  const rows = await (prisma as any).matchmakingQueueEntry.findMany({
+    where: { status: "WAITING" },
+    orderBy: { enqueuedAt: "asc" },
+    take: 2000,
+  });
+  const byId = new Map<string, any>(rows.map((r: any) => [r.id, r]));
+  const entries = rows.map(toQueueEntry);
+
+  const expired = expiredQueueEntriesV1(entries, nowIso, DEFAULT_QUEUE_POLICY_V1);
+  if (expired.length > 0) {
+    await (prisma as any).matchmakingQueueEntry.updateMany({
+      where: { id: { in: expired.map((e) => e.id) }, status: "WAITING" },
+      data: { status: "TIMED_OUT", resolvedAt: now },
+    });
+  }
+
+  const gameIds: string[] = [];
+  for (const pair of pairQueueEntriesV1(entries, nowIso, DEFAULT_QUEUE_POLICY_V1)) {
+    const home = byId.get(pair.home.id);
+    const away = byId.get(pair.away.id);
+
+    try {
+      const gameId = await prisma.$transaction(async (tx: any) => {
+        const claimed = await tx.matchmakingQueueEntry.updateMany({
+          where: { id: { in: [home.id, away.id] }, status: "WAITING" },
+          data: { status: "MATCHED", resolvedAt: now },
+        });
+        if (claimed.count !== 2) throw { error: "queue_race" };
+
+        const id = await createLobbyGame(tx, {
+          modeCode: home.modeCode,
+          players: [
+            { seat: 1, deckId: home.deckId },
+            { seat: 2, deckId: away.deckId },
+          ],
+          pointers: home.pointersJson,
+          createdBy: { source: "MATCHMAKING", queueEntryIds: [home.id, away.id], ratingGap: pair.ratingGap },
+        });
+
+        await tx.matchmakingQueueEntry.update({ where: { id: home.id }, data: { gameId: id, seat: 1 } });
+        await tx.matchmakingQueueEntry.update({ where: { id: away.id }, data: { gameId: id, seat: 2 } });
+        return id as string;
+      });
+      gameIds.push(gameId);
+    } catch (e: any) {
+      if (e?.error === "queue_race") continue;
+      throw e;
+    }
+  }
+
+  for (const gameId of gameIds) {
+    publishGame(
+      await (prisma as any).game.findUnique({ where: { id: gameId }, include: { events: { orderBy: { seq: "asc" } } } })
+    );
+  }
+
+  return { timedOut: expired.length, matched: gameIds.length };
+}
+
+export async function registerMatchmakingRoutes(app: FastifyInstance, prisma: PrismaClient) {
+  // POST /queue/enqueue
+  // Body: { deckId, modeCode?, gameModeId?, gameModeVersion?, formatId?, formatVersion?, eventId? } (x-user-id required)
+  app.post("/queue/enqueue", async (req: any, reply) => {
+    const userId = actorUserId(req);
+    if (!userId) return reply.code(400).send({ error: "bad_request", message: "x-user-id required" });
+
+    const body = (req.body ?? {}) as EnqueueBody;
+    const deckId = String(body.deckId ?? "").trim();
+    if (!deckId) return reply.code(400).send({ error: "queue_invalid", reason: "deckId" });
+
+    const modeCode = String(body.modeCode ?? DEFAULT_QUEUE_MODE).trim().toUpperCase();
+    if (!modeCode) return reply.code(400).send({ error: "queue_invalid", reason: "modeCode" });
+
+    const pointers = resolveSessionPointers(body);
+    if (!pointers.ok) return reply.code(400).send(pointers.error);
+
+    const deck = await (prisma as any).deck.findUnique({
+      where: { id: deckId },
+      select: { id: true, ownerUserId: true, archivedAt: true },
+    });
+    if (!deck) return reply.code(400).send({ error: "unknown_deck", missing: [deckId] });
+    if (deck.ownerUserId !== userId) return reply.code(403).send({ error: "queue_forbidden", reason: "deck_not_owned" });
+    if (deck.archivedAt) return reply.code(409).send({ error: "queue_invalid", reason: "deck_archived" });
+
+    const now = getNow();
+    await runQueuePass(prisma, now);
+
+    const active = await (prisma as any).matchmakingQueueEntry.findFirst({ where: { userId, status: "WAITING" } });
+    if (active) return reply.code(409).send({ error: "queue_already_waiting", entry: entryView(active, now.toISOString()) });
+
+    const eventId = body.eventId ? String(body.eventId).trim() : null;
+    const gate = decideQueueGateV1({
+      eventId,
+      event: eventId ? getEventById_V1(eventId) : null,
+      validation: await validateQueueDeck(prisma, modeCode, deckId),
+    });
+    if (!gate.allowed) return reply.code(403).send({ error: "queue_gate_rejected", gate });
+
+    // Games rate decks as competitors (engine/run identity = deckId); unrated decks queue at the default.
+    const ratings = await getRatingsFor(prisma, ratingKeyV1(pointers.pointers), [deckId]);
+    const rating = Math.round(ratings.get(deckId)?.rating ?? QUEUE_DEFAULT_RATING);
+
+    const created = await (prisma as any).matchmakingQueueEntry.create({
+      data: {
+        userId,
+        deckId,
+        modeCode,
+        queueKey: queueKeyV1({ modeCode, ...pointers.pointers }, eventId),
+        eventId,
+        pointersJson: pointers.pointers,
+        rating,
+        gateJson: gate,
+        enqueuedAt: now,
+      },
+    });
+
+    await runQueuePass(prisma, now);
+
+    const entry = await (prisma as any).matchmakingQueueEntry.findUnique({ where: { id: created.id } });
+    return reply.send(entryView(entry, now.toISOString()));
+  });
+
+  // GET /queue/status?queueKey=
+  // Waiting depth per queue, plus the caller's open entry when x-user-id is present.
+  app.get("/queue/status", async (req: any, reply) => {
+    const now = getNow();
+    await runQueuePass(prisma, now);
+
+    const queueKey = req.query?.queueKey ? String(req.query.queueKey) : null;
+    const groups = await (prisma as any).matchmakingQueueEntry.groupBy({
+      by: ["queueKey"],
+      where: { status: "WAITING", ...(queueKey ? { queueKey } : {}) },
+      _count: { _all: true },
+      orderBy: { queueKey: "asc" },
+    });
+
+    const userId = actorUserId(req);
+    const mine = userId
+      ? await (prisma as any).matchmakingQueueEntry.findFirst({ where: { userId }, orderBy: { enqueuedAt: "desc" } })
+      : null;
+
+    return reply.send({
+      now: now.toISOString(),
+      policy: DEFAULT_QUEUE_POLICY_V1,
+      queues: groups.map((g: any) => ({ queueKey: g.queueKey, waiting: g._count?._all ?? 0 })),
+      entry: mine ? entryView(mine, now.toISOString()) : null,
+    });
+  });
+
+  // GET /queue/:entryId
+  app.get("/queue/:entryId", async (req: any, reply) => {
+    const entryId = String(req.params?.entryId ?? "");
+    if (!entryId) return reply.code(400).send({ error: "bad_request", message: "entryId required" });
+
+    const now = getNow();
+    await runQueuePass(prisma, now);
+
+    const entry = await (prisma as any).matchmakingQueueEntry.findUnique({ where: { id: entryId } });
+    if (!entry) return reply.code(404).send({ error: "not_found", entryId });
+    return reply.send(entryView(entry, now.toISOString()));
+  });
+
+  // POST /queue/:entryId/cancel (owner only, while WAITING)
+  app.post("/queue/:entryId/cancel", async (req: any, reply) => {
+    const userId = actorUserId(req);
+    if (!userId) return reply.code(400).send({ error: "bad_request", message: "x-user-id required" });
+
+    const entryId = String(req.params?.entryId ?? "");
+    const now = getNow();
+    await runQueuePass(prisma, now);
+
+    const entry = await (prisma as any).matchmakingQueueEntry.findUnique({ where: { id: entryId } });
+    if (!entry) return reply.code(404).send({ error: "not_found", entryId });
+    if (entry.userId !== userId) return reply.code(403).send({ error: "queue_forbidden", reason: "not_owner" });
+
+    const cancelled = await (prisma as any).matchmakingQueueEntry.updateMany({
+      where: { id: entryId, status: "WAITING" },
+      data: { status: "CANCELLED", resolvedAt: now },
+    });
+    const latest = await (prisma as any).matchmakingQueueEntry.findUnique({ where: { id: entryId } });
+    if (cancelled.count !== 1) {
+      return reply.code(409).send({ error: "invalid_state", entry: entryView(latest, now.toISOString()) });
+    }
+
+    return reply.send(entryView(latest, now.toISOString()));
+  });
+}
@@ -0,0 +1,196 @@
+import type { PrismaClient } from "@prisma/client";
+import {
+  applyOutcomeV1,
+  freshRatingV1,
+  ratedOutcomeV1,
+  type CompetitorRatingV1,
+  type RatedArtifactV1,
+} from "../ratings/rating.v1";
+
+/**
+ * Ratings gateway
+ *
+ * Goal:
+ *  - Fold stored EngineMatchArtifactV1 rows into CompetitorRating / RatingHistoryEntry in (createdAt, id) order.
+ *  - syncRatings() is incremental (RatingSyncCursor); recomputeRatings() wipes and replays from the first artifact.
+ *
+ * NOTE:
+ *  - One transaction per artifact: ratings, history and cursor move together.
+ *  - Artifacts without both competitor ids (or TRAINING matches) only advance the cursor.
+ *  - Artifact writes are not serialized with the sync, so one that commits after a later-created one was synced
+ *    lands behind the cursor. Each sync re-scans a trailing window before the cursor and rates what has no
+ *    RatingHistoryEntry rows yet (the (artifactId, competitorId) unique key keeps concurrent syncs from doubling).
+ */
+
+const CURSOR_ID = "GLOBAL";
+const BATCH = 500;
+// How far behind the cursor a late-committing artifact is still picked up.
+const LATE_WINDOW_MS = 10 * 60 * 1000;
+
+const ARTIFACT_SELECT = {
+  id: true,
+  matchId: true,
+  formatId: true,
+  formatVersion: true,
+  gameModeId: true,
+  gameModeVersion: true,
+  createdAt: true,
+  matchResultJson: true,
+};
+
+function toRating(row: any): CompetitorRatingV1 {
+  return {
+    ratingKey: row.ratingKey,
+    competitorId: row.competitorId,
+    rating: Number(row.rating),
+    rd: Number(row.rd),
+    matches: row.matches,
+    wins: row.wins,
+    losses: row.losses,
+    draws: row.draws,
+    lastMatchId: row.lastMatchId ?? null,
+  };
+}
+
+async function loadRating(tx: any, ratingKey: string, competitorId: string): Promise<CompetitorRatingV1> {
+  const row = await tx.competitorRating.findUnique({ where: { ratingKey_competitorId: { ratingKey, competitorId } } });
+  return row ? toRating(row) : freshRatingV1(ratingKey, competitorId);
+}
+
+async function saveRating(tx: any, r: CompetitorRatingV1) {
+  const data = {
+    rating: r.rating,
+    rd: r.rd,
+    matches: r.matches,
+    wins: r.wins,
+    losses: r.losses,
+    draws: r.draws,
+    lastMatchId: r.lastMatchId,
+  };
+  await tx.competitorRating.upsert({
+    where: { ratingKey_competitorId: { ratingKey: r.ratingKey, competitorId: r.competitorId } },
+    create: { ratingKey: r.ratingKey, competitorId: r.competitorId, ...data },
+    update: data,
+  });
+}
+
+async function applyArtifact(
+  prisma: PrismaClient,
+  artifact: RatedArtifactV1,
+  opts: { advanceCursor: boolean } = { advanceCursor: true }
+): Promise<boolean> {
+  const outcome = ratedOutcomeV1(artifact);
+
+  return await prisma.$transaction(async (tx: any) => {
+    let rated = false;
+    if (outcome) {
+      const home = await loadRating(tx, outcome.ratingKey, outcome.homeId);
+      const away = await loadRating(tx, outcome.ratingKey, outcome.awayId);
+      const out = applyOutcomeV1({ artifact, outcome, home, away });
+
+      await saveRating(tx, out.home);
+      await saveRating(tx, out.away);
+      for (const h of out.history) await tx.ratingHistoryEntry.create({ data: h });
+      rated = true;
+    }
+
+    if (opts.advanceCursor) {
+      await tx.ratingSyncCursor.upsert({
+        where: { id: CURSOR_ID },
+        create: { id: CURSOR_ID, lastCreatedAt: artifact.createdAt, lastArtifactId: artifact.id },
+        update: { lastCreatedAt: artifact.createdAt, lastArtifactId: artifact.id },
+      });
+    }
+    return rated;
+  });
+}
+
+/** Rates artifacts in the trailing window behind the cursor that committed after it had passed them. */
+async function syncLateArtifacts(prisma: PrismaClient, cursor: any): Promise<{ scanned: number; rated: number }> {
+  if (!cursor?.lastCreatedAt) return { scanned: 0, rated: 0 };
+  const since = new Date(new Date(cursor.lastCreatedAt).getTime() - LATE_WINDOW_MS);
+
+  const window = await (prisma as any).engineMatchArtifactV1.findMany({
+    where: {
+      createdAt: { gte: since, lte: cursor.lastCreatedAt },
+      NOT: { createdAt: cursor.lastCreatedAt, id: { gt: cursor.lastArtifactId ?? "" } },
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    select: ARTIFACT_SELECT,
+  });
+  const candidates = window.filter((a: RatedArtifactV1) => ratedOutcomeV1(a) !== null);
+  if (candidates.length === 0) return { scanned: 0, rated: 0 };
+
+  const seen = await (prisma as any).ratingHistoryEntry.findMany({
+    where: { artifactId: { in: candidates.map((a: RatedArtifactV1) => a.id) } },
+    select: { artifactId: true },
+  });
+  const ratedIds = new Set(seen.map((h: any) => h.artifactId));
+
+  let scanned = 0;
+  let rated = 0;
+  for (const artifact of candidates) {
+    if (ratedIds.has(artifact.id)) continue;
+    scanned++;
+    if (await applyArtifact(prisma, artifact, { advanceCursor: false })) rated++;
+  }
+  return { scanned, rated };
+}
+
+/** Folds every artifact stored after the cursor (and late ones just behind it) into ratings. Safe to call after each artifact write. */
+export async function syncRatings(prisma: PrismaClient): Promise<{ scanned: number; rated: number }> {
+  const late = await syncLateArtifacts(prisma, await (prisma as any).ratingSyncCursor.findUnique({ where: { id: CURSOR_ID } }));
+  let scanned = late.scanned;
+  let rated = late.rated;
+
+  for (;;) {
+    const cursor = await (prisma as any).ratingSyncCursor.findUnique({ where: { id: CURSOR_ID } });
+    const after = cursor?.lastCreatedAt
+      ? {
+          OR: [
+            { createdAt: { gt: cursor.lastCreatedAt } },
+            { createdAt: cursor.lastCreatedAt, id: { gt: cursor.lastArtifactId ?? "" } },
+          ],
+        }
+      : {};
+
+    const batch = await (prisma as any).engineMatchArtifactV1.findMany({
+      where: after,
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: BATCH,
+      select: ARTIFACT_SELECT,
+    });
+    if (batch.length === 0) break;
+
+    for (const artifact of batch) {
+      scanned++;
+      if (await applyArtifact(prisma, artifact)) rated++;
+    }
+    if (batch.length < BATCH) break;
+  }
+
+  return { scanned, rated };
+}
+
+/** Drops all derived rating rows and replays every artifact from scratch. */
+export async function recomputeRatings(prisma: PrismaClient): Promise<{ scanned: number; rated: number }> {
+  await prisma.$transaction(async (tx: any) => {
+    await tx.ratingHistoryEntry.deleteMany({});
+    await tx.competitorRating.deleteMany({});
+    await tx.ratingSyncCursor.deleteMany({});
+  });
+  return await syncRatings(prisma);
+}
+
+/** Current rating per competitor for one ratingKey (missing competitors are omitted). */
+export async function getRatingsFor(
+  prisma: PrismaClient,
+  ratingKey: string,
+  competitorIds: string[]
+): Promise<Map<string, CompetitorRatingV1>> {
+  if (competitorIds.length === 0) return new Map();
+  const rows = await (prisma as any).competitorRating.findMany({
+    where: { ratingKey, competitorId: { in: competitorIds } },
+  });
+  return new Map(rows.map((r: any) => [r.competitorId, toRating(r)]));
+}
@@ -0,0 +1,103 @@
+// src/server/ratings.routes.v1.ts
+// Skill ratings (read-only): leaderboard + per-competitor ratings and history.
+// Ratings are derived from stored engine artifacts (see ratings.gateway); rebuild with scripts/ratings_recompute.ts.
+
+import type { FastifyInstance } from "fastify";
+import type { PrismaClient } from "@prisma/client";
+
+import { ratingKeyV1 } from "../ratings/rating.v1";
+
+function clampLimit(raw: any, fallback: number, max: number): number {
+  const n = Number(raw ?? fallback);
+  if (!Number.isInteger(n) || n < 1) return fallback;
+  return Math.min(n, max);
+}
+
+function ratingKeyFromQuery(q: any): string {
+  return ratingKeyV1({
+    gameModeId: String(q?.gameModeId ?? "GM_SCORED"),
+    gameModeVersion: Number(q?.gameModeVersion ?? 1),
+    formatId: String(q?.formatId ?? "FMT_ROOKIE"),
+    formatVersion: Number(q?.formatVersion ?? 1),
+  });
+}
+
+function ratingView(r: any) {
+  return {
+    ratingKey: r.ratingKey,
+    competitorId: r.competitorId,
+    rating: r.rating,
+    rd: r.rd,
+    matches: r.matches,
+    wins: r.wins,
+    losses: r.losses,
+    draws: r.draws,
+    lastMatchId: r.lastMatchId ?? null,
+  };
+}
+
+export async function registerRatingsRoutesV1(app: FastifyInstance, prisma: PrismaClient) {
+  // GET /ratings/leaderboard?gameModeId=&gameModeVersion=&formatId=&formatVersion=&limit=
+  app.get("/ratings/leaderboard", async (req: any, reply) => {
+    const ratingKey = ratingKeyFromQuery(req.query);
+    const limit = clampLimit(req.query?.limit, 50, 200);
+
+    const rows = await (prisma as any).competitorRating.findMany({
+      where: { ratingKey },
+      orderBy: [{ rating: "desc" }, { rd: "asc" }, { competitorId: "asc" }],
+      take: limit,
+    });
+
+    return reply.send({
+      ok: true,
+      ratingKey,
+      rows: rows.map((r: any, i: number) => ({ rank: i + 1, ...ratingView(r) })),
+    });
+  });
+
+  // GET /ratings/competitors/:competitorId
+  app.get("/ratings/competitors/:competitorId", async (req: any, reply) => {
+    const competitorId = String(req.params?.competitorId ?? "");
+    if (!competitorId) return reply.code(400).send({ ok: false, error: "competitorId required" });
+
+    const rows = await (prisma as any).competitorRating.findMany({
+      where: { competitorId },
+      orderBy: { ratingKey: "asc" },
+    });
+
+    return reply.send({ ok: true, competitorId, ratings: rows.map(ratingView) });
+  });
+
+  // GET /ratings/competitors/:competitorId/history?gameModeId=&...&limit=
+  // Oldest first within the rating key.
+  app.get("/ratings/competitors/:competitorId/history", async (req: any, reply) => {
+    const competitorId = String(req.params?.competitorId ?? "");
+    if (!competitorId) return reply.code(400).send({ ok: false, error: "competitorId required" });
+
+    const ratingKey = ratingKeyFromQuery(req.query);
+    const limit = clampLimit(req.query?.limit, 200, 1000);
+
+    const rows = await (prisma as any).ratingHistoryEntry.findMany({
+      where: { competitorId, ratingKey },
+      orderBy: { matchNumber: "asc" },
+      take: limit,
+    });
+
+    return reply.send({
+      ok: true,
+      competitorId,
+      ratingKey,
+      history: rows.map((h: any) => ({
+        matchNumber: h.matchNumber,
+        matchId: h.matchId,
+        artifactId: h.artifactId,
+        opponentId: h.opponentId,
+        score: h.score,
+        ratingBefore: h.ratingBefore,
+        rdBefore: h.rdBefore,
+        ratingAfter: h.ratingAfter,
+        rdAfter: h.rdAfter,
+      })),
+    });
+  });
+}
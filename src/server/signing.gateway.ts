@@ -0,0 +1,195 @@
+import type { PrismaClient } from "@prisma/client";
+import type { EligibilityPacketV1 } from "../contracts/gameplay/v1/EligibilityPacketV1";
+import {
+  generateSigningKeyV1,
+  payloadHashV1,
+  publicSigningKeyV1,
+  signEligibilityPacketV1,
+  signPayloadV1,
+  verifyPayloadV1,
+  type SignatureCheckV1,
+  type SignedKindV1,
+  type SigningKeyV1,
+} from "../signing/signing.v1";
+
+/**
+ * Signing gateway
+ *
+ * Goal:
+ *  - Server keypair(s) in SigningKey; the newest ACTIVE key signs, created on first use.
+ *  - Sign stored results (EngineMatchArtifactV1 rows, TournamentArtifactV1 snapshots) into SignedRecord, and
+ *    verify them against what the DB holds now — an edit after signing shows up as CONTENT_CHANGED.
+ *
+ * NOTE:
+ *  - Rotation retires the active key and creates a new one; existing signatures are not redone.
+ *  - Eligibility packets are not stored: they carry their own envelope (packet.signature).
+ */
+
+const BACKFILL_BATCH = 200;
+
+export type RecordSignatureCheckV1 =
+  | (SignatureCheckV1 & { subjectId: string; signedRecord: true; signature: any })
+  | { ok: false; status: "NOT_FOUND" | "NOT_SIGNED"; kind: SignedKindV1; subjectId: string; signedRecord: false };
+
+function toKey(row: any): SigningKeyV1 {
+  return {
+    keyId: row.keyId,
+    publicKeyPem: row.publicKeyPem,
+    privateKeyPem: row.privateKeyPem,
+    status: row.status,
+    createdAtIso: new Date(row.createdAt).toISOString(),
+    retiredAtIso: row.retiredAt ? new Date(row.retiredAt).toISOString() : null,
+  };
+}
+
+async function createKey(db: any, now: Date): Promise<SigningKeyV1> {
+  const key = generateSigningKeyV1(now.toISOString());
+  await db.signingKey.create({
+    data: {
+      keyId: key.keyId,
+      publicKeyPem: key.publicKeyPem,
+      privateKeyPem: key.privateKeyPem,
+      status: "ACTIVE",
+      createdAt: now,
+    },
+  });
+  return key;
+}
+
+export async function activeSigningKey(prisma: PrismaClient): Promise<SigningKeyV1> {
+  const row = await (prisma as any).signingKey.findFirst({ where: { status: "ACTIVE" }, orderBy: { createdAt: "desc" } });
+  return row ? toKey(row) : createKey(prisma as any, new Date());
+}
+
+/** All keys, verify-only (private keys stripped), newest first. */
+export async function listSigningKeys(prisma: PrismaClient): Promise<SigningKeyV1[]> {
+  const rows = await (prisma as any).signingKey.findMany({ orderBy: { createdAt: "desc" } });
+  return rows.map((r: any) => publicSigningKeyV1(toKey(r)));
+}
+
+export async function rotateSigningKey(prisma: PrismaClient) {
+  const now = new Date();
+  return (prisma as any).$transaction(async (tx: any) => {
+    const active = await tx.signingKey.findMany({ where: { status: "ACTIVE" }, select: { keyId: true } });
+    await tx.signingKey.updateMany({ where: { status: "ACTIVE" }, data: { status: "RETIRED", retiredAt: now } });
+    const key = await createKey(tx, now);
+    return { retiredKeyIds: active.map((k: any) => k.keyId), key: publicSigningKeyV1(key) };
+  });
+}
+
+/** The exact content signed for a stored subject, rebuilt from its row (null if the row is gone). */
+async function signedPayloadFor(prisma: PrismaClient, kind: SignedKindV1, subjectId: string): Promise<unknown | null> {
+  if (kind === "MATCH_ARTIFACT") {
+    const row = await (prisma as any).engineMatchArtifactV1.findUnique({ where: { matchId: subjectId } });
+    if (!row) return null;
+    return {
+      matchId: row.matchId,
+      sessionId: row.sessionId,
+      pointer: row.pointerJson,
+      snapshots: row.snapshotsJson,
+      matchResult: row.matchResultJson,
+      insightRecord: row.insightRecordJson,
+    };
+  }
+  if (kind === "TOURNAMENT_COMPLETED") {
+    const row = await (prisma as any).tournamentArtifactV1.findUnique({ where: { tournamentId: subjectId } });
+    if (!row) return null;
+    return {
+      tournamentId: row.tournamentId,
+      name: row.name,
+      matchIds: row.matchIdsJson,
+      standings: row.standingsJson,
+      rewardPolicy: row.rewardPolicyJson ?? null,
+      sponsorId: row.sponsorId ?? null,
+    };
+  }
+  return null;
+}
+
+/** Sign (or re-sign) the current content of a stored subject. Throws SIGN_SUBJECT_NOT_FOUND if the row is gone. */
+export async function signStoredRecord(prisma: PrismaClient, kind: SignedKindV1, subjectId: string) {
+  const payload = await signedPayloadFor(prisma, kind, subjectId);
+  if (payload === null) throw new Error(`SIGN_SUBJECT_NOT_FOUND: ${kind} ${subjectId}`);
+
+  const key = await activeSigningKey(prisma);
+  const signedAt = new Date();
+  const signature = signPayloadV1({ kind, payload, key, signedAtIso: signedAt.toISOString() });
+  const data = { keyId: key.keyId, signatureJson: signature as any, payloadHash: payloadHashV1(payload), signedAt };
+
+  await (prisma as any).signedRecord.upsert({
+    where: { kind_subjectId: { kind, subjectId } },
+    create: { kind, subjectId, ...data },
+    update: data,
+  });
+  return signature;
+}
+
+export async function verifyStoredRecord(
+  prisma: PrismaClient,
+  kind: SignedKindV1,
+  subjectId: string
+): Promise<RecordSignatureCheckV1> {
+  const payload = await signedPayloadFor(prisma, kind, subjectId);
+  if (payload === null) return { ok: false, status: "NOT_FOUND", kind, subjectId, signedRecord: false };
+
+  const rec = await (prisma as any).signedRecord.findUnique({ where: { kind_subjectId: { kind, subjectId } } });
+  if (!rec) return { ok: false, status: "NOT_SIGNED", kind, subjectId, signedRecord: false };
+
+  const keys = await listSigningKeys(prisma);
+  const check = verifyPayloadV1({ kind, payload, signature: rec.signatureJson, keys });
+  return { ...check, subjectId, signedRecord: true, signature: rec.signatureJson };
+}
+
+/** Offline check of a document the caller holds (exported artifact, tournament snapshot, eligibility packet). */
+export async function verifyDocument(
+  prisma: PrismaClient,
+  args: { kind: SignedKindV1; payload: unknown; signature?: any }
+): Promise<SignatureCheckV1> {
+  const signature = args.signature ?? (args.payload as any)?.signature;
+  return verifyPayloadV1({ kind: args.kind, payload: args.payload, signature, keys: await listSigningKeys(prisma) });
+}
+
+export async function signEligibilityPacket(prisma: PrismaClient, packet: EligibilityPacketV1): Promise<EligibilityPacketV1> {
+  return signEligibilityPacketV1(packet, await activeSigningKey(prisma), new Date().toISOString());
+}
+
+/** Sign stored match artifacts and tournament snapshots that have no SignedRecord yet. */
+export async function signUnsignedRecords(prisma: PrismaClient, opts: { maxRecords?: number } = {}) {
+  const max = opts.maxRecords ?? Number.POSITIVE_INFINITY;
+  const signed = { MATCH_ARTIFACT: 0, TOURNAMENT_COMPLETED: 0 };
+
+  const sources = [
+    { kind: "MATCH_ARTIFACT" as const, model: "engineMatchArtifactV1", idField: "matchId" },
+    { kind: "TOURNAMENT_COMPLETED" as const, model: "tournamentArtifactV1", idField: "tournamentId" },
+  ];
+
+  for (const src of sources) {
+    let cursor: string | undefined;
+    while (signed.MATCH_ARTIFACT + signed.TOURNAMENT_COMPLETED < max) {
+      const rows = await (prisma as any)[src.model].findMany({
+        orderBy: { id: "asc" },
+        take: BACKFILL_BATCH,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        select: { id: true, [src.idField]: true },
+      });
+      if (rows.length === 0) break;
+      cursor = rows[rows.length - 1].id;
+
+      const ids = rows.map((r: any) => String(r[src.idField]));
+      const have = await (prisma as any).signedRecord.findMany({
+        where: { kind: src.kind, subjectId: { in: ids } },
+        select: { subjectId: true },
+      });
+      const done = new Set(have.map((h: any) => h.subjectId));
+
+      for (const id of ids) {
+        if (done.has(id)) continue;
+        if (signed.MATCH_ARTIFACT + signed.TOURNAMENT_COMPLETED >= max) break;
+        await signStoredRecord(prisma, src.kind, id);
+        signed[src.kind]++;
+      }
+    }
+  }
+
+  return { signed };
+}
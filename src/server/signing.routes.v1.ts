@@ -0,0 +1,88 @@
+// src/server/signing.routes.v1.ts
+// Result signing v1 (see signing.gateway): published keys, verification of stored match artifacts and tournament
+// snapshots against current DB content, offline verification of held documents, and admin key rotation/backfill.
+
+import type { FastifyInstance } from "fastify";
+import type { PrismaClient } from "@prisma/client";
+
+import { isSignedKindV1 } from "../signing/signing.v1";
+import {
+  listSigningKeys,
+  rotateSigningKey,
+  signUnsignedRecords,
+  verifyDocument,
+  verifyStoredRecord,
+} from "./signing.gateway";
+
+function keyView(k: any) {
+  return {
+    keyId: k.keyId,
+    scheme: "ed25519",
+    status: k.status,
+    publicKeyPem: k.publicKeyPem,
+    createdAt: k.createdAtIso,
+    retiredAt: k.retiredAtIso,
+  };
+}
+
+export async function registerSigningRoutesV1(app: FastifyInstance, prisma: PrismaClient) {
+  // GET /signing/keys — every key that ever signed (retired ones included), public halves only.
+  app.get("/signing/keys", async (_req: any, reply) => {
+    const keys = await listSigningKeys(prisma);
+    return reply.send({ ok: true, keys: keys.map(keyView) });
+  });
+
+  // GET /signing/matches/:matchId — stored signature checked against the artifact as stored now.
+  app.get("/signing/matches/:matchId", async (req: any, reply) => {
+    const out = await verifyStoredRecord(prisma, "MATCH_ARTIFACT", String(req.params?.matchId ?? ""));
+    if (out.status === "NOT_FOUND") return reply.code(404).send({ ok: false, error: "match not found" });
+    return reply.send({ ok: true, verification: out });
+  });
+
+  // GET /signing/tournaments/:tournamentId
+  app.get("/signing/tournaments/:tournamentId", async (req: any, reply) => {
+    const out = await verifyStoredRecord(prisma, "TOURNAMENT_COMPLETED", String(req.params?.tournamentId ?? ""));
+    if (out.status === "NOT_FOUND") return reply.code(404).send({ ok: false, error: "tournament not found" });
+    return reply.send({ ok: true, verification: out });
+  });
+
+  // POST /signing/verify
+  // Body: { kind: "MATCH_ARTIFACT"|"TOURNAMENT_COMPLETED"|"ELIGIBILITY_PACKET", payload, signature? }
+  // signature defaults to payload.signature (eligibility packets carry their own).
+  app.post("/signing/verify", async (req: any, reply) => {
+    const body = (req.body ?? {}) as any;
+    if (!isSignedKindV1(body.kind)) return reply.code(400).send({ ok: false, error: "unknown kind" });
+    if (body.payload === undefined) return reply.code(400).send({ ok: false, error: "payload required" });
+
+    try {
+      const verification = await verifyDocument(prisma, { kind: body.kind, payload: body.payload, signature: body.signature });
+      return reply.send({ ok: true, verification });
+    } catch (e: any) {
+      // canonicalization rejects non-JSON payloads (NaN, lone surrogates, ...)
+      return reply.code(400).send({ ok: false, error: e?.message ?? "BAD_REQUEST" });
+    }
+  });
+
+  // POST /admin/signing/keys/rotate — retire the active key, start signing with a fresh one.
+  app.post("/admin/signing/keys/rotate", async (_req: any, reply) => {
+    const out = await rotateSigningKey(prisma);
+    return reply.send({ ok: true, retiredKeyIds: out.retiredKeyIds, key: keyView(out.key) });
+  });
+
+  // POST /admin/signing/backfill
+  // Body: { maxRecords?: number } — signs stored artifacts/tournaments that have no signature yet.
+  app.post("/admin/signing/backfill", async (req: any, reply) => {
+    const body = (req.body ?? {}) as any;
+    const maxRecords = body.maxRecords === undefined ? undefined : Number(body.maxRecords);
+    if (maxRecords !== undefined && (!Number.isInteger(maxRecords) || maxRecords < 1)) {
+      return reply.code(400).send({ ok: false, error: "maxRecords must be a positive integer" });
+    }
+
+    try {
+      const out = await signUnsignedRecords(prisma, { maxRecords });
+      return reply.send({ ok: true, ...out });
+    } catch (e: any) {
+      return reply.code(400).send({ ok: false, error: e?.message ?? "BAD_REQUEST" });
+    }
+  });
+}
@@ -2,12 +2,14 @@
 // Tournament persistence v1 — derive standings from stored EngineMatchArtifactV1 and store immutable snapshot.
 // + B2: GET /tournaments/:tournamentId/rewards (pure derivation; no payout authority; no writes)
 // + B2.1: rewardPolicyJson stored per tournament (tie payout configurable; ranking = COMPETITION)
+// + derive-and-store signs the stored snapshot (TOURNAMENT_COMPLETED, see signing.gateway); re-deriving re-signs.
 
 import type { FastifyInstance } from "fastify";
 import type { PrismaClient } from "@prisma/client";
 
 import crypto from "node:crypto";
 import { deriveStandingsV1, type TournamentV1 } from "../tournaments/tournament.v1";
+import { signStoredRecord } from "./signing.gateway";
 
 function newId(prefix: string) {
   return `${prefix}_${crypto.randomUUID()}`;
@@ -156,9 +158,15 @@ export async function registerTournamentRoutesV1(app: FastifyInstance, prisma: P
         },
       });
 
+      const signature = await signStoredRecord(prisma, "TOURNAMENT_COMPLETED", stored.tournamentId).catch((e) => {
+        req.log.warn({ err: e }, "tournament signing failed (POST /admin/signing/backfill repairs)");
+        return null;
+      });
+
       return reply.send({
         ok: true,
         stored: { id: stored.id, tournamentId: stored.tournamentId, createdAt: stored.createdAt },
+        signature,
         tournament,
         rewardPolicy,
         standings,
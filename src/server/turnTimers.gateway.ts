@@ -0,0 +1,73 @@
+import { GameStatus, type PrismaClient } from "@prisma/client";
+import { collectTurnTimeouts, TURN_TIMEOUT_EVENT } from "../engine/turnTimer";
+
+/**
+ * Turn-timer gateway
+ *
+ * Goal:
+ *  - Apply missed turn deadlines to ACTIVE games nobody is acting in (the action route only catches them on the
+ *    next action). Each miss is appended as a TURN_TIMEOUT GameEvent, exactly as the action route records it.
+ *  - Games whose timeouts reach a forfeit move to ENDED; POST /games/:id/engine/run then stores their artifact
+ *    with the forfeit winner.
+ *
+ * NOTE:
+ *  - "now" is injected (callers read NOW_ISO), so a scan is reproducible; deadlines still ahead are left untouched.
+ *  - Used by scripts/turnTimer_expiration_scan.ts and POST /admin/games/turn-timers/scan.
+ */
+
+export type TurnTimerScanV1 = {
+  nowIso: string;
+  scanned: number;
+  timeoutsApplied: number;
+  forfeited: number;
+  untouched: number;
+  // Games the scan wrote to (state + events), for callers that push them to live subscribers.
+  updatedGames: any[];
+};
+
+const DEFAULT_MAX_GAMES = 2000;
+
+export async function scanTurnTimers(
+  prisma: PrismaClient,
+  opts: { nowIso: string; maxGames?: number }
+): Promise<TurnTimerScanV1> {
+  const nowIso = opts.nowIso;
+  const games = await (prisma as any).game.findMany({
+    where: { status: GameStatus.ACTIVE },
+    include: { players: { select: { seat: true } } },
+    orderBy: { createdAt: "asc" },
+    take: opts.maxGames ?? DEFAULT_MAX_GAMES,
+  });
+
+  const out: TurnTimerScanV1 = { nowIso, scanned: games.length, timeoutsApplied: 0, forfeited: 0, untouched: 0, updatedGames: [] };
+
+  for (const g of games) {
+    const seats = (g.players ?? []).map((p: any) => p.seat).sort((a: number, b: number) => a - b);
+    const timed = collectTurnTimeouts(g.state ?? {}, nowIso, seats);
+    if (timed.timeouts.length === 0) {
+      out.untouched++;
+      continue;
+    }
+
+    const ended = !!timed.state.matchEnd;
+    const updated = await prisma.$transaction(async (tx: any) => {
+      const last = await tx.gameEvent.findFirst({ where: { gameId: g.id }, orderBy: { seq: "desc" }, select: { seq: true } });
+      let seq = last?.seq ?? 0;
+      for (const t of timed.timeouts) {
+        seq += 1;
+        await tx.gameEvent.create({ data: { gameId: g.id, seq, type: TURN_TIMEOUT_EVENT, payload: t, actorSeat: t.seat } });
+      }
+      return await tx.game.update({
+        where: { id: g.id },
+        data: { state: timed.state, ...(ended ? { status: GameStatus.ENDED } : {}) },
+        include: { events: { orderBy: { seq: "asc" } } },
+      });
+    });
+
+    out.timeoutsApplied += timed.timeouts.length;
+    if (ended) out.forfeited++;
+    out.updatedGames.push(updated);
+  }
+
+  return out;
+}
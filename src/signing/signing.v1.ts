@@ -0,0 +1,168 @@
+// src/signing/signing.v1.ts
+// Result signing v1 (ed25519, node:crypto). Pure: callers supply keys and timestamps.
+// The signed message is the canonical JSON (CanonicalJsonV1, sorted keys) of { domain, kind, keyId, signedAt, payload },
+// so a signature cannot be replayed onto another kind, key or time. Any `signature` field on the payload itself is
+// stripped first, which lets a packet carry its own envelope (EligibilityPacketV1.signature).
+// Key ids are derived from the public key, so a published key can be checked against its id.
+
+import crypto from "node:crypto";
+
+import { canonicalJsonV1 } from "../contracts/gameplay/v1/CanonicalJsonV1";
+import type { EligibilityPacketV1, EligibilitySignatureV1 } from "../contracts/gameplay/v1/EligibilityPacketV1";
+
+export const SIGNATURE_DOMAIN_V1 = "ONLY_CHAMPS_SIGNATURE_V1" as const;
+export const SIGNATURE_SCHEME_V1 = "ed25519" as const;
+
+export type SignedKindV1 = "MATCH_ARTIFACT" | "TOURNAMENT_COMPLETED" | "ELIGIBILITY_PACKET";
+export const SIGNED_KINDS_V1: ReadonlyArray<SignedKindV1> = ["MATCH_ARTIFACT", "TOURNAMENT_COMPLETED", "ELIGIBILITY_PACKET"];
+
+export type SigningKeyStatusV1 = "ACTIVE" | "RETIRED";
+
+export type SigningKeyV1 = {
+  keyId: string;
+  publicKeyPem: string;
+  /** Absent on published (verify-only) keys. */
+  privateKeyPem?: string;
+  status: SigningKeyStatusV1;
+  createdAtIso: string;
+  retiredAtIso: string | null;
+};
+
+/** EligibilitySignatureV1 with every field a verifier needs filled in. */
+export type SignatureEnvelopeV1 = EligibilitySignatureV1 & {
+  scheme: typeof SIGNATURE_SCHEME_V1;
+  signerId: string;
+  signature: string;
+  signedAt: string;
+  extra: { kind: SignedKindV1; payloadHash: string };
+};
+
+export type SignatureCheckStatusV1 =
+  | "VALID"
+  | "CONTENT_CHANGED" // payload no longer hashes to what was signed
+  | "BAD_SIGNATURE"
+  | "UNKNOWN_KEY"
+  | "MALFORMED";
+
+export type SignatureCheckV1 = {
+  ok: boolean;
+  status: SignatureCheckStatusV1;
+  kind: SignedKindV1 | null;
+  keyId: string | null;
+  signedAt: string | null;
+  keyStatus: SigningKeyStatusV1 | null;
+  detail?: string;
+};
+
+export function isSignedKindV1(x: unknown): x is SignedKindV1 {
+  return SIGNED_KINDS_V1.includes(x as any);
+}
+
+function withoutSignature(payload: unknown): unknown {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload) || !("signature" in (payload as any))) return payload;
+  const { signature: _signature, ...rest } = payload as any;
+  return rest;
+}
+
+/** sha256 (hex) of the canonical payload, minus its own signature field. */
+export function payloadHashV1(payload: unknown): string {
+  return crypto.createHash("sha256").update(canonicalJsonV1(withoutSignature(payload)), "utf8").digest("hex");
+}
+
+function signedMessage(kind: SignedKindV1, keyId: string, signedAt: string, payload: unknown): Buffer {
+  const text = canonicalJsonV1({ domain: SIGNATURE_DOMAIN_V1, kind, keyId, signedAt, payload: withoutSignature(payload) });
+  return Buffer.from(text, "utf8");
+}
+
+export function keyIdForPublicKeyV1(publicKeyPem: string): string {
+  const der = crypto.createPublicKey(publicKeyPem).export({ type: "spki", format: "der" });
+  return `SK_${crypto.createHash("sha256").update(der).digest("hex").slice(0, 16)}`;
+}
+
+export function generateSigningKeyV1(createdAtIso: string): SigningKeyV1 {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const publicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+  return {
+    keyId: keyIdForPublicKeyV1(publicKeyPem),
+    publicKeyPem,
+    privateKeyPem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    status: "ACTIVE",
+    createdAtIso,
+    retiredAtIso: null,
+  };
+}
+
+/** Verify-only view of a key (safe to publish). */
+export function publicSigningKeyV1(key: SigningKeyV1): SigningKeyV1 {
+  const { privateKeyPem: _privateKeyPem, ...pub } = key;
+  return pub;
+}
+
+export function signPayloadV1(args: {
+  kind: SignedKindV1;
+  payload: unknown;
+  key: SigningKeyV1;
+  signedAtIso: string;
+}): SignatureEnvelopeV1 {
+  const { kind, payload, key, signedAtIso } = args;
+  if (!key.privateKeyPem) throw new Error(`SIGNING_KEY_NO_PRIVATE: ${key.keyId}`);
+  if (key.status !== "ACTIVE") throw new Error(`SIGNING_KEY_RETIRED: ${key.keyId}`);
+
+  const sig = crypto.sign(null, signedMessage(kind, key.keyId, signedAtIso, payload), key.privateKeyPem);
+  return {
+    scheme: SIGNATURE_SCHEME_V1,
+    signerId: key.keyId,
+    signature: sig.toString("base64"),
+    signedAt: signedAtIso,
+    extra: { kind, payloadHash: payloadHashV1(payload) },
+  };
+}
+
+/**
+ * Check `signature` over `payload`. Retired keys still verify (rotation never invalidates history);
+ * keys are looked up by signerId in `keys`.
+ */
+export function verifyPayloadV1(args: {
+  kind: SignedKindV1;
+  payload: unknown;
+  signature: EligibilitySignatureV1 | null | undefined;
+  keys: ReadonlyArray<SigningKeyV1>;
+}): SignatureCheckV1 {
+  const { kind, payload, signature, keys } = args;
+  const base = { kind, keyId: signature?.signerId ?? null, signedAt: signature?.signedAt ?? null, keyStatus: null };
+
+  if (!signature || signature.scheme !== SIGNATURE_SCHEME_V1 || !signature.signerId || !signature.signature || !signature.signedAt) {
+    return { ...base, ok: false, status: "MALFORMED", detail: "expected an ed25519 envelope with signerId, signature, signedAt" };
+  }
+  const signedKind = (signature.extra as any)?.kind;
+  if (signedKind !== undefined && signedKind !== kind) {
+    return { ...base, ok: false, status: "MALFORMED", detail: `signed as ${signedKind}, checked as ${kind}` };
+  }
+
+  const key = keys.find((k) => k.keyId === signature.signerId);
+  if (!key) return { ...base, ok: false, status: "UNKNOWN_KEY" };
+  const keyStatus = key.status;
+
+  let valid = false;
+  try {
+    const msg = signedMessage(kind, key.keyId, signature.signedAt, payload);
+    valid = crypto.verify(null, msg, key.publicKeyPem, Buffer.from(signature.signature, "base64"));
+  } catch (e: any) {
+    return { ...base, keyStatus, ok: false, status: "MALFORMED", detail: String(e?.message ?? e) };
+  }
+  if (valid) return { ...base, keyStatus, ok: true, status: "VALID" };
+
+  // Tell "the record was edited" apart from "the signature is wrong" when the envelope carries the signed hash.
+  const signedHash = (signature.extra as any)?.payloadHash;
+  const status = typeof signedHash === "string" && signedHash !== payloadHashV1(payload) ? "CONTENT_CHANGED" : "BAD_SIGNATURE";
+  return { ...base, keyStatus, ok: false, status };
+}
+
+/** Copy of `packet` carrying a signature over the rest of the packet. */
+export function signEligibilityPacketV1(packet: EligibilityPacketV1, key: SigningKeyV1, signedAtIso: string): EligibilityPacketV1 {
+  return { ...packet, signature: signPayloadV1({ kind: "ELIGIBILITY_PACKET", payload: packet, key, signedAtIso }) };
+}
+
+export function verifyEligibilityPacketV1(packet: EligibilityPacketV1, keys: ReadonlyArray<SigningKeyV1>): SignatureCheckV1 {
+  return verifyPayloadV1({ kind: "ELIGIBILITY_PACKET", payload: packet, signature: packet.signature, keys });
+}
@@ -1,82 +1,46 @@
 // src/store/matchStore.memory.v1.ts
 // Milestone C (C1): In-memory persistence for audit-grade artifact bundles.
-// No Prisma yet.
+// Implements MatchStoreV1 (same duplicate/freeze contract as the Prisma store).
 
-import type { SessionPointer } from "../config/sessionGate.v1";
-import type { MatchResultRecordV1 } from "../engine/matchResult.v1";
-import type { InsightRecordV1 } from "../insights/insightEngine.v1";
+import {
+  duplicateMatchIdError,
+  frozenCopyV1,
+  matchNotFoundError,
+  type MatchStoreV1,
+  type StoredMatchReceiptV1,
+  type StoredMatchV1,
+} from "./matchStore.v1";
 
-export type StoredMatchV1 = {
-  matchId: string;
-  sessionId: string;
+export type { StoredMatchV1 } from "./matchStore.v1";
 
-  // Inputs required to reconstruct / audit
-  pointer: SessionPointer;
-
-  // Frozen boundary artifacts
-  snapshots: {
-    formatSnapshot: {
-      formatId: string;
-      formatVersion: number;
-      engineCompatVersion: number;
-      name?: string;
-      description?: string;
-    };
-    gameModeSnapshot: {
-      gameModeId: string;
-      gameModeVersion: number;
-      engineCompatVersion: number;
-      name?: string;
-      description?: string;
-      formatGate?: any;
-    };
-  };
-
-  // Postgame artifacts
-  matchResult: MatchResultRecordV1;
-  insightRecord: InsightRecordV1;
-
-  createdAtIso: string;
-};
-
-export class MatchStoreMemoryV1 {
+export class MatchStoreMemoryV1 implements MatchStoreV1 {
   private byMatchId = new Map<string, StoredMatchV1>();
 
-  save(record: StoredMatchV1) {
+  async save(record: StoredMatchV1): Promise<StoredMatchReceiptV1> {
     if (this.byMatchId.has(record.matchId)) {
-      throw new Error(`STORE_DUPLICATE_MATCH_ID: ${record.matchId}`);
+      throw duplicateMatchIdError(record.matchId);
     }
     // store frozen copy to prevent accidental mutation
-    this.byMatchId.set(record.matchId, deepFreeze(structuredCloneCompat(record)));
+    this.byMatchId.set(record.matchId, frozenCopyV1(record));
+    return {
+      storeId: record.matchId,
+      matchId: record.matchId,
+      sessionId: record.sessionId,
+      createdAtIso: record.createdAtIso,
+    };
   }
 
-  get(matchId: string): StoredMatchV1 {
+  async get(matchId: string): Promise<StoredMatchV1> {
     const found = this.byMatchId.get(matchId);
-    if (!found) throw new Error(`STORE_MATCH_NOT_FOUND: ${matchId}`);
+    if (!found) throw matchNotFoundError(matchId);
     return found;
   }
 
-  listMatchIds(): string[] {
-    return Array.from(this.byMatchId.keys());
+  async has(matchId: string): Promise<boolean> {
+    return this.byMatchId.has(matchId);
   }
-}
-
-// Node 20 supports structuredClone; keep a tiny compat for safety
-function structuredCloneCompat<T>(obj: T): T {
-  // @ts-ignore
-  if (typeof structuredClone === "function") return structuredClone(obj);
-  return JSON.parse(JSON.stringify(obj));
-}
 
-function deepFreeze<T>(obj: T): T {
-  if (obj && typeof obj === "object") {
-    Object.freeze(obj);
-    // @ts-ignore
-    for (const key of Object.keys(obj)) {
-      // @ts-ignore
-      const v = obj[key];
-      if (v && typeof v === "object" && !Object.isFrozen(v)) deepFreeze(v);
-    }
+  async listMatchIds(): Promise<string[]> {
+    return Array.from(this.byMatchId.keys());
   }
-  return obj;
 }
@@ -0,0 +1,93 @@
+// src/store/matchStore.prisma.v1.ts
+// Milestone C (C2): EngineMatchArtifactV1-backed MatchStoreV1.
+// Column mapping: pointerJson / snapshotsJson / matchResultJson / insightRecordJson hold the StoredMatchV1 parts;
+// the format/gameMode columns are denormalized from matchResult for querying.
+
+import type { PrismaClient } from "@prisma/client";
+
+import {
+  duplicateMatchIdError,
+  frozenCopyV1,
+  matchNotFoundError,
+  type MatchStoreV1,
+  type StoredMatchReceiptV1,
+  type StoredMatchV1,
+} from "./matchStore.v1";
+
+/** EngineMatchArtifactV1 row -> StoredMatchV1 (not frozen; stores freeze on get). */
+export function storedMatchFromArtifactRowV1(row: any): StoredMatchV1 {
+  return {
+    matchId: row.matchId,
+    sessionId: row.sessionId,
+    pointer: row.pointerJson as any,
+    snapshots: row.snapshotsJson as any,
+    matchResult: row.matchResultJson as any,
+    insightRecord: row.insightRecordJson as any,
+    createdAtIso: new Date(row.createdAt).toISOString(),
+  };
+}
+
+function isUniqueViolation(e: any): boolean {
+  return e?.code === "P2002";
+}
+
+export class MatchStorePrismaV1 implements MatchStoreV1 {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async save(record: StoredMatchV1): Promise<StoredMatchReceiptV1> {
+    if (await this.has(record.matchId)) throw duplicateMatchIdError(record.matchId);
+
+    const r = record.matchResult;
+    let row: any;
+    try {
+      row = await (this.prisma as any).engineMatchArtifactV1.create({
+        data: {
+          matchId: record.matchId,
+          sessionId: record.sessionId,
+
+          formatId: r.formatId,
+          formatVersion: r.formatVersion,
+          gameModeId: r.gameModeId,
+          gameModeVersion: r.gameModeVersion,
+          engineCompatVersion: r.engineCompatVersion,
+
+          pointerJson: record.pointer as any,
+          snapshotsJson: record.snapshots as any,
+          matchResultJson: r as any,
+          insightRecordJson: record.insightRecord as any,
+          createdAt: new Date(record.createdAtIso),
+        },
+      });
+    } catch (e: any) {
+      // Lost a race with a concurrent save of the same matchId.
+      if (isUniqueViolation(e)) throw duplicateMatchIdError(record.matchId);
+      throw e;
+    }
+
+    return {
+      storeId: row.id,
+      matchId: row.matchId,
+      sessionId: row.sessionId,
+      createdAtIso: new Date(row.createdAt).toISOString(),
+    };
+  }
+
+  async get(matchId: string): Promise<StoredMatchV1> {
+    const row = await (this.prisma as any).engineMatchArtifactV1.findUnique({ where: { matchId } });
+    if (!row) throw matchNotFoundError(matchId);
+    return frozenCopyV1(storedMatchFromArtifactRowV1(row));
+  }
+
+  async has(matchId: string): Promise<boolean> {
+    const row = await (this.prisma as any).engineMatchArtifactV1.findUnique({ where: { matchId }, select: { id: true } });
+    return !!row;
+  }
+
+  async listMatchIds(): Promise<string[]> {
+    const rows = await (this.prisma as any).engineMatchArtifactV1.findMany({
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      select: { matchId: true },
+    });
+    return rows.map((r: any) => r.matchId);
+  }
+}
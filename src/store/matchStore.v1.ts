@@ -0,0 +1,89 @@
+// src/store/matchStore.v1.ts
+// Milestone C: MatchStore contract shared by the memory (C1) and Prisma (C2) stores.
+// Every implementation must:
+//  - reject a second save for the same matchId (STORE_DUPLICATE_MATCH_ID)
+//  - throw STORE_MATCH_NOT_FOUND for unknown ids
+//  - hand out deep-frozen records, so audit/replay code can never mutate what was stored
+
+import type { SessionPointer } from "../config/sessionGate.v1";
+import type { MatchResultRecordV1 } from "../engine/matchResult.v1";
+import type { InsightRecordV1 } from "../insights/insightEngine.v1";
+import type { RunnerDecksV1 } from "../engine/decks.v1";
+
+export type StoredMatchV1 = {
+  matchId: string;
+  sessionId: string;
+
+  // Inputs required to reconstruct / audit
+  pointer: SessionPointer;
+
+  // Frozen boundary artifacts
+  snapshots: {
+    formatSnapshot: {
+      formatId: string;
+      formatVersion: number;
+      engineCompatVersion: number;
+      name?: string;
+      description?: string;
+    };
+    gameModeSnapshot: {
+      gameModeId: string;
+      gameModeVersion: number;
+      engineCompatVersion: number;
+      name?: string;
+      description?: string;
+      formatGate?: any;
+    };
+    // Bound ruleset (engine/matches/run with a modeKey binding)
+    ruleSetSnapshot?: { ruleSetKey: string; ruleSetVersion: number } | null;
+    ruleSetJson?: any;
+    // Deck lists the runner drew from (absent => seed-only run)
+    decks?: RunnerDecksV1 | null;
+  };
+
+  // Postgame artifacts
+  matchResult: MatchResultRecordV1;
+  insightRecord: InsightRecordV1;
+
+  createdAtIso: string;
+};
+
+export type StoredMatchReceiptV1 = {
+  /** Store-native id (Prisma row id; the matchId for the memory store). */
+  storeId: string;
+  matchId: string;
+  sessionId: string;
+  createdAtIso: string;
+};
+
+export interface MatchStoreV1 {
+  save(record: StoredMatchV1): Promise<StoredMatchReceiptV1>;
+  get(matchId: string): Promise<StoredMatchV1>;
+  has(matchId: string): Promise<boolean>;
+  /** Insertion order. */
+  listMatchIds(): Promise<string[]>;
+}
+
+export function duplicateMatchIdError(matchId: string): Error {
+  return new Error(`STORE_DUPLICATE_MATCH_ID: ${matchId}`);
+}
+
+export function matchNotFoundError(matchId: string): Error {
+  return new Error(`STORE_MATCH_NOT_FOUND: ${matchId}`);
+}
+
+/** Detached, deep-frozen copy: what every store returns from get(). */
+export function frozenCopyV1<T>(obj: T): T {
+  return deepFreeze(structuredClone(obj));
+}
+
+function deepFreeze<T>(obj: T): T {
+  if (obj && typeof obj === "object") {
+    Object.freeze(obj);
+    for (const key of Object.keys(obj as object)) {
+      const v = (obj as Record<string, unknown>)[key];
+      if (v && typeof v === "object" && !Object.isFrozen(v)) deepFreeze(v);
+    }
+  }
+  return obj;
+}
@@ -0,0 +1,106 @@
+// src/store/replayAudit.v1.ts
+// Replay audit for stored matches: re-run a StoredMatchV1 and report the outcome as an AuditRecordV1.
+// Status: VERIFIED (replay matches), REPLAY_MISMATCH (per-field diffs in comparison.extra.fieldDiffs),
+// ERROR (replay threw, e.g. pointer no longer resolves in the registries).
+// Pure: no Prisma, caller supplies auditedAtIso.
+
+import type { AppConfig, FormatRegistry, GameModeRegistry } from "../config/registryLoaders.v1";
+import type { AuditRecordV1, AuditStatusV1 } from "../contracts/gameplay/v1/AuditRecordV1";
+import { canonicalHashV1 } from "../contracts/gameplay/v1/CanonicalJsonV1";
+import { BOBA_ENGINE_CODE, BOBA_ENGINE_VERSION } from "../contracts/gameplay/v1/BoBAEngineManifestV1";
+import type { JSONObject } from "../contracts/gameplay/v1/MatchArtifactV1";
+import { applyLiveEndV1, type MatchResultRecordV1 } from "../engine/matchResult.v1";
+import type { StoredMatchV1 } from "./matchStore.v1";
+import { diffStoredAgainstReplayV1, replayStoredMatchV1, type StoreReplayFieldDiffV1 } from "./replayFromStore.v1";
+
+export const REPLAY_AUDIT_ALGO_V1 = "noncrypto-djb2:stable-json-sortedkeys:identity+result:v1" as const;
+const REPLAY_AUDIT_UNIVERSE = "BOBA";
+
+export type ReplayAuditOutcomeV1 = {
+  record: AuditRecordV1;
+  fieldDiffs: StoreReplayFieldDiffV1[];
+};
+
+/** Digest over exactly the fields diffStoredAgainstReplayV1 compares. */
+export function outcomeDigestV1(r: MatchResultRecordV1): string {
+  return canonicalHashV1(
+    {
+      formatId: r.formatId,
+      formatVersion: r.formatVersion,
+      gameModeId: r.gameModeId,
+      gameModeVersion: r.gameModeVersion,
+      winner: r.result?.winner,
+      winReason: r.result?.winReason,
+      totalBattles: r.result?.totalBattles,
+      finalCoinCount: r.result?.finalCoinCount ?? null,
+    },
+    "stable-json:v1+sorted-keys"
+  );
+}
+
+function makeAuditId(matchId: string, expected: string): string {
+  return `AUDIT_REPLAY_${matchId}_${expected}`.replace(/[^A-Za-z0-9_\-]/g, "_");
+}
+
+export function auditStoredMatchV1(args: {
+  stored: StoredMatchV1;
+  appConfig: AppConfig;
+  formatRegistry: FormatRegistry;
+  gameModeRegistry: GameModeRegistry;
+  auditedAtIso: string;
+}): ReplayAuditOutcomeV1 {
+  const { stored } = args;
+  const expected = outcomeDigestV1(stored.matchResult);
+
+  const base = {
+    auditRecordVersion: "AuditRecordV1" as const,
+    auditRecordId: makeAuditId(stored.matchId, expected),
+    auditedAt: args.auditedAtIso,
+    universeCode: REPLAY_AUDIT_UNIVERSE,
+    engineCode: BOBA_ENGINE_CODE,
+    engineVersion: BOBA_ENGINE_VERSION,
+    modeCode: `${stored.matchResult.gameModeId}@${stored.matchResult.gameModeVersion}`,
+    source: { sourceType: "MATCH" as const, sourceId: stored.matchId, expectedDeterministicHash: expected },
+    meta: {
+      producer: "ReplayAuditV1",
+      sessionId: stored.sessionId,
+      engineCompatVersion: stored.matchResult.engineCompatVersion,
+    } as JSONObject,
+  };
+
+  let rerun: MatchResultRecordV1;
+  try {
+    rerun = replayStoredMatchV1(args);
+  } catch (err: any) {
+    return {
+      record: {
+        ...base,
+        status: "ERROR",
+        comparison: {
+          recomputedDeterministicHash: expected,
+          matchesExpected: false,
+          extra: { algo: REPLAY_AUDIT_ALGO_V1, message: String(err?.message ?? err) } as JSONObject,
+        },
+      },
+      fieldDiffs: [],
+    };
+  }
+
+  const fieldDiffs = diffStoredAgainstReplayV1(stored.matchResult, rerun);
+  const replayed = outcomeDigestV1(applyLiveEndV1(rerun, stored.matchResult.liveEnd));
+  const status: AuditStatusV1 = fieldDiffs.length === 0 ? "VERIFIED" : "REPLAY_MISMATCH";
+
+  return {
+    record: {
+      ...base,
+      status,
+      comparison: {
+        recomputedDeterministicHash: expected,
+        replayDeterministicHash: replayed,
+        matchesExpected: fieldDiffs.length === 0,
+        extra: { algo: REPLAY_AUDIT_ALGO_V1, fieldDiffs: fieldDiffs as any } as JSONObject,
+      },
+    },
+    fieldDiffs,
+  };
+}
@@ -4,54 +4,100 @@
 // because deterministic outcomes depend on them.
 
 import type { AppConfig, FormatRegistry, GameModeRegistry } from "../config/registryLoaders.v1";
-import { replayOnceV1 } from "../engine/replayHarness.v1";
-import type { StoredMatchV1 } from "./matchStore.memory.v1";
+import { applyLiveEndV1, type MatchResultRecordV1 } from "../engine/matchResult.v1";
+import { replayPinnedV1 } from "../engine/engineCompat.v1";
+import type { MatchStoreV1, StoredMatchV1 } from "./matchStore.v1";
 
 export type StoreReplayDiffV1 = {
   ok: boolean;
   diffs: string[];
 };
 
-export function replayFromStoredAndCompareV1(args: {
+/** One compared outcome field that differs between the stored record and its replay. */
+export type StoreReplayFieldDiffV1 = {
+  field: string;
+  stored: unknown;
+  replayed: unknown;
+};
+
+/** Field-by-field comparison of the stored outcome against a fresh replay (identity + result). */
+export function diffStoredAgainstReplayV1(
+  stored: MatchResultRecordV1,
+  replayed: MatchResultRecordV1
+): StoreReplayFieldDiffV1[] {
+  // A stored live end (the Game's matchEnd) decided the winner; the replay must still reproduce everything else.
+  const rerun = applyLiveEndV1(replayed, stored.liveEnd);
+  const diffs: StoreReplayFieldDiffV1[] = [];
+  const cmp = (field: string, a: unknown, b: unknown) => {
+    if (JSON.stringify(a ?? null) !== JSON.stringify(b ?? null)) diffs.push({ field, stored: a, replayed: b });
+  };
+
+  cmp("formatId", stored.formatId, rerun.formatId);
+  cmp("formatVersion", stored.formatVersion, rerun.formatVersion);
+  cmp("gameModeId", stored.gameModeId, rerun.gameModeId);
+  cmp("gameModeVersion", stored.gameModeVersion, rerun.gameModeVersion);
+
+  const a = stored.result;
+  const b = rerun.result;
+  cmp("winner", a.winner, b.winner);
+  cmp("winReason", a.winReason, b.winReason);
+  cmp("totalBattles", a.totalBattles, b.totalBattles);
+  cmp("finalCoinCount", a.finalCoinCount ?? null, b.finalCoinCount ?? null);
+
+  return diffs;
+}
+
+function formatFieldDiffV1(d: StoreReplayFieldDiffV1): string {
+  const show = (v: unknown) => (v !== null && typeof v === "object" ? JSON.stringify(v) : String(v));
+  return `${d.field}: ${show(d.stored)} !== ${show(d.replayed)}`;
+}
+
+type StoredReplayArgsV1 = {
   stored: StoredMatchV1;
   appConfig: AppConfig;
   formatRegistry: FormatRegistry;
   gameModeRegistry: GameModeRegistry;
-}): StoreReplayDiffV1 {
-  // Re-run from stored inputs using ORIGINAL ids (determinism key)
-  const rerun = replayOnceV1({
+};
+
+/**
+ * Re-run a stored match from its inputs using the ORIGINAL ids (determinism key),
+ * on the engine pinned to the artifact's engineCompatVersion (see engine/engineCompat.v1).
+ */
+export function replayStoredMatchV1(args: StoredReplayArgsV1): MatchResultRecordV1 {
+  return replayPinnedV1({
+    engineCompatVersion: Number(args.stored.matchResult.engineCompatVersion),
     inputs: {
       sessionId: args.stored.sessionId,
       matchId: args.stored.matchId,
       pointer: args.stored.pointer,
+      ruleSetJson: args.stored.snapshots.ruleSetJson ?? null,
+      decks: args.stored.snapshots.decks ?? null,
     },
     appConfig: args.appConfig,
     formatRegistry: args.formatRegistry,
     gameModeRegistry: args.gameModeRegistry,
   });
+}
 
-  const diffs: string[] = [];
-
-  if (args.stored.matchResult.formatId !== rerun.formatId)
-    diffs.push(`formatId: ${args.stored.matchResult.formatId} !== ${rerun.formatId}`);
-  if (args.stored.matchResult.formatVersion !== rerun.formatVersion)
-    diffs.push(`formatVersion: ${args.stored.matchResult.formatVersion} !== ${rerun.formatVersion}`);
-
-  if (args.stored.matchResult.gameModeId !== rerun.gameModeId)
-    diffs.push(`gameModeId: ${args.stored.matchResult.gameModeId} !== ${rerun.gameModeId}`);
-  if (args.stored.matchResult.gameModeVersion !== rerun.gameModeVersion)
-    diffs.push(`gameModeVersion: ${args.stored.matchResult.gameModeVersion} !== ${rerun.gameModeVersion}`);
-
-  const a = args.stored.matchResult.result;
-  const b = rerun.result;
-
-  if (a.winner !== b.winner) diffs.push(`winner: ${a.winner} !== ${b.winner}`);
-  if (a.winReason !== b.winReason) diffs.push(`winReason: ${a.winReason} !== ${b.winReason}`);
-  if (a.totalBattles !== b.totalBattles) diffs.push(`totalBattles: ${a.totalBattles} !== ${b.totalBattles}`);
-
-  const aCoins = JSON.stringify(a.finalCoinCount ?? null);
-  const bCoins = JSON.stringify(b.finalCoinCount ?? null);
-  if (aCoins !== bCoins) diffs.push(`finalCoinCount: ${aCoins} !== ${bCoins}`);
-
+export function replayFromStoredAndCompareV1(args: StoredReplayArgsV1): StoreReplayDiffV1 {
+  const rerun = replayStoredMatchV1(args);
+  const diffs = diffStoredAgainstReplayV1(args.stored.matchResult, rerun).map(formatFieldDiffV1);
   return { ok: diffs.length === 0, diffs };
 }
+
+/** Same comparison, reading the record from any MatchStoreV1 (memory or Prisma). */
+export async function replayFromStoreAndCompareV1(args: {
+  store: MatchStoreV1;
+  matchId: string;
+  appConfig: AppConfig;
+  formatRegistry: FormatRegistry;
+  gameModeRegistry: GameModeRegistry;
+}): Promise<StoreReplayDiffV1> {
+  const stored = await args.store.get(args.matchId);
+  return replayFromStoredAndCompareV1({
+    stored,
+    appConfig: args.appConfig,
+    formatRegistry: args.formatRegistry,
+    gameModeRegistry: args.gameModeRegistry,
+  });
+}
@@ -0,0 +1,93 @@
+// src/store/replayability.v1.ts
+// Replayability report for stored matches across engine-compat bumps (see engine/engineCompat.v1).
+// Static check, no engine run: an artifact is
+//  - replayable  when its compat version has a pinned engine and its pointers still resolve to registry entries
+//                of that same compat version
+//  - upgradable  when an upgrader chain reaches the current compat (readers can consume it)
+// Pure: no Prisma.
+
+import type { AppConfig, FormatRegistry, GameModeRegistry } from "../config/registryLoaders.v1";
+import { resolveFormat, resolveGameMode } from "../config/resolvers.v1";
+import {
+  ENGINE_CODE_COMPAT_VERSION,
+  MATCH_RESULT_UPGRADERS_V1,
+  PINNED_REPLAY_ENGINES_V1,
+  pinnedAppConfigV1,
+  pinnedReplayEngineV1,
+  upgradePathV1,
+  type MatchResultUpgraderV1,
+  type PinnedReplayEngineV1,
+} from "../engine/engineCompat.v1";
+import type { StoredMatchV1 } from "./matchStore.v1";
+
+export type ReplayabilityV1 = {
+  matchId: string;
+  engineCompatVersion: number;
+  replayable: boolean;
+  upgradable: boolean;
+  /** NO_PINNED_ENGINE | POINTER_UNRESOLVED | NO_UPGRADE_PATH (with detail after ':') */
+  reasons: string[];
+};
+
+export type ReplayabilitySummaryV1 = {
+  targetCompat: number;
+  total: number;
+  replayable: number;
+  upgradable: number;
+  byCompat: Record<string, { total: number; replayable: number; upgradable: number }>;
+};
+
+export function assessReplayabilityV1(args: {
+  stored: StoredMatchV1;
+  appConfig: AppConfig;
+  formatRegistry: FormatRegistry;
+  gameModeRegistry: GameModeRegistry;
+  targetCompat?: number;
+  engines?: ReadonlyArray<PinnedReplayEngineV1>;
+  upgraders?: ReadonlyArray<MatchResultUpgraderV1>;
+}): ReplayabilityV1 {
+  const compat = Number(args.stored.matchResult?.engineCompatVersion);
+  const targetCompat = args.targetCompat ?? ENGINE_CODE_COMPAT_VERSION;
+  const reasons: string[] = [];
+
+  const engine = pinnedReplayEngineV1(compat, args.engines ?? PINNED_REPLAY_ENGINES_V1);
+  if (!engine) reasons.push(`NO_PINNED_ENGINE: compat=${compat}`);
+
+  // Same resolution the pinned replay performs; catches registry entries removed or re-pointed to another compat.
+  const appConfig = pinnedAppConfigV1(args.appConfig, compat);
+  try {
+    resolveFormat({ appConfig, formatRegistry: args.formatRegistry, pointer: args.stored.pointer.format });
+    resolveGameMode({ appConfig, gameModeRegistry: args.gameModeRegistry, pointer: args.stored.pointer.gameMode });
+  } catch (e: any) {
+    reasons.push(`POINTER_UNRESOLVED: ${String(e?.message ?? e)}`);
+  }
+
+  const upgradable = upgradePathV1(compat, targetCompat, args.upgraders ?? MATCH_RESULT_UPGRADERS_V1) !== null;
+  if (!upgradable) reasons.push(`NO_UPGRADE_PATH: ${compat} -> ${targetCompat}`);
+
+  return {
+    matchId: args.stored.matchId,
+    engineCompatVersion: compat,
+    replayable: !reasons.some((r) => r.startsWith("NO_PINNED_ENGINE") || r.startsWith("POINTER_UNRESOLVED")),
+    upgradable,
+    reasons,
+  };
+}
+
+export function summarizeReplayabilityV1(items: ReplayabilityV1[], targetCompat: number): ReplayabilitySummaryV1 {
+  const byCompat: ReplayabilitySummaryV1["byCompat"] = {};
+  for (const it of items) {
+    const k = String(it.engineCompatVersion);
+    const b = (byCompat[k] ??= { total: 0, replayable: 0, upgradable: 0 });
+    b.total++;
+    if (it.replayable) b.replayable++;
+    if (it.upgradable) b.upgradable++;
+  }
+  return {
+    targetCompat,
+    total: items.length,
+    replayable: items.filter((i) => i.replayable).length,
+    upgradable: items.filter((i) => i.upgradable).length,
+    byCompat,
+  };
+}
@@ -0,0 +1,65 @@
+// src/tournaments/deckLock.v1.ts
+// Tournament deck lock v1
+// Pure functions. No side effects. Callers load the DeckCardVersion lines.
+// - A registration freezes the deck as a DeckSnapshotV1 (lines merged by versionKey, sorted) and its sha256 over
+//   canonical JSON; tournament games compare the live deck against it before setup and before the engine run.
+// - The hash is public from registration on (commitment); the lines themselves are published after the event.
+
+import crypto from "node:crypto";
+
+import { canonicalJsonV1 } from "../contracts/gameplay/v1/CanonicalJsonV1";
+
+export type DeckSnapshotLineV1 = { versionKey: string; qty: number };
+
+export type DeckSnapshotV1 = {
+  snapshotVersion: "DeckSnapshotV1";
+  deckId: string;
+  cards: DeckSnapshotLineV1[];
+};
+
+export type DeckSnapshotDiffV1 = {
+  ok: boolean;
+  added: DeckSnapshotLineV1[];
+  removed: DeckSnapshotLineV1[];
+  changed: Array<{ versionKey: string; lockedQty: number; currentQty: number }>;
+};
+
+export function deckSnapshotV1(deckId: string, lines: Array<{ versionKey: string; qty: number }>): DeckSnapshotV1 {
+  const merged = new Map<string, number>();
+  for (const l of lines) {
+    const qty = Number(l.qty);
+    if (!Number.isInteger(qty) || qty <= 0) continue;
+    merged.set(String(l.versionKey), (merged.get(String(l.versionKey)) ?? 0) + qty);
+  }
+  const cards = [...merged.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([versionKey, qty]) => ({ versionKey, qty }));
+  return { snapshotVersion: "DeckSnapshotV1", deckId, cards };
+}
+
+/** "sha256:<hex>" over the canonical snapshot (deckId included, so equal lists in two decks hash apart). */
+export function deckSnapshotHashV1(snapshot: DeckSnapshotV1): string {
+  return `sha256:${crypto.createHash("sha256").update(canonicalJsonV1(snapshot), "utf8").digest("hex")}`;
+}
+
+export function diffDeckSnapshotsV1(locked: DeckSnapshotV1, current: DeckSnapshotV1): DeckSnapshotDiffV1 {
+  const lockedBy = new Map(locked.cards.map((c) => [c.versionKey, c.qty]));
+  const currentBy = new Map(current.cards.map((c) => [c.versionKey, c.qty]));
+
+  const added = current.cards.filter((c) => !lockedBy.has(c.versionKey));
+  const removed = locked.cards.filter((c) => !currentBy.has(c.versionKey));
+  const changed = locked.cards
+    .filter((c) => currentBy.has(c.versionKey) && currentBy.get(c.versionKey) !== c.qty)
+    .map((c) => ({ versionKey: c.versionKey, lockedQty: c.qty, currentQty: currentBy.get(c.versionKey)! }));
+
+  return { ok: added.length === 0 && removed.length === 0 && changed.length === 0, added, removed, changed };
+}
+
+/** Short human summary for error messages, e.g. "+CARD_A x2, -CARD_B, CARD_C 3->1". */
+export function describeDeckSnapshotDiffV1(diff: DeckSnapshotDiffV1): string {
+  return [
+    ...diff.added.map((c) => `+${c.versionKey} x${c.qty}`),
+    ...diff.removed.map((c) => `-${c.versionKey}`),
+    ...diff.changed.map((c) => `${c.versionKey} ${c.lockedQty}->${c.currentQty}`),
+  ].join(", ");
+}
@@ -0,0 +1,420 @@
+// src/tournaments/liveTournament.v1.ts
+// Live Tournament v1
+// Pure functions. No side effects. Callers inject "now" and the stored rows.
+// - A live tournament is rebuilt as a contracts TournamentV1: registrations are the participants (participantId =
+//   userId, seeded in registration order), scheduleJson is the slot spine, and each tournament Game's stored result
+//   (EngineMatchArtifactV1.matchResultJson, HOME/AWAY by seat) becomes a MatchArtifactV1 receipt under the slot's
+//   matchId, so the Phase 10 derivers read live play unchanged.
+// - Structures: ROUND_ROBIN (circle method), SINGLE_ELIMINATION (bracket spine, byes for top seeds),
+//   DOUBLE_ELIMINATION (buildDoubleEliminationScheduleV1), SWISS (paired one round at a time).
+// - Rounds: a round's playable slots (every entrant resolved, two entrants) become Games when it starts; TBD_<slotId>_WIN
+//   placeholders resolve from earlier results.
+// - A Game that never stores an engine result (no-show, timed out, abandoned) takes an organizer-reported result
+//   instead (TournamentReportedResultV1), so its round can still close.
+
+import { digestInputsV1, hashArtifactV1 } from "../contracts/gameplay/v1/CanonicalJsonV1";
+import {
+  DoubleEliminationDeriverV1,
+  buildDoubleEliminationScheduleV1,
+  type DoubleEliminationBracketSnapshotV1,
+} from "../contracts/gameplay/v1/DoubleEliminationDeriverV1";
+import type { IdString, JSONObject, MatchArtifactV1, MatchResultV1 } from "../contracts/gameplay/v1/MatchArtifactV1";
+import { RoundRobinDeriverV1 } from "../contracts/gameplay/v1/RoundRobinDeriverV1";
+import {
+  SingleEliminationDeriverV1,
+  type SingleEliminationBracketSnapshotV1,
+} from "../contracts/gameplay/v1/SingleEliminationDeriverV1";
+import { SwissDeriverV1 } from "../contracts/gameplay/v1/SwissDeriverV1";
+import type {
+  TournamentDeriverV1,
+  TournamentMatchSlotV1,
+  TournamentStatusV1,
+  TournamentStructureV1,
+  TournamentV1,
+} from "../contracts/gameplay/v1/TournamentV1";
+import { ENGINE_CODE_COMPAT_VERSION } from "../engine/engineCompat.v1";
+
+export const LIVE_TOURNAMENT_STRUCTURES_V1: ReadonlyArray<TournamentStructureV1> = [
+  "ROUND_ROBIN",
+  "SINGLE_ELIMINATION",
+  "DOUBLE_ELIMINATION",
+  "SWISS",
+];
+
+/** Binding every live (Game-backed) tournament is locked to: the in-tree runner at its compat version. */
+export const LIVE_TOURNAMENT_BINDING_V1 = {
+  universeCode: "BOBA",
+  engineCode: "BOBA_GAME_RUNNER",
+  engineVersion: String(ENGINE_CODE_COMPAT_VERSION),
+} as const;
+
+export type LiveTournamentConfigV1 = {
+  /** SWISS only. Default: ceil(log2(players)). */
+  swissRounds?: number;
+  /** DOUBLE_ELIMINATION only. Default true. */
+  grandFinalReset?: boolean;
+  /** Registration cap. Default none. */
+  maxPlayers?: number;
+  /** Start the next round as soon as the current one closes. Default false (organizer starts rounds). */
+  autoStartRounds?: boolean;
+  /** Decks must be fully backed by ownership records (EligibilityPacketV1 gate at registration and setup). Default false. */
+  ownedOnly?: boolean;
+};
+
+export function normalizeLiveTournamentConfigV1(input: any): LiveTournamentConfigV1 {
+  const out: LiveTournamentConfigV1 = {};
+  const posInt = (x: any) => (Number.isInteger(x) && x > 0 ? (x as number) : undefined);
+  if (posInt(input?.swissRounds)) out.swissRounds = input.swissRounds;
+  if (typeof input?.grandFinalReset === "boolean") out.grandFinalReset = input.grandFinalReset;
+  if (posInt(input?.maxPlayers)) out.maxPlayers = input.maxPlayers;
+  if (typeof input?.autoStartRounds === "boolean") out.autoStartRounds = input.autoStartRounds;
+  if (typeof input?.ownedOnly === "boolean") out.ownedOnly = input.ownedOnly;
+  return out;
+}
+
+export function liveTournamentDeriverV1(structure: TournamentStructureV1, config: LiveTournamentConfigV1): TournamentDeriverV1 {
+  switch (structure) {
+    case "ROUND_ROBIN":
+      return new RoundRobinDeriverV1();
+    case "SINGLE_ELIMINATION":
+      return new SingleEliminationDeriverV1();
+    case "DOUBLE_ELIMINATION":
+      return new DoubleEliminationDeriverV1();
+    case "SWISS":
+      return new SwissDeriverV1({ totalRounds: config.swissRounds });
+    default:
+      throw new Error(`TOURNAMENT_STRUCTURE_UNSUPPORTED: ${structure}`);
+  }
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function bracketPosition(i: number) {
+  return String.fromCharCode(65 + (i % 26)) + (i >= 26 ? String(Math.floor(i / 26)) : "");
+}
+
+/** Circle method: n-1 rounds (n rounds when odd; the player facing the phantom sits out). */
+export function roundRobinScheduleV1(tournamentId: IdString, participantIds: IdString[]): TournamentMatchSlotV1[] {
+  const ring: Array<IdString | null> = [...participantIds];
+  if (ring.length % 2 === 1) ring.push(null);
+  const n = ring.length;
+
+  const slots: TournamentMatchSlotV1[] = [];
+  for (let r = 1; r < n; r++) {
+    let table = 0;
+    for (let i = 0; i < n / 2; i++) {
+      const a = ring[i];
+      const b = ring[n - 1 - i];
+      if (!a || !b) continue;
+      table += 1;
+      slots.push({
+        slotId: `R${r}_T${pad(table)}`,
+        round: r,
+        position: `T${pad(table)}`,
+        participantIds: [a, b],
+        matchId: `${tournamentId}_R${r}_T${pad(table)}`,
+      });
+    }
+    // Rotate everyone but the first entry.
+    ring.splice(1, 0, ring.pop()!);
+  }
+  return slots;
+}
+
+/** Bracket spine, seeds in bracket order (1 and 2 only meet in the final); byes go to the top seeds. */
+export function singleEliminationScheduleV1(tournamentId: IdString, participantIds: IdString[]): TournamentMatchSlotV1[] {
+  const k = Math.max(1, Math.ceil(Math.log2(participantIds.length)));
+  const size = 2 ** k;
+
+  let seeds = [1];
+  while (seeds.length < size) {
+    const n = seeds.length * 2;
+    seeds = seeds.flatMap((s) => [s, n + 1 - s]);
+  }
+
+  const slots: TournamentMatchSlotV1[] = [];
+  for (let r = 1; r <= k; r++) {
+    for (let i = 0; i < size / 2 ** r; i++) {
+      const slotId = `R${r}_${bracketPosition(i)}`;
+      const entrants =
+        r === 1
+          ? [seeds[2 * i], seeds[2 * i + 1]].filter((s) => s <= participantIds.length).map((s) => participantIds[s - 1])
+          : [`TBD_R${r - 1}_${bracketPosition(2 * i)}_WIN`, `TBD_R${r - 1}_${bracketPosition(2 * i + 1)}_WIN`];
+      const bye = r === 1 && entrants.length === 1;
+      slots.push({
+        slotId,
+        round: r,
+        position: bracketPosition(i),
+        participantIds: entrants,
+        ...(bye ? {} : { matchId: `${tournamentId}_${slotId}` }),
+        extra: (bye ? { bye: true } : {}) as JSONObject,
+      });
+    }
+  }
+  return slots;
+}
+
+/** Schedule written when the tournament starts (SWISS starts empty and grows per round). */
+export function initialLiveScheduleV1(params: {
+  tournamentId: IdString;
+  structure: TournamentStructureV1;
+  participantIds: IdString[];
+  config: LiveTournamentConfigV1;
+}): TournamentMatchSlotV1[] {
+  const { tournamentId, structure, participantIds, config } = params;
+  if (participantIds.length < 2) throw new Error("TOURNAMENT_NOT_ENOUGH_PLAYERS: need at least 2");
+
+  switch (structure) {
+    case "ROUND_ROBIN":
+      return roundRobinScheduleV1(tournamentId, participantIds);
+    case "SINGLE_ELIMINATION":
+      return singleEliminationScheduleV1(tournamentId, participantIds);
+    case "DOUBLE_ELIMINATION":
+      return buildDoubleEliminationScheduleV1({ tournamentId, participantIds, grandFinalReset: config.grandFinalReset });
+    case "SWISS":
+      return [];
+    default:
+      throw new Error(`TOURNAMENT_STRUCTURE_UNSUPPORTED: ${structure}`);
+  }
+}
+
+export type LiveTournamentRowV1 = {
+  id: string;
+  name: string;
+  structure: TournamentStructureV1;
+  status: TournamentStatusV1;
+  modeCode: string;
+  createdAtIso: string;
+  updatedAtIso: string;
+  schedule: TournamentMatchSlotV1[];
+  meta?: JSONObject;
+};
+
+export function buildLiveTournamentV1(row: LiveTournamentRowV1, registrations: Array<{ userId: string; deckId: string }>): TournamentV1 {
+  return {
+    header: {
+      tournamentVersion: "TournamentV1",
+      tournamentId: row.id,
+      name: row.name,
+      createdAt: row.createdAtIso,
+      updatedAt: row.updatedAtIso,
+      status: row.status,
+      ...LIVE_TOURNAMENT_BINDING_V1,
+      modeCode: row.modeCode,
+      structure: row.structure,
+      meta: row.meta,
+    },
+    participants: registrations.map((r) => ({ participantId: r.userId, label: r.userId, extra: { deckId: r.deckId } })),
+    schedule: row.schedule,
+    artifactIndex: [],
+  };
+}
+
+/**
+ * Game result -> MatchArtifactV1 receipt for the slot. Seat 1 is participantIds[0] (HOME), seat 2 participantIds[1]
+ * (AWAY); anything but HOME/AWAY is a shared first placement (draw).
+ */
+export function gameResultToMatchArtifactV1(params: {
+  tournament: TournamentV1;
+  slot: { matchId: IdString; participantIds: IdString[] };
+  gameId: string;
+  stored: { matchId: string; sessionId: string; createdAtIso: string; matchResultJson: any };
+}): MatchArtifactV1 {
+  const { tournament, slot, gameId, stored } = params;
+  const [home, away] = slot.participantIds;
+  const mr = stored.matchResultJson ?? {};
+  const winner = mr?.result?.winner;
+
+  const header = {
+    artifactVersion: "MatchArtifactV1" as const,
+    universeCode: tournament.header.universeCode,
+    engineCode: tournament.header.engineCode,
+    engineVersion: String(mr.engineCompatVersion ?? tournament.header.engineVersion),
+    modeCode: tournament.header.modeCode,
+    matchId: slot.matchId,
+    startedAt: stored.createdAtIso,
+    completedAt: stored.createdAtIso,
+  };
+  const participants = [
+    { participantId: home, role: "HOME", extra: { seat: 1 } as JSONObject },
+    { participantId: away, role: "AWAY", extra: { seat: 2 } as JSONObject },
+  ];
+  const result = slotResultV1(home, away, winner === "HOME" ? home : winner === "AWAY" ? away : null);
+  if (mr?.result?.winReason) result.extra = { winReason: String(mr.result.winReason) };
+
+  const inputsDigest = digestInputsV1({
+    gameId,
+    sourceMatchId: stored.matchId,
+    homeCompetitorId: mr.homeCompetitorId ?? null,
+    awayCompetitorId: mr.awayCompetitorId ?? null,
+  });
+  const seed = stored.sessionId;
+  const timeline: MatchArtifactV1["timeline"] = [];
+  const deterministicHash = hashArtifactV1({ header, participants, seed, inputsDigest, timeline, result });
+
+  return {
+    header,
+    participants,
+    seed,
+    inputsDigest,
+    timeline,
+    result,
+    deterministicHash,
+    replay: { replayVersion: "EngineMatchArtifactV1", payload: { matchId: stored.matchId } },
+    platformMeta: { gameId, sourceMatchId: stored.matchId },
+  };
+}
+
+function slotResultV1(home: IdString, away: IdString, winnerParticipantId: IdString | null): MatchResultV1 {
+  if (!winnerParticipantId) {
+    return { placements: [{ participantId: home, placement: 1 }, { participantId: away, placement: 1 }], outcomeFlags: ["DRAW"] };
+  }
+  return {
+    winnerParticipantId,
+    placements: [
+      { participantId: winnerParticipantId, placement: 1 },
+      { participantId: winnerParticipantId === home ? away : home, placement: 2 },
+    ],
+  };
+}
+
+/**
+ * Organizer-reported result for a tournament Game that never stored an engine artifact (no-show walkover, timed-out
+ * or abandoned Game). winnerParticipantId null = draw (not decisive for elimination structures).
+ */
+export type TournamentReportedResultV1 = {
+  winnerParticipantId: IdString | null;
+  reason: string;
+  reportedBy: IdString;
+  reportedAtIso: string;
+};
+
+/** Reported result -> MatchArtifactV1 receipt under the slot's matchId (flagged REPORTED, no engine replay). */
+export function reportedResultToMatchArtifactV1(params: {
+  tournament: TournamentV1;
+  slot: { matchId: IdString; participantIds: IdString[] };
+  gameId: string;
+  reported: TournamentReportedResultV1;
+}): MatchArtifactV1 {
+  const { tournament, slot, gameId, reported } = params;
+  const [home, away] = slot.participantIds;
+  if (reported.winnerParticipantId !== null && !slot.participantIds.includes(reported.winnerParticipantId)) {
+    throw new Error(`TOURNAMENT_RESULT_INVALID: ${reported.winnerParticipantId} is not in ${slot.matchId}`);
+  }
+
+  const header = {
+    artifactVersion: "MatchArtifactV1" as const,
+    universeCode: tournament.header.universeCode,
+    engineCode: tournament.header.engineCode,
+    engineVersion: tournament.header.engineVersion,
+    modeCode: tournament.header.modeCode,
+    matchId: slot.matchId,
+    startedAt: reported.reportedAtIso,
+    completedAt: reported.reportedAtIso,
+  };
+  const participants = [
+    { participantId: home, role: "HOME", extra: { seat: 1 } as JSONObject },
+    { participantId: away, role: "AWAY", extra: { seat: 2 } as JSONObject },
+  ];
+  const result = slotResultV1(home, away, reported.winnerParticipantId);
+  result.outcomeFlags = [...(result.outcomeFlags ?? []), "REPORTED"];
+  result.extra = { winReason: reported.reason, reportedBy: reported.reportedBy };
+
+  const inputsDigest = digestInputsV1({ gameId, reported: reported as unknown as JSONObject });
+  const seed = `REPORTED_${gameId}`;
+  const timeline: MatchArtifactV1["timeline"] = [];
+  const deterministicHash = hashArtifactV1({ header, participants, seed, inputsDigest, timeline, result });
+
+  return {
+    header,
+    participants,
+    seed,
+    inputsDigest,
+    timeline,
+    result,
+    deterministicHash,
+    replay: { replayVersion: "TournamentReportedResultV1", payload: { gameId } },
+    platformMeta: { gameId, reported: true },
+  };
+}
+
+const PLACEHOLDER = /^TBD_(.+)_(WIN|LOSE)$/;
+
+export type LiveRoundSlotV1 = { slotId: IdString; round: number; matchId: IdString; participantIds: IdString[] };
+
+/**
+ * Slots of `round` that need a Game (both entrants known). `unresolved` lists slots still waiting on an earlier
+ * result (an undecided elimination match). Walkovers/byes need no Game and are not listed.
+ */
+export function roundSlotsV1(params: {
+  tournament: TournamentV1;
+  artifacts: MatchArtifactV1[];
+  deriver: TournamentDeriverV1;
+  round: number;
+}): { playable: LiveRoundSlotV1[]; unresolved: IdString[] } {
+  const { tournament, artifacts, deriver, round } = params;
+  const playable: LiveRoundSlotV1[] = [];
+  const unresolved: IdString[] = [];
+
+  if (tournament.header.structure === "DOUBLE_ELIMINATION") {
+    const view = deriver.deriveProgress({ tournament, artifacts }).view as unknown as DoubleEliminationBracketSnapshotV1;
+    for (const s of view.rounds.find((r) => r.round === round)?.slots ?? []) {
+      if (s.status === "READY" && s.matchId) playable.push({ slotId: s.slotId, round, matchId: s.matchId, participantIds: s.participantIds });
+      else if (s.status === "PENDING" || s.status === "UNDECIDED") unresolved.push(s.slotId);
+    }
+    return { playable, unresolved };
+  }
+
+  // Winners by slot for TBD_<slotId>_WIN (single-elim); other structures schedule concrete entrants.
+  const winners = new Map<IdString, IdString | null>();
+  if (tournament.header.structure === "SINGLE_ELIMINATION") {
+    const view = deriver.deriveProgress({ tournament, artifacts }).view as unknown as SingleEliminationBracketSnapshotV1;
+    for (const r of view.rounds) {
+      for (const s of r.slots) {
+        const bye = s.participantIds.length === 1 && !PLACEHOLDER.test(s.participantIds[0]);
+        winners.set(s.slotId, bye ? s.participantIds[0] : (s.winnerParticipantId ?? null));
+      }
+    }
+  }
+
+  for (const slot of tournament.schedule ?? []) {
+    if (slot.round !== round || !slot.matchId) continue;
+    const entrants = slot.participantIds.map((id) => {
+      const m = PLACEHOLDER.exec(id);
+      return m && m[2] === "WIN" ? (winners.get(m[1]) ?? null) : m ? null : id;
+    });
+    if (entrants.some((e) => !e) || entrants.length !== 2) {
+      unresolved.push(slot.slotId);
+      continue;
+    }
+    playable.push({ slotId: slot.slotId, round, matchId: slot.matchId, participantIds: entrants as IdString[] });
+  }
+  return { playable, unresolved };
+}
+
+/** Last round the schedule can reach (SWISS: the configured/derived round count). */
+export function lastRoundV1(tournament: TournamentV1, config: LiveTournamentConfigV1): number {
+  if (tournament.header.structure === "SWISS") return new SwissDeriverV1({ totalRounds: config.swissRounds }).totalRounds(tournament);
+  return Math.max(0, ...(tournament.schedule ?? []).map((s) => s.round));
+}
+
+/**
+ * ROUND_ROBIN: every scheduled match has a receipt (its deriver does not declare completion).
+ * Everything else: the deriver's progress says COMPLETED.
+ */
+export function isLiveTournamentCompleteV1(tournament: TournamentV1, artifacts: MatchArtifactV1[], deriver: TournamentDeriverV1): boolean {
+  if (tournament.header.structure === "ROUND_ROBIN") {
+    const have = new Set(artifacts.map((a) => a.header.matchId));
+    const planned = (tournament.schedule ?? []).map((s) => s.matchId).filter((m): m is string => Boolean(m));
+    return planned.length > 0 && planned.every((m) => have.has(m));
+  }
+  return deriver.deriveProgress({ tournament, artifacts }).status === "COMPLETED";
+}
+
+/** Elimination structures need a winner: a drawn receipt cannot advance anyone (TOURNAMENT_ROUND_UNDECIDED). */
+export function isDecisiveForStructureV1(structure: TournamentStructureV1, artifact: MatchArtifactV1): boolean {
+  if (structure !== "SINGLE_ELIMINATION" && structure !== "DOUBLE_ELIMINATION") return true;
+  return Boolean(artifact.result.winnerParticipantId);
+}